@@ -1,19 +1,85 @@
 #!/usr/bin/env node
 
-import { type ChildProcess, execSync, spawn } from "child_process";
+import { execSync } from "child_process";
 import { program } from "commander";
 import { config } from "dotenv";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { dirname, join, resolve } from "path";
 import { fileURLToPath } from "url";
 import { ClaudeFormatter } from "./lib/claude-formatter";
 import { GitHubAppAuth } from "./lib/github-app-auth";
+import type { EstimationSpread, IssueOutcome, IssueTracker } from "./lib/issue-tracker";
+import { IssueTrackerRegistry } from "./lib/issue-tracker-registry";
 import { JiraClient } from "./lib/jira-client";
 import { LockManager } from "./lib/lock-manager";
 import { PRManager } from "./lib/pr-client";
 import { Utils } from "./lib/utils";
 import { runClaudeToFixGitHook } from "./lib/git-hook-fixer";
 import { runAutoReviewLoop } from "./lib/auto-review-loop";
+import { isReviewPublishingEnabled, publishAutoReviewResult } from "./lib/review-publisher";
+import type { AutoReviewLoopResult } from "./types/auto-review";
+import { findPlanOutput } from "./lib/agent-event-log";
+import { createAgentRunner, getAgentTimeoutMinutes, type AgentRunner } from "./lib/agent-runner";
+import {
+  checkBudget,
+  getUsageLedger,
+  notifyBudgetExceeded,
+  type AgentRunAccounting,
+} from "./lib/usage-ledger";
+import {
+  RUN_OUTCOMES,
+  formatRunDetails,
+  formatRunList,
+  formatRunStats,
+  getRunHistory,
+  parseSince,
+  type RunHistoryFilter,
+  type RunMode,
+  type RunOutcome,
+  type TaskRunUpdate,
+} from "./lib/run-history";
+import { formatConcurrentSummary, runTasksConcurrently } from "./lib/concurrent-tasks";
+import {
+  compareEstimates,
+  formatEstimateReport,
+  getPullRequestSize,
+  loadReferenceTasks,
+  type PullRequestSize,
+  type ReferenceTask,
+} from "./lib/estimation-calibration";
+import {
+  combineEstimationSamples,
+  formatPersonaPrompt,
+  formatSpreadSamples,
+  getSamplePersonas,
+  parseEstimationPersonas,
+} from "./lib/estimation-consensus";
+import {
+  createEstimatedRow,
+  createUnestimatedRow,
+  getReportFormat,
+  writeEstimationReport,
+  type EstimationReportRow,
+} from "./lib/estimation-report";
+import { linkStackPullRequests, loadStackTasks, type StackEntry } from "./lib/task-stack";
+import {
+  findClarificationAnswers,
+  formatClarificationAnswers,
+  getClarificationQuestions,
+  getClarificationStore,
+} from "./lib/clarifications";
+import {
+  clearResumeState,
+  commitWorkInProgress,
+  getResumeStatePath,
+  loadResumeState,
+  restoreWorkInProgress,
+  saveResumeState,
+  type ResumeReason,
+  type ResumeState,
+} from "./lib/resume-state";
+import type { AgentRunLog } from "./types/agent-events";
+import type { JiraIssue } from "./types/jira";
 import type { ProjectSettings } from "./types/settings";
 
 // Version is injected at build time via --define flag, or read from package.json in dev
@@ -29,6 +95,7 @@ interface ProgramOptions {
   claudePath: string;
   envFile?: string;
   git: boolean;
+  pull: boolean;
   verbose: boolean;
   maxTurns: string;
   autoCommit: boolean;
@@ -38,9 +105,16 @@ interface ProgramOptions {
   autoReview: boolean; // New option to run automatic PR review loop
   autoReviewIterations: string; // Max iterations for auto-review loop
   jql?: string; // JQL query for batch processing
+  ghQuery?: string; // GitHub issue search query for batch processing
   skipJiraComments: boolean; // New option to skip posting comments to JIRA
   hookRetries: string; // Number of retries for git hook failures
   estimate: boolean; // Run in estimation mode to add story points
+  calibrate: boolean; // Include similar completed tasks as estimation references
+  estimateSamples?: string; // Number of estimation samples combined into a consensus
+  estimatePersonas?: string; // Comma-separated personas the samples estimate as
+  report?: string; // File to write the estimation report to (.csv, .md or .json)
+  concurrency: string; // Number of tasks processed at once in separate worktrees
+  stack: boolean; // Implement the sub-tasks of an epic or parent as stacked PRs
 }
 
 interface ClarityAssessment {
@@ -63,6 +137,7 @@ interface EstimationResult {
   risks: string[];
   unclearAreas: string[];
   summary: string;
+  spread?: EstimationSpread; // Individual estimates when sampled several times
 }
 
 // Initialize project-specific configuration folder
@@ -117,6 +192,13 @@ JIRA_API_TOKEN=your-api-token-here
 # Option 2: If your token already includes email, use format: email@company.com:api-token
 # JIRA_API_TOKEN=your-email@company.com:your-api-token-here
 
+# Optional: Linear Configuration
+# Personal API key for Linear teams (e.g., ENG-42)
+# Create one at: https://linear.app/settings/api
+# Set "tracker": "linear" for the team key in .claude-intern/settings.json,
+# or leave the JIRA_* variables unset to use Linear for every task
+# LINEAR_API_KEY=lin_api_your-key-here
+
 # Optional: Claude CLI Configuration
 # Path to Claude CLI executable (defaults to 'claude' if not specified)
 CLAUDE_CLI_PATH=claude
@@ -124,10 +206,24 @@ CLAUDE_CLI_PATH=claude
 # Note: Claude will be run with --dangerously-skip-permissions and --max-turns 10
 # This allows for elevated permissions and extended conversations for complex tasks
 
+# Optional: Use a different coding agent CLI instead of Claude
+# The prompt is sent on stdin unless the template uses {prompt} or {promptFile};
+# {maxTurns} and {cwd} are also substituted
+# AGENT_COMMAND=codex exec --full-auto
+
 # Optional: Output Directory Configuration
 # Base directory for saving task-related files (defaults to /tmp/claude-intern-tasks)
 # CLAUDE_INTERN_OUTPUT_DIR=/tmp/claude-intern-tasks
 
+# Optional: Usage ledger for cost budgets (defaults to usage.db in the output directory)
+# CLAUDE_INTERN_USAGE_DB=/var/lib/claude-intern/usage.db
+
+# Optional: Run history for claude-intern history (defaults to history.db in the output directory)
+# CLAUDE_INTERN_HISTORY_DB=/var/lib/claude-intern/history.db
+
+# Optional: Clarification questions waiting for answers (defaults to clarifications.db in the output directory)
+# CLAUDE_INTERN_CLARIFICATIONS_DB=/var/lib/claude-intern/clarifications.db
+
 # Optional: Enable verbose logging by default
 # VERBOSE=true
 
@@ -138,6 +234,7 @@ CLAUDE_CLI_PATH=claude
 # Required permissions:
 #   - Classic token: 'repo' scope (or 'public_repo' for public repos only)
 #   - Fine-grained token (recommended): 'Pull requests: Read and write' + 'Contents: Read'
+#     (add 'Issues: Read and write' to use GitHub Issues task keys like owner/repo#123)
 # GITHUB_TOKEN=your-github-token-here
 #
 # Option 2: GitHub App Authentication (for organizations)
@@ -164,6 +261,14 @@ CLAUDE_CLI_PATH=claude
 # BITBUCKET_TOKEN=your-bitbucket-app-password-here
 
 # Note: Bitbucket workspace is automatically detected from your git remote URL
+
+# GitLab personal/project access token for creating merge requests
+# Create at: https://gitlab.com/-/user_settings/personal_access_tokens (or your instance)
+# Required scope: 'api'
+# GITLAB_TOKEN=your-gitlab-token-here
+#
+# Self-hosted GitLab base URL (only needed if the host name does not contain "gitlab")
+# GITLAB_BASE_URL=https://git.yourcompany.com
 `;
 
   try {
@@ -266,24 +371,6 @@ CLAUDE_CLI_PATH=claude
   console.log("   3. Run 'claude-intern <TASK-KEY>' to start working on tasks");
 }
 
-// Load project settings from .claude-intern/settings.json
-function loadProjectSettings(): ProjectSettings | null {
-  const settingsPath = resolve(process.cwd(), ".claude-intern", "settings.json");
-
-  if (!existsSync(settingsPath)) {
-    return null;
-  }
-
-  try {
-    const settingsContent = readFileSync(settingsPath, "utf8");
-    const settings = JSON.parse(settingsContent) as ProjectSettings;
-    return settings;
-  } catch (error) {
-    console.warn(`⚠️  Failed to parse settings.json: ${error}`);
-    return null;
-  }
-}
-
 // Get PR status for a specific project key
 function getPrStatusForProject(projectKey: string, settings: ProjectSettings | null): string | undefined {
   // Check settings.json for project-specific configuration
@@ -300,11 +387,83 @@ function getTodoStatusForProject(projectKey: string, settings: ProjectSettings |
   return settings?.projects?.[projectKey]?.todoStatus;
 }
 
+// Get Needs Info status for a specific project key
+function getNeedsInfoStatusForProject(projectKey: string, settings: ProjectSettings | null): string | undefined {
+  return settings?.projects?.[projectKey]?.needsInfoStatus;
+}
+
 // Get story points field override for a specific project key
 function getStoryPointsFieldForProject(projectKey: string, settings: ProjectSettings | null): string | undefined {
   return settings?.projects?.[projectKey]?.storyPointsField;
 }
 
+// Create the issue tracker that owns a task key (JIRA, Linear, ...)
+function createIssueTracker(taskKey: string, settings: ProjectSettings | null = Utils.loadProjectSettings()): IssueTracker {
+  return IssueTrackerRegistry.forTask(taskKey, settings);
+}
+
+// Run history entries of tasks being processed, keyed by task key
+const activeRuns = new Map<string, number>();
+
+// Start a run history entry for a task
+function startRun(taskKey: string, mode: RunMode): void {
+  try {
+    activeRuns.set(taskKey, getRunHistory().start(taskKey, mode));
+  } catch (error) {
+    console.warn(`⚠️  Failed to record run history: ${(error as Error).message}`);
+  }
+}
+
+// Update the run history entry of a task in progress
+function updateRun(taskKey: string | undefined, fields: TaskRunUpdate): void {
+  const runId = taskKey ? activeRuns.get(taskKey) : undefined;
+  if (runId === undefined) {
+    return;
+  }
+  try {
+    getRunHistory().update(runId, fields);
+  } catch (error) {
+    console.warn(`⚠️  Failed to update run history: ${(error as Error).message}`);
+  }
+}
+
+// Add the current HEAD commit to the run history entry of a task
+async function recordRunCommit(taskKey: string | undefined): Promise<void> {
+  const runId = taskKey ? activeRuns.get(taskKey) : undefined;
+  if (runId === undefined) {
+    return;
+  }
+  const head = await Utils.executeGitCommand(["rev-parse", "HEAD"]);
+  if (head.success && head.output) {
+    try {
+      getRunHistory().addCommit(runId, head.output);
+    } catch (error) {
+      console.warn(`⚠️  Failed to record run commit: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Record the outcome of a task's run; the first outcome recorded wins
+function finishRun(taskKey: string | undefined, outcome: RunOutcome, message?: string): void {
+  const runId = taskKey ? activeRuns.get(taskKey) : undefined;
+  if (runId === undefined) {
+    return;
+  }
+  activeRuns.delete(taskKey as string);
+  try {
+    getRunHistory().finish(runId, outcome, message);
+  } catch (error) {
+    console.warn(`⚠️  Failed to record run outcome: ${(error as Error).message}`);
+  }
+}
+
+// Mark all runs in progress as failed (process is exiting)
+function finishActiveRuns(message: string): void {
+  for (const taskKey of [...activeRuns.keys()]) {
+    finishRun(taskKey, "failed", message);
+  }
+}
+
 // Load environment variables from multiple possible locations
 function loadEnvironment(envFile?: string): void {
   // If user specified a custom env file, use that first
@@ -386,7 +545,12 @@ if (process.argv[2] === "init") {
         console.log("  WEBHOOK_HOST        Host to bind to (default: 0.0.0.0)");
         console.log("  WEBHOOK_AUTO_REPLY  Set to 'true' to automatically reply to review comments");
         console.log("  WEBHOOK_VALIDATE_IP Set to 'true' to only accept requests from GitHub IPs");
+        console.log("  WEBHOOK_AUTO_REBASE Set to 'true' to rebase open PRs when their base branch is pushed to");
+        console.log("  WEBHOOK_CI_FIX      Set to 'true' to fix failed CI checks on PRs opened by the bot");
+        console.log("  WEBHOOK_CI_FIX_LABEL Label that enables CI fixes on other PRs");
         console.log("  WEBHOOK_DEBUG       Set to 'true' for verbose logging");
+        console.log("  GITLAB_WEBHOOK_TOKEN Secret token for GitLab webhooks (default: WEBHOOK_SECRET)");
+        console.log("  JIRA_WEBHOOK_SECRET Shared secret enabling JIRA task triggers on /webhooks/jira");
         console.log("");
         console.log("See docs/WEBHOOK-DEPLOYMENT.md for deployment instructions.");
         process.exit(0);
@@ -457,6 +621,267 @@ if (process.argv[2] === "init") {
       process.exit(1);
     }
   })();
+} else if (process.argv[2] === "rebase") {
+  // Handle rebase command - rebase a PR onto its moved base branch
+  (async () => {
+    loadEnvironment();
+
+    const args = process.argv.slice(3);
+    let prUrl: string | undefined;
+    let noPush = false;
+    let noComment = false;
+    let verbose = false;
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === "--no-push") {
+        noPush = true;
+      } else if (args[i] === "--no-comment") {
+        noComment = true;
+      } else if (args[i] === "-v" || args[i] === "--verbose") {
+        verbose = true;
+      } else if (args[i] === "--help" || args[i] === "-h") {
+        console.log("Usage: claude-intern rebase <pr-url> [options]");
+        console.log("");
+        console.log("Rebase a PR onto the latest base branch, resolving conflicts with Claude");
+        console.log("");
+        console.log("Arguments:");
+        console.log("  pr-url         GitHub PR URL (e.g., https://github.com/owner/repo/pull/123)");
+        console.log("");
+        console.log("Options:");
+        console.log("  --no-push      Don't force-push the rebased branch");
+        console.log("  --no-comment   Don't post a comment explaining the rebase on the PR");
+        console.log("  -v, --verbose  Enable verbose logging");
+        console.log("  -h, --help     Display this help message");
+        console.log("");
+        console.log("Examples:");
+        console.log("  claude-intern rebase https://github.com/owner/repo/pull/123");
+        console.log("  claude-intern rebase https://github.com/owner/repo/pull/123 --no-push");
+        process.exit(0);
+      } else if (!args[i].startsWith("-")) {
+        prUrl = args[i];
+      }
+    }
+
+    if (!prUrl) {
+      console.error("❌ Error: PR URL is required");
+      console.error("");
+      console.error("Usage: claude-intern rebase <pr-url>");
+      console.error("Run 'claude-intern rebase --help' for more information.");
+      process.exit(1);
+    }
+
+    const { rebasePR } = await import("./lib/rebase-pr");
+    try {
+      const result = await rebasePR(prUrl, { noPush, noComment, verbose });
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  })();
+} else if (process.argv[2] === "history") {
+  // Handle history command - list and inspect past runs
+  (async () => {
+    loadEnvironment();
+
+    const args = process.argv.slice(3);
+    const filter: RunHistoryFilter = {};
+    let showId: number | undefined;
+    let json = false;
+
+    try {
+      for (let i = 0; i < args.length; i++) {
+        if (args[i] === "show" && args[i + 1]) {
+          showId = parseInt(args[i + 1], 10);
+          i++;
+        } else if (args[i] === "--outcome" && args[i + 1]) {
+          if (!RUN_OUTCOMES.includes(args[i + 1] as RunOutcome)) {
+            throw new Error(`Unknown outcome: ${args[i + 1]} (expected one of ${RUN_OUTCOMES.join(", ")})`);
+          }
+          filter.outcome = args[i + 1] as RunOutcome;
+          i++;
+        } else if (args[i] === "--mode" && args[i + 1]) {
+          if (args[i + 1] !== "implement" && args[i + 1] !== "estimate") {
+            throw new Error(`Unknown mode: ${args[i + 1]} (expected implement or estimate)`);
+          }
+          filter.mode = args[i + 1] as RunMode;
+          i++;
+        } else if (args[i] === "--since" && args[i + 1]) {
+          filter.since = parseSince(args[i + 1]);
+          i++;
+        } else if (args[i] === "--limit" && args[i + 1]) {
+          filter.limit = parseInt(args[i + 1], 10);
+          i++;
+        } else if (args[i] === "--json") {
+          json = true;
+        } else if (args[i] === "--help" || args[i] === "-h") {
+          console.log("Usage: claude-intern history [task-key] [options]");
+          console.log("       claude-intern history show <run-id>");
+          console.log("");
+          console.log("List past task runs with their outcome, branch, PR and Claude turns");
+          console.log("");
+          console.log("Options:");
+          console.log(`  --outcome <outcome>  Only runs with this outcome (${RUN_OUTCOMES.join(", ")})`);
+          console.log("  --mode <mode>        Only implement or estimate runs");
+          console.log("  --since <when>       Only runs started since a duration (7d, 12h, 2w) or date (2026-03-01)");
+          console.log("  --limit <n>          Number of runs to list (default: 20)");
+          console.log("  --json               Print runs as JSON");
+          console.log("  -h, --help           Display this help message");
+          console.log("");
+          console.log("Examples:");
+          console.log("  claude-intern history --since 7d");
+          console.log("  claude-intern history PROJ-123");
+          console.log("  claude-intern history --outcome hook-failed --since 2026-03-01");
+          console.log("  claude-intern history show 42");
+          process.exit(0);
+        } else if (!args[i].startsWith("-")) {
+          filter.taskKey = args[i];
+        }
+      }
+
+      const history = getRunHistory();
+
+      if (showId !== undefined) {
+        const run = history.get(showId);
+        if (!run) {
+          throw new Error(`Run #${showId} not found`);
+        }
+        console.log(json ? JSON.stringify(run, null, 2) : formatRunDetails(run));
+        process.exit(0);
+      }
+
+      const runs = history.list(filter);
+      if (json) {
+        console.log(JSON.stringify(runs, null, 2));
+      } else {
+        console.log(formatRunList(runs));
+        console.log("");
+        console.log(formatRunStats(history.getStats(filter)));
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  })();
+} else if (process.argv[2] === "estimate") {
+  // Handle estimate command - compare past AI estimates with actual outcomes
+  (async () => {
+    loadEnvironment();
+
+    const args = process.argv.slice(3);
+    let report = false;
+    let since: number | undefined;
+    let json = false;
+
+    try {
+      for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--report") {
+          report = true;
+        } else if (args[i] === "--since" && args[i + 1]) {
+          since = parseSince(args[i + 1]);
+          i++;
+        } else if (args[i] === "--json") {
+          json = true;
+        } else if (args[i] === "--help" || args[i] === "-h") {
+          console.log("Usage: claude-intern estimate --report [options]");
+          console.log("");
+          console.log("Compare past AI story point estimates with the actual outcome of each task:");
+          console.log("final story points, days in progress and the size of the linked PRs");
+          console.log("");
+          console.log("Options:");
+          console.log("  --report            Show the estimate report");
+          console.log("  --since <when>      Only estimates made since a duration (30d, 8w) or date (2026-01-01)");
+          console.log("  --json              Print the comparisons as JSON");
+          console.log("  -h, --help          Display this help message");
+          console.log("");
+          console.log("To estimate tasks, use: claude-intern --estimate PROJ-123 [--calibrate]");
+          process.exit(0);
+        }
+      }
+
+      if (!report) {
+        throw new Error("Missing --report. To estimate tasks, use: claude-intern --estimate PROJ-123");
+      }
+
+      const history = getRunHistory();
+      const runs = history.list({ mode: "estimate", outcome: "estimated", since, limit: 10000 });
+      const taskKeys = [...new Set(runs.filter((run) => run.storyPoints !== null).map((run) => run.taskKey))];
+      console.log(`🔍 Looking up outcomes of ${taskKeys.length} estimated task(s)...`);
+
+      // One lookup per project
+      const byProject = new Map<string, string[]>();
+      for (const taskKey of taskKeys) {
+        const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+        byProject.set(projectKey, [...(byProject.get(projectKey) ?? []), taskKey]);
+      }
+
+      const projectSettings = Utils.loadProjectSettings();
+      const outcomes: IssueOutcome[] = [];
+      const prSizes = new Map<string, PullRequestSize | null>();
+      for (const [projectKey, keys] of byProject) {
+        const issueTracker = createIssueTracker(keys[0], projectSettings);
+        if (!issueTracker.getIssueOutcomes) {
+          console.warn(`⚠️  Skipping ${projectKey}: its issue tracker doesn't provide outcomes`);
+          continue;
+        }
+
+        const projectOutcomes = await issueTracker.getIssueOutcomes({
+          issueKeys: keys,
+          storyPointsField: getStoryPointsFieldForProject(projectKey, projectSettings),
+        });
+        for (const outcome of projectOutcomes) {
+          if (outcome.done) {
+            // PRs created by claude-intern may not be linked in the tracker
+            const prUrls = history
+              .list({ taskKey: outcome.key, mode: "implement" })
+              .flatMap((run) => (run.prUrl ? [run.prUrl] : []));
+            prSizes.set(outcome.key, await getPullRequestSize([...outcome.pullRequests, ...prUrls]));
+          }
+        }
+        outcomes.push(...projectOutcomes);
+      }
+
+      const comparisons = compareEstimates(runs, outcomes, prSizes);
+      console.log(json ? JSON.stringify(comparisons, null, 2) : `\n${formatEstimateReport(comparisons)}`);
+      process.exit(0);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  })();
+} else if (process.argv[2] === "resume" && (process.argv.includes("--help") || process.argv.includes("-h"))) {
+  console.log("Usage: claude-intern resume <task-key> [options]");
+  console.log("");
+  console.log("Continue an implementation run that reached --max-turns or CLAUDE_TIMEOUT_MINUTES.");
+  console.log("The Claude session and the work so far on the feature branch are picked up again,");
+  console.log("then the run commits, pushes, creates the PR and transitions the task as usual.");
+  console.log("");
+  console.log("Options:");
+  console.log("  --max-turns <number>  Number of additional turns (default: 25)");
+  console.log("  --create-pr           Create a pull request even if the interrupted run didn't");
+  console.log("  --auto-review         Run the auto-review loop after creating the PR");
+  console.log("  -v, --verbose         Verbose output");
+  console.log("  -h, --help            Display this help message");
+  console.log("");
+  console.log("Examples:");
+  console.log("  claude-intern resume PROJ-123");
+  console.log("  claude-intern resume PROJ-123 --max-turns 50");
+  process.exit(0);
+} else if (process.argv[2] === "check-answers" && (process.argv.includes("--help") || process.argv.includes("-h"))) {
+  console.log("Usage: claude-intern check-answers [options]");
+  console.log("");
+  console.log("Check tasks waiting for answers to feasibility questions. Tasks with new comments");
+  console.log("are assessed again with the answers included and implemented if they are clear now.");
+  console.log("");
+  console.log("Accepts the regular task options, e.g. --create-pr, --max-turns and --concurrency.");
+  console.log("");
+  console.log("Examples:");
+  console.log("  claude-intern check-answers --create-pr");
+  console.log("  */15 * * * * cd /path/to/project && claude-intern check-answers --create-pr");
+  process.exit(0);
 } else {
   // Load environment variables early (before CLI parsing)
   loadEnvironment();
@@ -536,6 +961,10 @@ program
     "--jql <query>",
     "JQL query to fetch multiple issues (e.g., \"project = PROJ AND status = 'To Do'\")"
   )
+  .option(
+    "--gh-query <query>",
+    "GitHub issue search query to fetch multiple issues (e.g., \"label:claude is:open\")"
+  )
   .option("--no-claude", "Skip running Claude, just fetch and format the task")
   .option(
     "--claude-path <path>",
@@ -544,6 +973,7 @@ program
   )
   .option("--env-file <path>", "Path to .env file")
   .option("--no-git", "Skip git branch creation")
+  .option("--no-pull", "Skip pulling the latest target branch before processing")
   .option("-v, --verbose", "Verbose output")
   .option("--max-turns <number>", "Maximum number of turns for Claude", "25")
   .option(
@@ -578,11 +1008,41 @@ program
   .option(
     "--estimate",
     "Run in estimation mode to add story points estimates to JIRA tasks"
+  )
+  .option(
+    "--calibrate",
+    "With --estimate, show Claude similar completed tasks with their actual effort as reference"
+  )
+  .option(
+    "--estimate-samples <number>",
+    "With --estimate, estimate each task N times and combine the samples (planning poker)"
+  )
+  .option(
+    "--estimate-personas <list>",
+    "With --estimate, comma-separated personas the samples estimate as (e.g. frontend,backend,qa)"
+  )
+  .option(
+    "--report <file>",
+    "With --estimate, write a per-task report with totals per epic and component (.csv, .md or .json)"
+  )
+  .option(
+    "--concurrency <number>",
+    "Number of tasks to process at once, each in its own git worktree",
+    "1"
+  )
+  .option(
+    "--stack",
+    "Implement the sub-tasks of the given epic or parent issue in dependency order as stacked pull requests"
   );
 
 // Only parse with Commander if we're not running a subcommand
-const isSubcommand = ['init', 'serve', 'address-review'].includes(process.argv[2]);
-if (!isSubcommand) {
+const isSubcommand = ['init', 'serve', 'address-review', 'rebase', 'history', 'estimate'].includes(process.argv[2]);
+// `resume <task-key>` and `check-answers` accept the regular task options
+const isResume = process.argv[2] === "resume";
+const isCheckAnswers = process.argv[2] === "check-answers";
+if (isResume || isCheckAnswers) {
+  program.parse([process.argv[0], process.argv[1], ...process.argv.slice(3)]);
+} else if (!isSubcommand) {
   program.parse();
 }
 
@@ -615,7 +1075,8 @@ function validateEnvironment(): void {
   const required = ["JIRA_BASE_URL", "JIRA_EMAIL", "JIRA_API_TOKEN"];
   const missing = required.filter((key) => !process.env[key]);
 
-  if (missing.length > 0) {
+  // Setups using only another tracker (e.g., Linear) don't need JIRA credentials
+  if (missing.length > 0 && !IssueTrackerRegistry.hasConfiguredTracker()) {
     console.error("❌ Missing required environment variables:");
     missing.forEach((key) => console.error(`   - ${key}`));
     console.error(
@@ -633,36 +1094,114 @@ function validateEnvironment(): void {
   }
 }
 
+/**
+ * CLI arguments for processing a single task with the current options in a child process.
+ */
+function buildTaskArgs(taskKey: string): string[] {
+  const args = [
+    taskKey,
+    "--claude-path",
+    resolvedClaudePath,
+    "--max-turns",
+    options.maxTurns,
+    "--pr-target-branch",
+    options.prTargetBranch,
+    "--auto-review-iterations",
+    options.autoReviewIterations,
+    "--hook-retries",
+    options.hookRetries,
+  ];
+
+  // Child processes run in their worktree, so relative paths must be resolved here
+  if (options.envFile) args.push("--env-file", resolve(options.envFile));
+  if (options.verbose) args.push("--verbose");
+  if (!options.autoCommit) args.push("--no-auto-commit");
+  // The worktree starts from the target branch this run already pulled, which stays
+  // checked out here and can't be checked out in the worktree
+  args.push("--no-pull");
+  if (options.skipClarityCheck) args.push("--skip-clarity-check");
+  if (options.createPr) args.push("--create-pr");
+  if (options.autoReview) args.push("--auto-review");
+  if (options.skipJiraComments) args.push("--skip-jira-comments");
+
+  return args;
+}
+
+/**
+ * Get GitHub App author info for commits if configured.
+ */
+async function getGitAuthor(
+  enableGit: boolean
+): Promise<{ name: string; email: string } | undefined> {
+  if (!enableGit || process.env.GITHUB_TOKEN) {
+    return undefined;
+  }
+
+  const githubAppAuth = GitHubAppAuth.fromEnvironment();
+  if (!githubAppAuth) {
+    return undefined;
+  }
+
+  try {
+    const gitAuthor = await githubAppAuth.getGitAuthor();
+    console.log(`🤖 Commits will be authored by: ${gitAuthor.name}`);
+    return gitAuthor;
+  } catch (error) {
+    console.warn(`⚠️  Could not get GitHub App author info: ${(error as Error).message}`);
+    console.log("   Commits will use local git config instead.");
+    return undefined;
+  }
+}
+
 // Function to process a single task
 async function processSingleTask(
   taskKey: string,
   taskIndex = 0,
-  totalTasks = 1
+  totalTasks = 1,
+  stackBase?: string
 ): Promise<void> {
   try {
     const taskPrefix =
       totalTasks > 1 ? `[${taskIndex + 1}/${totalTasks}] ` : "";
-    console.log(`${taskPrefix}🔍 Fetching JIRA task: ${taskKey}`);
+    console.log(`${taskPrefix}🔍 Fetching task: ${taskKey}`);
 
     // Validate environment
     validateEnvironment();
 
-    // Initialize JIRA client
-    const jiraClient = new JiraClient(
-      process.env.JIRA_BASE_URL!,
-      process.env.JIRA_EMAIL!,
-      process.env.JIRA_API_TOKEN!
-    );
+    // Initialize issue tracker client (JIRA or Linear)
+    const issueTracker = createIssueTracker(taskKey);
 
     // Fetch task details
     if (options.verbose) {
       console.log("📥 Fetching issue details...");
     }
-    const issue = await jiraClient.getIssue(taskKey);
+    const issue = await issueTracker.getIssue(taskKey);
 
     // Load project settings to get status transitions
-    const projectSettings = loadProjectSettings();
-    const projectKey = taskKey.split('-')[0];
+    const projectSettings = Utils.loadProjectSettings();
+    const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+
+    // Refuse to start when the task or project budget is already exhausted
+    if (options.claude) {
+      const budgetReason = checkBudget(getUsageLedger(), taskKey, projectSettings);
+      if (budgetReason) {
+        console.log(`\n💸 Skipping ${taskKey} - budget exhausted`);
+        console.log(`   ${budgetReason}`);
+        console.log();
+
+        if (!options.skipJiraComments) {
+          await notifyBudgetExceeded(taskKey, budgetReason, projectSettings);
+        }
+
+        if (totalTasks > 1) {
+          return;
+        }
+        if (lockManager) {
+          lockManager.release();
+        }
+        process.exit(0);
+      }
+    }
 
     // Check if incomplete implementation comment exists with unchanged description
     // If so, skip processing to avoid redundant work
@@ -673,7 +1212,7 @@ async function processSingleTask(
       const { JiraExtractor } = await import("./lib/jira-extractor");
       const descriptionText = JiraExtractor.extractTextFromADF(issue.fields?.description);
 
-      const hasDuplicate = await jiraClient.hasIncompleteImplementationComment(
+      const hasDuplicate = await issueTracker.hasIncompleteImplementationComment(
         taskKey,
         descriptionText
       );
@@ -697,25 +1236,29 @@ async function processSingleTask(
       }
     }
 
+    if (options.claude) {
+      startRun(taskKey, "implement");
+    }
+
     if (options.verbose) {
       console.log("💬 Fetching comments...");
     }
     console.log("💬 Fetching comments...");
-    const comments = await jiraClient.getIssueComments(taskKey);
+    const comments = await issueTracker.getIssueComments(taskKey);
     console.log(`✅ Successfully fetched ${comments.length} comments`);
 
     if (options.verbose) {
       console.log("🔗 Extracting linked resources...");
     }
     console.log("🔗 Extracting linked resources...");
-    const linkedResources = jiraClient.extractLinkedResources(issue);
+    const linkedResources = issueTracker.extractLinkedResources(issue);
     console.log(
       `✅ Successfully extracted ${linkedResources.length} linked resources`
     );
 
     // Fetch detailed related work items
     console.log("🔗 Fetching related work items...");
-    const relatedIssues = await jiraClient.getRelatedWorkItems(issue);
+    const relatedIssues = await issueTracker.getRelatedWorkItems(issue);
     console.log(
       `✅ Successfully fetched ${relatedIssues.length} related work items`
     );
@@ -739,7 +1282,7 @@ async function processSingleTask(
 
     let taskDetails;
     try {
-      taskDetails = jiraClient.formatIssueDetails(
+      taskDetails = issueTracker.formatIssueDetails(
         issue,
         comments,
         linkedResources,
@@ -796,7 +1339,11 @@ async function processSingleTask(
     const descriptionText = JiraExtractor.extractTextFromADF(issue.fields?.description);
     const extractedBranch = Utils.extractTargetBranch(descriptionText);
 
-    if (extractedBranch) {
+    if (stackBase) {
+      // Stacked sub-tasks build on the branch of the previous sub-task
+      console.log(`   📚 Stacking on branch: ${stackBase}`);
+      effectiveTargetBranch = stackBase;
+    } else if (extractedBranch) {
       console.log(`   🎯 Detected target branch from description: ${extractedBranch}`);
       if (options.verbose) {
         // Show context around the match for debugging
@@ -814,7 +1361,7 @@ async function processSingleTask(
     // Create unified task-specific directory structure
     const baseOutputDir =
       process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-    const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+    const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
     const taskFileName = "task-details.md";
 
     // Create task directory if it doesn't exist
@@ -831,7 +1378,7 @@ async function processSingleTask(
       console.log(
         `\n📎 Downloading ${taskDetails.attachments.length} direct attachments...`
       );
-      attachmentMap = await jiraClient.downloadIssueAttachments(
+      attachmentMap = await issueTracker.downloadIssueAttachments(
         taskKey,
         attachmentDir
       );
@@ -846,12 +1393,17 @@ async function processSingleTask(
     // Collect all HTML content from descriptions and comments
     if (taskDetails.renderedDescription) {
       allHtmlContent += taskDetails.renderedDescription;
+    } else if (typeof taskDetails.description === "string") {
+      // Markdown descriptions (e.g., Linear) have no rendered HTML
+      allHtmlContent += taskDetails.description;
     }
 
     // Add comments
     taskDetails.comments.forEach((comment) => {
       if (comment.renderedBody) {
         allHtmlContent += comment.renderedBody;
+      } else if (typeof comment.body === "string") {
+        allHtmlContent += comment.body;
       }
     });
 
@@ -864,7 +1416,7 @@ async function processSingleTask(
 
     // Download embedded attachments
     if (allHtmlContent) {
-      attachmentMap = await jiraClient.downloadAttachmentsFromContent(
+      attachmentMap = await issueTracker.downloadAttachmentsFromContent(
         allHtmlContent,
         attachmentDir,
         attachmentMap
@@ -880,7 +1432,7 @@ async function processSingleTask(
     ClaudeFormatter.saveFormattedTask(
       taskDetails,
       outputFile,
-      process.env.JIRA_BASE_URL!,
+      issueTracker.getBaseUrl(),
       attachmentMap
     );
 
@@ -896,6 +1448,7 @@ async function processSingleTask(
 
         if (branchResult.success) {
           console.log(`✅ ${branchResult.message}`);
+          updateRun(taskKey, { branch: branchResult.branchName });
         } else {
           // Branch creation failed - this is critical for safety
           console.error(`\n❌ Failed to create feature branch: ${branchResult.message}`);
@@ -906,10 +1459,11 @@ async function processSingleTask(
           } else {
             console.error("Cannot proceed without a feature branch to prevent accidental commits to main/master.");
             console.error(`\nPlease create a feature branch manually:`);
-            console.error(`   git checkout -b feature/${taskKey.toLowerCase()}`);
+            console.error(`   git checkout -b feature/${Utils.taskKeyToSlug(taskKey)}`);
             console.error(`\nThen run claude-intern again with --no-git flag:`);
             console.error(`   claude-intern ${taskKey} --no-git`);
           }
+          finishRun(taskKey, "failed", `Failed to create feature branch: ${branchResult.message}`);
 
           // Release lock before exiting
           if (lockManager) {
@@ -927,31 +1481,56 @@ async function processSingleTask(
         );
         // Use temporary file for clarity assessment input (will be cleaned up)
         const { tmpdir } = require("os");
-        const clarityFile = join(tmpdir(), `clarity-${taskKey.toLowerCase()}-${Date.now()}.md`);
+        const clarityFile = join(tmpdir(), `clarity-${Utils.taskKeyToSlug(taskKey)}-${Date.now()}.md`);
         ClaudeFormatter.saveClarityAssessment(
           taskDetails,
           clarityFile,
-          process.env.JIRA_BASE_URL!,
+          issueTracker.getBaseUrl(),
           attachmentMap
         );
 
+        // Include answers to questions asked by an earlier assessment
+        const clarification = getClarificationStore().get(taskKey);
+        if (clarification) {
+          const answers = findClarificationAnswers(comments, clarification.askedAt);
+          if (answers.length > 0) {
+            console.log(`💬 Including ${answers.length} answer(s) to earlier clarification questions`);
+            appendFileSync(clarityFile, `\n\n${formatClarificationAnswers(clarification, answers)}`, "utf8");
+          }
+        }
+
         try {
           const assessment = await runClarityCheck(
             clarityFile,
             resolvedClaudePath,
             taskKey,
-            jiraClient,
+            issueTracker,
             options.skipJiraComments
           );
 
           if (assessment && !assessment.isImplementable) {
+            // Wait for answers to the posted questions
+            if (!options.skipJiraComments) {
+              await requestClarification(taskKey, assessment, issueTracker, projectSettings);
+            }
+
             // For batch processing, log and continue; for single task, exit
-            if (totalTasks > 1) {
+            if (totalTasks > 1 && !options.skipJiraComments) {
+              console.log(`\n⏸️  Skipping ${taskKey} until the clarification questions are answered`);
+              finishRun(taskKey, "unclear", assessment.summary);
+              try {
+                require("fs").unlinkSync(clarityFile);
+              } catch (cleanupError) {
+                // Ignore cleanup errors
+              }
+              return;
+            } else if (totalTasks > 1) {
               console.log(
                 `\n⚠️  Task ${taskKey} failed clarity assessment but continuing with batch processing...`
               );
             } else {
               // Exit early if task is not clear enough (single task mode)
+              finishRun(taskKey, "unclear", assessment.summary);
               // Release lock before exiting
               if (lockManager) {
                 lockManager.release();
@@ -984,6 +1563,11 @@ async function processSingleTask(
         }
       }
 
+      // Questions asked by an earlier assessment are settled once implementation starts
+      if (getClarificationStore().resolve(taskKey)) {
+        console.log(`✅ Clarification for ${taskKey} resolved`);
+      }
+
       // Transition task to "In Progress" now that we're actually starting implementation
       // (after clarity check passed or was skipped)
       if (!options.skipJiraComments) {
@@ -991,7 +1575,7 @@ async function processSingleTask(
         if (inProgressStatus && inProgressStatus.trim()) {
           try {
             console.log(`\n🔄 Transitioning ${taskKey} to '${inProgressStatus}'...`);
-            await jiraClient.transitionIssue(taskKey, inProgressStatus.trim());
+            await issueTracker.transitionIssue(taskKey, inProgressStatus.trim());
             console.log(`✅ Task moved to '${inProgressStatus}'`);
           } catch (statusError) {
             console.warn(
@@ -1004,20 +1588,7 @@ async function processSingleTask(
         }
       }
 
-      // Get GitHub App author info for commits if configured
-      let gitAuthor: { name: string; email: string } | undefined;
-      if (options.git && options.autoCommit && !process.env.GITHUB_TOKEN) {
-        const githubAppAuth = GitHubAppAuth.fromEnvironment();
-        if (githubAppAuth) {
-          try {
-            gitAuthor = await githubAppAuth.getGitAuthor();
-            console.log(`🤖 Commits will be authored by: ${gitAuthor.name}`);
-          } catch (error) {
-            console.warn(`⚠️  Could not get GitHub App author info: ${(error as Error).message}`);
-            console.log("   Commits will use local git config instead.");
-          }
-        }
-      }
+      const gitAuthor = await getGitAuthor(options.git && options.autoCommit);
 
       console.log("\n🤖 Running Claude with task details...");
       await runClaude(
@@ -1030,7 +1601,7 @@ async function processSingleTask(
         issue,
         options.createPr,
         effectiveTargetBranch,
-        jiraClient,
+        issueTracker,
         options.skipJiraComments,
         Number.parseInt(options.hookRetries),
         projectSettings,
@@ -1038,10 +1609,11 @@ async function processSingleTask(
         options.autoReview,
         Number.parseInt(options.autoReviewIterations)
       );
+      finishRun(taskKey, "implemented");
     } else {
       console.log("\n✅ Task details saved. You can now:");
       console.log("   1. Create a feature branch manually:");
-      console.log(`      git checkout -b feature/${taskKey.toLowerCase()}`);
+      console.log(`      git checkout -b feature/${Utils.taskKeyToSlug(taskKey)}`);
       console.log("   2. Run clarity check:");
       console.log(
         `      ${resolvedClaudePath} -p --dangerously-skip-permissions --max-turns 10 < ${outputFile.replace(
@@ -1066,6 +1638,7 @@ async function processSingleTask(
     console.error(
       `${taskPrefix}❌ Error processing ${taskKey}: ${err.message}`
     );
+    finishRun(taskKey, "failed", err.message);
     if (options.verbose && err.stack) {
       console.error(err.stack);
     }
@@ -1079,6 +1652,215 @@ async function processSingleTask(
   }
 }
 
+/**
+ * Implement the open sub-tasks of an epic or parent issue as a stack: in "blocks"
+ * order, each branched from and targeting the previous sub-task's branch.
+ */
+async function processStack(parentKey: string): Promise<void> {
+  validateEnvironment();
+
+  console.log(`🔍 Fetching sub-tasks of ${parentKey}...`);
+  const issueTracker = createIssueTracker(parentKey);
+  const parent = await issueTracker.getIssue(parentKey);
+  const tasks = await loadStackTasks(issueTracker, parent);
+
+  if (tasks.length === 0) {
+    console.log(`⚠️  ${parentKey} has no open sub-tasks to stack`);
+    return;
+  }
+
+  console.log(`\n📚 Stacking ${tasks.length} sub-task(s) of ${parentKey}:`);
+  tasks.forEach((task, index) => {
+    const after = task.blockedBy.length > 0 ? ` (after ${task.blockedBy.join(", ")})` : "";
+    console.log(`   ${index + 1}. ${task.key} ${task.summary}${after}`);
+  });
+  console.log();
+
+  // The bottom of the stack targets the branch named in the parent's description, if any
+  const { JiraExtractor } = await import("./lib/jira-extractor");
+  let stackBase =
+    Utils.extractTargetBranch(JiraExtractor.extractTextFromADF(parent.fields?.description)) ??
+    undefined;
+  const entries: StackEntry[] = [];
+  let failure: string | null = null;
+
+  for (let i = 0; i < tasks.length; i++) {
+    const task = tasks[i];
+    const startedAt = Date.now();
+
+    try {
+      await processSingleTask(task.key, i, tasks.length, stackBase);
+    } catch (error) {
+      failure = `${task.key}: ${(error as Error).message}`;
+      break;
+    }
+
+    if (!options.claude) {
+      continue;
+    }
+
+    // Later sub-tasks need this one's branch to build on
+    const [run] = getRunHistory().list({ taskKey: task.key, mode: "implement", limit: 1 });
+    if (!run || run.startedAt < startedAt || run.outcome !== "implemented" || !run.branch) {
+      failure = `${task.key}: not implemented${run && run.startedAt >= startedAt ? ` (${run.outcome})` : ""}`;
+      break;
+    }
+    entries.push({
+      key: task.key,
+      summary: task.summary,
+      branch: run.branch,
+      prUrl: run.prUrl ?? undefined,
+    });
+    stackBase = run.branch;
+
+    if (i < tasks.length - 1) {
+      console.log("\n" + "=".repeat(80));
+      console.log("⏭️  Moving to next sub-task in the stack...\n");
+    }
+  }
+
+  if (entries.filter((entry) => entry.prUrl).length > 1) {
+    console.log("\n🔗 Cross-linking stacked pull requests...");
+    const linkResult = await linkStackPullRequests(parentKey, entries);
+    console.log(linkResult.success ? `✅ ${linkResult.message}` : `⚠️  ${linkResult.message}`);
+  }
+
+  if (options.claude) {
+    console.log("\n" + "=".repeat(80));
+    console.log(`📚 Stack Summary for ${parentKey}:`);
+    entries.forEach((entry, index) => {
+      const target = index === 0 ? "" : ` → ${entries[index - 1].branch}`;
+      console.log(`   ✅ ${entry.key}: ${entry.branch}${target}${entry.prUrl ? ` (${entry.prUrl})` : ""}`);
+    });
+    if (failure) {
+      console.log(`   ❌ ${failure}`);
+      const notStarted = tasks.slice(entries.length + 1).map((task) => task.key);
+      if (notStarted.length > 0) {
+        console.log(`   ⏸️  Not started: ${notStarted.join(", ")}`);
+      }
+    }
+  }
+
+  if (failure) {
+    if (lockManager) {
+      lockManager.release();
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Continue an implementation run that stopped at the max turns limit or the timeout,
+ * then commit, push, create the PR and transition the task as a normal run would.
+ */
+async function resumeTask(taskKey: string): Promise<void> {
+  const state = loadResumeState(taskKey);
+  if (!state) {
+    throw new Error(
+      `No interrupted run to resume for ${taskKey} (nothing saved in ${getResumeStatePath(taskKey)})`
+    );
+  }
+  if (!existsSync(state.taskFile)) {
+    throw new Error(`Task file of the interrupted run not found: ${state.taskFile}`);
+  }
+
+  console.log(`🔁 Resuming ${taskKey} (${state.reason === "timeout" ? "timed out" : "max turns reached"} at ${state.savedAt})`);
+
+  startRun(taskKey, "implement");
+  if (state.branch) {
+    updateRun(taskKey, { branch: state.branch });
+  }
+
+  const restoreResult = await restoreWorkInProgress(state);
+  if (!restoreResult.success) {
+    throw new Error(restoreResult.message);
+  }
+  console.log(`✅ ${restoreResult.message}`);
+
+  const projectSettings = Utils.loadProjectSettings();
+  const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+  const issueTracker = createIssueTracker(taskKey, projectSettings);
+  const issue = await issueTracker.getIssue(taskKey);
+
+  // Options given to resume add to the settings of the interrupted run
+  const createPr = state.createPr || options.createPr;
+  const autoReview = state.autoReview || options.autoReview;
+  const skipJiraComments = state.skipJiraComments || options.skipJiraComments;
+
+  // The interrupted run may have moved the task back to "To Do"
+  if (!skipJiraComments) {
+    const inProgressStatus = getInProgressStatusForProject(projectKey, projectSettings);
+    if (inProgressStatus && inProgressStatus.trim()) {
+      try {
+        console.log(`\n🔄 Transitioning ${taskKey} to '${inProgressStatus}'...`);
+        await issueTracker.transitionIssue(taskKey, inProgressStatus.trim());
+        console.log(`✅ Task moved to '${inProgressStatus}'`);
+      } catch (statusError) {
+        console.warn(
+          `⚠️  Failed to transition task to '${inProgressStatus}': ${
+            (statusError as Error).message
+          }`
+        );
+      }
+    }
+  }
+
+  const gitAuthor = await getGitAuthor(state.enableGit);
+
+  // A new resume state is saved if this run is interrupted too
+  clearResumeState(taskKey);
+
+  console.log(`\n🤖 Resuming Claude with ${options.maxTurns} more turns...`);
+  await runClaude(
+    state.taskFile,
+    resolvedClaudePath,
+    Number.parseInt(options.maxTurns),
+    taskKey,
+    state.taskSummary,
+    state.enableGit,
+    issue,
+    createPr,
+    state.prTargetBranch,
+    issueTracker,
+    skipJiraComments,
+    state.hookRetries,
+    projectSettings,
+    gitAuthor,
+    autoReview,
+    state.autoReviewIterations,
+    false,
+    state
+  );
+  finishRun(taskKey, "implemented");
+}
+
+/**
+ * Tasks waiting for clarification that got answers in new comments.
+ */
+async function findAnsweredClarifications(): Promise<string[]> {
+  const pending = getClarificationStore().list();
+  console.log(`🔍 Checking ${pending.length} task(s) waiting for clarification...`);
+
+  const answered: string[] = [];
+  for (const clarification of pending) {
+    const { taskKey } = clarification;
+    try {
+      const comments = await createIssueTracker(taskKey).getIssueComments(taskKey);
+      const answers = findClarificationAnswers(comments, clarification.askedAt);
+      if (answers.length > 0) {
+        console.log(`   💬 ${taskKey}: ${answers.length} new comment(s)`);
+        answered.push(taskKey);
+      } else {
+        console.log(`   ⏳ ${taskKey}: no answers yet`);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to check comments on ${taskKey}: ${(error as Error).message}`);
+    }
+  }
+
+  return answered;
+}
+
 // Global lock manager instance
 let lockManager: LockManager | null = null;
 
@@ -1101,8 +1883,97 @@ async function main(): Promise<void> {
     // Validate environment first
     validateEnvironment();
 
-    // Pull latest changes from remote (unless git is disabled)
-    if (options.git) {
+    const concurrency = parseInt(options.concurrency, 10);
+    if (Number.isNaN(concurrency) || concurrency < 1) {
+      console.error(`❌ Invalid --concurrency value: ${options.concurrency} (must be 1 or more)`);
+      if (lockManager) {
+        lockManager.release();
+      }
+      process.exit(1);
+    }
+    if (concurrency > 1 && !options.git) {
+      console.error("❌ --concurrency needs git worktrees and can't be used with --no-git");
+      if (lockManager) {
+        lockManager.release();
+      }
+      process.exit(1);
+    }
+
+    // Without --estimate-samples, every persona estimates once
+    const estimatePersonas = options.estimatePersonas
+      ? parseEstimationPersonas(options.estimatePersonas)
+      : [];
+    const estimateSamples = options.estimateSamples
+      ? parseInt(options.estimateSamples, 10)
+      : Math.max(1, estimatePersonas.length);
+    if (Number.isNaN(estimateSamples) || estimateSamples < 1) {
+      console.error(`❌ Invalid --estimate-samples value: ${options.estimateSamples} (must be 1 or more)`);
+      if (lockManager) {
+        lockManager.release();
+      }
+      process.exit(1);
+    }
+
+    if (options.report) {
+      try {
+        if (!options.estimate) {
+          throw new Error("--report can only be used with --estimate");
+        }
+        getReportFormat(options.report);
+      } catch (error) {
+        console.error(`❌ ${(error as Error).message}`);
+        if (lockManager) {
+          lockManager.release();
+        }
+        process.exit(1);
+      }
+    }
+
+    if (options.stack) {
+      let stackError: string | null = null;
+      if (taskKeys.length !== 1 || options.jql || options.ghQuery) {
+        stackError = "--stack takes exactly one epic or parent task key";
+      } else if (options.estimate || isResume || isCheckAnswers) {
+        stackError = "--stack can't be used with --estimate, resume or check-answers";
+      } else if (!options.git) {
+        stackError = "--stack builds each sub-task on the previous branch and can't be used with --no-git";
+      } else if (concurrency > 1) {
+        stackError = "--stack processes sub-tasks one after another and can't be used with --concurrency";
+      }
+      if (stackError) {
+        console.error(`❌ ${stackError}`);
+        if (lockManager) {
+          lockManager.release();
+        }
+        process.exit(1);
+      }
+    }
+
+    // Resume mode continues on the existing feature branch, so skip pulling
+    if (isResume) {
+      if (taskKeys.length !== 1) {
+        console.error("❌ Usage: claude-intern resume <task-key> [--max-turns <extra turns>]");
+        if (lockManager) {
+          lockManager.release();
+        }
+        process.exit(1);
+      }
+
+      try {
+        await resumeTask(taskKeys[0]);
+      } catch (error) {
+        finishRun(taskKeys[0], "failed", (error as Error).message);
+        throw error;
+      }
+
+      if (lockManager) {
+        lockManager.release();
+      }
+      return;
+    }
+
+    // Pull latest changes from remote (unless git or pulling is disabled)
+    if (options.git && options.pull) {
       console.log("\n📥 Pulling latest changes from remote...");
       const pullResult = await Utils.pullLatestChanges(
         options.prTargetBranch,
@@ -1124,23 +1995,66 @@ async function main(): Promise<void> {
     let tasksToProcess: string[] = [];
 
     // Determine which tasks to process
-    if (options.jql) {
+    if (isCheckAnswers) {
+      tasksToProcess = await findAnsweredClarifications();
+
+      if (tasksToProcess.length === 0) {
+        console.log("⏳ No new answers to clarification questions");
+        if (lockManager) {
+          lockManager.release();
+        }
+        return;
+      }
+
+      console.log(
+        `📋 Found ${tasksToProcess.length} answered task(s) to process: ${tasksToProcess.join(", ")}`
+      );
+    } else if (options.jql) {
       // JQL query mode
       console.log(`🔍 Searching JIRA with JQL: ${options.jql}`);
 
-      const jiraClient = new JiraClient(
-        process.env.JIRA_BASE_URL!,
-        process.env.JIRA_EMAIL!,
-        process.env.JIRA_API_TOKEN!
-      );
+      const issueTracker = IssueTrackerRegistry.create("jira");
+      if (!issueTracker.searchIssues) {
+        throw new Error("JQL search is not supported by the JIRA tracker");
+      }
 
-      const searchResult = await jiraClient.searchIssues(options.jql);
+      const searchResult = await issueTracker.searchIssues(options.jql);
 
       if (searchResult.issues.length === 0) {
         console.log("⚠️  No issues found matching the JQL query");
         return;
       }
 
+      tasksToProcess = searchResult.issues.map((issue) => issue.key);
+      console.log(
+        `📋 Found ${
+          tasksToProcess.length
+        } tasks to process: ${tasksToProcess.join(", ")}`
+      );
+    } else if (options.ghQuery) {
+      // GitHub issue search mode
+      let query = options.ghQuery;
+      if (!/\brepo:\S+/.test(query)) {
+        // Scope the search to the current repository by default
+        const repoInfo = await new PRManager().detectRepository();
+        if (repoInfo.platform === "github") {
+          query = `${query} repo:${repoInfo.repository}`;
+        }
+      }
+      console.log(`🔍 Searching GitHub issues: ${query}`);
+
+      const issueTracker = IssueTrackerRegistry.create("github");
+      if (!issueTracker.searchIssues) {
+        throw new Error("Issue search is not supported by the GitHub tracker");
+      }
+
+      const searchResult = await issueTracker.searchIssues(query);
+
+      if (searchResult.issues.length === 0) {
+        console.log("⚠️  No issues found matching the GitHub query");
+        return;
+      }
+
       tasksToProcess = searchResult.issues.map((issue) => issue.key);
       console.log(
         `📋 Found ${
@@ -1158,7 +2072,7 @@ async function main(): Promise<void> {
     } else {
       // No tasks specified
       console.error(
-        "❌ Error: No tasks specified. Provide task keys as arguments or use --jql option."
+        "❌ Error: No tasks specified. Provide task keys as arguments or use --jql/--gh-query option."
       );
       console.error("   Examples:");
       console.error("     claude-intern PROJ-123");
@@ -1166,20 +2080,25 @@ async function main(): Promise<void> {
       console.error(
         "     claude-intern --jql \"project = PROJ AND status = 'To Do'\""
       );
+      console.error("     claude-intern owner/repo#42");
+      console.error("     claude-intern --gh-query \"label:claude is:open\"");
       process.exit(1);
     }
 
+    // Stack mode: sub-tasks of one epic or parent, each on top of the previous one
+    if (options.stack) {
+      await processStack(tasksToProcess[0]);
+      if (lockManager) {
+        lockManager.release();
+      }
+      return;
+    }
+
     // Estimation mode: separate code path
     if (options.estimate) {
       console.log("\n📊 Running in estimation mode...");
 
-      const jiraClient = new JiraClient(
-        process.env.JIRA_BASE_URL!,
-        process.env.JIRA_EMAIL!,
-        process.env.JIRA_API_TOKEN!
-      );
-
-      const projectSettings = loadProjectSettings();
+      const projectSettings = Utils.loadProjectSettings();
       const estimationResults = {
         total: 0,
         estimated: 0,
@@ -1187,14 +2106,18 @@ async function main(): Promise<void> {
         failed: 0,
         errors: [] as Array<{ taskKey: string; error: string }>,
       };
+      const reportRows: EstimationReportRow[] = [];
 
       for (const taskKey of tasksToProcess) {
+        let issue: JiraIssue | null = null;
         try {
           console.log(`\n${"=".repeat(60)}`);
           console.log(`📊 Estimating: ${taskKey}`);
 
+          const issueTracker = createIssueTracker(taskKey, projectSettings);
+
           // Fetch issue to check creation date
-          const issue = await jiraClient.getIssue(taskKey);
+          issue = await issueTracker.getIssue(taskKey);
 
           // Skip tasks created less than 24 hours ago
           const createdDate = new Date(issue.fields.created);
@@ -1207,11 +2130,12 @@ async function main(): Promise<void> {
               `⏭️  Skipping ${taskKey} — created ${hoursAgo.toFixed(1)}h ago (< 24h)`
             );
             estimationResults.skipped++;
+            reportRows.push(createUnestimatedRow(taskKey, issue, "skipped", "created less than 24h ago"));
             continue;
           }
 
           // Check if task already has an estimation comment
-          const existingEstimation = await jiraClient.findEstimationComment(taskKey);
+          const existingEstimation = await issueTracker.findEstimationComment(taskKey);
           let existingCommentId: string | undefined;
 
           if (existingEstimation) {
@@ -1224,6 +2148,7 @@ async function main(): Promise<void> {
                 `⏭️  Skipping ${taskKey} — already estimated and not updated since`
               );
               estimationResults.skipped++;
+              reportRows.push(createUnestimatedRow(taskKey, issue, "skipped", "already estimated"));
               continue;
             }
 
@@ -1236,12 +2161,12 @@ async function main(): Promise<void> {
           estimationResults.total++;
 
           // Fetch comments and linked resources
-          const comments = await jiraClient.getIssueComments(taskKey);
-          const linkedResources = jiraClient.extractLinkedResources(issue);
-          const relatedIssues = await jiraClient.getRelatedWorkItems(issue);
+          const comments = await issueTracker.getIssueComments(taskKey);
+          const linkedResources = issueTracker.extractLinkedResources(issue);
+          const relatedIssues = await issueTracker.getRelatedWorkItems(issue);
 
           // Format task details
-          const taskDetails = jiraClient.formatIssueDetails(
+          const taskDetails = issueTracker.formatIssueDetails(
             issue,
             comments,
             linkedResources,
@@ -1252,23 +2177,44 @@ async function main(): Promise<void> {
           const { tmpdir } = require("os");
           const estimationFile = join(
             tmpdir(),
-            `estimation-${taskKey.toLowerCase()}-${Date.now()}.md`
+            `estimation-${Utils.taskKeyToSlug(taskKey)}-${Date.now()}.md`
           );
+          // Similar completed tasks calibrate the estimate to the team's scale
+          let referenceTasks: ReferenceTask[] = [];
+          if (options.calibrate) {
+            const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+            try {
+              referenceTasks = await loadReferenceTasks(
+                issueTracker,
+                taskDetails,
+                projectKey,
+                { storyPointsField: getStoryPointsFieldForProject(projectKey, projectSettings) }
+              );
+              console.log(`📚 Using ${referenceTasks.length} completed task(s) as reference`);
+            } catch (error) {
+              console.warn(`⚠️  Failed to load reference tasks: ${(error as Error).message}`);
+            }
+          }
+
           ClaudeFormatter.saveEstimationPrompt(
             taskDetails,
             estimationFile,
-            process.env.JIRA_BASE_URL!
+            issueTracker.getBaseUrl(),
+            undefined,
+            referenceTasks
           );
 
           // Run estimation
+          startRun(taskKey, "estimate");
           const result = await runEstimation(
             estimationFile,
             resolvedClaudePath,
             taskKey,
-            jiraClient,
+            issueTracker,
             projectSettings,
             options.skipJiraComments,
-            existingCommentId
+            existingCommentId,
+            getSamplePersonas(estimateSamples, estimatePersonas)
           );
 
           // Clean up temp file
@@ -1279,16 +2225,25 @@ async function main(): Promise<void> {
           }
 
           if (result) {
+            updateRun(taskKey, { storyPoints: result.storyPoints });
+            finishRun(taskKey, "estimated", `${result.storyPoints} story points (${result.confidence} confidence)`);
             estimationResults.estimated++;
+            reportRows.push(createEstimatedRow(issue, result));
           } else {
+            finishRun(taskKey, "failed", "Failed to parse estimation response");
             estimationResults.failed++;
+            reportRows.push(
+              createUnestimatedRow(taskKey, issue, "failed", "Failed to parse estimation response")
+            );
             estimationResults.errors.push({
               taskKey,
               error: "Failed to parse estimation response",
             });
           }
         } catch (error) {
+          finishRun(taskKey, "failed", (error as Error).message);
           estimationResults.failed++;
+          reportRows.push(createUnestimatedRow(taskKey, issue, "failed", (error as Error).message));
           estimationResults.errors.push({
             taskKey,
             error: (error as Error).message,
@@ -1313,6 +2268,16 @@ async function main(): Promise<void> {
         });
       }
 
+      if (options.report) {
+        try {
+          const reportFile = resolve(options.report);
+          writeEstimationReport(reportFile, reportRows);
+          console.log(`\n📄 Estimation report saved to: ${reportFile}`);
+        } catch (error) {
+          console.error(`❌ Failed to write estimation report: ${(error as Error).message}`);
+        }
+      }
+
       // Release lock and exit
       if (lockManager) {
         lockManager.release();
@@ -1323,6 +2288,31 @@ async function main(): Promise<void> {
       return;
     }
 
+    // Process tasks in parallel worktrees
+    if (concurrency > 1 && options.claude && tasksToProcess.length > 1) {
+      console.log(
+        `\n🚀 Processing ${tasksToProcess.length} tasks with concurrency ${concurrency}...\n`
+      );
+
+      const concurrentResults = await runTasksConcurrently(tasksToProcess, {
+        concurrency,
+        baseBranch: options.prTargetBranch,
+        buildArgs: buildTaskArgs,
+        verbose: options.verbose,
+      });
+
+      console.log("\n" + "=".repeat(80));
+      console.log(formatConcurrentSummary(concurrentResults));
+
+      if (lockManager) {
+        lockManager.release();
+      }
+      if (concurrentResults.some((result) => result.error)) {
+        process.exit(1);
+      }
+      return;
+    }
+
     // Process tasks sequentially
     const results = {
       total: tasksToProcess.length,
@@ -1400,7 +2390,7 @@ async function runClarityCheck(
   clarityFile: string,
   claudePath: string,
   taskKey: string,
-  jiraClient: JiraClient,
+  issueTracker: IssueTracker,
   skipJiraComments = false
 ): Promise<ClarityAssessment | null> {
   return new Promise((resolve, reject) => {
@@ -1413,72 +2403,38 @@ async function runClarityCheck(
     // Read the clarity assessment content
     const clarityContent = readFileSync(clarityFile, "utf8");
 
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
+    const runner = createAgentRunner(claudePath, {
+      taskKey,
+      kind: "clarity",
+      notify: !skipJiraComments,
+    });
+    const timeoutMinutes = getAgentTimeoutMinutes();
 
     console.log("🔍 Running feasibility assessment with Claude...");
-    console.log(
-      `   Command: ${claudePath} -p --dangerously-skip-permissions --max-turns 10`
-    );
+    console.log(`   Command: ${runner.describeCommand(10)}`);
     console.log(`   Input: ${clarityFile}`);
 
-    let stdoutOutput = "";
-    let stderrOutput = "";
-    let timedOut = false;
-
-    // Spawn Claude process for clarity check
-    const claude: ChildProcess = spawn(
-      claudePath,
-      ["-p", "--dangerously-skip-permissions", "--max-turns", "10"],
-      {
-        stdio: ["pipe", "pipe", "pipe"],
+    runner.run({
+      prompt: clarityContent,
+      maxTurns: 10,
+      timeoutMinutes,
+    }).then(async (result) => {
+      const { exitCode: code, output: stdoutOutput } = result;
+      if (result.status === "not_found") {
+        reject(new Error(result.error));
+        return;
       }
-    );
-
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claude.kill("SIGTERM");
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    // Capture stdout for parsing JSON response
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        stdoutOutput += data.toString();
-      });
-    }
-
-    // Capture stderr for error handling
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        stderrOutput += data.toString();
-      });
-    }
-
-    // Handle errors
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      if (error.code === "ENOENT") {
-        reject(
-          new Error(
-            `Claude CLI not found at: ${claudePath}\nPlease install Claude CLI or specify the correct path with --claude-path`
-          )
-        );
-      } else {
+      if (result.status === "spawn_error") {
         reject(
-          new Error(`Failed to run Claude clarity check: ${error.message}`)
+          new Error(`Failed to run Claude clarity check: ${result.error}`)
         );
+        return;
       }
-    });
-
-    // Handle process exit
-    claude.on("close", async (code: number | null) => {
-      clearTimeout(timeout);
-      if (timedOut) {
+      if (result.status === "budget_exceeded") {
+        reject(new Error(result.error));
+        return;
+      }
+      if (result.status === "timeout") {
         reject(new Error(`Claude clarity check timed out after ${timeoutMinutes} minutes`));
         return;
       }
@@ -1491,7 +2447,7 @@ async function runClarityCheck(
           try {
             const baseOutputDir =
               process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-            const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+            const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
             const assessmentResultFile = join(taskDir, "feasibility-assessment.md");
 
             // Format assessment as readable markdown
@@ -1541,7 +2497,7 @@ async function runClarityCheck(
             // Post successful assessment to JIRA as well for feedback
             if (!skipJiraComments) {
               console.log("\n💬 Posting feasibility assessment to JIRA...");
-              await postClarityComment(jiraClient, taskKey, assessment);
+              await postClarityComment(issueTracker, taskKey, assessment);
             } else {
               console.log("\n⏭️  Skipping feasibility assessment JIRA comment (--skip-jira-comments)");
             }
@@ -1576,7 +2532,7 @@ async function runClarityCheck(
 
             // Post comment to JIRA with clarity issues
             if (!skipJiraComments) {
-              await postClarityComment(jiraClient, taskKey, assessment);
+              await postClarityComment(issueTracker, taskKey, assessment);
             } else {
               console.log("\n⏭️  Skipping failed assessment JIRA comment (--skip-jira-comments)");
             }
@@ -1602,7 +2558,7 @@ async function runClarityCheck(
           try {
             const baseOutputDir =
               process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-            const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+            const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
             const failedAssessmentFile = join(taskDir, "feasibility-assessment-failed.txt");
 
             writeFileSync(failedAssessmentFile, stdoutOutput, "utf8");
@@ -1612,10 +2568,7 @@ async function runClarityCheck(
           }
 
           // Check if Claude reached max turns or had other issues
-          if (
-            stdoutOutput.includes("Reached max turns") ||
-            stdoutOutput.includes("max-turns")
-          ) {
+          if (result.status === "max_turns") {
             console.log(
               "\n⚠️  Clarity assessment reached maximum conversation turns"
             );
@@ -1630,7 +2583,7 @@ async function runClarityCheck(
               // Post assessment failure to JIRA
               try {
                 await postAssessmentFailure(
-                  jiraClient,
+                  issueTracker,
                   taskKey,
                   "max-turns",
                   stdoutOutput
@@ -1656,7 +2609,7 @@ async function runClarityCheck(
               // Post assessment failure to JIRA
               try {
                 await postAssessmentFailure(
-                  jiraClient,
+                  issueTracker,
                   taskKey,
                   "parse-error",
                   stdoutOutput
@@ -1680,12 +2633,6 @@ async function runClarityCheck(
         reject(new Error(`Claude clarity check exited with code ${code}`));
       }
     });
-
-    // Send clarity assessment content to Claude
-    if (claude.stdin) {
-      claude.stdin.write(clarityContent);
-      claude.stdin.end();
-    }
   });
 }
 
@@ -1740,15 +2687,11 @@ async function postImplementationComment(
   taskSummary?: string
 ): Promise<void> {
   try {
-    // Initialize JIRA client
-    const jiraClient = new JiraClient(
-      process.env.JIRA_BASE_URL!,
-      process.env.JIRA_EMAIL!,
-      process.env.JIRA_API_TOKEN!
-    );
+    // Initialize issue tracker client (JIRA or Linear)
+    const issueTracker = createIssueTracker(taskKey);
 
     // Use the rich text implementation comment method
-    await jiraClient.postImplementationComment(
+    await issueTracker.postImplementationComment(
       taskKey,
       claudeOutput,
       taskSummary
@@ -1761,434 +2704,260 @@ async function postImplementationComment(
 
 // Function to post clarity assessment comment to JIRA
 async function postAssessmentFailure(
-  jiraClient: JiraClient,
+  issueTracker: IssueTracker,
   taskKey: string,
   failureType: "max-turns" | "parse-error",
   _rawOutput: string
 ): Promise<void> {
   try {
-    const isMaxTurns = failureType === "max-turns";
-
-    const commentBody = {
-      body: {
-        type: "doc",
-        version: 1,
-        content: [
-          {
-            type: "panel",
-            attrs: { panelType: "warning" },
-            content: [
-              {
-                type: "paragraph",
-                content: [
-                  {
-                    type: "text",
-                    text: "🤖 Claude Intern - Feasibility Assessment Failed",
-                    marks: [{ type: "strong" }],
-                  },
-                ],
-              },
-              {
-                type: "paragraph",
-                content: [
-                  {
-                    type: "text",
-                    text: isMaxTurns
-                      ? "⚠️ Assessment reached maximum conversation turns before completion"
-                      : "⚠️ Could not parse feasibility assessment response",
-                  },
-                ],
-              },
-              {
-                type: "paragraph",
-                content: [
-                  { type: "text", text: "📋 ", marks: [{ type: "strong" }] },
-                  {
-                    type: "text",
-                    text: "What this means:",
-                    marks: [{ type: "strong" }],
-                  },
-                ],
-              },
-              ...(isMaxTurns
-                ? [
-                    {
-                      type: "bulletList",
-                      content: [
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "🧩 ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "Task complexity: ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "The task may involve multiple complex components or interdependencies that require extensive analysis",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "📝 ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "Insufficient details: ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "The task description may lack specific requirements, acceptance criteria, or technical specifications",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "🔍 ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "Context discovery: ",
-                                  marks: [{ type: "strong" }],
-                                },
-                                {
-                                  type: "text",
-                                  text: "Extensive codebase exploration was needed to understand existing patterns and architecture",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                    {
-                      type: "paragraph",
-                      content: [
-                        {
-                          type: "text",
-                          text: "🚀 ",
-                          marks: [{ type: "strong" }],
-                        },
-                        {
-                          type: "text",
-                          text: "Next steps:",
-                          marks: [{ type: "strong" }],
-                        },
-                      ],
-                    },
-                    {
-                      type: "bulletList",
-                      content: [
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "Implementation will proceed with available information",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "Additional clarification may be requested during development",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                        {
-                          type: "listItem",
-                          content: [
-                            {
-                              type: "paragraph",
-                              content: [
-                                {
-                                  type: "text",
-                                  text: "Consider adding more specific acceptance criteria for future similar tasks",
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ]
-                : [
-                    {
-                      type: "paragraph",
-                      content: [
-                        {
-                          type: "text",
-                          text: "The AI assessment tool encountered an unexpected response format. Implementation will proceed but may require manual review of results.",
-                        },
-                      ],
-                    },
-                  ]),
-            ],
-          },
-        ],
-      },
-    };
-
-    // Use the same API call pattern as other rich text comments
-    await (jiraClient as any).jiraApiCall(
-      "POST",
-      `/rest/api/3/issue/${taskKey}/comment`,
-      commentBody
-    );
+    await issueTracker.postAssessmentFailureComment(taskKey, failureType);
   } catch (error) {
     console.warn("Failed to post assessment failure to JIRA:", error);
   }
 }
 
+/**
+ * Track the questions of a failed feasibility assessment and move the task to the
+ * "Needs Info" status, so answers in later comments restart the task.
+ */
+async function requestClarification(
+  taskKey: string,
+  assessment: ClarityAssessment,
+  issueTracker: IssueTracker,
+  projectSettings: ProjectSettings | null
+): Promise<void> {
+  const clarification = getClarificationStore().ask(
+    taskKey,
+    getClarificationQuestions(assessment),
+    assessment.summary
+  );
+  console.log(
+    `\n❓ Waiting for answers to ${clarification.questions.length} question(s) (round ${clarification.rounds})`
+  );
+  console.log("   The task is re-assessed when someone answers in a comment");
+
+  const needsInfoStatus = getNeedsInfoStatusForProject(
+    IssueTrackerRegistry.getProjectKey(taskKey),
+    projectSettings
+  );
+  if (needsInfoStatus && needsInfoStatus.trim()) {
+    try {
+      console.log(`\n🔄 Moving ${taskKey} to '${needsInfoStatus}'...`);
+      await issueTracker.transitionIssue(taskKey, needsInfoStatus.trim());
+      console.log(`✅ Task moved to '${needsInfoStatus}'`);
+    } catch (statusError) {
+      console.warn(
+        `⚠️  Failed to transition task to '${needsInfoStatus}': ${
+          (statusError as Error).message
+        }`
+      );
+    }
+  }
+}
+
 async function postClarityComment(
-  jiraClient: JiraClient,
+  issueTracker: IssueTracker,
   taskKey: string,
   assessment: ClarityAssessment
 ): Promise<void> {
   try {
     // Use the rich text clarity comment method
-    await jiraClient.postClarityComment(taskKey, assessment);
+    await issueTracker.postClarityComment(taskKey, assessment);
   } catch (error) {
     console.warn("Failed to post clarity comment to JIRA:", error);
   }
 }
 
+// Run one estimation sample with Claude and return its output
+async function runEstimationSample(
+  runner: AgentRunner,
+  prompt: string,
+  timeoutMinutes: number
+): Promise<string> {
+  const result = await runner.run({
+    prompt,
+    maxTurns: 10,
+    timeoutMinutes,
+  });
+
+  if (result.status === "not_found") {
+    throw new Error(result.error);
+  }
+  if (result.status === "spawn_error") {
+    throw new Error(`Failed to run Claude estimation: ${result.error}`);
+  }
+  if (result.status === "budget_exceeded") {
+    throw new Error(result.error);
+  }
+  if (result.status === "timeout") {
+    throw new Error(`Claude estimation timed out after ${timeoutMinutes} minutes`);
+  }
+  if (result.exitCode !== 0) {
+    throw new Error(`Claude estimation exited with code ${result.exitCode}`);
+  }
+
+  return result.output;
+}
+
 // Function to run Claude for story points estimation
 async function runEstimation(
   estimationFile: string,
   claudePath: string,
   taskKey: string,
-  jiraClient: JiraClient,
+  issueTracker: IssueTracker,
   settings: ProjectSettings | null,
   skipJiraComments = false,
-  existingCommentId?: string
+  existingCommentId?: string,
+  samplePersonas: Array<string | undefined> = [undefined]
 ): Promise<EstimationResult | null> {
-  return new Promise((resolve, reject) => {
-    if (!existsSync(estimationFile)) {
-      reject(new Error(`Estimation file not found: ${estimationFile}`));
-      return;
-    }
+  if (!existsSync(estimationFile)) {
+    throw new Error(`Estimation file not found: ${estimationFile}`);
+  }
 
-    const estimationContent = readFileSync(estimationFile, "utf8");
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
+  const estimationContent = readFileSync(estimationFile, "utf8");
+  const runner = createAgentRunner(claudePath, {
+    taskKey,
+    kind: "estimation",
+    notify: !skipJiraComments,
+    settings,
+  });
+  const timeoutMinutes = getAgentTimeoutMinutes();
 
-    console.log("📊 Running story points estimation with Claude...");
-    console.log(
-      `   Command: ${claudePath} -p --dangerously-skip-permissions --max-turns 10`
-    );
+  console.log(
+    samplePersonas.length > 1
+      ? `📊 Running story points estimation with Claude (${samplePersonas.length} samples)...`
+      : "📊 Running story points estimation with Claude..."
+  );
+  console.log(`   Command: ${runner.describeCommand(10)}`);
 
-    let stdoutOutput = "";
-    let stderrOutput = "";
-    let timedOut = false;
+  // Planning poker: every sample estimates independently
+  const samples: Array<{ persona?: string; estimate: EstimationResult }> = [];
+  for (const [index, persona] of samplePersonas.entries()) {
+    if (samplePersonas.length > 1) {
+      console.log(`\n🃏 Sample ${index + 1}/${samplePersonas.length}${persona ? ` (${persona})` : ""}...`);
+    }
 
-    const claude: ChildProcess = spawn(
-      claudePath,
-      ["-p", "--dangerously-skip-permissions", "--max-turns", "10"],
-      {
-        stdio: ["pipe", "pipe", "pipe"],
-      }
+    const output = await runEstimationSample(
+      runner,
+      persona ? formatPersonaPrompt(estimationContent, persona) : estimationContent,
+      timeoutMinutes
     );
 
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(
-        `\n⏰ Claude estimation timed out after ${timeoutMinutes} minutes, killing...`
-      );
-      claude.kill("SIGTERM");
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        stdoutOutput += data.toString();
-      });
-    }
-
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        stderrOutput += data.toString();
-      });
+    try {
+      const estimate = parseEstimationResponse(output);
+      if (samplePersonas.length > 1) {
+        console.log(`   ${estimate.storyPoints} story points (${estimate.confidence} confidence)`);
+      }
+      samples.push({ persona, estimate });
+    } catch (parseError) {
+      console.warn("Failed to parse estimation response:", parseError);
+      console.log("Raw Claude output:", output);
     }
+  }
 
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      if (error.code === "ENOENT") {
-        reject(
-          new Error(
-            `Claude CLI not found at: ${claudePath}\nPlease install Claude CLI or specify the correct path with --claude-path`
-          )
-        );
-      } else {
-        reject(new Error(`Failed to run Claude estimation: ${error.message}`));
-      }
-    });
+  if (samples.length === 0) {
+    return null;
+  }
 
-    claude.on("close", async (code: number | null) => {
-      clearTimeout(timeout);
+  const result: EstimationResult =
+    samples.length > 1 ? combineEstimationSamples(samples) : samples[0].estimate;
 
-      if (timedOut) {
-        reject(
-          new Error(
-            `Claude estimation timed out after ${timeoutMinutes} minutes`
-          )
-        );
-        return;
-      }
+  console.log(`\n📊 Estimation Result for ${taskKey}:`);
+  console.log(`   Story Points: ${result.storyPoints}`);
+  console.log(`   Confidence: ${result.confidence}`);
+  if (result.spread) {
+    console.log(
+      `   Spread: ${result.spread.min}–${result.spread.max} (${formatSpreadSamples(result.spread)})${
+        result.spread.wide ? " ⚠️  wide, confidence lowered" : ""
+      }`
+    );
+  }
+  const implLabel =
+    result.implementationConfidence >= 9 ? "Almost certain"
+    : result.implementationConfidence >= 7 ? "High chance"
+    : result.implementationConfidence >= 5 ? "May need guidance"
+    : result.implementationConfidence >= 3 ? "Significant ambiguity"
+    : "Needs human judgment";
+  console.log(`   AI Can Implement: ${result.implementationConfidence}/10 — ${implLabel}`);
+  console.log(`   Summary: ${result.summary}`);
+
+  if (result.risks.length > 0) {
+    console.log(`   Risks: ${result.risks.join("; ")}`);
+  }
+  if (result.unclearAreas.length > 0) {
+    console.log(`   Unclear Areas: ${result.unclearAreas.join("; ")}`);
+  }
 
-      if (code !== 0) {
-        reject(new Error(`Claude estimation exited with code ${code}`));
-        return;
-      }
+  // Discover or use configured story points field
+  const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+  const configuredField = getStoryPointsFieldForProject(
+    projectKey,
+    settings
+  );
+  if (configuredField) {
+    console.log(`📊 Using configured story points field: ${configuredField}`);
+  }
+  const fieldId = configuredField || (await issueTracker.discoverStoryPointsField(taskKey));
 
-      try {
-        // Parse JSON from Claude's response
-        const result = parseEstimationResponse(stdoutOutput);
-
-        console.log(`\n📊 Estimation Result for ${taskKey}:`);
-        console.log(`   Story Points: ${result.storyPoints}`);
-        console.log(`   Confidence: ${result.confidence}`);
-        const implLabel =
-          result.implementationConfidence >= 9 ? "Almost certain"
-          : result.implementationConfidence >= 7 ? "High chance"
-          : result.implementationConfidence >= 5 ? "May need guidance"
-          : result.implementationConfidence >= 3 ? "Significant ambiguity"
-          : "Needs human judgment";
-        console.log(`   AI Can Implement: ${result.implementationConfidence}/10 — ${implLabel}`);
-        console.log(`   Summary: ${result.summary}`);
-
-        if (result.risks.length > 0) {
-          console.log(`   Risks: ${result.risks.join("; ")}`);
-        }
-        if (result.unclearAreas.length > 0) {
-          console.log(`   Unclear Areas: ${result.unclearAreas.join("; ")}`);
-        }
+  // Update story points in JIRA
+  if (fieldId) {
+    try {
+      await issueTracker.updateStoryPoints(
+        taskKey,
+        fieldId,
+        result.storyPoints
+      );
+    } catch (updateError) {
+      console.warn(
+        `⚠️  Failed to set story points field: ${updateError}`
+      );
+    }
+  } else {
+    console.log(
+      "⚠️  No story points field found — skipping field update"
+    );
+    console.log(
+      '   Configure storyPointsField in .claude-intern/settings.json or ensure your JIRA has a "Story Points" field'
+    );
+  }
 
-        // Discover or use configured story points field
-        const projectKey = taskKey.split("-")[0];
-        const configuredField = getStoryPointsFieldForProject(
-          projectKey,
-          settings
+  // Post or update estimation comment on JIRA
+  if (!skipJiraComments) {
+    try {
+      if (existingCommentId) {
+        await issueTracker.updateEstimationComment(
+          taskKey,
+          existingCommentId,
+          result
         );
-        if (configuredField) {
-          console.log(`📊 Using configured story points field: ${configuredField}`);
-        }
-        const fieldId = configuredField || (await jiraClient.discoverStoryPointsField(taskKey));
-
-        // Update story points in JIRA
-        if (fieldId) {
-          try {
-            await jiraClient.updateStoryPoints(
-              taskKey,
-              fieldId,
-              result.storyPoints
-            );
-          } catch (updateError) {
-            console.warn(
-              `⚠️  Failed to set story points field: ${updateError}`
-            );
-          }
-        } else {
-          console.log(
-            "⚠️  No story points field found — skipping field update"
-          );
-          console.log(
-            '   Configure storyPointsField in .claude-intern/settings.json or ensure your JIRA has a "Story Points" field'
-          );
-        }
-
-        // Post or update estimation comment on JIRA
-        if (!skipJiraComments) {
-          try {
-            if (existingCommentId) {
-              await jiraClient.updateEstimationComment(
-                taskKey,
-                existingCommentId,
-                result
-              );
-            } else {
-              await jiraClient.postEstimationComment(taskKey, result);
-            }
-          } catch (commentError) {
-            console.warn(
-              `⚠️  Failed to ${existingCommentId ? "update" : "post"} estimation comment: ${commentError}`
-            );
-          }
-        } else {
-          console.log(
-            "⏭️  Skipping estimation JIRA comment (--skip-jira-comments)"
-          );
-        }
-
-        // Save estimation result to task directory
-        try {
-          const baseOutputDir =
-            process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-          const taskDir = join(baseOutputDir, taskKey.toLowerCase());
-          mkdirSync(taskDir, { recursive: true });
-          const resultFile = join(taskDir, "estimation-result.json");
-          writeFileSync(resultFile, JSON.stringify(result, null, 2), "utf8");
-          console.log(`💾 Saved estimation result to: ${resultFile}`);
-        } catch (saveError) {
-          console.warn(`⚠️  Failed to save estimation result: ${saveError}`);
-        }
-
-        resolve(result);
-      } catch (parseError) {
-        console.warn("Failed to parse estimation response:", parseError);
-        console.log("Raw Claude output:", stdoutOutput);
-        resolve(null);
+      } else {
+        await issueTracker.postEstimationComment(taskKey, result);
       }
-    });
-
-    if (claude.stdin) {
-      claude.stdin.write(estimationContent);
-      claude.stdin.end();
+    } catch (commentError) {
+      console.warn(
+        `⚠️  Failed to ${existingCommentId ? "update" : "post"} estimation comment: ${commentError}`
+      );
     }
-  });
+  } else {
+    console.log(
+      "⏭️  Skipping estimation JIRA comment (--skip-jira-comments)"
+    );
+  }
+
+  // Save estimation result to task directory
+  try {
+    const baseOutputDir =
+      process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+    const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
+    mkdirSync(taskDir, { recursive: true });
+    const resultFile = join(taskDir, "estimation-result.json");
+    writeFileSync(resultFile, JSON.stringify(result, null, 2), "utf8");
+    console.log(`💾 Saved estimation result to: ${resultFile}`);
+  } catch (saveError) {
+    console.warn(`⚠️  Failed to save estimation result: ${saveError}`);
+  }
+
+  return result;
 }
 
 // Parse Claude's estimation response into an EstimationResult
@@ -2277,7 +3046,7 @@ function logHookErrorToFile(
   try {
     const baseOutputDir =
       process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-    const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+    const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
     const hookErrorFile = join(taskDir, "git-hook-errors.log");
 
     const timestamp = new Date().toISOString();
@@ -2309,8 +3078,13 @@ ${"=".repeat(80)}
 /**
  * Detects if Claude only created a plan instead of implementing the task.
  * Returns the plan file path if detected, null otherwise.
+ * Uses the structured event log when available and falls back to scanning the output text.
  */
-function detectPlanOnlyBehavior(claudeOutput: string): string | null {
+function detectPlanOnlyBehavior(claudeOutput: string, log: AgentRunLog | null = null): string | null {
+  if (log) {
+    return findPlanOutput(log);
+  }
+
   // Check for common plan creation patterns (specific phrases first)
   const planCreationPatterns = [
     /I'?ve created (a|an|the) (comprehensive )?(implementation )?plan/i,
@@ -2370,6 +3144,27 @@ function detectPlanOnlyBehavior(claudeOutput: string): string | null {
   return 'PLAN_DETECTED_NO_PATH';
 }
 
+/**
+ * Creates a prompt to instruct Claude to continue an interrupted implementation.
+ * Agents without a session to resume get the original task again.
+ */
+function createResumePrompt(originalTaskContent: string, state: ResumeState): string {
+  const reason = state.reason === "timeout" ? "ran out of time" : "reached the maximum number of turns";
+  const instructions = `The previous implementation run ${reason} before the task was finished. The work done so far is in the working directory${state.branch ? ` on branch ${state.branch}` : ""}.
+
+Continue implementing the task from where you left off:
+1. Review the current changes (e.g. with git status and git diff) instead of starting over
+2. Finish the remaining work
+3. Make sure the code compiles and tests pass
+
+When you're done, summarise everything that was implemented, including the work from the previous run.`;
+
+  if (state.sessionId) {
+    return instructions;
+  }
+  return `${instructions}\n\n---\n\n${originalTaskContent}`;
+}
+
 /**
  * Creates a prompt to instruct Claude to implement an existing plan
  */
@@ -2405,14 +3200,15 @@ async function runClaude(
   issue?: any,
   createPr = false,
   prTargetBranch = "main",
-  jiraClient?: JiraClient,
+  issueTracker?: IssueTracker,
   skipJiraComments = false,
   hookRetries = 10,
   projectSettings: ProjectSettings | null = null,
   gitAuthor?: { name: string; email: string },
   autoReview = false,
   autoReviewIterations = 5,
-  isPlanRetry = false
+  isPlanRetry = false,
+  resumeState?: ResumeState
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     // Check if task file exists
@@ -2422,17 +3218,59 @@ async function runClaude(
     }
 
     // Load project settings
-    const projectSettings = loadProjectSettings();
+    const projectSettings = Utils.loadProjectSettings();
 
     // Read the task content
     const taskContent = readFileSync(taskFile, "utf8");
 
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
+    const accounting: AgentRunAccounting | undefined = taskKey
+      ? {
+          taskKey,
+          kind: "implementation",
+          notify: !skipJiraComments,
+          settings: projectSettings,
+        }
+      : undefined;
+    const hookFixAccounting: AgentRunAccounting | undefined = accounting
+      ? { ...accounting, kind: "hook-fix" }
+      : undefined;
+    const runner = createAgentRunner(claudePath, accounting);
+    const timeoutMinutes = getAgentTimeoutMinutes();
+
+    // Keep the agent session and the work so far so the run can be resumed
+    const saveForResume = async (reason: ResumeReason, sessionId: string | null) => {
+      if (!taskKey) {
+        return;
+      }
+      try {
+        const branch = await Utils.getCurrentBranch();
+        const wipCommit = enableGit && branch ? await commitWorkInProgress(taskKey, reason) : null;
+        const statePath = saveResumeState({
+          taskKey,
+          reason,
+          sessionId,
+          branch: branch || null,
+          wipCommit,
+          taskFile,
+          taskSummary,
+          enableGit,
+          createPr,
+          prTargetBranch,
+          skipJiraComments,
+          hookRetries,
+          autoReview,
+          autoReviewIterations,
+          savedAt: new Date().toISOString(),
+        });
+        console.log(`\n💾 Saved resume state to: ${statePath}`);
+        console.log(`💡 Continue with: claude-intern resume ${taskKey} --max-turns <extra turns>`);
+      } catch (error) {
+        console.warn(`⚠️  Failed to save resume state: ${(error as Error).message}`);
+      }
+    };
 
-    console.log("🚀 Launching Claude...");
-    console.log(
-      `   Command: ${claudePath} -p --dangerously-skip-permissions --max-turns ${maxTurns} --verbose`
-    );
+    console.log(resumeState ? "🚀 Resuming Claude..." : "🚀 Launching Claude...");
+    console.log(`   Command: ${runner.describeCommand(maxTurns)}`);
     console.log(`   Input: ${taskFile}`);
     console.log(`   Timeout: ${timeoutMinutes} minutes`);
     console.log(
@@ -2440,86 +3278,57 @@ async function runClaude(
     );
     console.log("\n" + "=".repeat(60));
 
-    // Capture stderr to detect max turns error and stdout for JIRA comment
-    let stderrOutput = "";
-    let stdoutOutput = "";
-    let timedOut = false;
-
-    // Spawn Claude process with enhanced permissions and max turns
-    const claude: ChildProcess = spawn(
-      claudePath,
-      [
-        "-p",
-        "--dangerously-skip-permissions",
-        "--max-turns",
-        maxTurns.toString(),
-      ],
-      {
-        stdio: ["pipe", "pipe", "pipe"],
-      }
-    );
-
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claude.kill("SIGTERM");
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    // Capture and display stdout output
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stdoutOutput += output;
-        process.stdout.write(output);
-      });
-    }
-
-    // Capture stderr output for error detection while ensuring it's visible to user
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stderrOutput += output;
-        process.stderr.write(output);
-      });
+    if (resumeState?.sessionId) {
+      console.log(`   Session: ${resumeState.sessionId}`);
     }
 
-    // Handle errors
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      if (error.code === "ENOENT") {
-        reject(
-          new Error(
-            `Claude CLI not found at: ${claudePath}\nPlease install Claude CLI or specify the correct path with --claude-path`
-          )
-        );
-      } else {
-        reject(new Error(`Failed to run Claude: ${error.message}`));
+    runner.run({
+      prompt: resumeState ? createResumePrompt(taskContent, resumeState) : taskContent,
+      maxTurns,
+      timeoutMinutes,
+      stream: true,
+      resumeSessionId: resumeState?.sessionId ?? undefined,
+    }).then(async (result) => {
+      const { exitCode: code, output: stdoutOutput, stderr: stderrOutput, log: agentLog } = result;
+      if (result.status === "not_found") {
+        reject(new Error(result.error));
+        return;
+      }
+      if (result.status === "spawn_error") {
+        reject(new Error(`Failed to run Claude: ${result.error}`));
+        return;
+      }
+      if (result.status === "budget_exceeded") {
+        reject(new Error(result.error));
+        return;
       }
-    });
 
-    // Handle process exit
-    claude.on("close", async (code: number | null) => {
-      clearTimeout(timeout);
       console.log("\n" + "=".repeat(60));
 
-      if (timedOut) {
+      // Save the structured event log (tool calls, edited files, turns, cost) next to the task
+      if (agentLog) {
+        try {
+          const eventLogFile = join(dirname(taskFile), "agent-events.json");
+          writeFileSync(eventLogFile, JSON.stringify(agentLog, null, 2), "utf8");
+          console.log(`💾 Saved agent event log to: ${eventLogFile}`);
+        } catch (saveError) {
+          console.warn(`⚠️  Failed to save agent event log: ${saveError}`);
+        }
+        if (agentLog.turns !== null) {
+          updateRun(taskKey, { turns: agentLog.turns });
+        }
+      }
+
+      if (result.status === "timeout") {
         console.log(`⏰ Claude timed out after ${timeoutMinutes} minutes`);
+        finishRun(taskKey, "timed-out", `Claude timed out after ${timeoutMinutes} minutes`);
+        await saveForResume("timeout", agentLog?.sessionId ?? null);
         reject(new Error(`Claude timed out after ${timeoutMinutes} minutes`));
         return;
       }
 
-      // Check for max turns error in stderr output
-      const maxTurnsReached =
-        stderrOutput.includes("Reached max turns") ||
-        stderrOutput.includes("max turns reached") ||
-        stderrOutput.includes("maximum turns reached");
-
-      if (maxTurnsReached) {
+      // Check whether Claude hit the max turns limit
+      if (result.status === "max_turns") {
         console.log(
           "⚠️  Claude reached maximum turns limit without completing the task"
         );
@@ -2529,13 +3338,14 @@ async function runClaude(
         console.log(
           "   Consider breaking it into smaller tasks or increasing the max-turns limit"
         );
+        finishRun(taskKey, "incomplete", `Reached the max turns limit (${maxTurns})`);
 
         // Save incomplete implementation for analysis
         if (taskKey && stdoutOutput.trim()) {
           try {
             const baseOutputDir =
               process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-            const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+            const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
             const summaryFile = join(
               taskDir,
               "implementation-summary-incomplete.md"
@@ -2546,13 +3356,13 @@ async function runClaude(
 
             // Post incomplete implementation comment to JIRA (no duplicate check here
             // since we already skip tasks with existing incomplete comments)
-            if (jiraClient && !skipJiraComments && issue) {
+            if (issueTracker && !skipJiraComments && issue) {
               try {
                 // Extract description text for saving
                 const { JiraExtractor } = require("./lib/jira-extractor");
                 const descriptionText = JiraExtractor.extractTextFromADF(issue.fields?.description);
 
-                await jiraClient.postIncompleteImplementationComment(
+                await issueTracker.postIncompleteImplementationComment(
                   taskKey,
                   stdoutOutput,
                   taskSummary,
@@ -2566,13 +3376,13 @@ async function runClaude(
             }
 
             // Transition back to "To Do" status if configured
-            if (jiraClient && !skipJiraComments && taskKey && projectSettings) {
-              const projectKey = taskKey.split('-')[0];
+            if (issueTracker && !skipJiraComments && taskKey && projectSettings) {
+              const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
               const todoStatus = getTodoStatusForProject(projectKey, projectSettings);
               if (todoStatus && todoStatus.trim()) {
                 try {
                   console.log(`\n🔄 Moving ${taskKey} back to '${todoStatus}' due to max turns reached...`);
-                  await jiraClient.transitionIssue(taskKey, todoStatus.trim());
+                  await issueTracker.transitionIssue(taskKey, todoStatus.trim());
                   console.log(`✅ Task moved to '${todoStatus}'`);
                 } catch (statusError) {
                   console.warn(
@@ -2590,6 +3400,8 @@ async function runClaude(
           }
         }
 
+        await saveForResume("max_turns", agentLog?.sessionId ?? null);
+
         console.log("\n⏭️  Skipping commit and moving to next task (if any)...");
 
         // Resolve instead of reject to allow batch processing to continue
@@ -2620,7 +3432,7 @@ async function runClaude(
           try {
             const baseOutputDir =
               process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-            const taskDir = join(baseOutputDir, taskKey.toLowerCase());
+            const taskDir = join(baseOutputDir, Utils.taskKeyToSlug(taskKey));
             const summaryFile = join(
               taskDir,
               seemsIncomplete
@@ -2643,16 +3455,17 @@ async function runClaude(
           );
           console.log("   Check the output above for specific issues");
           console.log("\n⏭️  Skipping commit and moving to next task (if any)...");
+          finishRun(taskKey, "incomplete", "Claude's output indicates the implementation is incomplete");
 
           // Post incomplete implementation comment to JIRA (no duplicate check here
           // since we already skip tasks with existing incomplete comments)
-          if (jiraClient && !skipJiraComments && taskKey && stdoutOutput.trim() && issue) {
+          if (issueTracker && !skipJiraComments && taskKey && stdoutOutput.trim() && issue) {
             try {
               // Extract description text for saving
               const { JiraExtractor } = require("./lib/jira-extractor");
               const descriptionText = JiraExtractor.extractTextFromADF(issue.fields?.description);
 
-              await jiraClient.postIncompleteImplementationComment(
+              await issueTracker.postIncompleteImplementationComment(
                 taskKey,
                 stdoutOutput,
                 taskSummary,
@@ -2666,13 +3479,13 @@ async function runClaude(
           }
 
           // Transition back to "To Do" status if configured
-          if (jiraClient && !skipJiraComments && taskKey && projectSettings) {
-            const projectKey = taskKey.split('-')[0];
+          if (issueTracker && !skipJiraComments && taskKey && projectSettings) {
+            const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
             const todoStatus = getTodoStatusForProject(projectKey, projectSettings);
             if (todoStatus && todoStatus.trim()) {
               try {
                 console.log(`\n🔄 Moving ${taskKey} back to '${todoStatus}' due to incomplete implementation...`);
-                await jiraClient.transitionIssue(taskKey, todoStatus.trim());
+                await issueTracker.transitionIssue(taskKey, todoStatus.trim());
                 console.log(`✅ Task moved to '${todoStatus}'`);
               } catch (statusError) {
                 console.warn(
@@ -2710,13 +3523,14 @@ async function runClaude(
             }
             if (hookResult.hookError && attempt <= hookRetries) {
               console.log(`\n⚠️  Pre-push hook failed during ${phase} (attempt ${attempt}/${hookRetries + 1})`);
-              const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns);
+              const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, undefined, hookFixAccounting);
               logHookErrorToFile(taskKey ?? "unknown", "push-local-validation", attempt, hookResult.hookError, fixed);
               if (fixed) {
                 console.log("\n🔄 Retrying local hook validation after Claude fixed the issues...");
                 continue;
               } else {
                 console.log("\n❌ Could not fix pre-push hook errors automatically");
+                finishRun(taskKey, "hook-failed", hookResult.message);
                 return { success: false, result: hookResult };
               }
             } else {
@@ -2724,6 +3538,7 @@ async function runClaude(
                 console.log(`\n❌ Max retries (${hookRetries}) exceeded for pre-push hook fixes`);
               }
               console.log(`⚠️  ${hookResult.message}`);
+              finishRun(taskKey, "hook-failed", hookResult.message);
               return { success: false, result: hookResult };
             }
           }
@@ -2744,13 +3559,14 @@ async function runClaude(
             }
             if (pushResult.hookError && attempt <= hookRetries) {
               console.log(`\n⚠️  Git pre-push hook failed during push (attempt ${attempt}/${hookRetries + 1})`);
-              const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns);
+              const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, undefined, hookFixAccounting);
               logHookErrorToFile(taskKey ?? "unknown", "push", attempt, pushResult.hookError, fixed);
               if (fixed) {
                 console.log("\n🔄 Retrying push after Claude fixed and amended the commit...");
                 continue;
               } else {
                 console.log("\n❌ Could not fix git pre-push hook errors automatically");
+                finishRun(taskKey, "hook-failed", pushResult.message);
                 return { success: false, result: pushResult };
               }
             } else {
@@ -2758,13 +3574,17 @@ async function runClaude(
                 console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
               }
               console.log(`⚠️  ${pushResult.message}`);
+              finishRun(taskKey, pushResult.hookError ? "hook-failed" : "failed", pushResult.message);
               return { success: false, result: pushResult };
             }
           }
           return { success: false, result: { message: "Max retries exceeded" } };
         };
 
-        const createPrAndTransition = async (implementationOutput: string, autoReviewRan = false) => {
+        const createPrAndTransition = async (
+          implementationOutput: string,
+          autoReviewResult?: AutoReviewLoopResult
+        ) => {
           console.log("\n🔀 Creating pull request...");
           try {
             const prManager = new PRManager();
@@ -2780,23 +3600,28 @@ async function runClaude(
               return;
             }
 
+            const prProjectSettings = taskKey
+              ? projectSettings?.projects?.[IssueTrackerRegistry.getProjectKey(taskKey)]
+              : undefined;
             const prResult = await prManager.createPullRequest(
               issue,
               branchForPr,
               prTargetBranch,
-              implementationOutput
+              implementationOutput,
+              { labels: prProjectSettings?.prLabels, draft: prProjectSettings?.prDraft }
             );
 
             if (prResult.success) {
               console.log(`✅ Pull request created: ${prResult.url}`);
+              updateRun(taskKey, { prUrl: prResult.url });
 
-              if (taskKey && jiraClient && !skipJiraComments) {
-                const projectKey = taskKey.split('-')[0];
+              if (taskKey && issueTracker && !skipJiraComments) {
+                const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
                 const prStatus = getPrStatusForProject(projectKey, projectSettings);
                 if (prStatus && prStatus.trim()) {
                   try {
                     console.log("\n🔄 Transitioning JIRA status after PR creation...");
-                    await jiraClient.transitionIssue(taskKey, prStatus.trim());
+                    await issueTracker.transitionIssue(taskKey, prStatus.trim());
                   } catch (statusError) {
                     console.warn(`⚠️  Failed to transition JIRA status: ${(statusError as Error).message}`);
                     console.log("   PR was created successfully, but status transition failed");
@@ -2806,14 +3631,21 @@ async function runClaude(
                 console.log("\n⏭️  Skipping JIRA status transition (--skip-jira-comments)");
               }
 
-              if (autoReviewRan) {
+              if (autoReviewResult) {
                 console.log("\n✅ Auto-review was completed before push (see summary file for details)");
+
+                if (isReviewPublishingEnabled() && prResult.url?.includes("github.com")) {
+                  const publishResult = await publishAutoReviewResult(prResult.url, autoReviewResult);
+                  console.log(`${publishResult.success ? "💬" : "⚠️ "} ${publishResult.message}`);
+                }
               }
             } else {
               console.log(`⚠️  PR creation failed: ${prResult.message}`);
+              updateRun(taskKey, { message: `PR creation failed: ${prResult.message}` });
             }
           } catch (prError) {
             console.log(`⚠️  PR creation failed: ${(prError as Error).message}`);
+            updateRun(taskKey, { message: `PR creation failed: ${(prError as Error).message}` });
           }
         };
         // --- End shared helpers ---
@@ -2835,6 +3667,7 @@ async function runClaude(
 
               if (commitResult.success) {
                 console.log(`✅ ${commitResult.message}`);
+                await recordRunCommit(taskKey);
                 return { success: true, result: commitResult };
               }
 
@@ -2846,7 +3679,9 @@ async function runClaude(
                 const fixed = await runClaudeToFixGitHook(
                   "commit",
                   claudePath,
-                  maxTurns
+                  maxTurns,
+                  undefined,
+                  hookFixAccounting
                 );
 
                 // Log the hook error to file
@@ -2863,6 +3698,7 @@ async function runClaude(
                   continue;
                 } else {
                   console.log("\n❌ Could not fix git hook errors automatically");
+                  finishRun(taskKey, "hook-failed", commitResult.hookError);
                   return { success: false, result: commitResult };
                 }
               } else {
@@ -2871,6 +3707,9 @@ async function runClaude(
                   console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
                 }
                 console.log(`⚠️  ${commitResult.message}`);
+                if (commitResult.hookError) {
+                  finishRun(taskKey, "hook-failed", commitResult.hookError);
+                }
                 return { success: false, result: commitResult };
               }
             }
@@ -2883,7 +3722,7 @@ async function runClaude(
               if (!success) {
                 // Check if this is a "plan only" scenario - Claude created a plan but didn't implement
                 const noChangesToCommit = result.message === "No changes to commit";
-                const planPath = noChangesToCommit ? detectPlanOnlyBehavior(stdoutOutput) : null;
+                const planPath = noChangesToCommit ? detectPlanOnlyBehavior(stdoutOutput, agentLog) : null;
 
                 if (noChangesToCommit && planPath && !isPlanRetry) {
                   // Claude only created a plan - run it again with instructions to implement
@@ -2896,45 +3735,25 @@ async function runClaude(
                   // Create a new prompt to implement the plan
                   const implementationPrompt = createPlanImplementationPrompt(planPath, taskContent);
 
-                  // Spawn Claude again with the implementation prompt
-                  const retryProcess: ChildProcess = spawn(
-                    claudePath,
-                    [
-                      "-p",
-                      "--dangerously-skip-permissions",
-                      "--max-turns",
-                      maxTurns.toString(),
-                    ],
-                    {
-                      stdio: ["pipe", "pipe", "pipe"],
+                  // Run Claude again with the implementation prompt
+                  runner.run({
+                    prompt: implementationPrompt,
+                    maxTurns,
+                    timeoutMinutes,
+                    stream: true,
+                  }).then(async (retryResult) => {
+                    if (
+                      retryResult.status === "not_found" ||
+                      retryResult.status === "spawn_error" ||
+                      retryResult.status === "budget_exceeded"
+                    ) {
+                      console.error(`❌ Failed to re-run Claude: ${retryResult.error}`);
+                      finishRun(taskKey, "failed", retryResult.error);
+                      resolve();
+                      return;
                     }
-                  );
 
-                  let retryStdoutOutput = "";
-                  let retryStderrOutput = "";
-
-                  if (retryProcess.stdout) {
-                    retryProcess.stdout.on("data", (data: Buffer) => {
-                      const output = data.toString();
-                      retryStdoutOutput += output;
-                      process.stdout.write(output);
-                    });
-                  }
-
-                  if (retryProcess.stderr) {
-                    retryProcess.stderr.on("data", (data: Buffer) => {
-                      const output = data.toString();
-                      retryStderrOutput += output;
-                      process.stderr.write(output);
-                    });
-                  }
-
-                  if (retryProcess.stdin) {
-                    retryProcess.stdin.write(implementationPrompt);
-                    retryProcess.stdin.end();
-                  }
-
-                  retryProcess.on("close", async (retryCode: number | null) => {
+                    const { exitCode: retryCode, output: retryStdoutOutput } = retryResult;
                     console.log("\n" + "=".repeat(60));
 
                     if (retryCode === 0) {
@@ -2967,6 +3786,7 @@ async function runClaude(
 
                       if (retryCommitResult.success) {
                         console.log(`✅ ${retryCommitResult.message}`);
+                        await recordRunCommit(taskKey);
 
                         // Continue with PR creation if requested
                         if (createPr && issue) {
@@ -2982,7 +3802,7 @@ async function runClaude(
                           const planPushOutcome = await pushWithHookRetry();
 
                           if (planPushOutcome.success) {
-                            if (jiraClient && !skipJiraComments && retryStdoutOutput.trim()) {
+                            if (issueTracker && !skipJiraComments && retryStdoutOutput.trim()) {
                               try {
                                 await postImplementationComment(taskKey, retryStdoutOutput, taskSummary);
                               } catch (commentError) {
@@ -2995,25 +3815,27 @@ async function runClaude(
                         }
                       } else {
                         console.log(`⚠️  ${retryCommitResult.message}`);
+                        finishRun(
+                          taskKey,
+                          retryCommitResult.hookError ? "hook-failed" : "incomplete",
+                          retryCommitResult.message
+                        );
                         console.log(
                           'You can commit changes manually with: git add . && git commit -m "feat: implement task"'
                         );
                       }
                     } else {
                       console.log("⚠️  Plan implementation failed");
+                      finishRun(taskKey, "failed", `Plan implementation exited with code ${retryCode}`);
                     }
 
                     resolve();
                   });
 
-                  retryProcess.on("error", (error: Error) => {
-                    console.error(`❌ Failed to re-run Claude: ${error.message}`);
-                    resolve();
-                  });
-
                   return;
                 }
 
+                finishRun(taskKey, "incomplete", result.message);
                 console.log(
                   'You can commit changes manually with: git add . && git commit -m "feat: implement task"'
                 );
@@ -3035,7 +3857,7 @@ async function runClaude(
 
                 // Step 2: Run auto-review with skipPush if enabled
                 const currentBranch = await Utils.getCurrentBranch();
-                let autoReviewRan = false;
+                let autoReviewResult: AutoReviewLoopResult | undefined;
 
                 if (autoReview && currentBranch) {
                   try {
@@ -3044,15 +3866,17 @@ async function runClaude(
                     const baseOutputDir =
                       process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
                     const taskDir = taskKey
-                      ? join(baseOutputDir, taskKey.toLowerCase())
+                      ? join(baseOutputDir, Utils.taskKeyToSlug(taskKey))
                       : join(baseOutputDir, `auto-review-${Date.now()}`);
 
-                    const autoReviewResult = await runAutoReviewLoop({
+                    autoReviewResult = await runAutoReviewLoop({
                       repository: "local/repo",
                       prNumber: 0,
                       prBranch: currentBranch,
                       baseBranch: prTargetBranch,
                       claudePath,
+                      taskKey,
+                      skipTrackerComments: skipJiraComments,
                       maxIterations: autoReviewIterations,
                       minPriority: 'medium',
                       workingDir: process.cwd(),
@@ -3064,7 +3888,6 @@ async function runClaude(
                     writeFileSync(summaryPath, JSON.stringify(autoReviewResult, null, 2));
                     console.log(`\n📄 Auto-review summary saved to: ${summaryPath}`);
 
-                    autoReviewRan = true;
 
                     // Step 3: After auto-review, validate hooks again
                     console.log("\n🔍 Re-validating pre-push hook after auto-review improvements...");
@@ -3083,7 +3906,8 @@ async function runClaude(
                   }
                 }
 
-                // Step 4: Push with hook retry
+                // Step 4: Push with hook retry (auto-review may have amended the commit)
+                await recordRunCommit(taskKey);
                 const pushOutcome = await pushWithHookRetry();
 
                 if (pushOutcome.success) {
@@ -3099,7 +3923,7 @@ async function runClaude(
                     console.log("\n⏭️  Skipping JIRA comment posting (--skip-jira-comments)");
                   }
 
-                  await createPrAndTransition(stdoutOutput, autoReviewRan);
+                  await createPrAndTransition(stdoutOutput, autoReviewResult);
                 } else {
                   console.log(
                     "   Cannot create PR without pushing branch to remote"
@@ -3133,6 +3957,7 @@ async function runClaude(
               console.log(
                 `⚠️  Failed to commit changes: ${commitError.message}`
               );
+              finishRun(taskKey, "failed", `Failed to commit changes: ${commitError.message}`);
               console.log(
                 'You can commit changes manually with: git add . && git commit -m "feat: implement task"'
               );
@@ -3149,12 +3974,6 @@ async function runClaude(
         reject(new Error(`Claude exited with code ${code}`));
       }
     });
-
-    // Send task content to Claude
-    if (claude.stdin) {
-      claude.stdin.write(taskContent);
-      claude.stdin.end();
-    }
   });
 }
 
@@ -3164,6 +3983,7 @@ process.on("unhandledRejection", (error: Error) => {
   if (options.verbose && error.stack) {
     console.error(error.stack);
   }
+  finishActiveRuns(`Unhandled error: ${error.message}`);
   // Release lock before exiting
   if (lockManager) {
     lockManager.release();
@@ -3174,6 +3994,7 @@ process.on("unhandledRejection", (error: Error) => {
 // Handle process termination signals
 process.on("SIGINT", () => {
   console.log("\n\n⚠️  Received SIGINT (Ctrl+C), cleaning up...");
+  finishActiveRuns("Interrupted (SIGINT)");
   if (lockManager) {
     lockManager.release();
   }
@@ -3182,6 +4003,7 @@ process.on("SIGINT", () => {
 
 process.on("SIGTERM", () => {
   console.log("\n\n⚠️  Received SIGTERM, cleaning up...");
+  finishActiveRuns("Terminated (SIGTERM)");
   if (lockManager) {
     lockManager.release();
   }
@@ -3194,6 +4016,7 @@ process.on("uncaughtException", (error: Error) => {
   if (error.stack) {
     console.error(error.stack);
   }
+  finishActiveRuns(`Uncaught exception: ${error.message}`);
   // Release lock before exiting
   if (lockManager) {
     lockManager.release();
@@ -3208,7 +4031,7 @@ if (require.main === module) {
   const command = process.argv[2];
 
   // If it's a recognized subcommand, don't run main()
-  if (command === 'init' || command === 'serve' || command === 'address-review') {
+  if (command === 'init' || command === 'serve' || command === 'address-review' || command === 'rebase' || command === 'history' || command === 'estimate') {
     // Subcommand was handled earlier, don't run main
   } else {
     // Run main for task processing
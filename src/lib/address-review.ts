@@ -4,12 +4,13 @@
  * Manually address PR review feedback by fetching comments and running Claude.
  */
 
-import { spawn, type ChildProcess } from "child_process";
+import { createAgentRunner, getAgentTimeoutMinutes } from "./agent-runner";
 import { GitHubReviewsClient } from "./github-reviews";
 import { GitHubAppAuth } from "./github-app-auth";
 import { formatReviewPrompt } from "./review-formatter";
 import { Utils } from "./utils";
 import { runClaudeToFixGitHook } from "./git-hook-fixer";
+import { getReviewAccounting, type AgentRunAccounting } from "./usage-ledger";
 import type {
   ProcessedReviewComment,
   ProcessedReviewFeedback,
@@ -31,7 +32,7 @@ interface ParsedPRUrl {
 /**
  * Parse a GitHub PR URL into its components.
  */
-function parsePRUrl(url: string): ParsedPRUrl {
+export function parsePRUrl(url: string): ParsedPRUrl {
   // Match URLs like:
   // https://github.com/owner/repo/pull/123
   // https://github.com/owner/repo/pull/123/files
@@ -98,85 +99,48 @@ async function getLatestChangesRequestedReview(
 async function runClaude(
   prompt: string,
   workDir: string,
-  verbose: boolean
-): Promise<{ success: boolean; output: string; maxTurnsReached?: boolean }> {
-  return new Promise((resolve) => {
-    const claudePath = process.env.CLAUDE_CLI_PATH || "claude";
-    // Use high default like regular development (500 turns)
-    const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
-
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
-
-    if (verbose) {
-      console.log(`   Command: ${claudePath} -p --dangerously-skip-permissions --max-turns ${maxTurns}`);
-      console.log(`   Timeout: ${timeoutMinutes} minutes`);
-    }
-
-    let output = "";
-    let timedOut = false;
-
-    const claude: ChildProcess = spawn(
-      claudePath,
-      ["-p", "--dangerously-skip-permissions", "--max-turns", maxTurns.toString()],
-      {
-        cwd: workDir,
-        stdio: ["pipe", "pipe", "pipe"],
-      }
-    );
+  verbose: boolean,
+  accounting: AgentRunAccounting
+): Promise<{ success: boolean; output: string; maxTurnsReached?: boolean; budgetExceeded?: boolean }> {
+  const runner = createAgentRunner(undefined, accounting);
+  // Use high default like regular development (500 turns)
+  const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+
+  const timeoutMinutes = getAgentTimeoutMinutes();
+
+  if (verbose) {
+    console.log(`   Command: ${runner.describeCommand(maxTurns)}`);
+    console.log(`   Timeout: ${timeoutMinutes} minutes`);
+  }
 
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claude.kill("SIGTERM");
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        const text = data.toString();
-        output += text;
-        process.stdout.write(text);
-      });
-    }
+  const result = await runner.run({
+    prompt,
+    maxTurns,
+    cwd: workDir,
+    timeoutMinutes,
+    stream: true,
+  });
 
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        const text = data.toString();
-        output += text;
-        process.stderr.write(text);
-      });
-    }
+  if (result.status === "not_found" || result.status === "spawn_error") {
+    return {
+      success: false,
+      output: `Failed to run Claude: ${result.error}`,
+    };
+  }
+  if (result.status === "budget_exceeded") {
+    return {
+      success: false,
+      output: result.error || "",
+      budgetExceeded: true,
+    };
+  }
 
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      resolve({
-        success: false,
-        output: `Failed to run Claude: ${error.message}`,
-      });
-    });
-
-    claude.on("close", (code: number | null) => {
-      clearTimeout(timeout);
-      // Check if Claude hit max turns
-      const maxTurnsReached = output.includes("Reached max turns");
-
-      resolve({
-        success: code === 0 && !maxTurnsReached && !timedOut,
-        output: timedOut ? output + `\n\nTimed out after ${timeoutMinutes} minutes` : output,
-        maxTurnsReached,
-      });
-    });
-
-    // Send prompt to Claude via stdin
-    if (claude.stdin) {
-      claude.stdin.write(prompt);
-      claude.stdin.end();
-    }
-  });
+  const output = result.output + result.stderr;
+  return {
+    success: result.status === "success",
+    output: result.status === "timeout" ? output + `\n\nTimed out after ${timeoutMinutes} minutes` : output,
+    maxTurnsReached: result.status === "max_turns",
+  };
 }
 
 /**
@@ -236,11 +200,12 @@ async function markCommentsAddressed(
 
 /**
  * Main function to address PR review feedback.
+ * Resolves unsuccessful when there was nothing to address or Claude made no changes.
  */
 export async function addressReview(
   prUrl: string,
   options: AddressReviewOptions = {}
-): Promise<void> {
+): Promise<{ success: boolean; message: string }> {
   const { noPush = false, noReply = false, verbose = false } = options;
 
   console.log("🔍 Parsing PR URL...");
@@ -292,7 +257,7 @@ export async function addressReview(
 
   if (!review) {
     console.log("✅ No pending changes_requested reviews found.");
-    return;
+    return { success: false, message: "No pending changes_requested review to address" };
   }
 
   console.log(`   Found review from @${review.reviewer}`);
@@ -405,7 +370,7 @@ export async function addressReview(
   if (processedComments.length === 0 && processedConversationComments.length === 0) {
     console.log("\n✅ All review and conversation comments have been addressed already.");
     console.log(`   View PR: ${prUrl}`);
-    return;
+    return { success: false, message: "All review comments have been addressed already" };
   }
 
   // Build feedback object
@@ -421,6 +386,15 @@ export async function addressReview(
     conversationComments: processedConversationComments.length > 0 ? processedConversationComments : undefined,
   };
 
+  const accounting = getReviewAccounting(
+    "address-review",
+    `${owner}/${repo}`,
+    prNumber,
+    pr.title,
+    pr.head.ref
+  );
+  const hookFixAccounting: AgentRunAccounting = { ...accounting, kind: "hook-fix" };
+
   // Prepare the review worktree
   console.log(`\n🌿 Preparing review worktree for branch: ${pr.head.ref}`);
 
@@ -471,7 +445,12 @@ export async function addressReview(
   try {
     // Run Claude (prompt is passed via stdin, no file created)
     console.log("\n🤖 Running Claude to address review feedback...");
-    const claudeResult = await runClaude(prompt, workDir, verbose);
+    const claudeResult = await runClaude(prompt, workDir, verbose, accounting);
+
+    if (claudeResult.budgetExceeded) {
+      console.error(`\n❌ ${claudeResult.output}`);
+      throw new Error(claudeResult.output);
+    }
 
     if (claudeResult.maxTurnsReached) {
       console.error("\n❌ Claude reached max turns limit without completing the task");
@@ -498,7 +477,7 @@ export async function addressReview(
     if (!hasUncommitted && !hasUnpushed) {
       console.log("\n⚠️  No changes were made by Claude");
       console.log(`   View PR: ${prUrl}`);
-      return;
+      return { success: false, message: "Claude made no changes for the review" };
     }
 
     // Get hook retries configuration
@@ -561,7 +540,7 @@ export async function addressReview(
           console.log(`\n⚠️  Git hook failed (attempt ${commitAttempt}/${hookRetries + 1})`);
 
           // Try to fix the hook error with Claude
-          const fixed = await runClaudeToFixGitHook("commit", claudePath, maxTurns, workDir);
+          const fixed = await runClaudeToFixGitHook("commit", claudePath, maxTurns, workDir, hookFixAccounting);
 
           if (fixed) {
             console.log("\n🔄 Retrying commit after Claude fixed the issues...");
@@ -608,7 +587,7 @@ export async function addressReview(
           console.log(`\n⚠️  Git pre-push hook failed (attempt ${pushAttempt}/${hookRetries + 1})`);
 
           // Try to fix the hook error with Claude
-          const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, workDir);
+          const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, workDir, hookFixAccounting);
 
           if (fixed) {
             console.log("\n🔄 Retrying push after Claude fixed and amended the commit...");
@@ -653,6 +632,7 @@ export async function addressReview(
 
     console.log(`\n✅ Successfully addressed review for PR #${prNumber}`);
     console.log(`   View PR: ${prUrl}`);
+    return { success: true, message: `Addressed the review from @${review.reviewer}` };
   } finally {
     // Clean up any untracked files left by linters/tools/Claude
     const statusResult = await Utils.executeGitCommand(
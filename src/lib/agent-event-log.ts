@@ -0,0 +1,249 @@
+/**
+ * Agent Event Log
+ *
+ * Parses Claude's stream-json output (one JSON message per line) into typed
+ * events and summarises them: tool calls, edited files, result, turns and cost.
+ */
+
+import type {
+  AgentEvent,
+  AgentRunLog,
+  AgentToolCall,
+  AgentUsage,
+} from "../types/agent-events";
+
+const EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+interface StreamJsonContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  is_error?: boolean;
+}
+
+interface StreamJsonUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface StreamJsonMessage {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  model?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    content?: StreamJsonContentBlock[] | string;
+    usage?: StreamJsonUsage;
+  };
+  result?: string;
+  is_error?: boolean;
+  num_turns?: number;
+  total_cost_usd?: number;
+  usage?: StreamJsonUsage;
+}
+
+function toAgentUsage(usage: StreamJsonUsage): AgentUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+  };
+}
+
+/**
+ * Parse one line of stream-json output.
+ * Returns null for lines that are not stream-json messages.
+ */
+export function parseStreamJsonLine(line: string): AgentEvent[] | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return null;
+  }
+
+  let message: StreamJsonMessage;
+  try {
+    message = JSON.parse(trimmed) as StreamJsonMessage;
+  } catch {
+    return null;
+  }
+  if (typeof message.type !== "string") {
+    return null;
+  }
+
+  const content = Array.isArray(message.message?.content) ? message.message.content : [];
+
+  switch (message.type) {
+    case "system":
+      return message.subtype === "init" && message.session_id
+        ? [{ type: "init", sessionId: message.session_id, model: message.model }]
+        : [];
+    case "assistant": {
+      const events = content.flatMap((block): AgentEvent[] => {
+        if (block.type === "text" && block.text) {
+          return [{ type: "text", text: block.text }];
+        }
+        if (block.type === "tool_use" && block.name) {
+          return [
+            { type: "tool_call", id: block.id || "", name: block.name, input: block.input || {} },
+          ];
+        }
+        return [];
+      });
+      if (message.message?.id && message.message.usage) {
+        events.push({
+          type: "usage",
+          messageId: message.message.id,
+          model: message.message.model ?? null,
+          usage: toAgentUsage(message.message.usage),
+        });
+      }
+      return events;
+    }
+    case "user":
+      return content
+        .filter((block) => block.type === "tool_result")
+        .map((block) => ({
+          type: "tool_result" as const,
+          toolUseId: block.tool_use_id || "",
+          isError: block.is_error === true,
+        }));
+    case "result":
+      return [
+        {
+          type: "result",
+          subtype: message.subtype || "success",
+          isError: message.is_error === true,
+          text: typeof message.result === "string" ? message.result : null,
+          turns: message.num_turns ?? null,
+          costUsd: message.total_cost_usd ?? null,
+          usage: message.usage ? toAgentUsage(message.usage) : null,
+          sessionId: message.session_id || null,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Summarise a list of events into a run log.
+ */
+export function buildAgentRunLog(events: AgentEvent[]): AgentRunLog {
+  const toolCalls: AgentToolCall[] = [];
+  const editedFiles: string[] = [];
+  let sessionId: string | null = null;
+  let result: Extract<AgentEvent, { type: "result" }> | null = null;
+
+  for (const event of events) {
+    if (event.type === "init") {
+      sessionId = event.sessionId;
+    } else if (event.type === "tool_call") {
+      toolCalls.push({ id: event.id, name: event.name, input: event.input });
+      const file = event.input.file_path ?? event.input.notebook_path;
+      if (EDIT_TOOLS.has(event.name) && typeof file === "string" && !editedFiles.includes(file)) {
+        editedFiles.push(file);
+      }
+    } else if (event.type === "result") {
+      result = event;
+    }
+  }
+
+  return {
+    events,
+    toolCalls,
+    editedFiles,
+    resultText: result?.text ?? null,
+    resultSubtype: result?.subtype ?? null,
+    isError: result?.isError ?? false,
+    turns: result?.turns ?? null,
+    costUsd: result?.costUsd ?? null,
+    usage: result?.usage ?? null,
+    sessionId: result?.sessionId || sessionId,
+  };
+}
+
+/**
+ * Parse complete stream-json output into a run log.
+ * Returns null if the output contains no stream-json messages.
+ */
+export function parseStreamJson(output: string): AgentRunLog | null {
+  const events: AgentEvent[] = [];
+  let sawMessage = false;
+
+  for (const line of output.split("\n")) {
+    const parsed = parseStreamJsonLine(line);
+    if (parsed) {
+      sawMessage = true;
+      events.push(...parsed);
+    }
+  }
+
+  return sawMessage ? buildAgentRunLog(events) : null;
+}
+
+/**
+ * The agent's final text: the result message, or its last text reply if the run did not finish.
+ */
+export function getAgentOutputText(log: AgentRunLog): string {
+  if (log.resultText !== null) {
+    return log.resultText;
+  }
+  const texts = log.events.filter(
+    (event): event is Extract<AgentEvent, { type: "text" }> => event.type === "text"
+  );
+  return texts.length > 0 ? texts[texts.length - 1].text : "";
+}
+
+/**
+ * Check whether the run stopped at the max turns limit.
+ */
+export function isMaxTurnsRun(log: AgentRunLog): boolean {
+  return log.resultSubtype === "error_max_turns";
+}
+
+/**
+ * Find a plan the agent wrote instead of implementing the task.
+ * Returns the plan file path, "PLAN_DETECTED_NO_PATH" when the agent only exited plan mode,
+ * or null when no plan was produced.
+ */
+export function findPlanOutput(log: AgentRunLog): string | null {
+  const planFile = [...log.editedFiles].reverse().find((file) => file.includes("/.claude/plans/"));
+  if (planFile) {
+    return planFile;
+  }
+  return log.toolCalls.some((call) => call.name === "ExitPlanMode") ? "PLAN_DETECTED_NO_PATH" : null;
+}
+
+/**
+ * Render an event as a terminal line while streaming.
+ */
+export function formatAgentEvent(event: AgentEvent): string | null {
+  switch (event.type) {
+    case "text":
+      return event.text;
+    case "tool_call": {
+      const target =
+        event.input.file_path ?? event.input.command ?? event.input.pattern ?? event.input.url;
+      return typeof target === "string"
+        ? `🔧 ${event.name}: ${target.split("\n")[0]}`
+        : `🔧 ${event.name}`;
+    }
+    case "result": {
+      const details = [
+        event.turns !== null ? `${event.turns} turns` : null,
+        event.costUsd !== null ? `$${event.costUsd.toFixed(2)}` : null,
+      ].filter(Boolean);
+      return details.length > 0 ? `📈 Finished: ${event.subtype} (${details.join(", ")})` : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * Agent Runner
+ *
+ * Runs the coding agent CLI (Claude by default) with a prompt on stdin and
+ * shares the timeout, output capture and exit classification logic between callers.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import type { AgentEvent, AgentRunLog } from "../types/agent-events";
+import {
+  formatAgentEvent,
+  getAgentOutputText,
+  isMaxTurnsRun,
+  parseStreamJson,
+  parseStreamJsonLine,
+} from "./agent-event-log";
+import { AccountedAgentRunner, type AgentRunAccounting } from "./usage-ledger";
+
+export type AgentRunStatus =
+  | "success"
+  | "failed"
+  | "timeout"
+  | "max_turns"
+  | "not_found"
+  | "spawn_error"
+  | "budget_exceeded";
+
+export interface AgentRunOptions {
+  prompt: string;
+  maxTurns: number;
+  cwd?: string;
+  /** Defaults to CLAUDE_TIMEOUT_MINUTES (60) */
+  timeoutMinutes?: number;
+  /** Echo agent output to the terminal while capturing it */
+  stream?: boolean;
+  /** Continue an earlier session (ignored by agents without sessions) */
+  resumeSessionId?: string;
+  /** Called for each event while the run is in progress (agents with structured output only) */
+  onEvent?: (event: AgentEvent) => void;
+  /** Stops the agent process when aborted */
+  signal?: AbortSignal;
+}
+
+export interface AgentRunResult {
+  status: AgentRunStatus;
+  exitCode: number | null;
+  /** The agent's final text (the result message for structured runs, stdout otherwise) */
+  output: string;
+  stdout: string;
+  stderr: string;
+  /** Parsed event log for agents with structured output */
+  log: AgentRunLog | null;
+  /** Wall time of the run */
+  durationMs: number;
+  /** Error message for "not_found", "spawn_error" and "budget_exceeded" */
+  error?: string;
+}
+
+export interface AgentRunner {
+  /** Display name used in log messages */
+  readonly name: string;
+  /** Command line shown to the user before running */
+  describeCommand(maxTurns: number): string;
+  run(options: AgentRunOptions): Promise<AgentRunResult>;
+}
+
+interface AgentCommand {
+  command: string;
+  args: string[];
+  /** Prompt written to stdin; null when the prompt is passed via arguments */
+  stdin: string | null;
+  /** stdout is stream-json and should be parsed into an event log */
+  structuredOutput?: boolean;
+  cleanup?: () => void;
+}
+
+const MAX_TURNS_PATTERNS = [
+  "Reached max turns",
+  "max turns reached",
+  "maximum turns reached",
+];
+
+/**
+ * Timeout for agent runs, configured via CLAUDE_TIMEOUT_MINUTES.
+ */
+export function getAgentTimeoutMinutes(): number {
+  return parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
+}
+
+/**
+ * Check agent output for a max turns message.
+ */
+export function isMaxTurnsOutput(output: string): boolean {
+  return MAX_TURNS_PATTERNS.some((pattern) => output.includes(pattern));
+}
+
+/**
+ * Classify a finished agent process.
+ */
+export function classifyAgentExit(
+  exitCode: number | null,
+  output: string,
+  stderr: string,
+  timedOut: boolean,
+  log: AgentRunLog | null = null
+): AgentRunStatus {
+  if (timedOut) {
+    return "timeout";
+  }
+  if ((log && isMaxTurnsRun(log)) || isMaxTurnsOutput(stderr) || isMaxTurnsOutput(output)) {
+    return "max_turns";
+  }
+  return exitCode === 0 ? "success" : "failed";
+}
+
+/**
+ * Spawn an agent command, enforce the timeout and capture its output.
+ */
+function spawnAgent(
+  name: string,
+  agentCommand: AgentCommand,
+  options: AgentRunOptions,
+  notFoundMessage: string
+): Promise<AgentRunResult> {
+  return new Promise((resolve) => {
+    const timeoutMinutes = options.timeoutMinutes ?? getAgentTimeoutMinutes();
+    const startedAt = Date.now();
+
+    let stdout = "";
+    let stderr = "";
+    let pendingLine = "";
+    let timedOut = false;
+    let settled = false;
+
+    // Pass events on and show readable events instead of raw stream-json lines
+    const handleLine = (line: string) => {
+      const events = parseStreamJsonLine(line);
+      if (!events) {
+        if (options.stream) {
+          process.stdout.write(line + "\n");
+        }
+        return;
+      }
+      for (const event of events) {
+        options.onEvent?.(event);
+        const text = options.stream ? formatAgentEvent(event) : null;
+        if (text) {
+          process.stdout.write(text + "\n");
+        }
+      }
+    };
+
+    const finish = (result: AgentRunResult) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      options.signal?.removeEventListener("abort", stop);
+      agentCommand.cleanup?.();
+      resolve(result);
+    };
+
+    const child: ChildProcess = spawn(agentCommand.command, agentCommand.args, {
+      cwd: options.cwd,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    function stop() {
+      child.kill("SIGTERM");
+      // Force kill after 10 seconds if SIGTERM doesn't work
+      setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill("SIGKILL");
+        }
+      }, 10_000).unref();
+    }
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      console.error(`\n⏰ ${name} process timed out after ${timeoutMinutes} minutes, killing...`);
+      stop();
+    }, timeoutMinutes * 60 * 1000);
+
+    if (options.signal?.aborted) {
+      stop();
+    } else {
+      options.signal?.addEventListener("abort", stop, { once: true });
+    }
+
+    child.stdout?.on("data", (data: Buffer) => {
+      const text = data.toString();
+      stdout += text;
+      if (!agentCommand.structuredOutput) {
+        if (options.stream) {
+          process.stdout.write(text);
+        }
+        return;
+      }
+      if (!options.stream && !options.onEvent) {
+        return;
+      }
+      const lines = (pendingLine + text).split("\n");
+      pendingLine = lines.pop() || "";
+      lines.forEach(handleLine);
+    });
+
+    child.stderr?.on("data", (data: Buffer) => {
+      const text = data.toString();
+      stderr += text;
+      if (options.stream) {
+        process.stderr.write(text);
+      }
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      finish({
+        status: error.code === "ENOENT" ? "not_found" : "spawn_error",
+        exitCode: null,
+        output: "",
+        stdout,
+        stderr,
+        log: null,
+        durationMs: Date.now() - startedAt,
+        error: error.code === "ENOENT" ? notFoundMessage : error.message,
+      });
+    });
+
+    child.on("close", (code: number | null) => {
+      if (pendingLine) {
+        handleLine(pendingLine);
+      }
+      const log = agentCommand.structuredOutput ? parseStreamJson(stdout) : null;
+      const output = log ? getAgentOutputText(log) : stdout;
+      finish({
+        status: classifyAgentExit(code, output, stderr, timedOut, log),
+        exitCode: code,
+        output,
+        stdout,
+        stderr,
+        log,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+    if (child.stdin) {
+      // The agent may exit before reading all of stdin
+      child.stdin.on("error", () => {});
+      if (agentCommand.stdin !== null) {
+        child.stdin.write(agentCommand.stdin);
+      }
+      child.stdin.end();
+    }
+  });
+}
+
+/**
+ * Runs the Claude CLI in print mode with permissions skipped and stream-json output.
+ */
+export class ClaudeAgentRunner implements AgentRunner {
+  readonly name = "Claude";
+
+  constructor(private claudePath: string) {}
+
+  private buildArgs(maxTurns: number, resumeSessionId?: string): string[] {
+    const args = [
+      "-p",
+      "--dangerously-skip-permissions",
+      "--max-turns",
+      maxTurns.toString(),
+      "--output-format",
+      "stream-json",
+      "--verbose",
+    ];
+    if (resumeSessionId) {
+      args.push("--resume", resumeSessionId);
+    }
+    return args;
+  }
+
+  describeCommand(maxTurns: number): string {
+    return [this.claudePath, ...this.buildArgs(maxTurns)].join(" ");
+  }
+
+  run(options: AgentRunOptions): Promise<AgentRunResult> {
+    return spawnAgent(
+      this.name,
+      {
+        command: this.claudePath,
+        args: this.buildArgs(options.maxTurns, options.resumeSessionId),
+        stdin: options.prompt,
+        structuredOutput: true,
+      },
+      options,
+      `Claude CLI not found at: ${this.claudePath}\nPlease install Claude CLI or specify the correct path with --claude-path`
+    );
+  }
+}
+
+/**
+ * Split a command template into arguments, honouring single and double quotes.
+ */
+export function parseCommandTemplate(template: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: '"' | "'" | null = null;
+  let inArg = false;
+
+  for (const char of template.trim()) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        args.push(current);
+        current = "";
+        inArg = false;
+      }
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated quote in agent command: ${template}`);
+  }
+  if (inArg) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Runs any CLI agent from a command template (AGENT_COMMAND).
+ *
+ * Placeholders: {maxTurns}, {cwd}, {prompt} (prompt as an argument) and
+ * {promptFile} (path to a temporary file with the prompt). Without a prompt
+ * placeholder the prompt is written to stdin.
+ */
+export class CommandTemplateAgentRunner implements AgentRunner {
+  readonly name: string;
+  private template: string[];
+
+  constructor(template: string) {
+    this.template = parseCommandTemplate(template);
+    if (this.template.length === 0) {
+      throw new Error("Agent command template is empty");
+    }
+    this.name = basename(this.template[0]);
+  }
+
+  private substitute(values: Record<string, string>): string[] {
+    return this.template.map((arg) =>
+      arg.replace(/\{(maxTurns|cwd|prompt|promptFile)\}/g, (match, key: string) => values[key] ?? match)
+    );
+  }
+
+  describeCommand(maxTurns: number): string {
+    return this.substitute({ maxTurns: maxTurns.toString() }).join(" ");
+  }
+
+  run(options: AgentRunOptions): Promise<AgentRunResult> {
+    const usesPromptFile = this.template.some((arg) => arg.includes("{promptFile}"));
+    const usesPromptArg = this.template.some((arg) => arg.includes("{prompt}"));
+
+    let promptDir: string | undefined;
+    let promptFile = "";
+    if (usesPromptFile) {
+      promptDir = mkdtempSync(join(tmpdir(), "claude-intern-agent-"));
+      promptFile = join(promptDir, "prompt.md");
+      writeFileSync(promptFile, options.prompt, "utf8");
+    }
+
+    const [command, ...args] = this.substitute({
+      maxTurns: options.maxTurns.toString(),
+      cwd: options.cwd || process.cwd(),
+      prompt: options.prompt,
+      promptFile,
+    });
+
+    return spawnAgent(
+      this.name,
+      {
+        command,
+        args,
+        stdin: usesPromptFile || usesPromptArg ? null : options.prompt,
+        cleanup: promptDir
+          ? () => rmSync(promptDir as string, { recursive: true, force: true })
+          : undefined,
+      },
+      options,
+      `Agent command not found: ${command}\nCheck the AGENT_COMMAND environment variable`
+    );
+  }
+}
+
+/**
+ * Create the configured agent runner: AGENT_COMMAND if set, otherwise the Claude CLI.
+ * With accounting, runs are checked against the budgets and recorded in the usage ledger.
+ */
+export function createAgentRunner(
+  claudePath?: string,
+  accounting?: AgentRunAccounting
+): AgentRunner {
+  const template = process.env.AGENT_COMMAND?.trim();
+  const runner = template
+    ? new CommandTemplateAgentRunner(template)
+    : new ClaudeAgentRunner(claudePath || process.env.CLAUDE_CLI_PATH || "claude");
+  return accounting ? new AccountedAgentRunner(runner, accounting) : runner;
+}
+
+/**
+ * Run the configured agent with a prompt in a worktree, using CLAUDE_MAX_TURNS
+ * and the agent timeout. Any outcome other than success is reported as a failure.
+ */
+export async function runAgentPrompt(
+  prompt: string,
+  workDir: string,
+  verbose: boolean,
+  accounting: AgentRunAccounting
+): Promise<{ success: boolean; output: string }> {
+  const runner = createAgentRunner(undefined, accounting);
+  const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+  const timeoutMinutes = getAgentTimeoutMinutes();
+
+  if (verbose) {
+    console.log(`   Command: ${runner.describeCommand(maxTurns)}`);
+    console.log(`   Timeout: ${timeoutMinutes} minutes`);
+  }
+
+  const result = await runner.run({ prompt, maxTurns, cwd: workDir, timeoutMinutes, stream: true });
+
+  if (result.status === "not_found" || result.status === "spawn_error" || result.status === "budget_exceeded") {
+    return { success: false, output: result.error || `Claude run ${result.status}` };
+  }
+  if (result.status !== "success") {
+    return { success: false, output: `Claude run ended with ${result.status}` };
+  }
+  return { success: true, output: result.output };
+}
@@ -8,16 +8,40 @@
  * 4. Repeat until all important issues resolved or max iterations reached
  */
 
-import { execSync, spawn } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import {
   type AutoReviewLoopOptions,
   type AutoReviewLoopResult,
+  type AutoReviewStopReason,
   type ReviewFeedback,
+  type ReviewCheckResult,
   type ReviewFeedbackItem,
+  type ReviewPersona,
   type ReviewPriority,
 } from '../types/auto-review.js';
+import { createAgentRunner, getAgentTimeoutMinutes } from './agent-runner';
+import { GitHubReviewsClient } from './github-reviews';
+import { applyCheckResults, formatCheckResults, getReviewChecks, runReviewChecks } from './review-checks';
+import {
+  chunkDiff,
+  DEFAULT_MAX_DIFF_CHARS,
+  getReviewIgnoreGlobs,
+  isIgnoredPath,
+  splitDiffByFile,
+  type DiffChunk,
+} from './review-chunks';
+import {
+  assignFingerprints,
+  countDiffLines,
+  DEFAULT_MAX_DIFF_GROWTH,
+  detectConvergenceIssue,
+} from './review-convergence';
+import { getReviewPersonas, mergeReviewFeedback, REVIEW_PERSONAS } from './review-personas';
+import { isReviewPublishingEnabled, ReviewPublisher } from './review-publisher';
+import type { AgentRunAccounting } from './usage-ledger';
+import { Utils } from './utils';
 
 const PRIORITY_WEIGHTS: Record<ReviewPriority, number> = {
   critical: 5,
@@ -27,6 +51,61 @@ const PRIORITY_WEIGHTS: Record<ReviewPriority, number> = {
   info: 1,
 };
 
+// Changed files of the other parts listed in a chunk review prompt
+const MAX_OTHER_FILES_LISTED = 50;
+
+/**
+ * One chunk of a diff too large to review in one prompt
+ */
+interface ReviewPart {
+  index: number;
+  total: number;
+  chunk: DiffChunk;
+  otherFiles: string[];
+}
+
+/**
+ * JSON format the review and merge prompts ask for
+ */
+function formatFeedbackSchema(categories: string[]): string {
+  return `\`\`\`json
+{
+  "summary": "Brief overall assessment of the PR (2-3 sentences)",
+  "items": [
+    {
+      "priority": "critical|high|medium|low|info",
+      "category": "${categories.join('|')}",
+      "file": "path/to/file.ts",
+      "line": "42" or "42-45",
+      "issue": "Clear description of the issue",
+      "suggestion": "Specific actionable fix or improvement"
+    }
+  ],
+  "approved": false
+}
+\`\`\``;
+}
+
+/**
+ * Describe which part of the PR a chunk review covers
+ */
+function formatReviewPart(part?: ReviewPart): string {
+  if (!part) {
+    return '';
+  }
+
+  const listed = part.otherFiles.slice(0, MAX_OTHER_FILES_LISTED).map((file) => `\`${file}\``);
+  if (part.otherFiles.length > MAX_OTHER_FILES_LISTED) {
+    listed.push(`and ${part.otherFiles.length - MAX_OTHER_FILES_LISTED} more`);
+  }
+
+  return `## Review Scope
+This diff is part ${part.index} of ${part.total} of the pull request, covering ${part.chunk.label}. The other parts are reviewed separately; they change ${listed.join(', ')}.
+Only report issues in this part. Read the changed files and their callers in the working directory when you need more context than the diff shows.
+
+`;
+}
+
 /**
  * Generate review prompt for Claude based on PR diff
  */
@@ -34,9 +113,19 @@ function generateReviewPrompt(
   repository: string,
   prNumber: number,
   prDiff: string,
-  iteration: number
+  iteration: number,
+  persona: ReviewPersona = REVIEW_PERSONAS.general,
+  checkResults: ReviewCheckResult[] = [],
+  part?: ReviewPart
 ): string {
-  return `You are reviewing a pull request. Your task is to analyze the code changes and provide structured feedback in JSON format.
+  const general = persona.name === 'general';
+  const role = general ? 'You are reviewing a pull request.' : `You are the ${persona.title} reviewer of a pull request.`;
+  const scope = general
+    ? 'Analyze the following aspects:'
+    : `Other reviewers cover the remaining aspects. Only report ${persona.title.toLowerCase()} issues, analyzing:`;
+  const criteria = persona.criteria.map((criterion, idx) => `${idx + 1}. ${criterion}`).join('\n');
+
+  return `${role} Your task is to analyze the code changes and provide structured feedback in JSON format.
 
 ## PR Information
 - **Repository**: ${repository}
@@ -44,15 +133,10 @@ function generateReviewPrompt(
 - **Review Iteration**: ${iteration}
 
 ## Review Criteria
-Analyze the following aspects:
-1. **Code Quality & Best Practices**: Adherence to coding standards, maintainability, readability
-2. **Potential Bugs**: Logic errors, edge cases, error handling
-3. **Performance**: Inefficient algorithms, unnecessary operations, resource usage
-4. **Security**: Vulnerabilities, input validation, authentication/authorization
-5. **Test Coverage**: Missing tests, inadequate test cases
-6. **Documentation**: Missing/unclear comments, outdated documentation
-
-## PR Diff
+${scope}
+${criteria}
+
+${formatReviewPart(part)}${formatCheckResults(checkResults)}## PR Diff
 \`\`\`diff
 ${prDiff}
 \`\`\`
@@ -69,22 +153,7 @@ ${prDiff}
 
 4. Provide your feedback as JSON in the following format:
 
-\`\`\`json
-{
-  "summary": "Brief overall assessment of the PR (2-3 sentences)",
-  "items": [
-    {
-      "priority": "critical|high|medium|low|info",
-      "category": "code-quality|bug|performance|security|testing|documentation|style",
-      "file": "path/to/file.ts",
-      "line": "42" or "42-45",
-      "issue": "Clear description of the issue",
-      "suggestion": "Specific actionable fix or improvement"
-    }
-  ],
-  "approved": false
-}
-\`\`\`
+${formatFeedbackSchema(persona.focus)}
 
 5. Set "approved": true ONLY if all issues are low priority or informational
 6. Be constructive and specific in your feedback
@@ -94,6 +163,51 @@ ${prDiff}
 `;
 }
 
+/**
+ * Generate prompt for Claude to merge the reviews of a chunked PR into one
+ */
+function generateMergePrompt(
+  repository: string,
+  prNumber: number,
+  persona: ReviewPersona,
+  partReviews: Array<{ chunk: DiffChunk; feedback: ReviewFeedback }>
+): string {
+  const parts = partReviews
+    .map(
+      ({ chunk, feedback }, idx) => `### Part ${idx + 1}: ${chunk.label}
+Files: ${chunk.files.map((file) => `\`${file}\``).join(', ')}
+
+\`\`\`json
+${JSON.stringify(feedback, null, 2)}
+\`\`\``
+    )
+    .join('\n\n');
+
+  return `You are merging the reviews of a large pull request that was reviewed in ${partReviews.length} parts. Your task is to combine them into one review and provide it in JSON format.
+
+## PR Information
+- **Repository**: ${repository}
+- **PR Number**: #${prNumber}
+
+## Part Reviews
+${parts}
+
+## Instructions
+1. Remove duplicate findings, keeping the most specific one with the highest priority
+2. Drop findings that another part shows to be wrong (e.g., a function reported as missing that another part adds)
+3. Add findings that only show across parts, such as a changed signature whose callers in another part were not updated. Read the files in the working directory to confirm them
+4. Keep file paths and line numbers as reported
+5. Write one summary for the whole pull request
+6. Provide the merged review as JSON in the following format:
+
+${formatFeedbackSchema(persona.focus)}
+
+7. Set "approved": true ONLY if all remaining issues are low priority or informational
+
+**IMPORTANT**: Your response must be valid JSON only. Do not include any explanatory text outside the JSON block.
+`;
+}
+
 /**
  * Generate prompt for Claude to address review feedback
  */
@@ -287,58 +401,33 @@ function parseReviewFeedback(claudeOutput: string): ReviewFeedback {
 /**
  * Run Claude with a prompt and get output
  */
-async function runClaude(prompt: string, workingDir: string, claudePath: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || '60', 10);
-
-    const claudeProcess = spawn(claudePath, ['-p', '--dangerously-skip-permissions', '--max-turns', '500'], {
-      cwd: workingDir,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    let stdout = '';
-    let stderr = '';
-    let timedOut = false;
-
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claudeProcess.kill('SIGTERM');
-      setTimeout(() => {
-        if (!claudeProcess.killed) {
-          claudeProcess.kill('SIGKILL');
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    claudeProcess.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    claudeProcess.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    claudeProcess.on('close', (code) => {
-      clearTimeout(timeout);
-      if (timedOut) {
-        reject(new Error(`Claude timed out after ${timeoutMinutes} minutes`));
-      } else if (code !== 0) {
-        reject(new Error(`Claude exited with code ${code}: ${stderr}`));
-      } else {
-        resolve(stdout);
-      }
-    });
-
-    claudeProcess.on('error', (error) => {
-      clearTimeout(timeout);
-      reject(new Error(`Failed to spawn Claude: ${error}`));
-    });
-
-    // Send prompt to stdin
-    claudeProcess.stdin.write(prompt);
-    claudeProcess.stdin.end();
+async function runClaude(
+  prompt: string,
+  workingDir: string,
+  claudePath: string,
+  accounting: AgentRunAccounting
+): Promise<string> {
+  const timeoutMinutes = getAgentTimeoutMinutes();
+  const result = await createAgentRunner(claudePath, accounting).run({
+    prompt,
+    maxTurns: 500,
+    cwd: workingDir,
+    timeoutMinutes,
   });
+
+  if (result.status === 'timeout') {
+    throw new Error(`Claude timed out after ${timeoutMinutes} minutes`);
+  }
+  if (result.status === 'not_found' || result.status === 'spawn_error') {
+    throw new Error(`Failed to spawn Claude: ${result.error}`);
+  }
+  if (result.status === 'budget_exceeded') {
+    throw new Error(result.error);
+  }
+  if (result.exitCode !== 0) {
+    throw new Error(`Claude exited with code ${result.exitCode}: ${result.stderr}`);
+  }
+  return result.output;
 }
 
 /**
@@ -419,6 +508,28 @@ function amendCommit(additionalMessage: string, workingDir: string): void {
   }
 }
 
+/**
+ * Get the commit checked out in the working directory.
+ */
+function getHeadCommit(workingDir: string): string {
+  return execSync('git rev-parse HEAD', { cwd: workingDir, encoding: 'utf-8', stdio: 'pipe' }).trim();
+}
+
+/**
+ * Discard an iteration's fixes by resetting to the commit before them.
+ * Only the paths the fixes touched are cleaned, so other untracked files
+ * (.claude-intern/ settings, the user's own files) are left alone.
+ */
+export function resetToCommit(commit: string, workingDir: string): void {
+  const touched = execFileSync('git', ['diff', '--name-only', commit], { cwd: workingDir, encoding: 'utf-8', stdio: 'pipe' })
+    .split('\n')
+    .filter(Boolean);
+  execFileSync('git', ['reset', '--hard', commit], { cwd: workingDir, encoding: 'utf-8', stdio: 'pipe' });
+  if (touched.length > 0) {
+    execFileSync('git', ['clean', '-fd', '--', ...touched], { cwd: workingDir, encoding: 'utf-8', stdio: 'pipe' });
+  }
+}
+
 /**
  * Escape a string for safe use as a shell argument.
  */
@@ -429,7 +540,7 @@ function shellEscape(s: string): string {
 /**
  * Push changes to remote
  */
-function pushChanges(branch: string, workingDir: string, forceWithLease = false): void {
+export function pushChanges(branch: string, workingDir: string, forceWithLease = false): void {
   try {
     const forceFlag = forceWithLease ? ' --force-with-lease' : '';
     execSync(`git push${forceFlag} origin ${branch}`, {
@@ -450,7 +561,7 @@ function saveIterationArtifacts(
   outputDir: string,
   iteration: number,
   feedback: ReviewFeedback,
-  prompt: string
+  prompts: Array<{ name: string; prompt: string }>
 ): void {
   const iterationDir = join(outputDir, `iteration-${iteration}`);
 
@@ -459,7 +570,57 @@ function saveIterationArtifacts(
   }
 
   writeFileSync(join(iterationDir, 'feedback.json'), JSON.stringify(feedback, null, 2));
-  writeFileSync(join(iterationDir, 'review-prompt.txt'), prompt);
+  for (const { name, prompt } of prompts) {
+    writeFileSync(join(iterationDir, `${name}.txt`), prompt);
+  }
+}
+
+/**
+ * Review the diff as one persona. Chunked diffs get a review per chunk and a
+ * final pass merging them; run() sends a named prompt to Claude.
+ */
+async function reviewAsPersona(
+  persona: ReviewPersona,
+  chunks: DiffChunk[],
+  review: { repository: string; prNumber: number; iteration: number; checkResults: ReviewCheckResult[] },
+  run: (name: string, prompt: string) => Promise<string>
+): Promise<ReviewFeedback> {
+  const { repository, prNumber, iteration, checkResults } = review;
+  const promptName = persona.name === 'general' ? 'review-prompt' : `review-prompt-${persona.name}`;
+
+  if (chunks.length === 1) {
+    const output = await run(
+      promptName,
+      generateReviewPrompt(repository, prNumber, chunks[0].diff, iteration, persona, checkResults)
+    );
+    console.log('📋 Parsing review feedback...');
+    return parseReviewFeedback(output);
+  }
+
+  const partReviews: Array<{ chunk: DiffChunk; feedback: ReviewFeedback }> = [];
+  for (const [idx, chunk] of chunks.entries()) {
+    console.log(`   📦 Part ${idx + 1}/${chunks.length}: ${chunk.label} (${chunk.files.length} file(s))`);
+    const part: ReviewPart = {
+      index: idx + 1,
+      total: chunks.length,
+      chunk,
+      otherFiles: chunks.flatMap((other) => (other === chunk ? [] : other.files)),
+    };
+    const output = await run(
+      `${promptName}-part-${idx + 1}`,
+      generateReviewPrompt(repository, prNumber, chunk.diff, iteration, persona, checkResults, part)
+    );
+    partReviews.push({ chunk, feedback: parseReviewFeedback(output) });
+  }
+
+  console.log('🧩 Merging part reviews...');
+  try {
+    const output = await run(`${promptName}-merge`, generateMergePrompt(repository, prNumber, persona, partReviews));
+    return parseReviewFeedback(output);
+  } catch (error) {
+    console.warn(`⚠️  Merge pass failed, combining part reviews directly: ${(error as Error).message}`);
+    return mergeReviewFeedback(partReviews.map(({ feedback }) => ({ persona, feedback })));
+  }
 }
 
 /**
@@ -477,19 +638,46 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
     workingDir,
     outputDir,
     skipPush = false,
+    publishReview = isReviewPublishingEnabled(),
+    maxDiffGrowth = DEFAULT_MAX_DIFF_GROWTH,
   } = options;
+  const settings = Utils.loadProjectSettings(workingDir) ?? undefined;
+  const personas = getReviewPersonas(options.personas, settings);
+  const checks = getReviewChecks(options.checks, settings);
+  const ignoreGlobs = getReviewIgnoreGlobs(options.ignoreGlobs, settings);
+  const maxDiffChars = options.maxDiffChars ?? settings?.reviewMaxDiffChars ?? DEFAULT_MAX_DIFF_CHARS;
+  const accounting: AgentRunAccounting = {
+    taskKey: options.taskKey || `${repository}#${prNumber}`,
+    kind: 'auto-review',
+    notify: options.taskKey !== undefined && !options.skipTrackerComments,
+  };
 
   console.log(`\n🔄 Starting automatic PR review loop for #${prNumber}`);
   console.log(`   Base branch: ${baseBranch}`);
   console.log(`   Max iterations: ${maxIterations}`);
   console.log(`   Addressing: ${minPriority}+ priority issues`);
+  console.log(`   Reviewers: ${personas.map((persona) => persona.title).join(', ')}`);
+  if (checks.length > 0) {
+    console.log(`   Checks: ${checks.map((check) => check.name).join(', ')}`);
+  }
   if (skipPush) {
     console.log(`   Push mode: deferred (will not push during iterations)`);
   }
   console.log('');
 
+  const [owner, repo] = repository.split('/');
+  const publisher =
+    publishReview && prNumber > 0
+      ? new ReviewPublisher(new GitHubReviewsClient(), owner, repo, prNumber)
+      : null;
+
   const history: AutoReviewLoopResult['history'] = [];
   let currentFeedback: ReviewFeedback | null = null;
+  let stopReason: AutoReviewStopReason = 'max-iterations';
+  let stopDetails: string | undefined;
+  let rolledBackIteration: number | undefined;
+  // Commit before the latest iteration's fixes, to roll them back if they made things worse
+  let fixBaseCommit: string | null = null;
 
   for (let iteration = 1; iteration <= maxIterations; iteration++) {
     console.log(`\n--- Iteration ${iteration}/${maxIterations} ---\n`);
@@ -501,6 +689,23 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
       console.log(`📥 Fetching updated PR diff (after iteration ${iteration - 1} fixes)...`);
     }
     const prDiff = getPRDiff(baseBranch, workingDir);
+    const files = splitDiffByFile(prDiff);
+    const reviewFiles = files.filter((file) => !isIgnoredPath(file.path, ignoreGlobs));
+    if (reviewFiles.length < files.length) {
+      console.log(`⏭️  Skipping ${files.length - reviewFiles.length} lockfile/generated/vendored file(s)`);
+    }
+    const reviewDiff = reviewFiles.map((file) => file.diff).join('');
+    const chunks =
+      reviewDiff.length > maxDiffChars
+        ? chunkDiff(reviewFiles, maxDiffChars)
+        : [{ label: 'all files', files: reviewFiles.map((file) => file.path), diff: reviewDiff }];
+    if (chunks.length > 1) {
+      console.log(`✂️  Diff is ${reviewDiff.length} characters, reviewing it in ${chunks.length} parts`);
+    }
+
+    const checkResults = await runReviewChecks(checks, workingDir);
+    const failedChecks = checkResults.filter((result) => !result.passed).map((result) => result.check.name);
+    const diffLines = countDiffLines(reviewDiff);
 
     // Step 2: Generate review prompt and request feedback
     if (iteration === 1) {
@@ -508,15 +713,41 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
     } else {
       console.log(`🔍 Re-reviewing PR to check if iteration ${iteration - 1} fixes resolved issues...`);
     }
-    const reviewPrompt = generateReviewPrompt(repository, prNumber, prDiff, iteration);
-    const claudeReviewOutput = await runClaude(reviewPrompt, workingDir, claudePath);
+    const prompts: Array<{ name: string; prompt: string }> = [];
+    const runReview = (name: string, prompt: string) => {
+      prompts.push({ name, prompt });
+      return runClaude(prompt, workingDir, claudePath, accounting);
+    };
+    const reviews: Array<{ persona: ReviewPersona; feedback: ReviewFeedback }> = [];
+
+    for (const persona of personas) {
+      if (personas.length > 1) {
+        console.log(`   👤 ${persona.title} reviewer...`);
+      }
+      try {
+        // Step 3: Parse feedback (per part for chunked diffs)
+        const feedback = await reviewAsPersona(persona, chunks, { repository, prNumber, iteration, checkResults }, runReview);
+        for (const item of feedback.items) {
+          item.reviewer = persona.name;
+        }
+        reviews.push({ persona, feedback });
+      } catch (error) {
+        // A single reviewer failing fails the iteration, as before personas existed
+        if (personas.length === 1) {
+          throw error;
+        }
+        console.warn(`⚠️  ${persona.title} review failed: ${(error as Error).message}`);
+      }
+    }
 
-    // Step 3: Parse feedback
-    console.log('📋 Parsing review feedback...');
-    currentFeedback = parseReviewFeedback(claudeReviewOutput);
+    if (reviews.length === 0) {
+      throw new Error('All reviewer personas failed');
+    }
+    currentFeedback = applyCheckResults(mergeReviewFeedback(reviews), checkResults);
+    assignFingerprints(currentFeedback.items, history);
 
     // Save iteration artifacts
-    saveIterationArtifacts(outputDir, iteration, currentFeedback, reviewPrompt);
+    saveIterationArtifacts(outputDir, iteration, currentFeedback, prompts);
 
     console.log(`\n📊 Review Summary: ${currentFeedback.summary}`);
     console.log(`   Total issues: ${currentFeedback.items.length}`);
@@ -560,13 +791,55 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
     // Step 4: Filter issues to address
     const toAddress = filterByPriority(currentFeedback.items, minPriority);
 
+    // Stop when the loop is going in circles, reverting the last fixes if they made things worse
+    const verdict = detectConvergenceIssue(
+      history,
+      { items: currentFeedback.items, openItems: toAddress.length, approved: currentFeedback.approved, failedChecks, diffLines },
+      maxDiffGrowth
+    );
+
+    // Findings of an iteration that gets rolled back no longer describe the code
+    if (publisher && !verdict?.rollback) {
+      try {
+        await publisher.publishIteration(iteration, currentFeedback);
+      } catch (error) {
+        console.warn(`⚠️  Failed to publish review findings: ${(error as Error).message}`);
+      }
+    }
+
+    if (verdict) {
+      console.log(`\n🛑 Stopping review loop (${verdict.reason}): ${verdict.details}`);
+      history.push({ iteration, feedback: currentFeedback, addressed: [], failedChecks, diffLines });
+      stopReason = verdict.reason;
+      stopDetails = verdict.details;
+
+      const previous = history[history.length - 2];
+      if (verdict.rollback && fixBaseCommit) {
+        try {
+          resetToCommit(fixBaseCommit, workingDir);
+          console.log(`⏪ Rolled back iteration ${previous.iteration} fixes`);
+          if (!skipPush) {
+            pushChanges(prBranch, workingDir, true);
+          }
+          rolledBackIteration = previous.iteration;
+          currentFeedback = previous.feedback;
+        } catch (error) {
+          console.warn(`⚠️  Failed to roll back iteration ${previous.iteration}: ${(error as Error).message}`);
+        }
+      }
+      break;
+    }
+
     if (toAddress.length === 0) {
       console.log('\n✅ No important issues to address. Review loop complete!');
       history.push({
         iteration,
         feedback: currentFeedback,
         addressed: [],
+        failedChecks,
+        diffLines,
       });
+      stopReason = currentFeedback.approved ? 'approved' : 'no-issues';
       break;
     }
 
@@ -575,9 +848,10 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
     // Step 5: Generate fix prompt and run Claude to address issues
     const fixPrompt = generateFixPrompt(toAddress, iteration);
     console.log('🤖 Running Claude to address feedback...');
+    fixBaseCommit = getHeadCommit(workingDir);
 
     try {
-      await runClaude(fixPrompt, workingDir, claudePath);
+      await runClaude(fixPrompt, workingDir, claudePath, accounting);
     } catch (error) {
       console.error(`⚠️  Error running Claude for fixes: ${error}`);
       // Continue to next iteration even if fixes fail
@@ -608,11 +882,14 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
       iteration,
       feedback: currentFeedback,
       addressed: toAddress,
+      failedChecks,
+      diffLines,
     });
 
     // Check if approved
     if (currentFeedback.approved) {
       console.log('\n✅ PR approved! Review loop complete.');
+      stopReason = 'approved';
       break;
     }
 
@@ -633,12 +910,26 @@ export async function runAutoReviewLoop(options: AutoReviewLoopOptions): Promise
   console.log(`\n${'='.repeat(60)}`);
   console.log(`🏁 Auto-review loop finished after ${history.length} iteration(s)`);
   console.log(`   Status: ${success ? '✅ Success' : '⚠️  Incomplete'}`);
+  console.log(`   Stopped: ${stopReason}${stopDetails ? ` - ${stopDetails}` : ''}`);
   console.log(`${'='.repeat(60)}\n`);
 
-  return {
+  const result: AutoReviewLoopResult = {
     iterations: history.length,
     success,
     finalFeedback: currentFeedback!,
     history,
+    stopReason,
+    stopDetails,
+    rolledBackIteration,
   };
+
+  if (publisher) {
+    try {
+      await publisher.publishSummary(result);
+    } catch (error) {
+      console.warn(`⚠️  Failed to publish review summary: ${(error as Error).message}`);
+    }
+  }
+
+  return result;
 }
@@ -0,0 +1,403 @@
+/**
+ * CI Fixer
+ *
+ * Fix failed CI checks on intern PRs: collect the failed check runs with their
+ * annotations and job logs, let Claude fix them in the review worktree, then
+ * commit, push and report on the PR.
+ */
+
+import { runAgentPrompt } from "./agent-runner";
+import { runWithHookFixes } from "./git-hook-fixer";
+import { GitHubAppAuth } from "./github-app-auth";
+import { GitHubReviewsClient, type CheckAnnotation, type PullRequestInfo } from "./github-reviews";
+import { getTaskContext } from "./rebase-pr";
+import { getReviewAccounting, type AgentRunAccounting } from "./usage-ledger";
+import { Utils } from "./utils";
+
+export interface CiFixOptions {
+  /** PRs with this label are fixed even when the bot didn't open them */
+  label?: string;
+  /** Fix attempts per PR (default 3) */
+  maxAttempts?: number;
+  verbose?: boolean;
+}
+
+export interface FailedCheck {
+  id: number;
+  name: string;
+  conclusion: string;
+  url: string;
+  summary?: string;
+  annotations: CheckAnnotation[];
+  /** Tail of the job log, up to the last error */
+  log?: string;
+}
+
+const CI_FIX_MARKER = /<!-- claude-intern-ci-fix sha=([0-9a-f]+) -->/;
+const CI_FIX_LIMIT_MARKER = "<!-- claude-intern-ci-fix-limit -->";
+const FAILED_CONCLUSIONS = ["failure", "timed_out"];
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+const MAX_LOG_LINES = 150;
+const MAX_LOG_LENGTH = 12000;
+const MAX_ANNOTATIONS = 50;
+
+/**
+ * Last lines of a GitHub Actions job log up to its last error, without timestamps and colors.
+ */
+export function extractLogTail(log: string, maxLines = MAX_LOG_LINES): string {
+  const lines = log
+    .replace(/\x1b\[[0-9;]*m/g, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/, ""))
+    .filter((line) => line.trim() !== "" && !line.startsWith("##[endgroup]"));
+
+  // Everything after the last error is cleanup steps
+  let end = lines.length;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].startsWith("##[error]")) {
+      end = i + 1;
+      break;
+    }
+  }
+
+  return lines.slice(Math.max(0, end - maxLines), end).join("\n").slice(-MAX_LOG_LENGTH);
+}
+
+/**
+ * Whether CI failures on a PR should be fixed: the bot opened it or it carries the label.
+ */
+export function isCiFixCandidate(
+  pr: Pick<PullRequestInfo, "user" | "labels">,
+  botUsername: string | null,
+  label?: string
+): boolean {
+  if (botUsername && pr.user?.login === botUsername) {
+    return true;
+  }
+  return !!label && (pr.labels ?? []).some((prLabel) => prLabel.name === label);
+}
+
+/**
+ * Earlier fix attempts recorded in the PR's comments.
+ */
+export function getCiFixAttempts(comments: Array<{ body: string }>): {
+  attempts: number;
+  shas: string[];
+  limitReported: boolean;
+} {
+  const shas = comments
+    .map((comment) => comment.body.match(CI_FIX_MARKER)?.[1])
+    .filter((sha): sha is string => !!sha);
+
+  return {
+    attempts: shas.length,
+    shas,
+    limitReported: comments.some((comment) => comment.body.includes(CI_FIX_LIMIT_MARKER)),
+  };
+}
+
+/**
+ * Prompt asking Claude to fix the failed checks of a PR.
+ */
+export function formatCiFixPrompt(
+  pr: { number: number; title: string; branch: string },
+  checks: FailedCheck[],
+  taskContext: string
+): string {
+  const sections = checks.map((check) => {
+    const lines = [`### ${check.name} (${check.conclusion})`, "", `Details: ${check.url}`];
+
+    if (check.summary) {
+      lines.push("", check.summary.trim());
+    }
+    if (check.annotations.length > 0) {
+      lines.push("", "**Annotations:**");
+      for (const annotation of check.annotations.slice(0, MAX_ANNOTATIONS)) {
+        const title = annotation.title ? `${annotation.title}: ` : "";
+        lines.push(`- \`${annotation.path}:${annotation.start_line}\` (${annotation.annotation_level}) ${title}${annotation.message}`);
+      }
+    }
+    if (check.log) {
+      lines.push("", "**Log (up to the last error):**", "", "```", check.log, "```");
+    }
+    return lines.join("\n");
+  });
+
+  return `# Fix Failing CI Checks
+
+CI failed on pull request #${pr.number} "${pr.title}" (branch \`${pr.branch}\`). Fix the causes of the failures below.
+
+## Failed Checks
+
+${sections.join("\n\n")}
+
+## Original Task
+
+${taskContext.trim()}
+
+## Instructions
+
+1. Find the cause of each failure. Where possible, reproduce it by running the same lint, type-check, test or build commands CI runs (see the workflow files in \`.github/workflows\`).
+2. Fix the code. Update a test only when it fails because of an intended change of this PR; never delete or skip tests to make CI pass.
+3. Don't change the CI configuration to hide failures. Failures that have nothing to do with this PR (flaky tests, infrastructure) should be left alone and mentioned in the summary.
+4. Don't commit or push; that is done for you.
+5. End with a "## Fix Summary" section explaining what caused each failure and what you changed.
+`;
+}
+
+/**
+ * PR comment reporting a fix attempt. The marker records the attempt for the per-PR limit.
+ */
+export function formatCiFixComment(
+  headSha: string,
+  checks: FailedCheck[],
+  attempt: number,
+  maxAttempts: number,
+  result: { success: boolean; message: string; summary?: string }
+): string {
+  const names = checks.map((check) => `**${check.name}**`).join(", ");
+  const lines = [`<!-- claude-intern-ci-fix sha=${headSha} -->`];
+
+  if (result.success) {
+    lines.push(
+      `### 🔧 Fixed Failing CI Checks (attempt ${attempt}/${maxAttempts})`,
+      "",
+      `CI failed on \`${headSha.slice(0, 7)}\`: ${names}.`
+    );
+    if (result.summary) {
+      lines.push("", result.summary);
+    }
+    lines.push("", result.message);
+  } else {
+    lines.push(
+      `### ⚠️ Could Not Fix Failing CI Checks (attempt ${attempt}/${maxAttempts})`,
+      "",
+      `CI failed on \`${headSha.slice(0, 7)}\`: ${names}.`,
+      "",
+      result.message
+    );
+  }
+
+  lines.push("", "---", "*Automated CI fix by claude-intern*");
+  return lines.join("\n");
+}
+
+/**
+ * PR comment posted once when the fix attempts are used up.
+ */
+export function formatCiFixLimitComment(maxAttempts: number): string {
+  return [
+    CI_FIX_LIMIT_MARKER,
+    "### 🛑 CI Still Failing",
+    "",
+    `CI failed again after ${maxAttempts} automatic fix attempt(s), so the remaining failures are left for a human.`,
+    "",
+    "---",
+    "*Automated CI fix by claude-intern*",
+  ].join("\n");
+}
+
+function extractFixSummary(output: string): string | null {
+  const match = output.match(/##\s*Fix Summary\s*\n([\s\S]*)$/i);
+  return match ? match[1].trim() || null : null;
+}
+
+/**
+ * Failed check runs of a commit with their annotations and job logs.
+ */
+async function collectFailedChecks(
+  client: GitHubReviewsClient,
+  owner: string,
+  repo: string,
+  headSha: string,
+  verbose: boolean
+): Promise<{ failed: FailedCheck[]; pending: number }> {
+  const runs = await client.listCheckRuns(owner, repo, headSha);
+  const pending = runs.filter((run) => run.status !== "completed").length;
+  const failed: FailedCheck[] = [];
+
+  for (const run of runs) {
+    if (run.status !== "completed" || !FAILED_CONCLUSIONS.includes(run.conclusion ?? "")) {
+      continue;
+    }
+
+    const check: FailedCheck = {
+      id: run.id,
+      name: run.name,
+      conclusion: run.conclusion!,
+      url: run.details_url || run.html_url,
+      summary: run.output?.summary ?? undefined,
+      annotations: [],
+    };
+
+    try {
+      check.annotations = await client.getCheckRunAnnotations(owner, repo, run.id);
+    } catch (error) {
+      if (verbose) {
+        console.warn(`   ⚠️  Failed to fetch annotations for ${run.name}: ${(error as Error).message}`);
+      }
+    }
+
+    // Only GitHub Actions check runs have downloadable job logs
+    if (run.app?.slug === "github-actions") {
+      try {
+        check.log = extractLogTail(await client.getJobLogs(owner, repo, run.id));
+      } catch (error) {
+        if (verbose) {
+          console.warn(`   ⚠️  Failed to download the log of ${run.name}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    failed.push(check);
+  }
+
+  return { failed, pending };
+}
+
+/**
+ * Fix the failed CI checks of a PR commit, if the PR qualifies and has fix attempts left.
+ */
+export async function fixFailedChecks(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  headSha: string,
+  options: CiFixOptions = {}
+): Promise<{ success: boolean; message: string }> {
+  const { label, maxAttempts = DEFAULT_MAX_ATTEMPTS, verbose = false } = options;
+  const githubClient = new GitHubReviewsClient();
+
+  const pr = await githubClient.getPullRequest(owner, repo, prNumber);
+  if (pr.state !== "open") {
+    return { success: true, message: `PR is ${pr.state}, skipping` };
+  }
+  if (pr.head.sha !== headSha) {
+    return { success: true, message: "PR has new commits since the failed run, skipping" };
+  }
+
+  const botUsername = await githubClient.getBotUsername(owner, repo);
+  if (!isCiFixCandidate(pr, botUsername, label)) {
+    return { success: true, message: "PR was not opened by the bot and has no CI fix label, skipping" };
+  }
+
+  const history = getCiFixAttempts(await githubClient.getIssueComments(owner, repo, prNumber));
+  if (history.shas.includes(headSha)) {
+    return { success: true, message: `Failures of ${headSha.slice(0, 7)} were already handled` };
+  }
+
+  const { failed, pending } = await collectFailedChecks(githubClient, owner, repo, headSha, verbose);
+  if (pending > 0) {
+    // The completion event of the last check run or suite triggers the fix
+    return { success: true, message: `Waiting for ${pending} running check(s)` };
+  }
+  if (failed.length === 0) {
+    return { success: true, message: "No failed check runs found" };
+  }
+
+  if (history.attempts >= maxAttempts) {
+    console.log(`   CI fix limit (${maxAttempts}) reached for PR #${prNumber}`);
+    if (!history.limitReported) {
+      await githubClient.postPullRequestComment(owner, repo, prNumber, formatCiFixLimitComment(maxAttempts));
+    }
+    return { success: false, message: `CI still failing after ${maxAttempts} fix attempt(s)` };
+  }
+
+  const attempt = history.attempts + 1;
+  const branch = pr.head.ref;
+  console.log(`\n🔧 Fixing ${failed.length} failed check(s) on PR #${prNumber} (attempt ${attempt}/${maxAttempts})`);
+  for (const check of failed) {
+    console.log(`   ${check.name}: ${check.conclusion}, ${check.annotations.length} annotation(s)`);
+  }
+
+  if (!(await Utils.isGitRepository())) {
+    throw new Error("Not in a git repository. Please run this command from within the repository.");
+  }
+
+  console.log(`\n🌿 Preparing review worktree for branch: ${branch}`);
+  const worktreeResult = await Utils.prepareReviewWorktree(branch, { verbose });
+  if (!worktreeResult.success) {
+    throw new Error(`Failed to prepare worktree: ${worktreeResult.error}`);
+  }
+  const workDir = worktreeResult.path!;
+
+  let gitAuthor: { name: string; email: string } | undefined;
+  if (!process.env.GITHUB_TOKEN) {
+    try {
+      gitAuthor = await GitHubAppAuth.fromEnvironment()?.getGitAuthor();
+    } catch (error) {
+      if (verbose) {
+        console.warn(`⚠️  Could not get GitHub App author info: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  const accounting = getReviewAccounting("ci-fix", `${owner}/${repo}`, prNumber, pr.title, branch);
+  const report = async (result: { success: boolean; message: string; summary?: string }) => {
+    try {
+      await githubClient.postPullRequestComment(
+        owner,
+        repo,
+        prNumber,
+        formatCiFixComment(headSha, failed, attempt, maxAttempts, result)
+      );
+      console.log("💬 Posted CI fix comment on the PR");
+    } catch (error) {
+      console.warn(`⚠️  Failed to post PR comment: ${(error as Error).message}`);
+    }
+    return { success: result.success, message: result.message };
+  };
+
+  try {
+    console.log("\n🤖 Running Claude to fix the failed checks...");
+    const prompt = formatCiFixPrompt({ number: prNumber, title: pr.title, branch }, failed, getTaskContext(pr));
+    const claudeResult = await runAgentPrompt(prompt, workDir, verbose, accounting);
+    if (!claudeResult.success) {
+      console.error(`❌ ${claudeResult.output}`);
+      return await report({ success: false, message: `Claude could not fix the failures: ${claudeResult.output}` });
+    }
+
+    if (!(await Utils.hasUncommittedChanges(workDir))) {
+      console.log("⚠️  Claude made no changes");
+      return await report({
+        success: false,
+        message: extractFixSummary(claudeResult.output) ?? "Claude found nothing to change.",
+      });
+    }
+
+    const names = failed.map((check) => check.name).join(", ");
+    const commitResult = await runWithHookFixes(
+      "commit",
+      () => Utils.commitChanges(`PR-${prNumber}`, `Fix failing CI checks (${names})`, { verbose, author: gitAuthor, cwd: workDir }),
+      workDir,
+      accounting
+    );
+    if (!commitResult.success) {
+      console.error(`❌ ${commitResult.message}`);
+      return await report({ success: false, message: commitResult.message });
+    }
+
+    console.log("\n📤 Pushing the fix...");
+    const pushResult = await runWithHookFixes(
+      "push",
+      () => Utils.pushCurrentBranch({ verbose, cwd: workDir }),
+      workDir,
+      accounting
+    );
+    if (!pushResult.success) {
+      console.error(`❌ ${pushResult.message}`);
+      return await report({ success: false, message: pushResult.message });
+    }
+
+    const commit = (await Utils.executeGitCommand(["rev-parse", "--short", "HEAD"], { cwd: workDir })).output;
+    console.log(`\n✅ Pushed CI fix ${commit} to PR #${prNumber}`);
+    return await report({
+      success: true,
+      message: `Pushed \`${commit}\`; CI will run again.`,
+      summary: extractFixSummary(claudeResult.output) ?? undefined,
+    });
+  } finally {
+    await Utils.cleanReviewWorktree(workDir);
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Clarification Tracking with SQLite Persistence
+ *
+ * Remembers the questions posted when a task fails the feasibility check, so
+ * answers in later issue comments can re-run the check and start implementation.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import type { JiraComment } from "../types/jira";
+import { CLAUDE_INTERN_COMMENT_MARKERS } from "./issue-tracker";
+import { JiraExtractor } from "./jira-extractor";
+
+export interface PendingClarification {
+  taskKey: string;
+  questions: string[];
+  summary: string;
+  /** When the questions were posted (ms); only later comments count as answers */
+  askedAt: number;
+  /** Number of times questions were asked for the task */
+  rounds: number;
+}
+
+export interface ClarificationStoreConfig {
+  dbPath: string;
+}
+
+interface ClarificationRow {
+  task_key: string;
+  questions: string;
+  summary: string;
+  asked_at: number;
+  rounds: number;
+}
+
+// Headings of the comments claude-intern posts itself, which are never answers
+const BOT_COMMENT_MARKERS = [...CLAUDE_INTERN_COMMENT_MARKERS, "Claude Intern - "];
+
+/**
+ * Default store location, configurable via CLAUDE_INTERN_CLARIFICATIONS_DB.
+ */
+export function getDefaultClarificationsDbPath(): string {
+  return (
+    process.env.CLAUDE_INTERN_CLARIFICATIONS_DB ||
+    join(process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks", "clarifications.db")
+  );
+}
+
+/**
+ * SQLite-backed record of tasks waiting for answers to clarification questions.
+ */
+export class ClarificationStore {
+  private db: Database;
+
+  constructor(config: Partial<ClarificationStoreConfig> = {}) {
+    const dbPath = config.dbPath || getDefaultClarificationsDbPath();
+
+    // Ensure directory exists
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    // The webhook server and CLI runs may write at the same time
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.initializeSchema();
+  }
+
+  /**
+   * Initialize database schema.
+   */
+  private initializeSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS clarifications (
+        task_key TEXT PRIMARY KEY,
+        questions TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        asked_at INTEGER NOT NULL,
+        rounds INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+  }
+
+  /**
+   * Record questions posted for a task. Asking again starts a new round.
+   */
+  ask(
+    taskKey: string,
+    questions: string[],
+    summary: string,
+    askedAt: number = Date.now()
+  ): PendingClarification {
+    this.db.run(
+      `INSERT INTO clarifications (task_key, questions, summary, asked_at, rounds)
+       VALUES (?, ?, ?, ?, 1)
+       ON CONFLICT(task_key) DO UPDATE SET
+         questions = excluded.questions,
+         summary = excluded.summary,
+         asked_at = excluded.asked_at,
+         rounds = rounds + 1`,
+      [taskKey, JSON.stringify(questions), summary, askedAt]
+    );
+    return this.get(taskKey) as PendingClarification;
+  }
+
+  /**
+   * Get the pending clarification for a task, if any.
+   */
+  get(taskKey: string): PendingClarification | null {
+    const row = this.db
+      .query(`SELECT * FROM clarifications WHERE task_key = ?`)
+      .get(taskKey) as ClarificationRow | null;
+    return row ? this.rowToClarification(row) : null;
+  }
+
+  /**
+   * List all tasks waiting for answers, oldest first.
+   */
+  list(): PendingClarification[] {
+    const rows = this.db
+      .query(`SELECT * FROM clarifications ORDER BY asked_at ASC`)
+      .all() as ClarificationRow[];
+    return rows.map((row) => this.rowToClarification(row));
+  }
+
+  /**
+   * Stop waiting for answers (the task is clear now).
+   * Returns false if nothing was pending.
+   */
+  resolve(taskKey: string): boolean {
+    const result = this.db.run(`DELETE FROM clarifications WHERE task_key = ?`, [taskKey]);
+    return result.changes > 0;
+  }
+
+  private rowToClarification(row: ClarificationRow): PendingClarification {
+    return {
+      taskKey: row.task_key,
+      questions: JSON.parse(row.questions) as string[],
+      summary: row.summary,
+      askedAt: row.asked_at,
+      rounds: row.rounds,
+    };
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let sharedStore: ClarificationStore | null = null;
+
+/**
+ * Store at the default location, opened on first use.
+ */
+export function getClarificationStore(): ClarificationStore {
+  if (!sharedStore) {
+    sharedStore = new ClarificationStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Questions to track for the issues found by a feasibility assessment.
+ */
+export function getClarificationQuestions(assessment: {
+  issues: Array<{ category: string; description: string }>;
+}): string[] {
+  return assessment.issues.map((issue) => `${issue.category}: ${issue.description}`);
+}
+
+/**
+ * Check whether a comment was posted by claude-intern.
+ */
+export function isBotComment(text: string): boolean {
+  return BOT_COMMENT_MARKERS.some((marker) => text.includes(marker));
+}
+
+/**
+ * Comments posted after the questions that aren't claude-intern's own.
+ */
+export function findClarificationAnswers(
+  comments: JiraComment[],
+  askedAt: number
+): JiraComment[] {
+  return comments.filter(
+    (comment) =>
+      Date.parse(comment.created) > askedAt &&
+      !isBotComment(JiraExtractor.extractTextFromADF(comment.body))
+  );
+}
+
+/**
+ * Render the questions and their answers for the feasibility check prompt.
+ */
+export function formatClarificationAnswers(
+  clarification: PendingClarification,
+  answers: JiraComment[]
+): string {
+  const lines = [
+    "## Answers to Clarification Questions",
+    "",
+    "A previous feasibility assessment found the task unclear and asked:",
+    "",
+    ...clarification.questions.map((question) => `- ${question}`),
+    "",
+    "These comments were posted since then. Take them into account when assessing the task again:",
+    "",
+  ];
+
+  for (const answer of answers) {
+    lines.push(
+      `### ${answer.author?.displayName || "Unknown"} (${answer.created})`,
+      "",
+      JiraExtractor.extractTextFromADF(answer.body).trim(),
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -2,6 +2,7 @@ import { writeFileSync } from 'fs';
 import TurndownService from 'turndown';
 import path from 'path';
 import { FormattedTaskDetails, AtlassianDocument, AtlassianDocumentNode, DetailedRelatedIssue } from '../types/jira';
+import type { ReferenceTask } from './estimation-calibration';
 
 export class ClaudeFormatter {
   private static turndownService = new TurndownService({
@@ -636,7 +637,7 @@ Please assess this task for basic implementation feasibility. Respond with a JSO
   /**
    * Format an estimation prompt for Claude to estimate story points
    */
-  static formatEstimationPrompt(taskDetails: FormattedTaskDetails, jiraBaseUrl?: string, attachmentMap?: Map<string, string>, outputPath?: string): string {
+  static formatEstimationPrompt(taskDetails: FormattedTaskDetails, jiraBaseUrl?: string, attachmentMap?: Map<string, string>, outputPath?: string, referenceTasks: ReferenceTask[] = []): string {
     const {
       key,
       summary,
@@ -718,6 +719,22 @@ You are a senior software engineer estimating the effort for a JIRA task using t
       });
     }
 
+    // Add completed tasks of the same project as calibration examples
+    if (referenceTasks.length > 0) {
+      prompt += '## Reference: Similar Completed Tasks\n\n';
+      prompt += 'These tasks from the same project are done. Use their final story points, time in progress and PR size to match the team\'s scale:\n\n';
+      prompt += '| Task | Summary | Story Points | Days in Progress | PR Size |\n';
+      prompt += '|------|---------|--------------|------------------|---------|\n';
+      referenceTasks.forEach(task => {
+        const days = task.daysInProgress !== null ? task.daysInProgress.toString() : 'unknown';
+        const prSize = task.prSize
+          ? `+${task.prSize.additions}/-${task.prSize.deletions} in ${task.prSize.changedFiles} files`
+          : 'unknown';
+        prompt += `| ${task.key} | ${task.summary.replace(/\|/g, '\\|')} | ${task.storyPoints} | ${days} | ${prSize} |\n`;
+      });
+      prompt += '\n';
+    }
+
     prompt += `## Estimation Instructions
 
 Analyze this task and estimate the story points. Respond with ONLY a JSON object (no markdown code fences, no additional text):
@@ -771,8 +788,8 @@ Consider: clarity of requirements, availability of context in the codebase, need
   /**
    * Save the estimation prompt to a file
    */
-  static saveEstimationPrompt(taskDetails: FormattedTaskDetails, outputPath: string, jiraBaseUrl?: string, attachmentMap?: Map<string, string>): string {
-    const formattedContent = this.formatEstimationPrompt(taskDetails, jiraBaseUrl, attachmentMap, outputPath);
+  static saveEstimationPrompt(taskDetails: FormattedTaskDetails, outputPath: string, jiraBaseUrl?: string, attachmentMap?: Map<string, string>, referenceTasks: ReferenceTask[] = []): string {
+    const formattedContent = this.formatEstimationPrompt(taskDetails, jiraBaseUrl, attachmentMap, outputPath, referenceTasks);
     writeFileSync(outputPath, formattedContent, 'utf8');
     return outputPath;
   }
@@ -0,0 +1,177 @@
+/**
+ * Concurrent Task Processing
+ *
+ * Processes several tasks at once for `--concurrency N`. Each task gets its own
+ * git worktree and runs in a child CLI process whose output is prefixed with
+ * the task key. Outcomes are read back from the run history for the summary.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import PQueue from "p-queue";
+import {
+  formatRunList,
+  formatRunStats,
+  getRunHistory,
+  type RunHistoryStats,
+  type TaskRun,
+} from "./run-history";
+import { Utils } from "./utils";
+
+export interface ConcurrentTaskOptions {
+  concurrency: number;
+  /** Branch the worktrees are created from */
+  baseBranch: string;
+  /** CLI arguments for a task's child process */
+  buildArgs: (taskKey: string) => string[];
+  verbose?: boolean;
+}
+
+export interface ConcurrentTaskResult {
+  taskKey: string;
+  exitCode: number | null;
+  error?: string;
+  /** Run recorded by the child process, if it got that far */
+  run: TaskRun | null;
+}
+
+/**
+ * Buffers output chunks and prefixes every complete line.
+ */
+export function createLinePrefixer(prefix: string): {
+  push(chunk: string): string;
+  flush(): string;
+} {
+  let pending = "";
+
+  return {
+    push(chunk: string): string {
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop() ?? "";
+      return lines.map((line) => `${prefix}${line}\n`).join("");
+    },
+    flush(): string {
+      const rest = pending;
+      pending = "";
+      return rest ? `${prefix}${rest}\n` : "";
+    },
+  };
+}
+
+/**
+ * Run the CLI for a single task in the given directory, prefixing its output.
+ * Resolves with the exit code.
+ */
+function spawnTask(taskKey: string, cwd: string, args: string[]): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child: ChildProcess = spawn(process.execPath, [process.argv[1], ...args], {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const stdout = createLinePrefixer(`[${taskKey}] `);
+    const stderr = createLinePrefixer(`[${taskKey}] `);
+
+    child.stdout?.on("data", (data: Buffer) => {
+      process.stdout.write(stdout.push(data.toString()));
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      process.stderr.write(stderr.push(data.toString()));
+    });
+
+    child.on("error", (error: Error) => {
+      reject(new Error(`Failed to start: ${error.message}`));
+    });
+
+    child.on("close", (code: number | null) => {
+      process.stdout.write(stdout.flush());
+      process.stderr.write(stderr.flush());
+      resolve(code);
+    });
+  });
+}
+
+async function runTaskInWorktree(
+  taskKey: string,
+  options: ConcurrentTaskOptions
+): Promise<Omit<ConcurrentTaskResult, "run">> {
+  console.log(`📂 [${taskKey}] Preparing worktree...`);
+  const worktree = await Utils.prepareTaskWorktree(taskKey, options.baseBranch, {
+    verbose: options.verbose,
+  });
+
+  if (!worktree.success || !worktree.path) {
+    console.error(`❌ [${taskKey}] ${worktree.error}`);
+    return { taskKey, exitCode: null, error: worktree.error };
+  }
+
+  try {
+    console.log(`🤖 [${taskKey}] Starting in ${worktree.path}`);
+    const exitCode = await spawnTask(taskKey, worktree.path, options.buildArgs(taskKey));
+    console.log(`${exitCode === 0 ? "✅" : "❌"} [${taskKey}] Finished (exit code ${exitCode})`);
+
+    return exitCode === 0
+      ? { taskKey, exitCode }
+      : { taskKey, exitCode, error: `Exited with code ${exitCode}` };
+  } catch (error) {
+    console.error(`❌ [${taskKey}] ${(error as Error).message}`);
+    return { taskKey, exitCode: null, error: (error as Error).message };
+  } finally {
+    // The feature branch lives in the shared repository, so the worktree can go
+    await Utils.removeReviewWorktree(worktree.path, { verbose: options.verbose });
+  }
+}
+
+/**
+ * Process tasks with up to `concurrency` of them running at once, each in its own worktree.
+ */
+export async function runTasksConcurrently(
+  taskKeys: string[],
+  options: ConcurrentTaskOptions
+): Promise<ConcurrentTaskResult[]> {
+  const startedAt = Date.now();
+  const queue = new PQueue({ concurrency: options.concurrency });
+
+  const results = await Promise.all(
+    taskKeys.map((taskKey) => queue.add(() => runTaskInWorktree(taskKey, options)))
+  );
+
+  const history = getRunHistory();
+  return results.map((result) => ({
+    ...result,
+    run: history.list({ taskKey: result.taskKey, since: startedAt, limit: 1 })[0] ?? null,
+  }));
+}
+
+/**
+ * Render the combined summary of a concurrent batch.
+ */
+export function formatConcurrentSummary(results: ConcurrentTaskResult[]): string {
+  const runs = results.flatMap((result) => (result.run ? [result.run] : []));
+  const stats: RunHistoryStats = { total: runs.length, byOutcome: {} };
+  for (const run of runs) {
+    stats.byOutcome[run.outcome] = (stats.byOutcome[run.outcome] ?? 0) + 1;
+  }
+
+  const failed = results.filter((result) => result.error).length;
+  const lines = [
+    "📊 Concurrent Processing Summary:",
+    `   Total tasks: ${results.length}`,
+    `   ✅ Successful: ${results.length - failed}`,
+    `   ❌ Failed: ${failed}`,
+  ];
+
+  if (runs.length > 0) {
+    lines.push("", `   ${formatRunStats(stats)}`, "");
+    lines.push(...formatRunList(runs).split("\n").map((line) => `   ${line}`));
+  }
+
+  const unrecorded = results.filter((result) => !result.run);
+  if (unrecorded.length > 0) {
+    lines.push("", "⏭️  Tasks without a recorded run:");
+    for (const result of unrecorded) {
+      lines.push(`   - ${result.taskKey}: ${result.error ?? "skipped"}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,293 @@
+/**
+ * Estimation Calibration
+ *
+ * Compares story point estimates with what actually happened. Recently completed
+ * issues of the same project serve as reference examples in the estimation
+ * prompt, and `claude-intern estimate --report` shows how past AI estimates
+ * held up against final story points, time in progress and PR size.
+ */
+
+import { GitHubReviewsClient } from "./github-reviews";
+import type { IssueOutcome, IssueTracker } from "./issue-tracker";
+import type { TaskRun } from "./run-history";
+
+export interface PullRequestSize {
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
+
+/**
+ * Completed issue shown to Claude as a reference for the team's scale.
+ */
+export interface ReferenceTask {
+  key: string;
+  summary: string;
+  storyPoints: number;
+  daysInProgress: number | null;
+  prSize: PullRequestSize | null;
+}
+
+/**
+ * A past AI estimate next to the actual outcome of the issue.
+ */
+export interface EstimateComparison {
+  taskKey: string;
+  summary: string;
+  estimatedAt: number;
+  aiPoints: number;
+  finalPoints: number | null;
+  status: string;
+  done: boolean;
+  daysInProgress: number | null;
+  prSize: PullRequestSize | null;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Words too common in issue summaries to say anything about similarity
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "when", "that", "this", "should",
+  "add", "update", "fix", "use", "not", "are", "can", "new",
+]);
+
+function summaryWords(summary: string): Set<string> {
+  return new Set(
+    summary
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Days between the first status change and the resolution of an issue.
+ */
+export function getDaysInProgress(outcome: Pick<IssueOutcome, "startedAt" | "resolvedAt">): number | null {
+  if (!outcome.startedAt || !outcome.resolvedAt) {
+    return null;
+  }
+  const days = (Date.parse(outcome.resolvedAt) - Date.parse(outcome.startedAt)) / DAY;
+  return Number.isNaN(days) ? null : Math.max(0, Math.round(days * 10) / 10);
+}
+
+/**
+ * Pick the completed issues most similar to a task: shared components and labels
+ * count most, then shared summary words. Ties keep the most recently resolved.
+ */
+export function selectSimilarIssues(
+  task: { key: string; summary: string; labels: string[]; components: string[] },
+  candidates: IssueOutcome[],
+  limit = 5
+): IssueOutcome[] {
+  const words = summaryWords(task.summary);
+
+  return candidates
+    .filter((candidate) => candidate.key !== task.key && candidate.storyPoints !== null)
+    .map((candidate, index) => {
+      const sharedWords = [...summaryWords(candidate.summary)].filter((word) => words.has(word));
+      const score =
+        2 * candidate.components.filter((name) => task.components.includes(name)).length +
+        2 * candidate.labels.filter((label) => task.labels.includes(label)).length +
+        sharedWords.length;
+      return { candidate, score, index };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Combined size of the GitHub pull requests among the given URLs.
+ * Returns null when none of them could be fetched.
+ */
+export async function getPullRequestSize(
+  urls: string[],
+  client: Pick<GitHubReviewsClient, "getPullRequest"> = new GitHubReviewsClient()
+): Promise<PullRequestSize | null> {
+  const size: PullRequestSize = { additions: 0, deletions: 0, changedFiles: 0 };
+  let fetched = 0;
+
+  for (const url of new Set(urls)) {
+    const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+    if (!match) {
+      continue;
+    }
+    try {
+      const pr = await client.getPullRequest(match[1], match[2], parseInt(match[3], 10));
+      size.additions += pr.additions ?? 0;
+      size.deletions += pr.deletions ?? 0;
+      size.changedFiles += pr.changed_files ?? 0;
+      fetched++;
+    } catch (error) {
+      console.warn(`⚠️  Failed to fetch PR size for ${url}: ${(error as Error).message}`);
+    }
+  }
+
+  return fetched > 0 ? size : null;
+}
+
+/**
+ * Recently completed issues of the task's project that resemble it, with their
+ * final story points, time in progress and PR size.
+ */
+export async function loadReferenceTasks(
+  issueTracker: IssueTracker,
+  task: { key: string; summary: string; labels: string[]; components: string[] },
+  projectKey: string,
+  options: { storyPointsField?: string; limit?: number } = {}
+): Promise<ReferenceTask[]> {
+  if (!issueTracker.getIssueOutcomes) {
+    console.log("⚠️  This issue tracker doesn't provide completed issues — estimating without references");
+    return [];
+  }
+
+  const candidates = await issueTracker.getIssueOutcomes({
+    projectKey,
+    storyPointsField: options.storyPointsField,
+  });
+  const similar = selectSimilarIssues(task, candidates, options.limit);
+
+  const references: ReferenceTask[] = [];
+  for (const outcome of similar) {
+    references.push({
+      key: outcome.key,
+      summary: outcome.summary,
+      storyPoints: outcome.storyPoints as number,
+      daysInProgress: getDaysInProgress(outcome),
+      prSize: await getPullRequestSize(outcome.pullRequests),
+    });
+  }
+  return references;
+}
+
+/**
+ * Pair the latest AI estimate of each task with the actual outcome of the issue.
+ */
+export function compareEstimates(
+  estimateRuns: TaskRun[],
+  outcomes: IssueOutcome[],
+  prSizes: Map<string, PullRequestSize | null> = new Map()
+): EstimateComparison[] {
+  const latest = new Map<string, TaskRun>();
+  for (const run of estimateRuns) {
+    const current = latest.get(run.taskKey);
+    if (run.storyPoints !== null && (!current || run.startedAt > current.startedAt)) {
+      latest.set(run.taskKey, run);
+    }
+  }
+
+  const comparisons: EstimateComparison[] = [];
+  for (const outcome of outcomes) {
+    const run = latest.get(outcome.key);
+    if (!run) {
+      continue;
+    }
+    comparisons.push({
+      taskKey: outcome.key,
+      summary: outcome.summary,
+      estimatedAt: run.startedAt,
+      aiPoints: run.storyPoints as number,
+      finalPoints: outcome.storyPoints,
+      status: outcome.status,
+      done: outcome.done,
+      daysInProgress: outcome.done ? getDaysInProgress(outcome) : null,
+      prSize: prSizes.get(outcome.key) ?? null,
+    });
+  }
+  return comparisons.sort((a, b) => a.estimatedAt - b.estimatedAt);
+}
+
+function formatPrSize(size: PullRequestSize | null): string {
+  return size ? `+${size.additions}/-${size.deletions} (${size.changedFiles} files)` : "-";
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/**
+ * Render the estimate report: every comparison, the overall accuracy and the
+ * bias per month, so a drift in the estimates stands out.
+ */
+export function formatEstimateReport(comparisons: EstimateComparison[]): string {
+  if (comparisons.length === 0) {
+    return "No AI estimates found.";
+  }
+
+  const lines = [
+    formatTable([
+      ["Task", "Estimated", "AI", "Final", "Status", "Days", "PR size"],
+      ...comparisons.map((comparison) => [
+        comparison.taskKey,
+        new Date(comparison.estimatedAt).toISOString().slice(0, 10),
+        comparison.aiPoints.toString(),
+        comparison.finalPoints?.toString() ?? "-",
+        comparison.status,
+        comparison.daysInProgress?.toString() ?? "-",
+        formatPrSize(comparison.prSize),
+      ]),
+    ]),
+    "",
+  ];
+
+  const completed = comparisons.filter(
+    (comparison) => comparison.done && comparison.finalPoints !== null
+  );
+  if (completed.length === 0) {
+    lines.push("No estimated task has been completed with final story points yet.");
+    return lines.join("\n");
+  }
+
+  // Positive errors mean the AI estimated more points than the team settled on
+  const errors = completed.map((comparison) => comparison.aiPoints - (comparison.finalPoints as number));
+  const exact = errors.filter((error) => error === 0).length;
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  lines.push(
+    `📊 ${completed.length} completed of ${comparisons.length} estimated tasks:`,
+    `   Exact: ${exact} (${Math.round((exact / completed.length) * 100)}%)`,
+    `   Mean absolute error: ${mean(errors.map(Math.abs)).toFixed(1)} points`,
+    `   Bias: ${formatSigned(mean(errors))} points (positive = AI estimates too high)`
+  );
+
+  const byMonth = new Map<string, number[]>();
+  completed.forEach((comparison, index) => {
+    const month = new Date(comparison.estimatedAt).toISOString().slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), errors[index]]);
+  });
+  if (byMonth.size > 1) {
+    lines.push("", "📈 Bias by month:");
+    for (const [month, monthErrors] of byMonth) {
+      lines.push(
+        `   ${month}: ${formatSigned(mean(monthErrors))} points over ${monthErrors.length} task(s)`
+      );
+    }
+  }
+
+  const byPoints = new Map<number, number[]>();
+  for (const comparison of completed) {
+    if (comparison.daysInProgress !== null) {
+      byPoints.set(comparison.aiPoints, [
+        ...(byPoints.get(comparison.aiPoints) ?? []),
+        comparison.daysInProgress,
+      ]);
+    }
+  }
+  if (byPoints.size > 0) {
+    lines.push("", "⏱️  Days in progress by AI estimate:");
+    for (const points of [...byPoints.keys()].sort((a, b) => a - b)) {
+      const days = byPoints.get(points) as number[];
+      lines.push(`   ${points} points: ${mean(days).toFixed(1)} days avg over ${days.length} task(s)`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,123 @@
+/**
+ * Planning Poker Estimation
+ *
+ * Combines several estimation samples, optionally given from different persona
+ * perspectives, into a consensus estimate with the spread between them.
+ */
+
+import type { EstimationSpread, TrackerEstimation } from "./issue-tracker";
+
+export const STORY_POINTS_SCALE = [1, 2, 3, 5, 8, 13, 21];
+
+// What each built-in persona pays attention to; other names are used as given
+export const ESTIMATION_PERSONAS: Record<string, string> = {
+  frontend:
+    "a frontend engineer. Focus on UI components, state management, styling, accessibility and browser behaviour.",
+  backend:
+    "a backend engineer. Focus on APIs, data models, migrations, performance and integrations with other services.",
+  qa: "a QA engineer. Focus on test coverage, edge cases, regression risk and the effort to verify the change.",
+};
+
+const CONFIDENCE_LEVELS: Array<TrackerEstimation["confidence"]> = ["low", "medium", "high"];
+
+/**
+ * Parse a comma-separated persona list such as "frontend,backend,qa".
+ */
+export function parseEstimationPersonas(value: string): string[] {
+  return value
+    .split(",")
+    .map((persona) => persona.trim().toLowerCase())
+    .filter((persona) => persona.length > 0);
+}
+
+/**
+ * Persona of every sample: personas take turns, samples without personas get undefined.
+ */
+export function getSamplePersonas(samples: number, personas: string[]): Array<string | undefined> {
+  return Array.from({ length: samples }, (_, index) =>
+    personas.length > 0 ? personas[index % personas.length] : undefined
+  );
+}
+
+/**
+ * Add the persona's perspective to an estimation prompt.
+ */
+export function formatPersonaPrompt(prompt: string, persona: string): string {
+  const perspective = ESTIMATION_PERSONAS[persona] ?? `a ${persona} specialist.`;
+  return `${prompt.trimEnd()}
+
+## Your Perspective
+
+You take part in a planning poker session as ${perspective} Estimate the whole task, but weigh the effort and risks from this perspective.
+`;
+}
+
+/**
+ * Combine estimation samples into a consensus: the median points (the higher
+ * middle value for an even count), with confidence lowered by a wide spread.
+ */
+export function combineEstimationSamples<T extends TrackerEstimation>(
+  samples: Array<{ persona?: string; estimate: T }>
+): T & { spread: EstimationSpread } {
+  if (samples.length === 0) {
+    throw new Error("No estimation samples to combine");
+  }
+
+  const points = samples.map((sample) => sample.estimate.storyPoints).sort((a, b) => a - b);
+  const storyPoints = points[Math.floor(points.length / 2)];
+  const min = points[0];
+  const max = points[points.length - 1];
+  const steps = STORY_POINTS_SCALE.indexOf(max) - STORY_POINTS_SCALE.indexOf(min);
+
+  // Most common confidence, the lower one on ties
+  const votes = CONFIDENCE_LEVELS.map(
+    (level) => samples.filter((sample) => sample.estimate.confidence === level).length
+  );
+  let confidenceIndex = votes.indexOf(Math.max(...votes));
+  if (steps >= 2) {
+    confidenceIndex = 0;
+  } else if (steps === 1) {
+    confidenceIndex = Math.min(confidenceIndex, 1);
+  }
+
+  const representative =
+    samples.find((sample) => sample.estimate.storyPoints === storyPoints)?.estimate ??
+    samples[0].estimate;
+  const unique = (items: string[]) => [...new Set(items)];
+  const implementationScores = samples
+    .map((sample) => sample.estimate.implementationConfidence)
+    .filter((score): score is number => typeof score === "number");
+
+  return {
+    ...representative,
+    storyPoints,
+    confidence: CONFIDENCE_LEVELS[confidenceIndex],
+    implementationConfidence:
+      implementationScores.length > 0
+        ? Math.round(
+            implementationScores.reduce((sum, score) => sum + score, 0) / implementationScores.length
+          )
+        : representative.implementationConfidence,
+    risks: unique(samples.flatMap((sample) => sample.estimate.risks)),
+    unclearAreas: unique(samples.flatMap((sample) => sample.estimate.unclearAreas)),
+    spread: {
+      samples: samples.map((sample) => ({
+        persona: sample.persona,
+        storyPoints: sample.estimate.storyPoints,
+      })),
+      min,
+      max,
+      steps,
+      wide: steps >= 2,
+    },
+  };
+}
+
+/**
+ * One-line summary of the individual estimates, e.g. "frontend: 3, backend: 5, qa: 8".
+ */
+export function formatSpreadSamples(spread: EstimationSpread): string {
+  return spread.samples
+    .map((sample, index) => `${sample.persona ?? `#${index + 1}`}: ${sample.storyPoints}`)
+    .join(", ");
+}
@@ -0,0 +1,253 @@
+/**
+ * Estimation Report Export
+ *
+ * Writes the results of a batch estimation (`--estimate --report <file>`) as a
+ * CSV, Markdown or JSON table with story point totals per epic and component.
+ */
+
+import { writeFileSync } from "fs";
+import { extname } from "path";
+import type { JiraIssue } from "../types/jira";
+import type { TrackerEstimation } from "./issue-tracker";
+
+export type EstimationReportFormat = "csv" | "markdown" | "json";
+
+export interface EstimationReportRow {
+  key: string;
+  summary: string;
+  /** Parent epic as "KEY Summary", if any */
+  epic: string | null;
+  components: string[];
+  status: "estimated" | "skipped" | "failed";
+  /** Why the task was skipped or failed */
+  note?: string;
+  storyPoints: number | null;
+  confidence: TrackerEstimation["confidence"] | null;
+  implementationConfidence: number | null;
+  risks: string[];
+  unclearAreas: string[];
+}
+
+export interface EstimationReportTotal {
+  name: string;
+  tasks: number;
+  storyPoints: number;
+}
+
+export interface EstimationReportTotals {
+  byEpic: EstimationReportTotal[];
+  byComponent: EstimationReportTotal[];
+  overall: EstimationReportTotal;
+}
+
+const FORMATS_BY_EXTENSION: Record<string, EstimationReportFormat> = {
+  ".csv": "csv",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".json": "json",
+};
+
+/**
+ * Report format from the file extension (.csv, .md or .json).
+ */
+export function getReportFormat(filePath: string): EstimationReportFormat {
+  const format = FORMATS_BY_EXTENSION[extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Unsupported report file: ${filePath} (use a .csv, .md or .json file)`);
+  }
+  return format;
+}
+
+/**
+ * Epic of an issue: its parent, when the parent is an epic.
+ */
+export function getIssueEpic(issue: JiraIssue): string | null {
+  const parent = issue.fields.parent;
+  if (!parent || parent.fields?.issuetype?.name?.toLowerCase() !== "epic") {
+    return null;
+  }
+  return `${parent.key} ${parent.fields.summary ?? ""}`.trim();
+}
+
+/**
+ * Report row of an estimated task.
+ */
+export function createEstimatedRow(
+  issue: JiraIssue,
+  result: TrackerEstimation
+): EstimationReportRow {
+  return {
+    key: issue.key,
+    summary: issue.fields.summary,
+    epic: getIssueEpic(issue),
+    components: (issue.fields.components || []).map((component) => component.name),
+    status: "estimated",
+    storyPoints: result.storyPoints,
+    confidence: result.confidence,
+    implementationConfidence: result.implementationConfidence ?? null,
+    risks: result.risks,
+    unclearAreas: result.unclearAreas,
+  };
+}
+
+/**
+ * Report row of a task that was skipped or failed to estimate.
+ */
+export function createUnestimatedRow(
+  key: string,
+  issue: JiraIssue | null,
+  status: "skipped" | "failed",
+  note: string
+): EstimationReportRow {
+  return {
+    key,
+    summary: issue?.fields.summary ?? "",
+    epic: issue ? getIssueEpic(issue) : null,
+    components: (issue?.fields.components || []).map((component) => component.name),
+    status,
+    note,
+    storyPoints: null,
+    confidence: null,
+    implementationConfidence: null,
+    risks: [],
+    unclearAreas: [],
+  };
+}
+
+function addToTotals(totals: Map<string, EstimationReportTotal>, name: string, points: number): void {
+  const total = totals.get(name) ?? { name, tasks: 0, storyPoints: 0 };
+  total.tasks++;
+  total.storyPoints += points;
+  totals.set(name, total);
+}
+
+/**
+ * Story point totals of the estimated tasks per epic, per component and overall.
+ * Tasks with several components count towards each of them.
+ */
+export function summarizeEstimationReport(rows: EstimationReportRow[]): EstimationReportTotals {
+  const byEpic = new Map<string, EstimationReportTotal>();
+  const byComponent = new Map<string, EstimationReportTotal>();
+  const overall: EstimationReportTotal = { name: "Total", tasks: 0, storyPoints: 0 };
+
+  for (const row of rows) {
+    if (row.storyPoints === null) {
+      continue;
+    }
+    overall.tasks++;
+    overall.storyPoints += row.storyPoints;
+    addToTotals(byEpic, row.epic ?? "No epic", row.storyPoints);
+    for (const component of row.components.length > 0 ? row.components : ["No component"]) {
+      addToTotals(byComponent, component, row.storyPoints);
+    }
+  }
+
+  const sorted = (totals: Map<string, EstimationReportTotal>) =>
+    [...totals.values()].sort((a, b) => b.storyPoints - a.storyPoints || a.name.localeCompare(b.name));
+  return { byEpic: sorted(byEpic), byComponent: sorted(byComponent), overall };
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: string | number | null): string {
+  return value === null ? "" : String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function markdownTable(rows: Array<Array<string | number | null>>): string[] {
+  const [header, ...body] = rows;
+  return [
+    `| ${header.map(markdownCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ];
+}
+
+const TASK_COLUMNS = [
+  "Key",
+  "Summary",
+  "Epic",
+  "Components",
+  "Status",
+  "Story Points",
+  "Confidence",
+  "Implementation Confidence",
+  "Risks",
+  "Unclear Areas",
+];
+
+function taskCells(row: EstimationReportRow, separator: string): Array<string | number | null> {
+  return [
+    row.key,
+    row.summary,
+    row.epic,
+    row.components.join(", "),
+    row.note ? `${row.status} (${row.note})` : row.status,
+    row.storyPoints,
+    row.confidence,
+    row.implementationConfidence,
+    row.risks.join(separator),
+    row.unclearAreas.join(separator),
+  ];
+}
+
+function totalCells(totals: EstimationReportTotal[]): Array<Array<string | number>> {
+  return totals.map((total) => [total.name, total.tasks, total.storyPoints]);
+}
+
+/**
+ * Render the report in the given format.
+ */
+export function formatEstimationReport(
+  rows: EstimationReportRow[],
+  format: EstimationReportFormat,
+  generatedAt: Date = new Date()
+): string {
+  const totals = summarizeEstimationReport(rows);
+
+  if (format === "json") {
+    return JSON.stringify({ generatedAt: generatedAt.toISOString(), tasks: rows, totals }, null, 2);
+  }
+
+  if (format === "csv") {
+    const lines = [
+      TASK_COLUMNS,
+      ...rows.map((row) => taskCells(row, "; ")),
+      [],
+      ["Epic", "Tasks", "Story Points"],
+      ...totalCells(totals.byEpic),
+      [],
+      ["Component", "Tasks", "Story Points"],
+      ...totalCells(totals.byComponent),
+      [],
+      ...totalCells([totals.overall]),
+    ];
+    return `${lines.map((line) => line.map(csvCell).join(",")).join("\n")}\n`;
+  }
+
+  return [
+    "# Estimation Report",
+    "",
+    `Generated ${generatedAt.toISOString().slice(0, 16).replace("T", " ")} UTC — ${totals.overall.tasks} task(s) estimated, ${totals.overall.storyPoints} story points in total`,
+    "",
+    ...markdownTable([TASK_COLUMNS, ...rows.map((row) => taskCells(row, "<br>"))]),
+    "",
+    "## Totals by Epic",
+    "",
+    ...markdownTable([["Epic", "Tasks", "Story Points"], ...totalCells(totals.byEpic)]),
+    "",
+    "## Totals by Component",
+    "",
+    ...markdownTable([["Component", "Tasks", "Story Points"], ...totalCells(totals.byComponent)]),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Write the report to a file, in the format given by its extension.
+ */
+export function writeEstimationReport(filePath: string, rows: EstimationReportRow[]): void {
+  writeFileSync(filePath, formatEstimationReport(rows, getReportFormat(filePath)), "utf8");
+}
@@ -4,7 +4,8 @@
  * Utility to automatically fix git hook errors using Claude.
  */
 
-import { spawn, type ChildProcess } from "child_process";
+import { createAgentRunner, getAgentTimeoutMinutes } from "./agent-runner";
+import type { AgentRunAccounting } from "./usage-ledger";
 import { Utils } from "./utils";
 
 /**
@@ -14,29 +15,30 @@ import { Utils } from "./utils";
  * @param claudePath - Path to Claude CLI executable
  * @param maxTurns - Maximum number of turns for Claude conversation
  * @param cwd - Optional working directory for Claude
+ * @param accounting - Optional task to bill the run to (checks its budget first)
  * @returns Promise<boolean> - True if hook errors were fixed successfully
  */
 export async function runClaudeToFixGitHook(
   hookType: "commit" | "push",
   claudePath: string,
   maxTurns: number,
-  cwd?: string
+  cwd?: string,
+  accounting?: AgentRunAccounting
 ): Promise<boolean> {
-  return new Promise((resolve) => {
-    console.log("\n🔧 Attempting to fix git hook errors with Claude...");
+  console.log("\n🔧 Attempting to fix git hook errors with Claude...");
 
-    // Create a concise prompt that asks Claude to re-run the git command
-    // This avoids context length issues from including full error output
-    const gitCommand = hookType === "commit"
-      ? "git commit"
-      : "git push origin HEAD";
+  // Create a concise prompt that asks Claude to re-run the git command
+  // This avoids context length issues from including full error output
+  const gitCommand = hookType === "commit"
+    ? "git commit"
+    : "git push origin HEAD";
 
-    // Get the path to the git-hook-errors.log file
-    const baseOutputDir =
-      process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-    const gitHookErrorLog = `${baseOutputDir}/*/git-hook-errors.log`;
+  // Get the path to the git-hook-errors.log file
+  const baseOutputDir =
+    process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+  const gitHookErrorLog = `${baseOutputDir}/*/git-hook-errors.log`;
 
-    const fixPrompt = `# Git Hook Error - Fix Required
+  const fixPrompt = `# Git Hook Error - Fix Required
 
 The git ${hookType} operation has failed, likely due to pre-${hookType} hooks checking code quality.
 
@@ -77,177 +79,158 @@ The git ${hookType} operation has failed, likely due to pre-${hookType} hooks ch
 ${hookType === "push" ? "- Make sure to amend the commit (git commit --amend --no-edit) so the fixes are included in the push" : ""}
 `;
 
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
-    let stdoutOutput = "";
-    let stderrOutput = "";
-    let timedOut = false;
-
-    // Spawn Claude process to fix the issues
-    const claude: ChildProcess = spawn(
-      claudePath,
-      [
-        "-p",
-        "--dangerously-skip-permissions",
-        "--max-turns",
-        maxTurns.toString(),
-      ],
-      {
-        stdio: ["pipe", "pipe", "pipe"],
-        cwd: cwd || process.cwd(),
-      }
-    );
-
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claude.kill("SIGTERM");
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    // Capture stdout
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stdoutOutput += output;
-        process.stdout.write(output);
-      });
-    }
-
-    // Capture stderr
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stderrOutput += output;
-        process.stderr.write(output);
-      });
-    }
+  const timeoutMinutes = getAgentTimeoutMinutes();
 
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      console.error(`❌ Failed to run Claude for git hook fix: ${error.message}`);
-      resolve(false);
-    });
+  // Run the agent to fix the issues
+  const result = await createAgentRunner(claudePath, accounting).run({
+    prompt: fixPrompt,
+    maxTurns,
+    cwd: cwd || process.cwd(),
+    timeoutMinutes,
+    stream: true,
+  });
 
-    claude.on("close", async (code: number | null) => {
-      clearTimeout(timeout);
-      if (timedOut) {
-        console.error(`❌ Claude timed out after ${timeoutMinutes} minutes while fixing git hook`);
-        resolve(false);
-        return;
-      }
-      if (code === 0) {
-        console.log("\n🔍 Claude completed - verifying the fix actually worked...");
-
-        // Verify the fix by checking git status
-        // For push: Claude should have amended the commit, so we just verify nothing is staged
-        // For commit: Claude should have completed the commit, so we verify a clean state
-        try {
-          const statusResult = await Utils.executeGitCommand(["status", "--porcelain"], { cwd });
-
-          if (hookType === "commit") {
-            // For commit fix: verify nothing is staged/modified (commit succeeded)
-            if (statusResult.success && statusResult.output.trim() === "") {
-              console.log("✅ Verification successful - commit completed successfully!");
-              resolve(true);
-            } else {
-              console.log("⚠️  Claude fixed the code but didn't commit - committing manually...");
-              console.log(`   Changes: ${statusResult.output}`);
-
-              // Attempt to stage and commit manually
-              const stageResult = await Utils.executeGitCommand(["add", "."], { cwd });
-              if (!stageResult.success) {
-                console.log("❌ Failed to stage changes:");
-                console.log(`   ${stageResult.error}`);
-                resolve(false);
-                return;
-              }
+  if (
+    result.status === "not_found" ||
+    result.status === "spawn_error" ||
+    result.status === "budget_exceeded"
+  ) {
+    console.error(`❌ Failed to run Claude for git hook fix: ${result.error}`);
+    return false;
+  }
+  if (result.status === "timeout") {
+    console.error(`❌ Claude timed out after ${timeoutMinutes} minutes while fixing git hook`);
+    return false;
+  }
+  if (result.exitCode === 0) {
+    console.log("\n🔍 Claude completed - verifying the fix actually worked...");
+
+    // Verify the fix by checking git status
+    // For push: Claude should have amended the commit, so we just verify nothing is staged
+    // For commit: Claude should have completed the commit, so we verify a clean state
+    try {
+      const statusResult = await Utils.executeGitCommand(["status", "--porcelain"], { cwd });
+
+      if (hookType === "commit") {
+        // For commit fix: verify nothing is staged/modified (commit succeeded)
+        if (statusResult.success && statusResult.output.trim() === "") {
+          console.log("✅ Verification successful - commit completed successfully!");
+          return true;
+        } else {
+          console.log("⚠️  Claude fixed the code but didn't commit - committing manually...");
+          console.log(`   Changes: ${statusResult.output}`);
+
+          // Attempt to stage and commit manually
+          const stageResult = await Utils.executeGitCommand(["add", "."], { cwd });
+          if (!stageResult.success) {
+            console.log("❌ Failed to stage changes:");
+            console.log(`   ${stageResult.error}`);
+            return false;
+          }
 
-              const commitResult = await Utils.executeGitCommand([
-                "commit", "--no-verify"
-              ], { cwd });
-              if (commitResult.success) {
-                console.log("✅ Successfully committed changes manually!");
-                resolve(true);
-              } else {
-                console.log("❌ Failed to commit changes:");
-                console.log(`   ${commitResult.error}`);
-                resolve(false);
-              }
-            }
+          const commitResult = await Utils.executeGitCommand([
+            "commit", "--no-verify"
+          ], { cwd });
+          if (commitResult.success) {
+            console.log("✅ Successfully committed changes manually!");
+            return true;
           } else {
-            // For push fix: verify changes are committed and ready to push
-            // Claude should have amended, so check if we can push
-            const pushDryRun = await Utils.executeGitCommand([
-              "push", "origin", "HEAD", "--dry-run"
+            console.log("❌ Failed to commit changes:");
+            console.log(`   ${commitResult.error}`);
+            return false;
+          }
+        }
+      } else {
+        // For push fix: verify changes are committed and ready to push
+        // Claude should have amended, so check if we can push
+        const pushDryRun = await Utils.executeGitCommand([
+          "push", "origin", "HEAD", "--dry-run"
+        ], { cwd });
+
+        if (pushDryRun.success) {
+          console.log("✅ Verification successful - changes are committed and ready to push!");
+          return true;
+        } else {
+          console.log("⚠️  Claude fixed the code but didn't amend - amending manually...");
+
+          // Check if there are uncommitted changes to amend
+          const statusCheck = await Utils.executeGitCommand(["status", "--porcelain"], { cwd });
+          if (statusCheck.success && statusCheck.output.trim() !== "") {
+            // Stage all changes
+            const stageResult = await Utils.executeGitCommand(["add", "."], { cwd });
+            if (!stageResult.success) {
+              console.log("❌ Failed to stage changes:");
+              console.log(`   ${stageResult.error}`);
+              return false;
+            }
+
+            // Amend the commit
+            const amendResult = await Utils.executeGitCommand([
+              "commit", "--amend", "--no-edit", "--no-verify"
             ], { cwd });
+            if (amendResult.success) {
+              console.log("✅ Successfully amended commit manually!");
 
-            if (pushDryRun.success) {
-              console.log("✅ Verification successful - changes are committed and ready to push!");
-              resolve(true);
-            } else {
-              console.log("⚠️  Claude fixed the code but didn't amend - amending manually...");
-
-              // Check if there are uncommitted changes to amend
-              const statusCheck = await Utils.executeGitCommand(["status", "--porcelain"], { cwd });
-              if (statusCheck.success && statusCheck.output.trim() !== "") {
-                // Stage all changes
-                const stageResult = await Utils.executeGitCommand(["add", "."], { cwd });
-                if (!stageResult.success) {
-                  console.log("❌ Failed to stage changes:");
-                  console.log(`   ${stageResult.error}`);
-                  resolve(false);
-                  return;
-                }
-
-                // Amend the commit
-                const amendResult = await Utils.executeGitCommand([
-                  "commit", "--amend", "--no-edit", "--no-verify"
-                ], { cwd });
-                if (amendResult.success) {
-                  console.log("✅ Successfully amended commit manually!");
-
-                  // Verify push would work now
-                  const retryPush = await Utils.executeGitCommand([
-                    "push", "origin", "HEAD", "--dry-run"
-                  ], { cwd });
-                  if (retryPush.success) {
-                    console.log("✅ Verification successful - ready to push!");
-                    resolve(true);
-                  } else {
-                    console.log("❌ Push would still fail after amend:");
-                    console.log(`   ${retryPush.error || retryPush.output}`);
-                    resolve(false);
-                  }
-                } else {
-                  console.log("❌ Failed to amend commit:");
-                  console.log(`   ${amendResult.error}`);
-                  resolve(false);
-                }
+              // Verify push would work now
+              const retryPush = await Utils.executeGitCommand([
+                "push", "origin", "HEAD", "--dry-run"
+              ], { cwd });
+              if (retryPush.success) {
+                console.log("✅ Verification successful - ready to push!");
+                return true;
               } else {
-                console.log("❌ Push dry-run failed but no uncommitted changes to amend:");
-                console.log(`   ${pushDryRun.error || pushDryRun.output}`);
-                resolve(false);
+                console.log("❌ Push would still fail after amend:");
+                console.log(`   ${retryPush.error || retryPush.output}`);
+                return false;
               }
+            } else {
+              console.log("❌ Failed to amend commit:");
+              console.log(`   ${amendResult.error}`);
+              return false;
             }
+          } else {
+            console.log("❌ Push dry-run failed but no uncommitted changes to amend:");
+            console.log(`   ${pushDryRun.error || pushDryRun.output}`);
+            return false;
           }
-        } catch (verifyError) {
-          console.log(`❌ Could not verify fix: ${verifyError}`);
-          resolve(false);
         }
-      } else {
-        console.log(`\n❌ Claude exited with code ${code} while fixing git hook errors`);
-        resolve(false);
       }
-    });
+    } catch (verifyError) {
+      console.log(`❌ Could not verify fix: ${verifyError}`);
+      return false;
+    }
+  } else {
+    console.log(`\n❌ Claude exited with code ${result.exitCode} while fixing git hook errors`);
+    return false;
+  }
+}
+
+/**
+ * Run a commit or push, letting Claude fix git hook failures up to HOOK_RETRIES times.
+ */
+export async function runWithHookFixes(
+  hookType: "commit" | "push",
+  action: () => Promise<{ success: boolean; message: string; hookError?: string }>,
+  workDir: string,
+  accounting: AgentRunAccounting
+): Promise<{ success: boolean; message: string }> {
+  const hookRetries = parseInt(process.env.HOOK_RETRIES || "10", 10);
+  const claudePath = process.env.CLAUDE_CLI_PATH || "claude";
+  const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await action();
+    if (result.success || !result.hookError || attempt === hookRetries) {
+      return result;
+    }
 
-    // Send the fix prompt to Claude
-    if (claude.stdin) {
-      claude.stdin.write(fixPrompt);
-      claude.stdin.end();
+    console.log(`\n⚠️  Git ${hookType} hook failed (attempt ${attempt + 1}/${hookRetries + 1})`);
+    const fixed = await runClaudeToFixGitHook(hookType, claudePath, maxTurns, workDir, {
+      ...accounting,
+      kind: "hook-fix",
+    });
+    if (!fixed) {
+      return result;
     }
-  });
+  }
 }
@@ -0,0 +1,878 @@
+/**
+ * GitHub Issues tracker client
+ *
+ * Lets GitHub Issues (task keys like "owner/repo#123") act as a task source.
+ * Issues are normalized into the JiraIssue shape; labels stand in for status transitions.
+ */
+
+import type {
+  GitHubIssue,
+  GitHubIssueComment,
+  GitHubIssueLabel,
+  GitHubLinkedPullRequest,
+  GitHubTimelineEvent,
+} from "../types/github-issues";
+import type {
+  DetailedRelatedIssue,
+  FormattedTaskDetails,
+  JiraAttachment,
+  JiraComment,
+  JiraIssue,
+  LinkedResource,
+} from "../types/jira";
+import { GitHubAppAuth } from "./github-app-auth";
+import { isClaudeInternComment, type IssueTracker, type TrackerEstimation } from "./issue-tracker";
+import { JiraExtractor } from "./jira-extractor";
+import { MarkdownFormatter } from "./markdown-formatter";
+import { Utils } from "./utils";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+export interface GitHubIssuesClientConfig {
+  token?: string;
+  appAuth?: GitHubAppAuth;
+  /** Labels used as statuses; the others are removed when transitioning */
+  statusLabels?: string[];
+}
+
+/** Prefix of the label that carries story points (e.g., "story-points: 5") */
+const STORY_POINTS_LABEL_PREFIX = "story-points:";
+
+/**
+ * Parse a GitHub issue key like "owner/repo#123"
+ */
+export function parseGitHubIssueKey(
+  taskKey: string
+): { owner: string; repo: string; number: number } | null {
+  const match = taskKey.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    owner: match[1],
+    repo: match[2],
+    number: Number.parseInt(match[3], 10),
+  };
+}
+
+export class GitHubIssuesClient implements IssueTracker {
+  private baseUrl = "https://api.github.com";
+  private token?: string;
+  private appAuth?: GitHubAppAuth;
+  private statusLabels: string[];
+  /** Issue whose repository authenticates downloads from comments and linked content */
+  private currentIssueKey?: string;
+
+  constructor(config: GitHubIssuesClientConfig = {}) {
+    this.token = config.token || process.env.GITHUB_TOKEN;
+    this.appAuth = config.appAuth;
+    this.statusLabels = config.statusLabels || [];
+
+    // Try to initialize app auth from environment if no token provided
+    if (!this.token && !this.appAuth) {
+      this.appAuth = GitHubAppAuth.fromEnvironment() ?? undefined;
+    }
+  }
+
+  getBaseUrl(): string {
+    return "https://github.com";
+  }
+
+  private parseKey(issueKey: string): { owner: string; repo: string; number: number } {
+    const parsed = parseGitHubIssueKey(issueKey);
+    if (!parsed) {
+      throw new Error(
+        `Invalid GitHub issue key: ${issueKey} (expected owner/repo#123)`
+      );
+    }
+    return parsed;
+  }
+
+  /**
+   * Get authentication token for a repository.
+   */
+  private async getToken(owner: string, repo: string): Promise<string> {
+    if (this.token) {
+      return this.token;
+    }
+
+    if (this.appAuth) {
+      return await this.appAuth.getTokenForRepository(owner, repo);
+    }
+
+    throw new Error(
+      "No GitHub authentication configured. Set GITHUB_TOKEN or configure GitHub App."
+    );
+  }
+
+  /**
+   * Make an authenticated API request with automatic retry on transient failures.
+   */
+  private async apiRequest<T>(
+    method: string,
+    apiPath: string,
+    owner: string,
+    repo: string,
+    body?: unknown
+  ): Promise<T> {
+    const token = await this.getToken(owner, repo);
+
+    const response = await Utils.fetchWithRetry(`${this.baseUrl}${apiPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github.v3+json",
+        "Content-Type": "application/json",
+        "User-Agent": "claude-intern",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({
+        message: "Unknown error",
+      }))) as { message?: string };
+      throw new Error(
+        `GitHub API error (${response.status}): ${error.message || response.statusText}`
+      );
+    }
+
+    if (response.status === 204) {
+      return null as T;
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async getIssue(issueKey: string): Promise<JiraIssue> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+    console.log(`🔍 Attempting to fetch GitHub issue: ${issueKey}`);
+
+    try {
+      const issue = await this.apiRequest<GitHubIssue>(
+        "GET",
+        `/repos/${owner}/${repo}/issues/${number}`,
+        owner,
+        repo
+      );
+
+      if (issue.pull_request) {
+        throw new Error(`${issueKey} is a pull request, not an issue`);
+      }
+
+      const linkedPullRequests = await this.getLinkedPullRequests(
+        owner,
+        repo,
+        number
+      );
+
+      console.log(`✅ Successfully fetched issue ${issueKey}`);
+      console.log(`📝 Issue summary: ${issue.title || "No summary"}`);
+
+      return this.normalizeIssue(issue, `${owner}/${repo}`, linkedPullRequests);
+    } catch (error) {
+      console.error(`❌ Error fetching issue ${issueKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find pull requests that reference the issue via its timeline
+   */
+  private async getLinkedPullRequests(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<GitHubLinkedPullRequest[]> {
+    try {
+      const events = await this.apiRequest<GitHubTimelineEvent[]>(
+        "GET",
+        `/repos/${owner}/${repo}/issues/${number}/timeline?per_page=100`,
+        owner,
+        repo
+      );
+
+      const linked = new Map<string, GitHubLinkedPullRequest>();
+      for (const event of events || []) {
+        const source = event.source?.issue;
+        if (event.event !== "cross-referenced" || !source?.pull_request) {
+          continue;
+        }
+        linked.set(source.html_url, {
+          number: source.number,
+          title: source.title,
+          body: source.body,
+          state: source.pull_request.merged_at ? "merged" : source.state,
+          url: source.html_url,
+          repository: this.repositoryFromApiUrl(source.repository_url),
+          author: source.user?.login || "Unknown",
+          created: source.created_at,
+          updated: source.updated_at,
+        });
+      }
+
+      return Array.from(linked.values());
+    } catch (error) {
+      console.warn(`Failed to fetch linked pull requests: ${error}`);
+      return [];
+    }
+  }
+
+  private repositoryFromApiUrl(repositoryUrl: string): string {
+    const match = repositoryUrl.match(/\/repos\/([^/]+\/[^/]+)$/);
+    return match ? match[1] : "";
+  }
+
+  /**
+   * Convert a GitHub issue into the JiraIssue shape
+   */
+  private normalizeIssue(
+    issue: GitHubIssue,
+    repository: string,
+    linkedPullRequests: GitHubLinkedPullRequest[] = []
+  ): JiraIssue {
+    const key = `${repository}#${issue.number}`;
+    const toUser = (login: string) => ({ accountId: login, displayName: login });
+
+    return {
+      id: String(issue.id),
+      key,
+      self: issue.html_url,
+      fields: {
+        summary: issue.title,
+        description: issue.body || undefined,
+        issuetype: { id: "issue", name: "Issue", subtask: false },
+        status: {
+          id: issue.state,
+          name: issue.state === "open" ? "Open" : "Closed",
+          statusCategory: {
+            id: 0,
+            name: issue.state,
+            key: issue.state,
+            colorName: "",
+          },
+        },
+        assignee: issue.assignee ? toUser(issue.assignee.login) : undefined,
+        reporter: toUser(issue.user?.login || "Unknown"),
+        created: issue.created_at,
+        updated: issue.updated_at,
+        labels: (issue.labels || []).map((label) => label.name),
+        components: [],
+        fixVersions: issue.milestone
+          ? [
+              {
+                id: String(issue.milestone.id),
+                name: issue.milestone.title,
+                released: issue.milestone.state === "closed",
+              },
+            ]
+          : [],
+        attachment: this.findImageUrls(issue.body || "").map((url) =>
+          this.toAttachment(url, issue.created_at, issue.user?.login)
+        ),
+        issuelinks: [],
+        githubLinkedPullRequests: linkedPullRequests,
+      },
+    };
+  }
+
+  /**
+   * Find image URLs in Markdown/HTML content (drag-and-drop uploads, screenshots)
+   */
+  private findImageUrls(content: string): string[] {
+    const urls = new Set<string>();
+    const markdownImage = /!\[[^\]]*\]\((https?:\/\/[^)\s]+)/g;
+    const htmlImage = /<img[^>]+src=["'](https?:\/\/[^"']+)["']/g;
+
+    for (const pattern of [markdownImage, htmlImage]) {
+      let match;
+      while ((match = pattern.exec(content)) !== null) {
+        urls.add(match[1]);
+      }
+    }
+
+    return Array.from(urls);
+  }
+
+  private toAttachment(url: string, created: string, author?: string): JiraAttachment {
+    const lastSegment = url.split("?")[0].split("/").filter(Boolean).pop();
+    const filename = lastSegment ? decodeURIComponent(lastSegment) : "image";
+    return {
+      id: url,
+      // Uploaded assets have no extension in the URL; assume an image
+      filename: filename.includes(".") ? filename : `${filename}.png`,
+      size: 0,
+      mimeType: "image/*",
+      content: url,
+      created,
+      author: { accountId: author || "", displayName: author || "Unknown" },
+    };
+  }
+
+  private async fetchComments(issueKey: string): Promise<GitHubIssueComment[]> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+    const comments = await this.apiRequest<GitHubIssueComment[]>(
+      "GET",
+      `/repos/${owner}/${repo}/issues/${number}/comments?per_page=100`,
+      owner,
+      repo
+    );
+    return comments || [];
+  }
+
+  async getIssueComments(issueKey: string): Promise<JiraComment[]> {
+    try {
+      const allComments = await this.fetchComments(issueKey);
+
+      // Filter out Claude Intern's own comments
+      const filteredComments = allComments.filter(
+        (comment) => !isClaudeInternComment(comment.body || "")
+      );
+
+      const filteredCount = allComments.length - filteredComments.length;
+      if (filteredCount > 0) {
+        console.log(
+          `🔍 Filtered out ${filteredCount} Claude Intern comment(s) from ${issueKey}`
+        );
+      }
+
+      return filteredComments.map((comment) => ({
+        id: String(comment.id),
+        body: comment.body || "",
+        author: {
+          accountId: comment.user?.login || "",
+          displayName: comment.user?.login || "Unknown",
+        },
+        created: comment.created_at,
+        updated: comment.updated_at,
+      }));
+    } catch (error) {
+      console.warn(`Failed to fetch comments for ${issueKey}: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Download an image and save it locally
+   */
+  async downloadAttachment(
+    attachment: JiraAttachment,
+    outputDir: string,
+    issueKey: string
+  ): Promise<string> {
+    try {
+      console.log(`📎 Downloading attachment: ${attachment.filename}...`);
+
+      mkdirSync(outputDir, { recursive: true });
+
+      // Sanitize filename to avoid path traversal and filesystem issues
+      const sanitizedFilename = attachment.filename.replace(
+        /[^a-zA-Z0-9._-]/g,
+        "_"
+      );
+      const localPath = path.join(outputDir, sanitizedFilename);
+
+      // Uploads on github.com require auth for private repositories
+      const headers: Record<string, string> = { "User-Agent": "claude-intern" };
+      const parsedKey = parseGitHubIssueKey(issueKey);
+      if (parsedKey && new URL(attachment.content).hostname === "github.com") {
+        headers.Authorization = `Bearer ${await this.getToken(parsedKey.owner, parsedKey.repo)}`;
+      }
+
+      const response = await Utils.fetchWithRetry(attachment.content, {
+        headers,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download attachment: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const buffer = await response.arrayBuffer();
+      writeFileSync(localPath, Buffer.from(buffer));
+
+      console.log(`✅ Downloaded attachment to: ${localPath}`);
+      return localPath;
+    } catch (error) {
+      console.warn(
+        `Failed to download attachment ${attachment.filename}: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Download all images in the issue body
+   */
+  async downloadIssueAttachments(
+    issueKey: string,
+    outputDir: string
+  ): Promise<Map<string, string>> {
+    const attachmentMap = new Map<string, string>();
+
+    try {
+      const issue = await this.getIssue(issueKey);
+      const attachments: JiraAttachment[] = issue.fields.attachment || [];
+
+      if (attachments.length === 0) {
+        console.log(`📎 No attachments found for ${issueKey}`);
+        return attachmentMap;
+      }
+
+      console.log(`📎 Found ${attachments.length} attachments for ${issueKey}`);
+
+      for (const attachment of attachments) {
+        try {
+          const localPath = await this.downloadAttachment(
+            attachment,
+            outputDir,
+            issueKey
+          );
+          attachmentMap.set(attachment.content, localPath);
+        } catch (error) {
+          console.warn(`Skipping attachment ${attachment.filename}: ${error}`);
+        }
+      }
+
+      console.log(
+        `✅ Downloaded ${attachmentMap.size}/${attachments.length} attachments for ${issueKey}`
+      );
+    } catch (error) {
+      console.warn(`Failed to download attachments for ${issueKey}: ${error}`);
+    }
+
+    return attachmentMap;
+  }
+
+  /**
+   * Download all images referenced in Markdown content (comments, linked PRs, etc.)
+   */
+  async downloadAttachmentsFromContent(
+    content: string,
+    outputDir: string,
+    existingMap?: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const attachmentMap = existingMap || new Map<string, string>();
+    const urls = this.findImageUrls(content).filter(
+      (url) => !attachmentMap.has(url)
+    );
+
+    if (urls.length === 0) {
+      return attachmentMap;
+    }
+
+    console.log(`📎 Found ${urls.length} attachment URLs in content`);
+
+    for (const url of urls) {
+      try {
+        const localPath = await this.downloadAttachment(
+          this.toAttachment(url, new Date().toISOString()),
+          outputDir,
+          this.currentIssueKey || ""
+        );
+        attachmentMap.set(url, localPath);
+      } catch (error) {
+        console.warn(`Failed to download attachment from ${url}: ${error}`);
+      }
+    }
+
+    return attachmentMap;
+  }
+
+  /**
+   * Extract linked resources, including pull requests that reference the issue
+   */
+  extractLinkedResources(issue: JiraIssue): LinkedResource[] {
+    this.currentIssueKey = issue.key;
+    const resources = JiraExtractor.extractLinkedResources(issue);
+    const linkedPullRequests: GitHubLinkedPullRequest[] =
+      issue.fields.githubLinkedPullRequests || [];
+
+    for (const pr of linkedPullRequests) {
+      if (resources.some((r) => r.url === pr.url)) {
+        continue;
+      }
+      resources.push({
+        type: "custom_field_link",
+        field: "Linked pull request",
+        url: pr.url,
+        description: `Pull request #${pr.number}: ${pr.title} (${pr.state})`,
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Linked pull requests become related work items
+   */
+  async getRelatedWorkItems(issue: JiraIssue): Promise<DetailedRelatedIssue[]> {
+    const linkedPullRequests: GitHubLinkedPullRequest[] =
+      issue.fields.githubLinkedPullRequests || [];
+
+    if (linkedPullRequests.length > 0) {
+      console.log(
+        `🔗 Found ${linkedPullRequests.length} linked pull requests`
+      );
+    }
+
+    return linkedPullRequests.map((pr) => ({
+      key: `${pr.repository}#${pr.number}`,
+      summary: pr.title,
+      description: pr.body || undefined,
+      issueType: "Pull Request",
+      status: pr.state,
+      reporter: pr.author,
+      created: pr.created,
+      updated: pr.updated,
+      labels: [],
+      components: [],
+      fixVersions: [],
+      linkType: "linked pull request",
+      relationshipDirection: "inward" as const,
+    }));
+  }
+
+  formatIssueDetails(
+    issue: JiraIssue,
+    comments: JiraComment[],
+    linkedResources: LinkedResource[],
+    relatedIssues: DetailedRelatedIssue[] = []
+  ): FormattedTaskDetails {
+    return JiraExtractor.formatIssueDetails(
+      issue,
+      comments,
+      linkedResources,
+      relatedIssues
+    );
+  }
+
+  /**
+   * Search issues with GitHub search syntax (e.g., "repo:owner/app label:claude is:open")
+   */
+  async searchIssues(
+    query: string
+  ): Promise<{ issues: JiraIssue[]; total: number }> {
+    const fullQuery = /\b(is:(issue|pr|pull-request)|type:(issue|pr))\b/.test(query)
+      ? query
+      : `${query} is:issue`;
+
+    // App installation tokens are per repository, so the query must name one
+    const repoMatch = fullQuery.match(/\brepo:([\w.-]+)\/([\w.-]+)/);
+    if (!this.token && !repoMatch) {
+      throw new Error(
+        'GitHub App search requires a "repo:owner/name" qualifier in the query'
+      );
+    }
+    const [owner, repo] = repoMatch ? [repoMatch[1], repoMatch[2]] : ["", ""];
+
+    try {
+      const response = await this.apiRequest<{
+        total_count: number;
+        items: GitHubIssue[];
+      }>(
+        "GET",
+        `/search/issues?q=${encodeURIComponent(fullQuery)}&per_page=50`,
+        owner,
+        repo
+      );
+
+      const issues = (response.items || [])
+        .filter((item) => !item.pull_request)
+        .map((item) =>
+          this.normalizeIssue(item, this.repositoryFromApiUrl(item.repository_url))
+        );
+
+      console.log(
+        `🔍 Found ${issues.length} issues (${response.total_count} total)`
+      );
+
+      return { issues, total: response.total_count || 0 };
+    } catch (error) {
+      console.error("Failed to search issues:", error);
+      throw new Error(`Failed to search GitHub issues with query: ${fullQuery}`);
+    }
+  }
+
+  /**
+   * Post a Markdown comment to a GitHub issue
+   */
+  async postComment(issueKey: string, comment: string): Promise<void> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+
+    try {
+      console.log(`💬 Posting comment to issue ${issueKey}...`);
+      await this.apiRequest(
+        "POST",
+        `/repos/${owner}/${repo}/issues/${number}/comments`,
+        owner,
+        repo,
+        { body: comment }
+      );
+      console.log(`✅ Successfully posted comment to ${issueKey}`);
+    } catch (error) {
+      console.warn(`Failed to post comment to ${issueKey}: ${error}`);
+      throw error;
+    }
+  }
+
+  async postImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createImplementationCommentMarkdown(claudeOutput, taskSummary)
+    );
+  }
+
+  async postClarityComment(issueKey: string, assessment: any): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createClarityAssessmentMarkdown(assessment)
+    );
+  }
+
+  async postAssessmentFailureComment(
+    issueKey: string,
+    failureType: "max-turns" | "parse-error"
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createAssessmentFailureMarkdown(failureType)
+    );
+  }
+
+  async postBudgetExceededComment(issueKey: string, reason: string): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createBudgetExceededMarkdown(reason)
+    );
+  }
+
+  private async getLabels(issueKey: string): Promise<string[]> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+    const labels = await this.apiRequest<GitHubIssueLabel[]>(
+      "GET",
+      `/repos/${owner}/${repo}/issues/${number}/labels`,
+      owner,
+      repo
+    );
+    return (labels || []).map((label) => label.name);
+  }
+
+  private async addLabel(issueKey: string, label: string): Promise<void> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+    await this.apiRequest(
+      "POST",
+      `/repos/${owner}/${repo}/issues/${number}/labels`,
+      owner,
+      repo,
+      { labels: [label] }
+    );
+  }
+
+  private async removeLabel(issueKey: string, label: string): Promise<void> {
+    const { owner, repo, number } = this.parseKey(issueKey);
+    await this.apiRequest(
+      "DELETE",
+      `/repos/${owner}/${repo}/issues/${number}/labels/${encodeURIComponent(label)}`,
+      owner,
+      repo
+    );
+  }
+
+  /**
+   * GitHub issues have no workflow, so the status becomes a label and the
+   * other configured status labels are removed
+   */
+  async transitionIssue(issueKey: string, statusName: string): Promise<void> {
+    try {
+      console.log(`🔄 Labelling ${issueKey} as "${statusName}"...`);
+
+      const currentLabels = await this.getLabels(issueKey);
+      const staleLabels = currentLabels.filter(
+        (label) =>
+          label.toLowerCase() !== statusName.toLowerCase() &&
+          this.statusLabels.some(
+            (status) => status.toLowerCase() === label.toLowerCase()
+          )
+      );
+
+      for (const label of staleLabels) {
+        await this.removeLabel(issueKey, label);
+      }
+
+      if (
+        !currentLabels.some(
+          (label) => label.toLowerCase() === statusName.toLowerCase()
+        )
+      ) {
+        await this.addLabel(issueKey, statusName);
+      }
+
+      console.log(`✅ Successfully labelled ${issueKey} as "${statusName}"`);
+    } catch (error) {
+      console.warn(
+        `Failed to transition ${issueKey} to "${statusName}": ${error}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Post an incomplete implementation comment
+   * Also saves the task description to disk for future duplicate detection
+   */
+  async postIncompleteImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string,
+    taskDescription?: string
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createIncompleteImplementationCommentMarkdown(
+        claudeOutput,
+        taskSummary
+      )
+    );
+
+    if (taskDescription) {
+      try {
+        const descriptionFile = this.getIncompleteDescriptionPath(issueKey);
+        mkdirSync(path.dirname(descriptionFile), { recursive: true });
+        writeFileSync(descriptionFile, taskDescription, "utf8");
+      } catch (saveError) {
+        console.warn(
+          `⚠️  Failed to save task description for duplicate detection: ${saveError}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Check if an incomplete implementation comment already exists for the current task description
+   */
+  async hasIncompleteImplementationComment(
+    issueKey: string,
+    currentDescription: string
+  ): Promise<boolean> {
+    try {
+      const descriptionFile = this.getIncompleteDescriptionPath(issueKey);
+      if (!existsSync(descriptionFile)) {
+        return false;
+      }
+
+      if (readFileSync(descriptionFile, "utf8") !== currentDescription) {
+        return false;
+      }
+
+      const comments = await this.fetchComments(issueKey);
+      return comments.some((comment) =>
+        (comment.body || "").includes("Implementation Incomplete")
+      );
+    } catch (error) {
+      console.warn(`Failed to check for duplicate comments: ${error}`);
+      return false;
+    }
+  }
+
+  private getIncompleteDescriptionPath(issueKey: string): string {
+    const baseOutputDir =
+      process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+    return path.join(
+      baseOutputDir,
+      Utils.taskKeyToSlug(issueKey),
+      "incomplete-task-description.txt"
+    );
+  }
+
+  /**
+   * Find the existing Claude Intern estimation comment for an issue, if any
+   */
+  async findEstimationComment(
+    issueKey: string
+  ): Promise<{ commentId: string; created: string } | null> {
+    try {
+      const comments = await this.fetchComments(issueKey);
+      const existing = comments.find((comment) =>
+        (comment.body || "").includes("Automated Story Points Estimation")
+      );
+      return existing
+        ? { commentId: String(existing.id), created: existing.created_at }
+        : null;
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to check for estimation comment on ${issueKey}: ${error}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * GitHub issues have no story points field; a "story-points: N" label is used instead
+   */
+  async discoverStoryPointsField(_issueKey?: string): Promise<string | null> {
+    return "label";
+  }
+
+  async updateStoryPoints(
+    issueKey: string,
+    _fieldId: string,
+    points: number
+  ): Promise<void> {
+    console.log(`📊 Setting story points label for ${issueKey} to ${points}...`);
+
+    const currentLabels = await this.getLabels(issueKey);
+    for (const label of currentLabels) {
+      if (label.startsWith(STORY_POINTS_LABEL_PREFIX)) {
+        await this.removeLabel(issueKey, label);
+      }
+    }
+    await this.addLabel(issueKey, `${STORY_POINTS_LABEL_PREFIX} ${points}`);
+
+    console.log(`✅ Successfully set story points for ${issueKey} to ${points}`);
+  }
+
+  async postEstimationComment(
+    issueKey: string,
+    result: TrackerEstimation
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createEstimationCommentMarkdown(result)
+    );
+  }
+
+  async updateEstimationComment(
+    issueKey: string,
+    commentId: string,
+    result: TrackerEstimation
+  ): Promise<void> {
+    const { owner, repo } = this.parseKey(issueKey);
+
+    try {
+      console.log(
+        `💬 Updating estimation comment ${commentId} on ${issueKey}...`
+      );
+      await this.apiRequest(
+        "PATCH",
+        `/repos/${owner}/${repo}/issues/comments/${commentId}`,
+        owner,
+        repo,
+        { body: MarkdownFormatter.createEstimationCommentMarkdown(result) }
+      );
+      console.log(
+        `✅ Successfully updated estimation comment on ${issueKey}`
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to update estimation comment on ${issueKey}: ${error}`
+      );
+      throw error;
+    }
+  }
+}
@@ -29,6 +29,31 @@ export interface PullRequestInfo {
     ref: string;
   };
   html_url: string;
+  user?: { login: string };
+  labels?: Array<{ name: string }>;
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+}
+
+export interface CheckRunInfo {
+  id: number;
+  name: string;
+  status: "queued" | "in_progress" | "completed";
+  conclusion: string | null;
+  html_url: string;
+  details_url?: string;
+  output?: { title: string | null; summary: string | null };
+  app?: { slug: string };
+}
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title?: string | null;
+  message: string;
 }
 
 export interface FileContent {
@@ -166,6 +191,120 @@ export class GitHubReviewsClient {
     );
   }
 
+  /**
+   * List open pull requests, optionally only those targeting a base branch.
+   */
+  async listOpenPullRequests(
+    owner: string,
+    repo: string,
+    base?: string
+  ): Promise<PullRequestInfo[]> {
+    const query = base ? `&base=${encodeURIComponent(base)}` : "";
+    return this.apiRequest<PullRequestInfo[]>(
+      "GET",
+      `/repos/${owner}/${repo}/pulls?state=open&per_page=100${query}`,
+      owner,
+      repo
+    );
+  }
+
+  /**
+   * List the check runs reported for a commit.
+   */
+  async listCheckRuns(owner: string, repo: string, ref: string): Promise<CheckRunInfo[]> {
+    const response = await this.apiRequest<{ check_runs: CheckRunInfo[] }>(
+      "GET",
+      `/repos/${owner}/${repo}/commits/${ref}/check-runs?per_page=100`,
+      owner,
+      repo
+    );
+    return response.check_runs;
+  }
+
+  /**
+   * Get the annotations (file/line errors) of a check run.
+   */
+  async getCheckRunAnnotations(
+    owner: string,
+    repo: string,
+    checkRunId: number
+  ): Promise<CheckAnnotation[]> {
+    return this.apiRequest<CheckAnnotation[]>(
+      "GET",
+      `/repos/${owner}/${repo}/check-runs/${checkRunId}/annotations?per_page=100`,
+      owner,
+      repo
+    );
+  }
+
+  /**
+   * Download the plain text log of a GitHub Actions job (check run IDs are job IDs).
+   */
+  async getJobLogs(owner: string, repo: string, jobId: number): Promise<string> {
+    const token = await this.getToken(owner, repo);
+    const url = `${this.baseUrl}/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`;
+
+    const response = await Utils.fetchWithRetry(url, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github.v3+json",
+        "User-Agent": "claude-intern",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get job logs: ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Close a pull request without merging it.
+   */
+  async closePullRequest(owner: string, repo: string, prNumber: number): Promise<void> {
+    await this.apiRequest(
+      "PATCH",
+      `/repos/${owner}/${repo}/pulls/${prNumber}`,
+      owner,
+      repo,
+      { state: "closed" }
+    );
+  }
+
+  /**
+   * Get a user's permission on a repository ("admin", "maintain", "write", "triage", "read" or "none").
+   */
+  async getRepositoryPermission(owner: string, repo: string, username: string): Promise<string> {
+    const response = await this.apiRequest<{ permission: string; role_name?: string }>(
+      "GET",
+      `/repos/${owner}/${repo}/collaborators/${encodeURIComponent(username)}/permission`,
+      owner,
+      repo
+    );
+    // role_name distinguishes maintain/triage, which permission reports as write/read
+    return response.role_name || response.permission;
+  }
+
+  /**
+   * Replace the description of a pull request.
+   */
+  async updatePullRequestBody(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    body: string
+  ): Promise<void> {
+    await this.apiRequest(
+      "PATCH",
+      `/repos/${owner}/${repo}/pulls/${prNumber}`,
+      owner,
+      repo,
+      { body }
+    );
+  }
+
   /**
    * Get all review comments on a pull request.
    */
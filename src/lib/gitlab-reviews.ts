@@ -0,0 +1,173 @@
+/**
+ * GitLab Reviews API Client
+ *
+ * Handles fetching, replying to and resolving merge request discussions via the GitLab API.
+ */
+
+import type {
+  GitLabDiscussion,
+  GitLabMergeRequestAttributes,
+} from "../types/gitlab-webhooks";
+import { GitLabPRClient } from "./pr-client";
+import { Utils } from "./utils";
+
+export interface GitLabReviewsClientConfig {
+  token?: string;
+  /** API base URL, e.g., https://gitlab.example.com/api/v4 */
+  baseUrl?: string;
+}
+
+/**
+ * Client for interacting with GitLab's merge request discussion APIs.
+ */
+export class GitLabReviewsClient {
+  private baseUrl: string;
+  private token?: string;
+  private username?: string | null;
+
+  constructor(config: GitLabReviewsClientConfig = {}) {
+    this.token = config.token || process.env.GITLAB_TOKEN;
+    this.baseUrl =
+      config.baseUrl ||
+      GitLabPRClient.apiUrlForHost(process.env.GITLAB_BASE_URL || "gitlab.com");
+  }
+
+  /**
+   * Make an authenticated API request with automatic retry on transient failures.
+   */
+  private async apiRequest<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    if (!this.token) {
+      throw new Error("No GitLab authentication configured. Set GITLAB_TOKEN.");
+    }
+
+    const response = await Utils.fetchWithRetry(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        "PRIVATE-TOKEN": this.token,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({
+        message: "Unknown error",
+      }))) as { message?: string; error?: string };
+      throw new Error(
+        `GitLab API error (${response.status}): ${error.message || error.error || response.statusText}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private projectPath(projectId: number | string): string {
+    return `/projects/${encodeURIComponent(String(projectId))}`;
+  }
+
+  /**
+   * Get the username of the token owner (the bot account).
+   * Returns null if unable to determine.
+   */
+  async getBotUsername(): Promise<string | null> {
+    if (this.username !== undefined) {
+      return this.username;
+    }
+
+    try {
+      const user = await this.apiRequest<{ username: string }>("GET", "/user");
+      this.username = user.username;
+    } catch {
+      this.username = null;
+    }
+    return this.username;
+  }
+
+  /**
+   * Get merge request details.
+   */
+  async getMergeRequest(
+    projectId: number | string,
+    iid: number
+  ): Promise<GitLabMergeRequestAttributes> {
+    const mr = await this.apiRequest<
+      GitLabMergeRequestAttributes & { web_url: string }
+    >("GET", `${this.projectPath(projectId)}/merge_requests/${iid}`);
+    return { ...mr, url: mr.url || mr.web_url };
+  }
+
+  /**
+   * Replace the description of a merge request.
+   */
+  async updateMergeRequestDescription(
+    projectId: number | string,
+    iid: number,
+    description: string
+  ): Promise<void> {
+    await this.apiRequest(
+      "PUT",
+      `${this.projectPath(projectId)}/merge_requests/${iid}`,
+      { description }
+    );
+  }
+
+  /**
+   * Get all discussion threads on a merge request.
+   */
+  async getMergeRequestDiscussions(
+    projectId: number | string,
+    iid: number
+  ): Promise<GitLabDiscussion[]> {
+    const discussions: GitLabDiscussion[] = [];
+    let page = 1;
+
+    while (true) {
+      const batch = await this.apiRequest<GitLabDiscussion[]>(
+        "GET",
+        `${this.projectPath(projectId)}/merge_requests/${iid}/discussions?per_page=100&page=${page}`
+      );
+      discussions.push(...batch);
+      if (batch.length < 100) {
+        break;
+      }
+      page++;
+    }
+
+    return discussions;
+  }
+
+  /**
+   * Reply in a discussion thread.
+   */
+  async replyToDiscussion(
+    projectId: number | string,
+    iid: number,
+    discussionId: string,
+    body: string
+  ): Promise<void> {
+    await this.apiRequest(
+      "POST",
+      `${this.projectPath(projectId)}/merge_requests/${iid}/discussions/${discussionId}/notes`,
+      { body }
+    );
+  }
+
+  /**
+   * Mark a discussion thread as resolved.
+   */
+  async resolveDiscussion(
+    projectId: number | string,
+    iid: number,
+    discussionId: string
+  ): Promise<void> {
+    await this.apiRequest(
+      "PUT",
+      `${this.projectPath(projectId)}/merge_requests/${iid}/discussions/${discussionId}?resolved=true`
+    );
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * GitLab Webhook Handler
+ *
+ * Handles GitLab webhook token verification and maps merge request
+ * discussions into the same review feedback used for GitHub.
+ */
+
+import { timingSafeEqual } from "crypto";
+import type {
+  ProcessedConversationComment,
+  ProcessedReviewComment,
+  ProcessedReviewFeedback,
+  SignatureVerificationResult,
+} from "../types/github-webhooks";
+import type {
+  GitLabDiscussion,
+  GitLabMergeRequestAttributes,
+  GitLabMergeRequestEvent,
+  GitLabNoteEvent,
+  GitLabProject,
+  GitLabWebhookEventType,
+} from "../types/gitlab-webhooks";
+import { containsBotMention } from "./webhook-handler";
+
+/**
+ * Verify the secret token GitLab sends in the X-Gitlab-Token header.
+ *
+ * GitLab does not sign payloads; it echoes the configured secret token.
+ */
+export function verifyGitLabToken(
+  token: string | null,
+  secret: string
+): SignatureVerificationResult {
+  if (!token) {
+    return {
+      valid: false,
+      error: "Missing X-Gitlab-Token header",
+    };
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const tokenBuffer = Buffer.from(token);
+  const secretBuffer = Buffer.from(secret);
+
+  if (tokenBuffer.length !== secretBuffer.length) {
+    return {
+      valid: false,
+      error: "Token mismatch",
+    };
+  }
+
+  return timingSafeEqual(tokenBuffer, secretBuffer)
+    ? { valid: true }
+    : { valid: false, error: "Token mismatch" };
+}
+
+/**
+ * Parse and validate webhook event type from X-Gitlab-Event header.
+ */
+export function parseGitLabEventType(
+  eventHeader: string | null
+): GitLabWebhookEventType | null {
+  if (!eventHeader) {
+    return null;
+  }
+
+  const supportedEvents: GitLabWebhookEventType[] = [
+    "Note Hook",
+    "Merge Request Hook",
+  ];
+
+  if (supportedEvents.includes(eventHeader as GitLabWebhookEventType)) {
+    return eventHeader as GitLabWebhookEventType;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a note event should trigger automated processing.
+ * Only process notes on open merge requests that mention the bot.
+ */
+export function shouldProcessGitLabNote(
+  event: GitLabNoteEvent,
+  botUsername?: string
+): boolean {
+  const note = event.object_attributes;
+
+  if (note.noteable_type !== "MergeRequest" || !event.merge_request) {
+    return false;
+  }
+
+  // Ignore system notes ("added 1 commit", "resolved all threads", ...)
+  if (note.system) {
+    return false;
+  }
+
+  // Don't process the bot's own notes (to avoid loops)
+  if (botUsername && event.user.username === botUsername) {
+    return false;
+  }
+
+  if (event.merge_request.state !== "opened") {
+    return false;
+  }
+
+  return containsBotMention(note.note, botUsername);
+}
+
+/**
+ * Check if a merge request event should trigger automated processing.
+ * Only process open merge requests where a reviewer requested changes.
+ */
+export function shouldProcessGitLabMergeRequest(
+  event: GitLabMergeRequestEvent
+): boolean {
+  if (event.object_attributes.state !== "opened") {
+    return false;
+  }
+
+  return (event.reviewers || []).some(
+    (reviewer) => reviewer.state === "requested_changes"
+  );
+}
+
+/**
+ * Map unresolved merge request discussions into review comments.
+ * Diff notes become file-specific comments; other threads become conversation comments.
+ */
+export function processGitLabDiscussions(
+  discussions: GitLabDiscussion[],
+  botUsername?: string
+): {
+  comments: ProcessedReviewComment[];
+  conversationComments: ProcessedConversationComment[];
+} {
+  const comments: ProcessedReviewComment[] = [];
+  const conversationComments: ProcessedConversationComment[] = [];
+
+  for (const discussion of discussions) {
+    const notes = discussion.notes.filter(
+      (note) => !note.system && note.author.username !== botUsername
+    );
+    const firstNote = discussion.notes[0];
+
+    // Only unresolved, resolvable threads still need work
+    if (!firstNote?.resolvable || firstNote.resolved || notes.length === 0) {
+      continue;
+    }
+
+    const position = firstNote.position;
+    if (position && (position.new_path || position.old_path)) {
+      notes.forEach((note, index) => {
+        comments.push({
+          id: note.id,
+          path: (position.new_path || position.old_path) as string,
+          line: position.new_line ?? position.old_line,
+          side: position.new_line !== null ? "RIGHT" : "LEFT",
+          diffHunk: "",
+          body: note.body,
+          reviewer: note.author.username,
+          isReply: index > 0,
+          discussionId: discussion.id,
+        });
+      });
+    } else {
+      for (const note of notes) {
+        conversationComments.push({
+          id: note.id,
+          body: note.body,
+          author: note.author.username,
+          createdAt: note.created_at,
+          discussionId: discussion.id,
+        });
+      }
+    }
+  }
+
+  return { comments, conversationComments };
+}
+
+/**
+ * Build review feedback for a merge request.
+ */
+export function processGitLabMergeRequest(
+  mergeRequest: GitLabMergeRequestAttributes,
+  project: GitLabProject,
+  reviewer: string,
+  reviewBody: string | null,
+  discussions: ReturnType<typeof processGitLabDiscussions>
+): ProcessedReviewFeedback {
+  return {
+    prNumber: mergeRequest.iid,
+    prTitle: mergeRequest.title,
+    repository: project.path_with_namespace,
+    branch: mergeRequest.source_branch,
+    reviewer,
+    reviewState: "changes_requested",
+    reviewBody,
+    comments: discussions.comments,
+    conversationComments: discussions.conversationComments,
+  };
+}
+
+/**
+ * Discussion threads touched by the feedback (to reply to and resolve).
+ */
+export function getFeedbackDiscussionIds(
+  feedback: ProcessedReviewFeedback
+): string[] {
+  const ids = new Set<string>();
+  for (const comment of [
+    ...feedback.comments,
+    ...(feedback.conversationComments || []),
+  ]) {
+    if (comment.discussionId) {
+      ids.add(comment.discussionId);
+    }
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,173 @@
+/**
+ * Registry of issue tracker backends
+ * Picks the tracker for a task from settings.json or the task key format
+ */
+
+import type { ProjectSettings } from "../types/settings";
+import { GitHubIssuesClient, parseGitHubIssueKey } from "./github-issues-client";
+import type { IssueTracker } from "./issue-tracker";
+import { JiraClient } from "./jira-client";
+import { LinearClient } from "./linear-client";
+
+export interface IssueTrackerDefinition {
+  /** Tracker name used in settings.json (e.g., "jira", "linear") */
+  name: string;
+  /** Environment variables that are required but not set */
+  missingConfiguration(): string[];
+  /** Claim task keys with a format unique to this tracker */
+  matchesTaskKey?(taskKey: string): boolean;
+  create(projectKey: string | undefined, settings: ProjectSettings | null): IssueTracker;
+}
+
+export class IssueTrackerRegistry {
+  private static definitions = new Map<string, IssueTrackerDefinition>();
+
+  /**
+   * Register a tracker backend (replaces any existing one with the same name)
+   */
+  static register(definition: IssueTrackerDefinition): void {
+    IssueTrackerRegistry.definitions.set(definition.name, definition);
+  }
+
+  static unregister(name: string): void {
+    IssueTrackerRegistry.definitions.delete(name);
+  }
+
+  static get(name: string): IssueTrackerDefinition | undefined {
+    return IssueTrackerRegistry.definitions.get(name);
+  }
+
+  static list(): IssueTrackerDefinition[] {
+    return Array.from(IssueTrackerRegistry.definitions.values());
+  }
+
+  /**
+   * Project/team key used to look up settings
+   * e.g., "PROJ" for "PROJ-123", "owner/repo" for "owner/repo#123"
+   */
+  static getProjectKey(taskKey: string): string {
+    if (taskKey.includes("#")) {
+      return taskKey.split("#")[0];
+    }
+    return taskKey.split("-")[0];
+  }
+
+  /**
+   * Check whether at least one registered tracker has its credentials configured
+   */
+  static hasConfiguredTracker(): boolean {
+    return IssueTrackerRegistry.list().some(
+      (definition) => definition.missingConfiguration().length === 0
+    );
+  }
+
+  /**
+   * Resolve which tracker owns a task key
+   * Order: settings.json "tracker" → task key format → JIRA → first configured tracker
+   */
+  static resolveName(taskKey: string, settings: ProjectSettings | null): string {
+    const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+    const configured = settings?.projects?.[projectKey]?.tracker;
+    if (configured) {
+      return configured;
+    }
+
+    const definitions = IssueTrackerRegistry.list();
+    const keyMatch = definitions.find((definition) =>
+      definition.matchesTaskKey?.(taskKey)
+    );
+    if (keyMatch) {
+      return keyMatch.name;
+    }
+
+    const jira = IssueTrackerRegistry.get("jira");
+    if (jira && jira.missingConfiguration().length === 0) {
+      return "jira";
+    }
+
+    // Only trackers without a distinctive key format can claim generic keys
+    const firstConfigured = definitions.find(
+      (definition) =>
+        !definition.matchesTaskKey &&
+        definition.missingConfiguration().length === 0
+    );
+    return firstConfigured?.name || "jira";
+  }
+
+  /**
+   * Create a tracker client by name
+   */
+  static create(
+    name: string,
+    projectKey?: string,
+    settings: ProjectSettings | null = null
+  ): IssueTracker {
+    const definition = IssueTrackerRegistry.get(name);
+    if (!definition) {
+      const available = IssueTrackerRegistry.list()
+        .map((d) => d.name)
+        .join(", ");
+      throw new Error(
+        `Unknown issue tracker "${name}". Available: ${available}`
+      );
+    }
+
+    const missing = definition.missingConfiguration();
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing ${name} configuration: ${missing.join(", ")}`
+      );
+    }
+
+    return definition.create(projectKey, settings);
+  }
+
+  /**
+   * Create the tracker client that owns a task key
+   */
+  static forTask(taskKey: string, settings: ProjectSettings | null): IssueTracker {
+    return IssueTrackerRegistry.create(
+      IssueTrackerRegistry.resolveName(taskKey, settings),
+      IssueTrackerRegistry.getProjectKey(taskKey),
+      settings
+    );
+  }
+}
+
+const missingEnv = (keys: string[]): string[] =>
+  keys.filter((key) => !process.env[key]);
+
+IssueTrackerRegistry.register({
+  name: "jira",
+  missingConfiguration: () =>
+    missingEnv(["JIRA_BASE_URL", "JIRA_EMAIL", "JIRA_API_TOKEN"]),
+  create: () =>
+    new JiraClient(
+      process.env.JIRA_BASE_URL!,
+      process.env.JIRA_EMAIL!,
+      process.env.JIRA_API_TOKEN!
+    ),
+});
+
+IssueTrackerRegistry.register({
+  name: "linear",
+  missingConfiguration: () => missingEnv(["LINEAR_API_KEY"]),
+  create: () => new LinearClient(process.env.LINEAR_API_KEY!),
+});
+
+IssueTrackerRegistry.register({
+  name: "github",
+  missingConfiguration: () =>
+    process.env.GITHUB_TOKEN || process.env.GITHUB_APP_ID ? [] : ["GITHUB_TOKEN"],
+  matchesTaskKey: (taskKey) => parseGitHubIssueKey(taskKey) !== null,
+  create: (projectKey, settings) => {
+    const projectSettings = projectKey ? settings?.projects?.[projectKey] : undefined;
+    // Labels stand in for status transitions, so clear the other status labels on each move
+    const statusLabels = [
+      projectSettings?.todoStatus,
+      projectSettings?.inProgressStatus,
+      projectSettings?.prStatus,
+    ].filter((label): label is string => !!label && label.trim().length > 0);
+    return new GitHubIssuesClient({ statusLabels });
+  },
+});
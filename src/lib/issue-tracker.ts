@@ -0,0 +1,167 @@
+/**
+ * Tracker-agnostic issue tracker interface
+ * Every backend (JIRA, Linear, ...) normalizes its issues into the JiraIssue
+ * shape so the formatting and implementation pipeline stays shared
+ */
+
+import type {
+  DetailedRelatedIssue,
+  FormattedTaskDetails,
+  JiraComment,
+  JiraIssue,
+  LinkedResource,
+} from "../types/jira";
+
+/**
+ * Headings of the comments claude-intern posts on issues
+ */
+export const CLAUDE_INTERN_COMMENT_MARKERS = [
+  "Implementation Completed by Claude",
+  "Automated Task Feasibility Assessment",
+  "Implementation Incomplete",
+  "Automated Story Points Estimation",
+];
+
+/**
+ * Check if comment text is a Claude Intern automated comment
+ */
+export function isClaudeInternComment(text: string): boolean {
+  return CLAUDE_INTERN_COMMENT_MARKERS.some((marker) => text.includes(marker));
+}
+
+/**
+ * Individual estimates behind a multi-sample ("planning poker") estimation
+ */
+export interface EstimationSpread {
+  samples: Array<{ persona?: string; storyPoints: number }>;
+  min: number;
+  max: number;
+  /** Steps on the Fibonacci scale between the lowest and highest estimate */
+  steps: number;
+  /** Estimates too far apart to trust without a discussion */
+  wide: boolean;
+}
+
+/**
+ * Story points estimation posted back to the tracker
+ */
+export interface TrackerEstimation {
+  storyPoints: number;
+  confidence: "high" | "medium" | "low";
+  implementationConfidence?: number;
+  reasoning: string;
+  risks: string[];
+  unclearAreas: string[];
+  summary: string;
+  spread?: EstimationSpread;
+}
+
+/**
+ * Issues to look up actual outcomes for, either recently completed issues of a
+ * project or specific issues in any status
+ */
+export interface IssueOutcomeQuery {
+  projectKey?: string;
+  issueKeys?: string[];
+  /** Story points field (discovered when not set) */
+  storyPointsField?: string;
+  /** Only issues resolved within this many days (project queries) */
+  sinceDays?: number;
+  limit?: number;
+}
+
+/**
+ * Actual outcome of an issue: final story points, time in progress and linked PRs
+ */
+export interface IssueOutcome {
+  key: string;
+  summary: string;
+  labels: string[];
+  components: string[];
+  status: string;
+  done: boolean;
+  storyPoints: number | null;
+  /** First status change, taken as the start of work */
+  startedAt: string | null;
+  resolvedAt: string | null;
+  pullRequests: string[];
+}
+
+export interface IssueTracker {
+  /** Base URL used to resolve relative links and attachments in task content */
+  getBaseUrl(): string;
+
+  // Reading issues
+  getIssue(issueKey: string): Promise<JiraIssue>;
+  getIssueComments(issueKey: string): Promise<JiraComment[]>;
+  extractLinkedResources(issue: JiraIssue): LinkedResource[];
+  getRelatedWorkItems(issue: JiraIssue): Promise<DetailedRelatedIssue[]>;
+  formatIssueDetails(
+    issue: JiraIssue,
+    comments: JiraComment[],
+    linkedResources: LinkedResource[],
+    relatedIssues?: DetailedRelatedIssue[]
+  ): FormattedTaskDetails;
+  downloadIssueAttachments(
+    issueKey: string,
+    outputDir: string
+  ): Promise<Map<string, string>>;
+  downloadAttachmentsFromContent(
+    content: string,
+    outputDir: string,
+    existingMap?: Map<string, string>
+  ): Promise<Map<string, string>>;
+
+  /** Search issues with the tracker's native query language (optional) */
+  searchIssues?(query: string): Promise<{ issues: JiraIssue[]; total: number }>;
+  /** Child issues of an epic or parent, beyond the sub-tasks listed on the issue (optional) */
+  getChildIssues?(issueKey: string): Promise<JiraIssue[]>;
+
+  // Posting results
+  postImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string
+  ): Promise<void>;
+  postClarityComment(issueKey: string, assessment: any): Promise<void>;
+  postAssessmentFailureComment(
+    issueKey: string,
+    failureType: "max-turns" | "parse-error"
+  ): Promise<void>;
+  postIncompleteImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string,
+    taskDescription?: string
+  ): Promise<void>;
+  hasIncompleteImplementationComment(
+    issueKey: string,
+    currentDescription: string
+  ): Promise<boolean>;
+  postBudgetExceededComment(issueKey: string, reason: string): Promise<void>;
+
+  // Workflow
+  transitionIssue(issueKey: string, statusName: string): Promise<void>;
+
+  // Estimation
+  /** Look up actual outcomes to calibrate estimates against (optional) */
+  getIssueOutcomes?(query: IssueOutcomeQuery): Promise<IssueOutcome[]>;
+  findEstimationComment(
+    issueKey: string
+  ): Promise<{ commentId: string; created: string } | null>;
+  discoverStoryPointsField(issueKey?: string): Promise<string | null>;
+  updateStoryPoints(
+    issueKey: string,
+    fieldId: string,
+    points: number
+  ): Promise<void>;
+  postEstimationComment(
+    issueKey: string,
+    result: TrackerEstimation
+  ): Promise<void>;
+  updateEstimationComment(
+    issueKey: string,
+    commentId: string,
+    result: TrackerEstimation
+  ): Promise<void>;
+}
@@ -10,6 +10,14 @@ import {
   AtlassianDocumentNode,
   JiraAttachment,
 } from "../types/jira";
+import {
+  isClaudeInternComment,
+  type EstimationSpread,
+  type IssueOutcome,
+  type IssueOutcomeQuery,
+  type IssueTracker,
+} from "./issue-tracker";
+import { formatSpreadSamples } from "./estimation-consensus";
 import { JiraFormatter } from "./jira-formatter";
 import { JiraExtractor } from "./jira-extractor";
 import { Utils } from "./utils";
@@ -17,7 +25,7 @@ import { assert } from "console";
 import { writeFileSync, mkdirSync } from "fs";
 import path from "path";
 
-export class JiraClient {
+export class JiraClient implements IssueTracker {
   private baseUrl: string;
   private email: string;
   private apiToken: string;
@@ -32,6 +40,10 @@ export class JiraClient {
     }
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   async jiraApiCall(method: string, url: string, body?: any): Promise<any> {
     const fullUrl = `${this.baseUrl}${url}`;
     console.log(`🌐 JIRA API Call: ${method} ${fullUrl}`);
@@ -108,6 +120,20 @@ export class JiraClient {
     }
   }
 
+  /**
+   * Issues whose parent is the given epic or issue, in rank order (sub-tasks and epic children)
+   */
+  async getChildIssues(issueKey: string): Promise<JiraIssue[]> {
+    const fields = ["summary", "status", "issuetype", "issuelinks"];
+    const response = await this.jiraApiCall(
+      "GET",
+      `/rest/api/3/search/jql?jql=${encodeURIComponent(
+        `parent = "${issueKey}" ORDER BY rank ASC`
+      )}&maxResults=100&fields=${fields.join(",")}`
+    );
+    return (response?.issues || []) as JiraIssue[];
+  }
+
   async getIssue(issueKey: string): Promise<JiraIssue> {
     console.log(`🔍 Attempting to fetch issue: ${issueKey}`);
     console.log(`📡 JIRA Base URL: ${this.baseUrl}`);
@@ -203,14 +229,7 @@ export class JiraClient {
     }
 
     // Check for Claude Intern comment markers (from jira-formatter.ts comment headers)
-    const claudeInternMarkers = [
-      "Implementation Completed by Claude",
-      "Automated Task Feasibility Assessment",
-      "Implementation Incomplete",
-      "Automated Story Points Estimation"
-    ];
-
-    return claudeInternMarkers.some(marker => commentText.includes(marker));
+    return isClaudeInternComment(commentText);
   }
 
   async getIssueComments(issueKey: string): Promise<JiraComment[]> {
@@ -570,6 +589,47 @@ export class JiraClient {
     }
   }
 
+  /**
+   * Post a warning comment when the feasibility assessment could not complete
+   */
+  async postAssessmentFailureComment(
+    issueKey: string,
+    failureType: "max-turns" | "parse-error"
+  ): Promise<void> {
+    const commentBody = {
+      body: {
+        type: "doc",
+        version: 1,
+        content: JiraFormatter.createAssessmentFailureADF(failureType),
+      },
+    };
+
+    await this.jiraApiCall(
+      "POST",
+      `/rest/api/3/issue/${issueKey}/comment`,
+      commentBody
+    );
+  }
+
+  /**
+   * Post a comment explaining that a cost budget stopped work on the issue
+   */
+  async postBudgetExceededComment(issueKey: string, reason: string): Promise<void> {
+    const commentBody = {
+      body: {
+        type: "doc",
+        version: 1,
+        content: JiraFormatter.createBudgetExceededADF(reason),
+      },
+    };
+
+    await this.jiraApiCall(
+      "POST",
+      `/rest/api/3/issue/${issueKey}/comment`,
+      commentBody
+    );
+  }
+
   /**
    * Transition an issue to a new status
    */
@@ -662,7 +722,7 @@ export class JiraClient {
         try {
           const baseOutputDir =
             process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-          const taskDir = path.join(baseOutputDir, issueKey.toLowerCase());
+          const taskDir = path.join(baseOutputDir, Utils.taskKeyToSlug(issueKey));
           const descriptionFile = path.join(taskDir, "incomplete-task-description.txt");
 
           mkdirSync(taskDir, { recursive: true });
@@ -693,7 +753,7 @@ export class JiraClient {
       // First check if we have a saved description from a previous incomplete attempt
       const baseOutputDir =
         process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
-      const taskDir = path.join(baseOutputDir, issueKey.toLowerCase());
+      const taskDir = path.join(baseOutputDir, Utils.taskKeyToSlug(issueKey));
       const descriptionFile = path.join(taskDir, "incomplete-task-description.txt");
 
       // Check if the description file exists
@@ -792,6 +852,86 @@ export class JiraClient {
     }
   }
 
+  /**
+   * Look up final story points, time in progress and linked pull requests of
+   * recently completed project issues, or of specific issues.
+   */
+  async getIssueOutcomes(query: IssueOutcomeQuery): Promise<IssueOutcome[]> {
+    if (query.issueKeys && query.issueKeys.length === 0) {
+      return [];
+    }
+    // Keep key lists within one page of search results
+    if (query.issueKeys && query.issueKeys.length > 50) {
+      const outcomes: IssueOutcome[] = [];
+      for (let i = 0; i < query.issueKeys.length; i += 50) {
+        outcomes.push(
+          ...(await this.getIssueOutcomes({ ...query, issueKeys: query.issueKeys.slice(i, i + 50) }))
+        );
+      }
+      return outcomes;
+    }
+
+    const storyPointsField =
+      query.storyPointsField || (await this.discoverStoryPointsField());
+    const conditions = query.issueKeys
+      ? [`key in (${query.issueKeys.join(", ")})`]
+      : [
+          `project = "${query.projectKey}"`,
+          "statusCategory = Done",
+          `resolved >= -${query.sinceDays ?? 180}d`,
+        ];
+    const fields = ["summary", "labels", "components", "status", "resolutiondate"];
+    if (storyPointsField) {
+      fields.push(storyPointsField);
+    }
+    const limit = query.limit ?? query.issueKeys?.length ?? 50;
+
+    const response = await this.jiraApiCall(
+      "GET",
+      `/rest/api/3/search/jql?jql=${encodeURIComponent(
+        `${conditions.join(" AND ")} ORDER BY resolved DESC`
+      )}&maxResults=${limit}&fields=${fields.join(",")}&expand=changelog`
+    );
+
+    const outcomes: IssueOutcome[] = [];
+    for (const issue of (response?.issues || []) as JiraIssue[]) {
+      const statusChanges = (issue.changelog?.histories || [])
+        .filter((history) => history.items.some((item) => item.field === "status"))
+        .map((history) => history.created)
+        .sort((a, b) => Date.parse(a) - Date.parse(b));
+      const points = storyPointsField ? issue.fields[storyPointsField] : null;
+
+      outcomes.push({
+        key: issue.key,
+        summary: issue.fields.summary,
+        labels: issue.fields.labels || [],
+        components: (issue.fields.components || []).map((component) => component.name),
+        status: issue.fields.status?.name || "",
+        done: issue.fields.status?.statusCategory?.key === "done",
+        storyPoints: typeof points === "number" ? points : null,
+        startedAt: statusChanges[0] || null,
+        resolvedAt: issue.fields.resolutiondate || null,
+        pullRequests: await this.getPullRequestLinks(issue.key),
+      });
+    }
+    return outcomes;
+  }
+
+  /**
+   * Pull/merge request URLs among the remote links of an issue.
+   */
+  private async getPullRequestLinks(issueKey: string): Promise<string[]> {
+    try {
+      const links = await this.jiraApiCall("GET", `/rest/api/3/issue/${issueKey}/remotelink`);
+      return ((links || []) as Array<{ object?: { url?: string } }>)
+        .map((link) => link.object?.url || "")
+        .filter((url) => /\/(pull|merge_requests|pull-requests)\/\d+/.test(url));
+    } catch (error) {
+      console.warn(`⚠️  Failed to fetch remote links of ${issueKey}: ${error}`);
+      return [];
+    }
+  }
+
   /**
    * Cached story points candidate field IDs (all matching fields from JIRA)
    */
@@ -933,6 +1073,7 @@ export class JiraClient {
     risks: string[];
     unclearAreas: string[];
     summary: string;
+    spread?: EstimationSpread;
   }): any[] {
     const confidenceEmoji =
       result.confidence === "high"
@@ -1002,6 +1143,25 @@ export class JiraClient {
       });
     }
 
+    if (result.spread && result.spread.samples.length > 1) {
+      content.push(
+        {
+          type: "heading",
+          attrs: { level: 4 },
+          content: [{ type: "text", text: "Planning Poker" }],
+        },
+        {
+          type: "paragraph",
+          content: [
+            {
+              type: "text",
+              text: `${result.spread.samples.length} estimates — ${formatSpreadSamples(result.spread)}`,
+            },
+          ],
+        }
+      );
+    }
+
     content.push(
       {
         type: "heading",
@@ -1054,6 +1214,29 @@ export class JiraClient {
       });
     }
 
+    if (result.spread?.wide) {
+      content.push({
+        type: "panel",
+        attrs: { panelType: "note" },
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              {
+                type: "text",
+                text: `🃏 Wide spread: ${result.spread.min} to ${result.spread.max} points — `,
+                marks: [{ type: "strong" }],
+              },
+              {
+                type: "text",
+                text: "The estimates disagree. Worth discussing in grooming before committing to a number.",
+              },
+            ],
+          },
+        ],
+      });
+    }
+
     if (result.confidence === "low") {
       content.push({
         type: "panel",
@@ -1093,6 +1276,7 @@ export class JiraClient {
       risks: string[];
       unclearAreas: string[];
       summary: string;
+      spread?: EstimationSpread;
     }
   ): Promise<void> {
     try {
@@ -1134,6 +1318,7 @@ export class JiraClient {
       risks: string[];
       unclearAreas: string[];
       summary: string;
+      spread?: EstimationSpread;
     }
   ): Promise<void> {
     try {
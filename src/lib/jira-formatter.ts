@@ -833,4 +833,244 @@ export class JiraFormatter {
 
     return content;
   }
-}
\ No newline at end of file
+
+  /**
+   * Create ADF content for a failed feasibility assessment comment
+   */
+  static createAssessmentFailureADF(failureType: 'max-turns' | 'parse-error'): any[] {
+    const isMaxTurns = failureType === 'max-turns';
+
+    const content: any[] = [
+      {
+        type: 'panel',
+        attrs: { panelType: 'warning' },
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              {
+                type: 'text',
+                text: '🤖 Claude Intern - Feasibility Assessment Failed',
+                marks: [{ type: 'strong' }],
+              },
+            ],
+          },
+          {
+            type: 'paragraph',
+            content: [
+              {
+                type: 'text',
+                text: isMaxTurns
+                  ? '⚠️ Assessment reached maximum conversation turns before completion'
+                  : '⚠️ Could not parse feasibility assessment response',
+              },
+            ],
+          },
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: '📋 ', marks: [{ type: 'strong' }] },
+              {
+                type: 'text',
+                text: 'What this means:',
+                marks: [{ type: 'strong' }],
+              },
+            ],
+          },
+          ...(isMaxTurns
+            ? [
+                {
+                  type: 'bulletList',
+                  content: [
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: '🧩 ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'Task complexity: ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'The task may involve multiple complex components or interdependencies that require extensive analysis',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: '📝 ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'Insufficient details: ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'The task description may lack specific requirements, acceptance criteria, or technical specifications',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: '🔍 ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'Context discovery: ',
+                              marks: [{ type: 'strong' }],
+                            },
+                            {
+                              type: 'text',
+                              text: 'Extensive codebase exploration was needed to understand existing patterns and architecture',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+                {
+                  type: 'paragraph',
+                  content: [
+                    {
+                      type: 'text',
+                      text: '🚀 ',
+                      marks: [{ type: 'strong' }],
+                    },
+                    {
+                      type: 'text',
+                      text: 'Next steps:',
+                      marks: [{ type: 'strong' }],
+                    },
+                  ],
+                },
+                {
+                  type: 'bulletList',
+                  content: [
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: 'Implementation will proceed with available information',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: 'Additional clarification may be requested during development',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                    {
+                      type: 'listItem',
+                      content: [
+                        {
+                          type: 'paragraph',
+                          content: [
+                            {
+                              type: 'text',
+                              text: 'Consider adding more specific acceptance criteria for future similar tasks',
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ]
+            : [
+                {
+                  type: 'paragraph',
+                  content: [
+                    {
+                      type: 'text',
+                      text: 'The AI assessment tool encountered an unexpected response format. Implementation will proceed but may require manual review of results.',
+                    },
+                  ],
+                },
+              ]),
+        ],
+      },
+    ];
+
+    return content;
+  }
+
+  /**
+   * Create ADF content for a comment explaining that a budget stopped work on the task
+   */
+  static createBudgetExceededADF(reason: string): any[] {
+    return [
+      {
+        type: 'panel',
+        attrs: { panelType: 'error' },
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              {
+                type: 'text',
+                text: '💸 Claude Intern - Budget Exhausted',
+                marks: [{ type: 'strong' }],
+              },
+            ],
+          },
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: reason }],
+          },
+          {
+            type: 'paragraph',
+            content: [
+              {
+                type: 'text',
+                text: 'No further agent runs will start for this task. Raise maxCostPerTask or monthlyBudget in .claude-intern/settings.json to continue.',
+              },
+            ],
+          },
+        ],
+      },
+    ];
+  }
+}
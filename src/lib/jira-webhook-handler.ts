@@ -0,0 +1,156 @@
+/**
+ * JIRA Webhook Handler
+ *
+ * Handles JIRA webhook secret verification and matches issue updates
+ * against the trigger rules in settings.json.
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { SignatureVerificationResult } from "../types/github-webhooks";
+import type { JiraIssueUpdatedEvent } from "../types/jira-webhooks";
+import type { ProjectSettings } from "../types/settings";
+import { isBotComment, type PendingClarification } from "./clarifications";
+import { IssueTrackerRegistry } from "./issue-tracker-registry";
+import { verifyWebhookSignature } from "./webhook-handler";
+
+export interface JiraTriggerMatch {
+  taskKey: string;
+  projectKey: string;
+  reason: string;
+  prTargetBranch: string;
+}
+
+/**
+ * Verify a JIRA webhook request against the shared secret.
+ *
+ * JIRA Cloud webhooks configured with a secret send an HMAC-SHA256 signature
+ * in X-Hub-Signature; other setups can pass the secret as a "secret" query parameter.
+ */
+export function verifyJiraWebhook(
+  payload: string,
+  signature: string | null,
+  querySecret: string | null,
+  secret: string
+): SignatureVerificationResult {
+  if (signature) {
+    return verifyWebhookSignature(payload, signature, secret);
+  }
+
+  if (!querySecret) {
+    return {
+      valid: false,
+      error: "Missing X-Hub-Signature header or secret query parameter",
+    };
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const provided = Buffer.from(querySecret);
+  const expected = Buffer.from(secret);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return {
+      valid: false,
+      error: "Secret mismatch",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Labels added by a changelog "labels" item (JIRA sends space-separated lists)
+ */
+function getAddedLabels(fromString: string | null, toString: string | null): string[] {
+  const before = new Set((fromString || "").split(/\s+/).filter(Boolean));
+  return (toString || "").split(/\s+/).filter((label) => label && !before.has(label));
+}
+
+/**
+ * Check whether an issue update matches the project's trigger rules.
+ * Only changes in this event count, so re-saving an already assigned issue does not re-trigger.
+ */
+export function matchJiraTrigger(
+  event: JiraIssueUpdatedEvent,
+  settings: ProjectSettings | null
+): JiraTriggerMatch | null {
+  if (event.webhookEvent !== "jira:issue_updated" || !event.issue?.key) {
+    return null;
+  }
+
+  const taskKey = event.issue.key;
+  const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+  const triggers = settings?.projects?.[projectKey]?.webhookTriggers;
+  if (!triggers) {
+    return null;
+  }
+
+  const prTargetBranch = triggers.prTargetBranch || "main";
+  const changes = event.changelog?.items || [];
+
+  if (triggers.assignee) {
+    const expected = triggers.assignee.toLowerCase();
+    const assignee = event.issue.fields.assignee;
+    const assignedNow = changes.some(
+      (item) =>
+        item.field === "assignee" &&
+        [item.to, item.toString, assignee?.accountId, assignee?.displayName, assignee?.emailAddress]
+          .some((value) => value?.toLowerCase() === expected)
+    );
+    if (assignedNow) {
+      return {
+        taskKey,
+        projectKey,
+        reason: `assigned to ${triggers.assignee}`,
+        prTargetBranch,
+      };
+    }
+  }
+
+  if (triggers.labels && triggers.labels.length > 0) {
+    const wanted = triggers.labels.map((label) => label.toLowerCase());
+    for (const item of changes) {
+      if (item.field !== "labels") {
+        continue;
+      }
+      const label = getAddedLabels(item.fromString, item.toString).find((added) =>
+        wanted.includes(added.toLowerCase())
+      );
+      if (label) {
+        return {
+          taskKey,
+          projectKey,
+          reason: `label "${label}" added`,
+          prTargetBranch,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a new comment answers the clarification questions of a task.
+ * Matches comments posted after the questions that aren't claude-intern's own.
+ */
+export function matchClarificationAnswer(
+  event: JiraIssueUpdatedEvent,
+  clarification: PendingClarification | null,
+  settings: ProjectSettings | null
+): JiraTriggerMatch | null {
+  const comment = event.comment;
+  if (!comment || !event.issue?.key || clarification?.taskKey !== event.issue.key) {
+    return null;
+  }
+  if (Date.parse(comment.created) <= clarification.askedAt || isBotComment(comment.body || "")) {
+    return null;
+  }
+
+  const taskKey = event.issue.key;
+  const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+  return {
+    taskKey,
+    projectKey,
+    reason: `clarification answered by ${comment.author?.displayName || "a comment"}`,
+    prTargetBranch: settings?.projects?.[projectKey]?.webhookTriggers?.prTargetBranch || "main",
+  };
+}
@@ -0,0 +1,861 @@
+import type {
+  JiraAttachment,
+  JiraComment,
+  JiraIssue,
+  JiraIssueLink,
+  JiraPriority,
+  JiraStatus,
+  LinkedResource,
+  DetailedRelatedIssue,
+  FormattedTaskDetails,
+} from "../types/jira";
+import type {
+  LinearComment,
+  LinearGraphQLResponse,
+  LinearIssue,
+  LinearIssueReference,
+  LinearUser,
+  LinearWorkflowState,
+} from "../types/linear";
+import { isClaudeInternComment, type EstimationSpread, type IssueTracker } from "./issue-tracker";
+import { JiraExtractor } from "./jira-extractor";
+import { MarkdownFormatter } from "./markdown-formatter";
+import { Utils } from "./utils";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+const ISSUE_REFERENCE_FIELDS = "id identifier title priority priorityLabel state { id name type }";
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  url
+  priority
+  priorityLabel
+  estimate
+  createdAt
+  updatedAt
+  state { id name type }
+  team { id key name }
+  assignee { id name displayName email }
+  creator { id name displayName email }
+  project { id name }
+  cycle { id name number }
+  parent { ${ISSUE_REFERENCE_FIELDS} }
+  labels { nodes { id name } }
+  children { nodes { ${ISSUE_REFERENCE_FIELDS} } }
+  relations { nodes { id type relatedIssue { ${ISSUE_REFERENCE_FIELDS} } } }
+  inverseRelations { nodes { id type issue { ${ISSUE_REFERENCE_FIELDS} } } }
+  attachments { nodes { id title subtitle url sourceType createdAt creator { id name displayName } } }
+`;
+
+/**
+ * Outward/inward link names for Linear relation types, matching JIRA's link wording
+ */
+const RELATION_LINK_TYPES: Record<string, { outward: string; inward: string }> = {
+  blocks: { outward: "blocks", inward: "is blocked by" },
+  duplicate: { outward: "duplicates", inward: "is duplicated by" },
+  related: { outward: "relates to", inward: "relates to" },
+  similar: { outward: "is similar to", inward: "is similar to" },
+};
+
+export class LinearClient implements IssueTracker {
+  private apiUrl: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, apiUrl = "https://api.linear.app/graphql") {
+    this.apiKey = apiKey;
+    this.apiUrl = apiUrl;
+
+    if (!this.apiKey || this.apiKey.length === 0) {
+      throw new Error("Linear API key is required");
+    }
+  }
+
+  getBaseUrl(): string {
+    return "https://linear.app";
+  }
+
+  async linearApiCall<T = any>(
+    query: string,
+    variables: Record<string, any> = {}
+  ): Promise<T> {
+    const response = await Utils.fetchWithRetry(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: this.apiKey,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.log(
+        `❌ Linear API Error: ${response.status} ${response.statusText}`
+      );
+      console.log(`   Error details: ${errorText}`);
+      throw new Error(
+        `Linear API Error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    const json = (await response.json()) as LinearGraphQLResponse<T>;
+    if (json.errors && json.errors.length > 0) {
+      const messages = json.errors.map((e) => e.message).join("; ");
+      console.log(`❌ Linear GraphQL Error: ${messages}`);
+      throw new Error(`Linear GraphQL Error: ${messages}`);
+    }
+
+    return json.data as T;
+  }
+
+  /**
+   * Fetch a Linear issue by identifier (e.g., "ENG-42") and normalize it
+   * into the JiraIssue shape used by the rest of the pipeline
+   */
+  async getIssue(issueKey: string): Promise<JiraIssue> {
+    console.log(`🔍 Attempting to fetch Linear issue: ${issueKey}`);
+
+    try {
+      const data = await this.linearApiCall<{ issue: LinearIssue | null }>(
+        `query Issue($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} } }`,
+        { id: issueKey }
+      );
+
+      if (!data?.issue) {
+        throw new Error(`Linear issue ${issueKey} not found`);
+      }
+
+      console.log(`✅ Successfully fetched issue ${issueKey}`);
+      console.log(`📝 Issue summary: ${data.issue.title || "No summary"}`);
+
+      return this.normalizeIssue(data.issue);
+    } catch (error) {
+      console.error(`❌ Error fetching issue ${issueKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a Linear issue into the JiraIssue shape
+   */
+  private normalizeIssue(issue: LinearIssue): JiraIssue {
+    const toUser = (user?: LinearUser | null) =>
+      user
+        ? {
+            accountId: user.id,
+            displayName: user.displayName || user.name,
+            emailAddress: user.email,
+          }
+        : undefined;
+
+    const toStatus = (state: LinearWorkflowState): JiraStatus => ({
+      id: state.id,
+      name: state.name,
+      statusCategory: {
+        id: 0,
+        name: state.type,
+        key: state.type,
+        colorName: "",
+      },
+    });
+
+    const toPriority = (priority: number, label: string): JiraPriority => ({
+      id: String(priority),
+      name: label,
+    });
+
+    const toLinkedIssue = (
+      ref: LinearIssueReference,
+      subtask = false
+    ): NonNullable<JiraIssueLink["outwardIssue"]> => ({
+      id: ref.id,
+      key: ref.identifier,
+      fields: {
+        summary: ref.title,
+        status: toStatus(ref.state),
+        priority: toPriority(ref.priority, ref.priorityLabel),
+        issuetype: {
+          id: issue.team.id,
+          name: subtask ? "Sub-issue" : "Issue",
+          subtask,
+        },
+      },
+    });
+
+    const issuelinks: JiraIssueLink[] = [];
+    for (const relation of issue.relations?.nodes || []) {
+      if (!relation.relatedIssue) continue;
+      const linkType = RELATION_LINK_TYPES[relation.type] || {
+        outward: relation.type,
+        inward: relation.type,
+      };
+      issuelinks.push({
+        id: relation.id,
+        type: { id: relation.type, name: relation.type, ...linkType },
+        outwardIssue: toLinkedIssue(relation.relatedIssue),
+      });
+    }
+    for (const relation of issue.inverseRelations?.nodes || []) {
+      if (!relation.issue) continue;
+      const linkType = RELATION_LINK_TYPES[relation.type] || {
+        outward: relation.type,
+        inward: relation.type,
+      };
+      issuelinks.push({
+        id: relation.id,
+        type: { id: relation.type, name: relation.type, ...linkType },
+        inwardIssue: toLinkedIssue(relation.issue),
+      });
+    }
+
+    return {
+      id: issue.id,
+      key: issue.identifier,
+      self: issue.url,
+      fields: {
+        summary: issue.title,
+        description: issue.description || undefined,
+        issuetype: {
+          id: issue.team.id,
+          name: issue.parent ? "Sub-issue" : "Issue",
+          subtask: !!issue.parent,
+        },
+        status: toStatus(issue.state),
+        priority:
+          issue.priority > 0
+            ? toPriority(issue.priority, issue.priorityLabel)
+            : undefined,
+        assignee: toUser(issue.assignee),
+        reporter: toUser(issue.creator) || {
+          accountId: "",
+          displayName: "Unknown",
+        },
+        created: issue.createdAt,
+        updated: issue.updatedAt,
+        labels: (issue.labels?.nodes || []).map((label) => label.name),
+        components: issue.project
+          ? [{ id: issue.project.id, name: issue.project.name }]
+          : [],
+        fixVersions: issue.cycle
+          ? [
+              {
+                id: issue.cycle.id,
+                name: issue.cycle.name || `Cycle ${issue.cycle.number}`,
+                released: false,
+              },
+            ]
+          : [],
+        attachment: this.extractUploadedFiles(issue),
+        issuelinks,
+        subtasks: (issue.children?.nodes || []).map((child) => toLinkedIssue(child, true)),
+        parent: issue.parent ? toLinkedIssue(issue.parent) : undefined,
+        linearAttachments: issue.attachments?.nodes || [],
+        linearTeamId: issue.team.id,
+        estimate: issue.estimate ?? undefined,
+      },
+    };
+  }
+
+  /**
+   * Uploaded files live on uploads.linear.app and are referenced from the
+   * issue description Markdown rather than listed as attachments
+   */
+  private extractUploadedFiles(issue: LinearIssue): JiraAttachment[] {
+    return this.findUploadUrls(issue.description || "").map((url) => ({
+      id: url,
+      filename: this.filenameFromUrl(url),
+      size: 0,
+      mimeType: "application/octet-stream",
+      content: url,
+      created: issue.createdAt,
+      author: {
+        accountId: issue.creator?.id || "",
+        displayName: issue.creator?.name || "Unknown",
+      },
+    }));
+  }
+
+  private findUploadUrls(markdown: string): string[] {
+    const uploadUrlPattern = /https:\/\/uploads\.linear\.app\/[^\s)"'\]]+/g;
+    return Array.from(new Set(markdown.match(uploadUrlPattern) || []));
+  }
+
+  private filenameFromUrl(url: string): string {
+    const lastSegment = url.split("?")[0].split("/").filter(Boolean).pop();
+    return lastSegment ? decodeURIComponent(lastSegment) : "attachment";
+  }
+
+  /**
+   * Fetch all comments of an issue, following the cursor through every page
+   */
+  private async fetchComments(issueKey: string): Promise<LinearComment[]> {
+    const comments: LinearComment[] = [];
+    let after: string | null = null;
+
+    do {
+      const data: {
+        issue: {
+          comments: {
+            nodes: LinearComment[];
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          };
+        } | null;
+      } = await this.linearApiCall(
+        `query IssueComments($id: String!, $after: String) {
+          issue(id: $id) {
+            comments(first: 100, after: $after) {
+              nodes { id body createdAt updatedAt user { id name displayName email } }
+              pageInfo { hasNextPage endCursor }
+            }
+          }
+        }`,
+        { id: issueKey, after }
+      );
+
+      const page = data?.issue?.comments;
+      comments.push(...(page?.nodes || []));
+      after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+
+    return comments;
+  }
+
+  async getIssueComments(issueKey: string): Promise<JiraComment[]> {
+    try {
+      const allComments = await this.fetchComments(issueKey);
+
+      // Filter out Claude Intern's own comments
+      const filteredComments = allComments.filter(
+        (comment) => !isClaudeInternComment(comment.body || "")
+      );
+
+      const filteredCount = allComments.length - filteredComments.length;
+      if (filteredCount > 0) {
+        console.log(
+          `🔍 Filtered out ${filteredCount} Claude Intern comment(s) from ${issueKey}`
+        );
+      }
+
+      // Linear returns newest first; keep chronological order like JIRA
+      return filteredComments
+        .sort(
+          (a, b) =>
+            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        )
+        .map((comment) => ({
+          id: comment.id,
+          body: comment.body || "",
+          author: {
+            accountId: comment.user?.id || "",
+            displayName:
+              comment.user?.displayName || comment.user?.name || "Unknown",
+            emailAddress: comment.user?.email,
+          },
+          created: comment.createdAt,
+          updated: comment.updatedAt,
+        }));
+    } catch (error) {
+      console.warn(`Failed to fetch comments for ${issueKey}: ${error}`);
+      return [];
+    }
+  }
+
+  async getIssueAttachments(issueKey: string): Promise<JiraAttachment[]> {
+    try {
+      const issue = await this.getIssue(issueKey);
+      return issue.fields.attachment || [];
+    } catch (error) {
+      console.warn(`Failed to fetch attachments for ${issueKey}: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Download an uploaded file and save it locally
+   */
+  async downloadAttachment(
+    attachment: JiraAttachment,
+    outputDir: string
+  ): Promise<string> {
+    try {
+      console.log(`📎 Downloading attachment: ${attachment.filename}...`);
+
+      mkdirSync(outputDir, { recursive: true });
+
+      // Sanitize filename to avoid path traversal and filesystem issues
+      const sanitizedFilename = attachment.filename.replace(
+        /[^a-zA-Z0-9._-]/g,
+        "_"
+      );
+      const localPath = path.join(outputDir, sanitizedFilename);
+
+      // Linear uploads require the API key for private workspaces
+      const response = await Utils.fetchWithRetry(attachment.content, {
+        headers: {
+          Authorization: this.apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download attachment: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const buffer = await response.arrayBuffer();
+      writeFileSync(localPath, Buffer.from(buffer));
+
+      console.log(`✅ Downloaded attachment to: ${localPath}`);
+      return localPath;
+    } catch (error) {
+      console.warn(
+        `Failed to download attachment ${attachment.filename}: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Download all uploaded files for an issue
+   */
+  async downloadIssueAttachments(
+    issueKey: string,
+    outputDir: string
+  ): Promise<Map<string, string>> {
+    const attachmentMap = new Map<string, string>();
+
+    try {
+      const attachments = await this.getIssueAttachments(issueKey);
+
+      if (attachments.length === 0) {
+        console.log(`📎 No attachments found for ${issueKey}`);
+        return attachmentMap;
+      }
+
+      console.log(`📎 Found ${attachments.length} attachments for ${issueKey}`);
+
+      for (const attachment of attachments) {
+        try {
+          const localPath = await this.downloadAttachment(
+            attachment,
+            outputDir
+          );
+          attachmentMap.set(attachment.content, localPath);
+        } catch (error) {
+          console.warn(`Skipping attachment ${attachment.filename}: ${error}`);
+        }
+      }
+
+      console.log(
+        `✅ Downloaded ${attachmentMap.size}/${attachments.length} attachments for ${issueKey}`
+      );
+    } catch (error) {
+      console.warn(`Failed to download attachments for ${issueKey}: ${error}`);
+    }
+
+    return attachmentMap;
+  }
+
+  /**
+   * Download all uploaded files referenced in Markdown content (descriptions, comments, etc.)
+   */
+  async downloadAttachmentsFromContent(
+    content: string,
+    outputDir: string,
+    existingMap?: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const attachmentMap = existingMap || new Map<string, string>();
+    const urls = this.findUploadUrls(content).filter(
+      (url) => !attachmentMap.has(url)
+    );
+
+    if (urls.length === 0) {
+      return attachmentMap;
+    }
+
+    console.log(`📎 Found ${urls.length} attachment URLs in content`);
+
+    for (const url of urls) {
+      try {
+        const localPath = await this.downloadAttachment(
+          {
+            id: url,
+            filename: this.filenameFromUrl(url),
+            size: 0,
+            mimeType: "application/octet-stream",
+            content: url,
+            created: new Date().toISOString(),
+            author: { accountId: "", displayName: "Unknown" },
+          },
+          outputDir
+        );
+        attachmentMap.set(url, localPath);
+      } catch (error) {
+        console.warn(`Failed to download attachment from ${url}: ${error}`);
+      }
+    }
+
+    return attachmentMap;
+  }
+
+  /**
+   * Extract linked resources, including Linear link attachments (PRs, docs, designs)
+   */
+  extractLinkedResources(issue: JiraIssue): LinkedResource[] {
+    const resources = JiraExtractor.extractLinkedResources(issue);
+    const linkAttachments = issue.fields.linearAttachments || [];
+
+    for (const attachment of linkAttachments) {
+      if (!attachment.url || resources.some((r) => r.url === attachment.url)) {
+        continue;
+      }
+      resources.push({
+        type: "custom_field_link",
+        field: "Attachment",
+        url: attachment.url,
+        description: attachment.subtitle
+          ? `${attachment.title} (${attachment.subtitle})`
+          : attachment.title,
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Fetch detailed information about related work items (relations, sub-issues, parent)
+   */
+  async getRelatedWorkItems(issue: JiraIssue): Promise<DetailedRelatedIssue[]> {
+    return JiraExtractor.getRelatedWorkItems(issue, this.getIssue.bind(this));
+  }
+
+  formatIssueDetails(
+    issue: JiraIssue,
+    comments: JiraComment[],
+    linkedResources: LinkedResource[],
+    relatedIssues: DetailedRelatedIssue[] = []
+  ): FormattedTaskDetails {
+    return JiraExtractor.formatIssueDetails(
+      issue,
+      comments,
+      linkedResources,
+      relatedIssues
+    );
+  }
+
+  /**
+   * Resolve a Linear issue identifier to its internal UUID (required by mutations)
+   */
+  private async getIssueId(issueKey: string): Promise<{ id: string; teamId: string }> {
+    const data = await this.linearApiCall<{
+      issue: { id: string; team: { id: string } } | null;
+    }>(`query IssueId($id: String!) { issue(id: $id) { id team { id } } }`, {
+      id: issueKey,
+    });
+
+    if (!data?.issue) {
+      throw new Error(`Linear issue ${issueKey} not found`);
+    }
+
+    return { id: data.issue.id, teamId: data.issue.team.id };
+  }
+
+  /**
+   * Post a Markdown comment to a Linear issue
+   */
+  async postComment(issueKey: string, comment: string): Promise<void> {
+    try {
+      console.log(`💬 Posting comment to issue ${issueKey}...`);
+
+      const { id } = await this.getIssueId(issueKey);
+      const data = await this.linearApiCall<{
+        commentCreate: { success: boolean };
+      }>(
+        `mutation CommentCreate($input: CommentCreateInput!) {
+          commentCreate(input: $input) { success }
+        }`,
+        { input: { issueId: id, body: comment } }
+      );
+
+      if (!data?.commentCreate?.success) {
+        throw new Error("commentCreate returned success: false");
+      }
+      console.log(`✅ Successfully posted comment to ${issueKey}`);
+    } catch (error) {
+      console.warn(`Failed to post comment to ${issueKey}: ${error}`);
+      throw error;
+    }
+  }
+
+  async postImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createImplementationCommentMarkdown(claudeOutput, taskSummary)
+    );
+  }
+
+  async postClarityComment(issueKey: string, assessment: any): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createClarityAssessmentMarkdown(assessment)
+    );
+  }
+
+  async postAssessmentFailureComment(
+    issueKey: string,
+    failureType: "max-turns" | "parse-error"
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createAssessmentFailureMarkdown(failureType)
+    );
+  }
+
+  async postBudgetExceededComment(issueKey: string, reason: string): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createBudgetExceededMarkdown(reason)
+    );
+  }
+
+  /**
+   * Move an issue to the team's workflow state with the given name
+   */
+  async transitionIssue(issueKey: string, statusName: string): Promise<void> {
+    try {
+      console.log(`🔄 Transitioning ${issueKey} to "${statusName}"...`);
+
+      const { id, teamId } = await this.getIssueId(issueKey);
+      const data = await this.linearApiCall<{
+        team: { states: { nodes: LinearWorkflowState[] } };
+      }>(
+        `query TeamStates($teamId: String!) {
+          team(id: $teamId) { states { nodes { id name type } } }
+        }`,
+        { teamId }
+      );
+
+      const states = data?.team?.states?.nodes || [];
+      const targetState = states.find(
+        (state) => state.name.toLowerCase() === statusName.toLowerCase()
+      );
+
+      if (!targetState) {
+        const availableStatuses = states.map((s) => s.name).join(", ");
+        throw new Error(
+          `Status "${statusName}" not available for ${issueKey}. Available: ${availableStatuses}`
+        );
+      }
+
+      await this.updateIssue(id, { stateId: targetState.id });
+      console.log(
+        `✅ Successfully transitioned ${issueKey} to "${statusName}"`
+      );
+    } catch (error) {
+      console.warn(
+        `Failed to transition ${issueKey} to "${statusName}": ${error}`
+      );
+      throw error;
+    }
+  }
+
+  private async updateIssue(
+    issueId: string,
+    input: Record<string, any>
+  ): Promise<void> {
+    const data = await this.linearApiCall<{ issueUpdate: { success: boolean } }>(
+      `mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { success }
+      }`,
+      { id: issueId, input }
+    );
+
+    if (!data?.issueUpdate?.success) {
+      throw new Error("issueUpdate returned success: false");
+    }
+  }
+
+  /**
+   * Post an incomplete implementation comment
+   * Also saves the task description to disk for future duplicate detection
+   */
+  async postIncompleteImplementationComment(
+    issueKey: string,
+    claudeOutput: string,
+    taskSummary?: string,
+    taskDescription?: string
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createIncompleteImplementationCommentMarkdown(
+        claudeOutput,
+        taskSummary
+      )
+    );
+
+    if (taskDescription) {
+      try {
+        const descriptionFile = this.getIncompleteDescriptionPath(issueKey);
+        mkdirSync(path.dirname(descriptionFile), { recursive: true });
+        writeFileSync(descriptionFile, taskDescription, "utf8");
+      } catch (saveError) {
+        console.warn(
+          `⚠️  Failed to save task description for duplicate detection: ${saveError}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Check if an incomplete implementation comment already exists for the current task description
+   */
+  async hasIncompleteImplementationComment(
+    issueKey: string,
+    currentDescription: string
+  ): Promise<boolean> {
+    try {
+      const descriptionFile = this.getIncompleteDescriptionPath(issueKey);
+      if (!existsSync(descriptionFile)) {
+        return false;
+      }
+
+      if (readFileSync(descriptionFile, "utf8") !== currentDescription) {
+        return false;
+      }
+
+      const comments = await this.fetchComments(issueKey);
+      return comments.some((comment) =>
+        (comment.body || "").includes("Implementation Incomplete")
+      );
+    } catch (error) {
+      console.warn(`Failed to check for duplicate comments: ${error}`);
+      return false;
+    }
+  }
+
+  private getIncompleteDescriptionPath(issueKey: string): string {
+    const baseOutputDir =
+      process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+    return path.join(
+      baseOutputDir,
+      Utils.taskKeyToSlug(issueKey),
+      "incomplete-task-description.txt"
+    );
+  }
+
+  /**
+   * Find the existing Claude Intern estimation comment for an issue, if any
+   */
+  async findEstimationComment(
+    issueKey: string
+  ): Promise<{ commentId: string; created: string } | null> {
+    try {
+      const comments = await this.fetchComments(issueKey);
+      const existing = comments.find((comment) =>
+        (comment.body || "").includes("Automated Story Points Estimation")
+      );
+      return existing
+        ? { commentId: existing.id, created: existing.createdAt }
+        : null;
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to check for estimation comment on ${issueKey}: ${error}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Linear has a single built-in estimate field, so there is nothing to discover
+   */
+  async discoverStoryPointsField(_issueKey?: string): Promise<string | null> {
+    return "estimate";
+  }
+
+  /**
+   * Update the issue estimate (the field ID is ignored; Linear only has one)
+   */
+  async updateStoryPoints(
+    issueKey: string,
+    _fieldId: string,
+    points: number
+  ): Promise<void> {
+    console.log(`📊 Setting estimate for ${issueKey} to ${points}...`);
+
+    const { id } = await this.getIssueId(issueKey);
+    await this.updateIssue(id, { estimate: points });
+    console.log(`✅ Successfully set estimate for ${issueKey} to ${points}`);
+  }
+
+  async postEstimationComment(
+    issueKey: string,
+    result: {
+      storyPoints: number;
+      confidence: "high" | "medium" | "low";
+      implementationConfidence?: number;
+      reasoning: string;
+      risks: string[];
+      unclearAreas: string[];
+      summary: string;
+      spread?: EstimationSpread;
+    }
+  ): Promise<void> {
+    await this.postComment(
+      issueKey,
+      MarkdownFormatter.createEstimationCommentMarkdown(result)
+    );
+  }
+
+  async updateEstimationComment(
+    issueKey: string,
+    commentId: string,
+    result: {
+      storyPoints: number;
+      confidence: "high" | "medium" | "low";
+      implementationConfidence?: number;
+      reasoning: string;
+      risks: string[];
+      unclearAreas: string[];
+      summary: string;
+      spread?: EstimationSpread;
+    }
+  ): Promise<void> {
+    try {
+      console.log(
+        `💬 Updating estimation comment ${commentId} on ${issueKey}...`
+      );
+
+      const data = await this.linearApiCall<{
+        commentUpdate: { success: boolean };
+      }>(
+        `mutation CommentUpdate($id: String!, $input: CommentUpdateInput!) {
+          commentUpdate(id: $id, input: $input) { success }
+        }`,
+        {
+          id: commentId,
+          input: { body: MarkdownFormatter.createEstimationCommentMarkdown(result) },
+        }
+      );
+
+      if (!data?.commentUpdate?.success) {
+        throw new Error("commentUpdate returned success: false");
+      }
+      console.log(
+        `✅ Successfully updated estimation comment on ${issueKey}`
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to update estimation comment on ${issueKey}: ${error}`
+      );
+      throw error;
+    }
+  }
+}
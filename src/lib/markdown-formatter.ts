@@ -0,0 +1,206 @@
+/**
+ * Markdown comment formatting utilities
+ * Used by trackers with Markdown comments (Linear, GitHub Issues); mirrors JiraFormatter's ADF builders
+ */
+
+import { JiraFormatter } from './jira-formatter';
+import { formatSpreadSamples } from './estimation-consensus';
+import type { EstimationSpread } from './issue-tracker';
+
+export class MarkdownFormatter {
+  /**
+   * Create Markdown for implementation completed comment
+   */
+  static createImplementationCommentMarkdown(claudeOutput: string, taskSummary?: string): string {
+    const lines = ['### 🤖 Implementation Completed by Claude', ''];
+
+    if (taskSummary) {
+      lines.push(`**Task:** ${taskSummary}`, '');
+    }
+
+    lines.push('**Implementation Summary:**', '');
+    lines.push(JiraFormatter.formatClaudeOutputForJira(claudeOutput), '');
+    lines.push('> _This implementation was generated automatically using Claude AI. Please review the changes before merging._');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Create Markdown for clarity assessment comment
+   */
+  static createClarityAssessmentMarkdown(assessment: any): string {
+    const lines = [
+      '### 🤖 Automated Task Feasibility Assessment',
+      '',
+      `**Clarity Score:** ${assessment.clarityScore}/10`,
+      '',
+      `**Status:** ${assessment.isImplementable ? '✅ Ready for implementation' : '❌ Needs fundamental clarification'}`,
+      '',
+      `**Summary:** ${assessment.summary}`,
+      '',
+    ];
+
+    if (assessment.issues && assessment.issues.length > 0) {
+      lines.push('**Critical Issues Identified:**', '');
+      assessment.issues.forEach((issue: any) => {
+        const severityEmoji = issue.severity === 'critical' ? '🔴' : issue.severity === 'major' ? '🟡' : '🔵';
+        lines.push(`- ${severityEmoji} **${issue.category}**: ${issue.description}`);
+      });
+      lines.push('');
+    }
+
+    if (assessment.recommendations && assessment.recommendations.length > 0) {
+      lines.push('**Recommendations:**', '');
+      assessment.recommendations.forEach((rec: string, index: number) => {
+        lines.push(`${index + 1}. ${rec}`);
+      });
+      lines.push('');
+    }
+
+    if (assessment.isImplementable && assessment.clarityScore >= 7) {
+      lines.push('> **🎯 Excellent! This task description provides clear requirements and context for implementation.**', '');
+    } else if (assessment.isImplementable) {
+      lines.push('> _💡 This task is implementable, but could benefit from additional details for even clearer requirements._', '');
+    }
+
+    lines.push('> _This assessment focuses on basic implementability. Technical details, UI/UX patterns, and implementation specifics are expected to be inferred from existing codebase._');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Create Markdown for incomplete implementation comment
+   */
+  static createIncompleteImplementationCommentMarkdown(claudeOutput: string, taskSummary?: string): string {
+    const lines = ['### ⚠️ Implementation Incomplete', ''];
+
+    if (taskSummary) {
+      lines.push(`**Task:** ${taskSummary}`, '');
+    }
+
+    lines.push(
+      'Claude was unable to complete the implementation. This may indicate:',
+      '',
+      '- The task requirements need more clarity or detail',
+      '- Missing context or related information',
+      '- The task scope is too large and should be broken down',
+      '- Technical blockers or errors during execution',
+      '',
+      '**Implementation Attempt Details:**',
+      '',
+      JiraFormatter.formatClaudeOutputForJira(claudeOutput),
+      '',
+      '> **Action Required:** Please review the output above, update the task description with more details if needed, and retry the implementation.'
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Create Markdown for a failed feasibility assessment comment
+   */
+  static createAssessmentFailureMarkdown(failureType: 'max-turns' | 'parse-error'): string {
+    const lines = [
+      '### 🤖 Claude Intern - Feasibility Assessment Failed',
+      '',
+      failureType === 'max-turns'
+        ? '⚠️ Assessment reached maximum conversation turns before completion'
+        : '⚠️ Could not parse feasibility assessment response',
+      '',
+    ];
+
+    if (failureType === 'max-turns') {
+      lines.push(
+        '**📋 What this means:**',
+        '',
+        '- **🧩 Task complexity:** The task may involve multiple complex components or interdependencies that require extensive analysis',
+        '- **📝 Insufficient details:** The task description may lack specific requirements, acceptance criteria, or technical specifications',
+        '- **🔍 Context discovery:** Extensive codebase exploration was needed to understand existing patterns and architecture',
+        '',
+        '**🚀 Next steps:**',
+        '',
+        '- Implementation will proceed with available information',
+        '- Additional clarification may be requested during development',
+        '- Consider adding more specific acceptance criteria for future similar tasks'
+      );
+    } else {
+      lines.push(
+        'The AI assessment tool encountered an unexpected response format. Implementation will proceed but may require manual review of results.'
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Create Markdown for a comment explaining that a budget stopped work on the task
+   */
+  static createBudgetExceededMarkdown(reason: string): string {
+    return [
+      '### 💸 Claude Intern - Budget Exhausted',
+      '',
+      reason,
+      '',
+      'No further agent runs will start for this task. Raise `maxCostPerTask` or `monthlyBudget` in `.claude-intern/settings.json` to continue.',
+    ].join('\n');
+  }
+
+  /**
+   * Create Markdown for story points estimation comment
+   */
+  static createEstimationCommentMarkdown(result: {
+    storyPoints: number;
+    confidence: 'high' | 'medium' | 'low';
+    implementationConfidence?: number;
+    reasoning: string;
+    risks: string[];
+    unclearAreas: string[];
+    summary: string;
+    spread?: EstimationSpread;
+  }): string {
+    const confidenceEmoji =
+      result.confidence === 'high' ? '🟢' : result.confidence === 'medium' ? '🟡' : '🔴';
+
+    const lines = [
+      '### 🤖 Automated Story Points Estimation',
+      '',
+      `**Story Points:** ${result.storyPoints}  |  **Confidence:** ${confidenceEmoji} ${result.confidence}`,
+      '',
+    ];
+
+    if (typeof result.implementationConfidence === 'number') {
+      const score = result.implementationConfidence;
+      const label =
+        score >= 9 ? 'Almost certain'
+        : score >= 7 ? 'High chance'
+        : score >= 5 ? 'May need guidance'
+        : score >= 3 ? 'Significant ambiguity'
+        : 'Needs human judgment';
+      lines.push(`**AI Implementation Confidence:** ${'🟩'.repeat(score)}${'⬜'.repeat(10 - score)} ${score}/10 — ${label}`, '');
+    }
+
+    if (result.spread && result.spread.samples.length > 1) {
+      lines.push('#### Planning Poker', '', `${result.spread.samples.length} estimates — ${formatSpreadSamples(result.spread)}`, '');
+    }
+
+    lines.push('#### Reasoning', '', result.reasoning, '');
+
+    if (result.risks.length > 0) {
+      lines.push('#### Risks', '', ...result.risks.map((risk) => `- ${risk}`), '');
+    }
+
+    if (result.unclearAreas.length > 0) {
+      lines.push('#### Unclear Areas', '', ...result.unclearAreas.map((area) => `- ${area}`), '');
+    }
+
+    if (result.spread?.wide) {
+      lines.push(`> **🃏 Wide spread: ${result.spread.min} to ${result.spread.max} points —** The estimates disagree. Worth discussing in grooming before committing to a number.`, '');
+    }
+
+    if (result.confidence === 'low') {
+      lines.push('> **⚠️ Low confidence estimate —** Please provide more details on the task scope and requirements for a more accurate estimate.');
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+}
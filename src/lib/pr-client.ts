@@ -1,5 +1,6 @@
 import type { AtlassianDocument, JiraIssue } from "../types/jira";
 import { GitHubAppAuth } from "./github-app-auth";
+import { parseGitHubIssueKey } from "./github-issues-client";
 import { Utils } from "./utils";
 
 export interface PRInfo {
@@ -8,6 +9,22 @@ export interface PRInfo {
   sourceBranch: string;
   targetBranch: string;
   repository: string;
+  labels?: string[];
+  draft?: boolean;
+}
+
+export interface PROptions {
+  labels?: string[];
+  draft?: boolean;
+}
+
+export interface RepositoryInfo {
+  platform: "github" | "bitbucket" | "gitlab" | "unknown";
+  /** "owner/repo" for GitHub, repo slug for Bitbucket, full project path for GitLab */
+  repository: string;
+  workspace?: string;
+  /** Host of the remote, used to reach self-hosted GitLab */
+  host?: string;
 }
 
 export interface PRResult {
@@ -62,13 +79,20 @@ export abstract class PRClient {
     issue: JiraIssue,
     implementationSummary?: string
   ): string {
+    const githubIssue = parseGitHubIssueKey(issue.key);
     const lines = [
-      `## JIRA Task: ${issue.key}`,
+      githubIssue ? `## GitHub Issue: ${issue.key}` : `## JIRA Task: ${issue.key}`,
       "",
       `**Summary:** ${issue.fields.summary}`,
       "",
     ];
 
+    if (githubIssue) {
+      // Lets GitHub close the issue when the PR is merged
+      lines.push(`Closes ${issue.key}`);
+      lines.push("");
+    }
+
     if (implementationSummary) {
       lines.push("## Implementation Details");
       lines.push("");
@@ -106,7 +130,7 @@ export class GitHubPRClient extends PRClient {
           body: prInfo.body,
           head: prInfo.sourceBranch,
           base: prInfo.targetBranch,
-          draft: false,
+          draft: prInfo.draft ?? false,
         }),
       });
 
@@ -204,6 +228,73 @@ export class BitbucketPRClient extends PRClient {
   }
 }
 
+export class GitLabPRClient extends PRClient {
+  constructor(token: string, baseUrl = "https://gitlab.com/api/v4") {
+    super(token, baseUrl.replace(/\/+$/, ""));
+  }
+
+  /**
+   * Build the API base URL for a GitLab instance (gitlab.com or self-hosted)
+   */
+  static apiUrlForHost(hostOrUrl: string): string {
+    const base = /^https?:\/\//.test(hostOrUrl) ? hostOrUrl : `https://${hostOrUrl}`;
+    return `${base.replace(/\/+$/, "")}/api/v4`;
+  }
+
+  async createPullRequest(prInfo: PRInfo): Promise<PRResult> {
+    try {
+      // Project path may include nested groups (group/subgroup/repo)
+      const projectId = encodeURIComponent(prInfo.repository);
+      const url = `${this.baseUrl}/projects/${projectId}/merge_requests`;
+
+      const response = await Utils.fetchWithRetry(url, {
+        method: "POST",
+        headers: {
+          "PRIVATE-TOKEN": this.token,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          // GitLab marks merge requests as draft via the title prefix
+          title: prInfo.draft ? `Draft: ${prInfo.title}` : prInfo.title,
+          description: prInfo.body,
+          source_branch: prInfo.sourceBranch,
+          target_branch: prInfo.targetBranch,
+          labels: prInfo.labels?.length ? prInfo.labels.join(",") : undefined,
+          remove_source_branch: false,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = (await response
+          .json()
+          .catch(() => ({ message: "Unknown error" }))) as any;
+        const message = Array.isArray(errorData.message)
+          ? errorData.message.join(", ")
+          : errorData.message || errorData.error;
+        return {
+          success: false,
+          message: `GitLab MR creation failed: ${
+            message || response.statusText
+          }`,
+        };
+      }
+
+      const data = (await response.json()) as any;
+      return {
+        success: true,
+        url: data.web_url,
+        message: `Merge request created successfully: ${data.web_url}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `GitLab MR creation failed: ${(error as Error).message}`,
+      };
+    }
+  }
+}
+
 export class PRManager {
   private githubClient?: GitHubPRClient;
   private githubAppAuth?: GitHubAppAuth;
@@ -250,11 +341,7 @@ export class PRManager {
     return extractText(doc.content);
   }
 
-  async detectRepository(): Promise<{
-    platform: "github" | "bitbucket" | "unknown";
-    repository: string;
-    workspace?: string;
-  }> {
+  async detectRepository(): Promise<RepositoryInfo> {
     try {
       // Get remote URL
       const { spawn } = await import("child_process");
@@ -269,6 +356,11 @@ export class PRManager {
         git.on("close", () => {
           const remoteUrl = output.trim();
 
+          const gitlabInfo = PRManager.parseGitLabRemote(remoteUrl);
+          if (gitlabInfo) {
+            return resolve(gitlabInfo);
+          }
+
           if (remoteUrl.includes("github.com")) {
             // Extract owner/repo from GitHub URL
             const match = remoteUrl.match(/github\.com[:/]([^/]+)\/([^/.]+)/);
@@ -300,18 +392,50 @@ export class PRManager {
     }
   }
 
+  /**
+   * Parse a GitLab remote (gitlab.com, GITLAB_BASE_URL host, or any host containing "gitlab")
+   * Supports nested group paths, SSH, ssh:// with ports, and HTTPS remotes
+   */
+  static parseGitLabRemote(remoteUrl: string): RepositoryInfo | null {
+    const match =
+      remoteUrl.match(/^[\w.-]+@([^:/]+):(?!\d+\/)(.+?)(?:\.git)?\/?$/) ||
+      remoteUrl.match(/^(?:ssh|https?):\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/(.+?)(?:\.git)?\/?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, host, projectPath] = match;
+    let configuredHost: string | undefined;
+    try {
+      configuredHost = process.env.GITLAB_BASE_URL
+        ? new URL(process.env.GITLAB_BASE_URL).hostname
+        : undefined;
+    } catch {
+      configuredHost = undefined;
+    }
+
+    const isGitLab =
+      host === "gitlab.com" || host === configuredHost || host.includes("gitlab");
+    if (!isGitLab || !projectPath.includes("/")) {
+      return null;
+    }
+
+    return { platform: "gitlab", repository: projectPath, host };
+  }
+
   async createPullRequest(
     issue: JiraIssue,
     sourceBranch: string,
     targetBranch = "main",
-    implementationSummary?: string
+    implementationSummary?: string,
+    options: PROptions = {}
   ): Promise<PRResult> {
     const repoInfo = await this.detectRepository();
 
     if (repoInfo.platform === "unknown") {
       return {
         success: false,
-        message: "Could not detect repository platform (GitHub or Bitbucket)",
+        message: "Could not detect repository platform (GitHub, GitLab or Bitbucket)",
       };
     }
 
@@ -321,6 +445,8 @@ export class PRManager {
       sourceBranch,
       targetBranch,
       repository: repoInfo.repository,
+      labels: options.labels,
+      draft: options.draft,
     };
 
     if (repoInfo.platform === "github") {
@@ -351,6 +477,26 @@ export class PRManager {
       };
     }
 
+    if (repoInfo.platform === "gitlab") {
+      const gitlabToken = process.env.GITLAB_TOKEN;
+
+      if (!gitlabToken) {
+        return {
+          success: false,
+          message:
+            "GitLab client not configured. Please set GITLAB_TOKEN environment variable.",
+        };
+      }
+
+      const gitlabClient = new GitLabPRClient(
+        gitlabToken,
+        GitLabPRClient.apiUrlForHost(
+          process.env.GITLAB_BASE_URL || repoInfo.host || "gitlab.com"
+        )
+      );
+      return await gitlabClient.createPullRequest(prInfo);
+    }
+
     if (repoInfo.platform === "bitbucket") {
       // Create Bitbucket client dynamically with detected workspace
       const bitbucketToken = process.env.BITBUCKET_TOKEN;
@@ -392,13 +538,20 @@ export class PRManager {
     issue: JiraIssue,
     implementationSummary?: string
   ): string {
+    const githubIssue = parseGitHubIssueKey(issue.key);
     const lines = [
-      `## JIRA Task: ${issue.key}`,
+      githubIssue ? `## GitHub Issue: ${issue.key}` : `## JIRA Task: ${issue.key}`,
       "",
       `**Summary:** ${issue.fields.summary}`,
       "",
     ];
 
+    if (githubIssue) {
+      // Lets GitHub close the issue when the PR is merged
+      lines.push(`Closes ${issue.key}`);
+      lines.push("");
+    }
+
     if (implementationSummary) {
       lines.push("## Implementation Details");
       lines.push("");
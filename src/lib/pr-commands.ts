@@ -0,0 +1,382 @@
+/**
+ * PR Conversation Commands
+ *
+ * Route "@bot <command>" comments in a pull request's conversation to the
+ * matching action, after checking the commenter's permission on the repository.
+ */
+
+import type { AutoReviewLoopResult } from "../types/auto-review";
+import type { IssueCommentEvent } from "../types/github-webhooks";
+import { addressReview } from "./address-review";
+import { runAgentPrompt } from "./agent-runner";
+import { runAutoReviewLoop } from "./auto-review-loop";
+import { runWithHookFixes } from "./git-hook-fixer";
+import { GitHubReviewsClient, type PullRequestInfo } from "./github-reviews";
+import { getTaskContext, rebasePR } from "./rebase-pr";
+import { getReviewAccounting, type AgentRunAccounting } from "./usage-ledger";
+import { Utils } from "./utils";
+
+export type PRCommandName = "rebase" | "retry" | "review" | "explain" | "add-tests" | "close" | "help";
+
+export interface PRCommand {
+  /** Command word after the mention, lowercased */
+  name: string;
+  /** Rest of the line, e.g. a question for "explain" */
+  args: string;
+}
+
+export interface PRCommandOptions {
+  autoReviewMaxIterations?: number;
+  verbose?: boolean;
+}
+
+export interface PRCommandResult {
+  success: boolean;
+  message: string;
+  /** Comment to post in the PR conversation */
+  reply?: string;
+  /** The command already reported its outcome on the PR */
+  reported?: boolean;
+}
+
+// Repository permission levels, lowest first
+const PERMISSION_LEVELS = ["none", "read", "triage", "write", "maintain", "admin"];
+
+export const PR_COMMANDS: Record<PRCommandName, { usage: string; description: string; permission: string }> = {
+  rebase: { usage: "rebase", description: "Rebase onto the base branch, resolving conflicts", permission: "write" },
+  retry: { usage: "retry", description: "Address the latest changes-requested review again", permission: "write" },
+  review: { usage: "review", description: "Run the self-review loop and fix what it finds", permission: "write" },
+  explain: { usage: "explain [question]", description: "Explain the change, or answer a question about it", permission: "write" },
+  "add-tests": { usage: "add-tests [instructions]", description: "Add tests for the change", permission: "write" },
+  close: { usage: "close", description: "Close the pull request", permission: "write" },
+  help: { usage: "help", description: "List the commands", permission: "read" },
+};
+
+const COMMAND_ALIASES: Record<string, PRCommandName> = {
+  "auto-review": "review",
+  tests: "add-tests",
+};
+
+export function isPRCommandName(name: string): name is PRCommandName {
+  return Object.prototype.hasOwnProperty.call(PR_COMMANDS, name);
+}
+
+/**
+ * Find the first "@bot <command>" in a comment, matching the bot with or without its [bot] suffix.
+ */
+export function parsePRCommand(body: string, botName: string): PRCommand | null {
+  const baseName = botName.replace(/\[bot\]$/i, "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = body.match(new RegExp(`@${baseName}(?:\\[bot\\])?[ \\t]+([a-z][a-z-]*)[ \\t]*(.*)`, "i"));
+  if (!match) {
+    return null;
+  }
+
+  let name = match[1].toLowerCase();
+  let args = match[2].trim();
+  if (name === "add" && /^tests?\b/i.test(args)) {
+    name = "add-tests";
+    args = args.replace(/^tests?\b\s*/i, "");
+  }
+  return { name: COMMAND_ALIASES[name] ?? name, args };
+}
+
+/**
+ * Check a repository permission against the level a command needs.
+ */
+export function hasPermission(actual: string, required: string): boolean {
+  return PERMISSION_LEVELS.indexOf(actual) >= PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * Command list posted for "@bot help" and unknown commands.
+ */
+export function formatCommandHelp(botName: string): string {
+  const mention = `@${botName.replace(/\[bot\]$/i, "")}`;
+  return [
+    "| Command | Description |",
+    "| --- | --- |",
+    ...Object.values(PR_COMMANDS).map(
+      (command) => `| \`${mention} ${command.usage}\` | ${command.description} |`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Check out the PR branch in the review worktree with its base branch fetched.
+ */
+async function preparePRWorktree(pr: PullRequestInfo, verbose: boolean): Promise<string> {
+  console.log(`\n🌿 Preparing review worktree for branch: ${pr.head.ref}`);
+  const worktreeResult = await Utils.prepareReviewWorktree(pr.head.ref, { verbose });
+  if (!worktreeResult.success) {
+    throw new Error(`Failed to prepare worktree: ${worktreeResult.error}`);
+  }
+  const workDir = worktreeResult.path!;
+  await Utils.executeGitCommand(["fetch", "origin", pr.base.ref], { verbose, cwd: workDir });
+  return workDir;
+}
+
+async function explainChange(
+  pr: PullRequestInfo,
+  question: string,
+  accounting: AgentRunAccounting,
+  verbose: boolean
+): Promise<PRCommandResult> {
+  const workDir = await preparePRWorktree(pr, verbose);
+  const prompt = `# Explain Pull Request #${pr.number}
+
+The branch \`${pr.head.ref}\` implements "${pr.title}". Look at the change with \`git diff origin/${pr.base.ref}...HEAD\` and the surrounding code.
+
+## Original Task
+
+${getTaskContext(pr).trim()}
+
+## Your Task
+
+${question ? `A reviewer asks: ${question}\n\nAnswer the question` : "Explain the change for a reviewer: what it does, how it works and why it was done this way. Point out anything a reviewer should look at closely"}. Reference files and functions by name.
+
+Do NOT modify any files. Reply with the explanation only, in Markdown.
+`;
+
+  try {
+    console.log("\n🤖 Running Claude to explain the change...");
+    const result = await runAgentPrompt(prompt, workDir, verbose, accounting);
+    if (!result.success) {
+      return { success: false, message: result.output };
+    }
+    return { success: true, message: "Explained the change", reply: result.output.trim() };
+  } finally {
+    await Utils.cleanReviewWorktree(workDir);
+  }
+}
+
+async function addTests(
+  pr: PullRequestInfo,
+  instructions: string,
+  accounting: AgentRunAccounting,
+  verbose: boolean
+): Promise<PRCommandResult> {
+  const workDir = await preparePRWorktree(pr, verbose);
+  const prompt = `# Add Tests for Pull Request #${pr.number}
+
+The branch \`${pr.head.ref}\` implements "${pr.title}". Look at the change with \`git diff origin/${pr.base.ref}...HEAD\`.
+
+## Original Task
+
+${getTaskContext(pr).trim()}
+
+## Your Task
+
+Add tests covering the behaviour this change introduces, including edge cases and error handling.${instructions ? `\n\nThe reviewer asks: ${instructions}` : ""}
+
+- Put the tests where the project keeps its tests and follow the style of the existing ones
+- Run the new tests and make sure they pass
+- Only change application code if a test reveals a bug, and say so
+- Commit your changes with a message starting with "test:"
+`;
+
+  try {
+    console.log("\n🤖 Running Claude to add tests...");
+    const result = await runAgentPrompt(prompt, workDir, verbose, accounting);
+    if (!result.success) {
+      return { success: false, message: result.output };
+    }
+
+    if (await Utils.hasUncommittedChanges(workDir)) {
+      const commit = await runWithHookFixes(
+        "commit",
+        () => Utils.commitChanges(`PR-${pr.number}`, "Add tests", { verbose, cwd: workDir }),
+        workDir,
+        accounting
+      );
+      if (!commit.success) {
+        return { success: false, message: commit.message };
+      }
+    }
+
+    const unpushed = await Utils.executeGitCommand(["log", `origin/${pr.head.ref}..HEAD`, "--oneline"], {
+      verbose,
+      cwd: workDir,
+    });
+    if (!unpushed.success || unpushed.output.trim() === "") {
+      return { success: false, message: "No tests were added" };
+    }
+
+    const push = await runWithHookFixes(
+      "push",
+      () => Utils.pushCurrentBranch({ verbose, cwd: workDir }),
+      workDir,
+      accounting
+    );
+    if (!push.success) {
+      return { success: false, message: push.message };
+    }
+    return { success: true, message: "Pushed new tests", reply: `Pushed new tests:\n\n\`\`\`\n${unpushed.output.trim()}\n\`\`\`` };
+  } finally {
+    await Utils.cleanReviewWorktree(workDir);
+  }
+}
+
+/**
+ * Reply for the "review" command: how many findings were fixed on the branch,
+ * whether an iteration was rolled back, and what is left.
+ */
+export function formatSelfReviewReply(result: AutoReviewLoopResult): string {
+  const kept = result.history.filter((entry) => entry.iteration !== result.rolledBackIteration);
+  const fixed = kept.reduce((sum, entry) => sum + entry.addressed.length, 0);
+  const remaining = result.finalFeedback.items.length;
+
+  const lines = [
+    `Self-review ${result.success ? "finished" : "stopped"} after ${result.iterations} iteration(s).`,
+    fixed > 0 ? `Fixes for ${fixed} finding(s) were pushed to this branch.` : "No fixes were pushed.",
+  ];
+  if (result.rolledBackIteration !== undefined) {
+    lines.push(`The fixes of iteration ${result.rolledBackIteration} made things worse and were rolled back.`);
+  }
+  if (result.stopDetails) {
+    lines.push(`Stopped early (${result.stopReason}): ${result.stopDetails}.`);
+  }
+  if (remaining > 0) {
+    lines.push(`${remaining} finding(s) left.`);
+  }
+  return lines.join(" ");
+}
+
+/**
+ * Run a command on a pull request.
+ */
+export async function runPRCommand(
+  owner: string,
+  repo: string,
+  pr: PullRequestInfo,
+  command: PRCommandName,
+  args: string,
+  options: PRCommandOptions & { botName: string; client: GitHubReviewsClient }
+): Promise<PRCommandResult> {
+  const { verbose = false, client } = options;
+  const accounting = getReviewAccounting("pr-command", `${owner}/${repo}`, pr.number, pr.title, pr.head.ref);
+
+  switch (command) {
+    case "help":
+      return { success: true, message: "Listed commands", reply: formatCommandHelp(options.botName) };
+
+    case "close":
+      await client.closePullRequest(owner, repo, pr.number);
+      return { success: true, message: `Closed PR #${pr.number}` };
+
+    case "rebase": {
+      const result = await rebasePR(pr.html_url, { verbose });
+      return { success: result.success, message: result.message, reported: result.commented };
+    }
+
+    case "retry":
+      return addressReview(pr.html_url, { verbose });
+
+    case "review": {
+      const workDir = await preparePRWorktree(pr, verbose);
+      try {
+        const result = await runAutoReviewLoop({
+          repository: `${owner}/${repo}`,
+          prNumber: pr.number,
+          prBranch: pr.head.ref,
+          baseBranch: pr.base.ref,
+          claudePath: process.env.CLAUDE_CLI_PATH || "claude",
+          taskKey: accounting.notify === false ? undefined : accounting.taskKey,
+          maxIterations: options.autoReviewMaxIterations,
+          minPriority: "medium",
+          workingDir: workDir,
+          outputDir: `/tmp/claude-intern-auto-review-${pr.number}`,
+        });
+        return {
+          success: result.success,
+          message: `Self-review finished after ${result.iterations} iteration(s)`,
+          reply: formatSelfReviewReply(result),
+        };
+      } finally {
+        await Utils.cleanReviewWorktree(workDir);
+      }
+    }
+
+    case "explain":
+      return explainChange(pr, args, accounting, verbose);
+
+    case "add-tests":
+      return addTests(pr, args, accounting, verbose);
+  }
+}
+
+/**
+ * Handle a PR conversation comment: run the command it gives the bot, if the commenter may.
+ * Reacts with 👀 when a command starts, 🎉 when it succeeds and 😕 when it fails or is refused.
+ */
+export async function handlePRCommandComment(
+  event: IssueCommentEvent,
+  options: PRCommandOptions & { client?: GitHubReviewsClient } = {}
+): Promise<PRCommandResult> {
+  const client = options.client ?? new GitHubReviewsClient();
+  const [owner, repo] = event.repository.full_name.split("/");
+  const prNumber = event.issue.number;
+  const commenter = event.comment.user.login;
+
+  const botName = await client.getBotUsername(owner, repo);
+  const command = botName ? parsePRCommand(event.comment.body, botName) : null;
+  if (!botName || !command) {
+    return { success: true, message: "Comment has no command for the bot" };
+  }
+
+  const react = async (reaction: string) => {
+    try {
+      await client.addReactionToIssueComment(owner, repo, event.comment.id, reaction);
+    } catch (error) {
+      console.warn(`⚠️  Failed to add ${reaction} reaction: ${(error as Error).message}`);
+    }
+  };
+  const reply = async (body: string) => {
+    try {
+      await client.postPullRequestComment(owner, repo, prNumber, `@${commenter} ${body}`);
+    } catch (error) {
+      console.warn(`⚠️  Failed to post PR comment: ${(error as Error).message}`);
+    }
+  };
+
+  if (!isPRCommandName(command.name)) {
+    await react("confused");
+    await reply(`I don't know the command \`${command.name}\`. These are the ones I know:\n\n${formatCommandHelp(botName)}`);
+    return { success: false, message: `Unknown command "${command.name}"` };
+  }
+
+  const required = PR_COMMANDS[command.name].permission;
+  let permission = "none";
+  try {
+    permission = await client.getRepositoryPermission(owner, repo, commenter);
+  } catch (error) {
+    console.warn(`⚠️  Failed to get the permission of @${commenter}: ${(error as Error).message}`);
+  }
+  if (!hasPermission(permission, required)) {
+    await react("confused");
+    await reply(`\`${command.name}\` needs ${required} access to this repository.`);
+    return { success: false, message: `@${commenter} (${permission}) may not run "${command.name}"` };
+  }
+
+  console.log(`\n💬 @${commenter} asked for "${command.name}" on PR #${prNumber}`);
+  await react("eyes");
+
+  let result: PRCommandResult;
+  try {
+    const pr = await client.getPullRequest(owner, repo, prNumber);
+    if (pr.state !== "open" && command.name !== "help" && command.name !== "explain") {
+      result = { success: false, message: `PR is ${pr.state}`, reply: `This pull request is ${pr.state}.` };
+    } else {
+      result = await runPRCommand(owner, repo, pr, command.name, command.args, { ...options, botName, client });
+    }
+  } catch (error) {
+    result = { success: false, message: (error as Error).message };
+  }
+
+  await react(result.success ? "hooray" : "confused");
+  if (result.reply) {
+    await reply(result.reply);
+  } else if (!result.success && !result.reported) {
+    await reply(`\`${command.name}\` failed: ${result.message}`);
+  }
+  return result;
+}
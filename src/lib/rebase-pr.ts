@@ -0,0 +1,495 @@
+/**
+ * Rebase Command
+ *
+ * Rebase an intern PR onto its moved base branch, let Claude resolve any
+ * conflicts with the original task as context, and force-push the result.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import { parsePRUrl } from "./address-review";
+import { runAgentPrompt } from "./agent-runner";
+import { pushChanges } from "./auto-review-loop";
+import { GitHubReviewsClient, type PullRequestInfo } from "./github-reviews";
+import { getReviewAccounting, type AgentRunAccounting } from "./usage-ledger";
+import { Utils } from "./utils";
+
+export interface RebasePROptions {
+  noPush?: boolean;
+  noComment?: boolean;
+  verbose?: boolean;
+}
+
+export interface RebasePRResult {
+  success: boolean;
+  message: string;
+  /** Whether the outcome was posted as a PR comment */
+  commented: boolean;
+}
+
+export interface ConflictedFile {
+  path: string;
+  /** Conflict regions with both sides, as left in the file by git */
+  hunks: string[];
+  /** Commits on the base branch that changed the file since the PR branched off */
+  baseCommits: string[];
+}
+
+export interface RebaseConflict {
+  /** Short SHA and subject of the PR commit being replayed */
+  commit: string;
+  files: ConflictedFile[];
+}
+
+export interface ConflictResolution {
+  commit: string;
+  files: string[];
+  summary: string;
+}
+
+export interface RebaseBranchResult {
+  success: boolean;
+  message: string;
+  upToDate?: boolean;
+  /** PR commits replayed onto the base */
+  commits: number;
+  resolutions: ConflictResolution[];
+}
+
+export type ConflictResolver = (
+  conflict: RebaseConflict
+) => Promise<{ success: boolean; summary: string }>;
+
+const CONFLICT_START = /^<{7}( |$)/;
+const CONFLICT_END = /^>{7}( |$)/;
+
+// Cap on the task context included in conflict prompts
+const MAX_TASK_CONTEXT_LENGTH = 20000;
+
+/**
+ * Check whether a file still contains conflict markers.
+ */
+export function hasConflictMarkers(content: string): boolean {
+  const lines = content.split("\n");
+  return lines.some((line) => CONFLICT_START.test(line)) && lines.some((line) => CONFLICT_END.test(line));
+}
+
+/**
+ * Conflict regions of a file, each with a few lines of surrounding context.
+ */
+export function extractConflictHunks(content: string, contextLines = 3): string[] {
+  const lines = content.split("\n");
+  const hunks: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!CONFLICT_START.test(lines[i])) {
+      continue;
+    }
+    let end = i;
+    while (end < lines.length - 1 && !CONFLICT_END.test(lines[end])) {
+      end++;
+    }
+    const from = Math.max(0, i - contextLines);
+    const to = Math.min(lines.length, end + contextLines + 1);
+    hunks.push(`@@ line ${from + 1} @@\n${lines.slice(from, to).join("\n")}`);
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Prompt asking Claude to resolve the conflicts of one replayed commit.
+ */
+export function formatConflictPrompt(
+  pr: { number: number; title: string; branch: string; baseBranch: string },
+  conflict: RebaseConflict,
+  taskContext: string
+): string {
+  const files = conflict.files.map((file) => {
+    const lines = [`### ${file.path}`, ""];
+    if (file.baseCommits.length > 0) {
+      lines.push(`Changed on \`${pr.baseBranch}\` by:`, ...file.baseCommits.map((commit) => `- ${commit}`), "");
+    }
+    if (file.hunks.length > 0) {
+      // HEAD is the base branch side, the other marker is the PR commit
+      lines.push(...file.hunks.map((hunk) => "```\n" + hunk + "\n```"), "");
+    } else {
+      lines.push("The file was deleted on one side and changed on the other (no conflict markers).", "");
+    }
+    return lines.join("\n");
+  });
+
+  return `# Resolve Rebase Conflicts
+
+Pull request #${pr.number} "${pr.title}" (branch \`${pr.branch}\`) is being rebased onto the latest \`${pr.baseBranch}\`. Replaying commit \`${conflict.commit}\` conflicts with changes made on \`${pr.baseBranch}\` in the meantime.
+
+In each conflict, the \`<<<<<<< HEAD\` side is the code now on \`${pr.baseBranch}\` and the other side is this pull request's change.
+
+## Conflicted Files
+
+${files.join("\n")}
+## Original Task
+
+${taskContext.trim()}
+
+## Instructions
+
+1. Resolve every conflict in the files above. Keep the changes from \`${pr.baseBranch}\` and re-apply what this pull request intended on top of them; don't drop either side's behaviour unless it is truly superseded.
+2. Remove all conflict markers and make sure the code still compiles.
+3. Stage the resolved files with \`git add\`.
+4. Do NOT run \`git rebase --continue\`, \`git rebase --abort\`, \`git commit\` or switch branches - the rebase is continued for you.
+
+Finish your answer with a section titled \`## Resolution Summary\` explaining in a few sentences how each conflict was resolved. It is posted on the pull request for the reviewers.
+`;
+}
+
+/**
+ * The "Resolution Summary" section of Claude's answer, if it wrote one.
+ */
+export function extractResolutionSummary(output: string): string | null {
+  const match = output.match(/#+\s*Resolution Summary\s*\n([\s\S]*)$/i);
+  const summary = match?.[1].trim();
+  return summary ? summary : null;
+}
+
+/**
+ * Comment explaining a rebase (and any conflict resolutions) on the PR.
+ */
+export function formatRebaseComment(
+  baseBranch: string,
+  baseSha: string,
+  result: RebaseBranchResult
+): string {
+  if (!result.success) {
+    return [
+      "### ⚠️ Automatic Rebase Failed",
+      "",
+      `Could not rebase this branch onto \`${baseBranch}\`: ${result.message}`,
+      "",
+      "The branch was left unchanged. Please rebase it manually.",
+    ].join("\n");
+  }
+
+  const lines = [
+    `### 🔀 Rebased onto \`${baseBranch}\``,
+    "",
+    `\`${baseBranch}\` moved on, so ${result.commits} commit(s) of this branch were replayed onto \`${baseSha}\`.`,
+    "",
+  ];
+
+  if (result.resolutions.length === 0) {
+    lines.push("The rebase applied cleanly without conflicts.");
+    return lines.join("\n");
+  }
+
+  lines.push("#### Conflicts Resolved", "");
+  for (const resolution of result.resolutions) {
+    lines.push(
+      `**${resolution.commit}** — ${resolution.files.map((file) => `\`${file}\``).join(", ")}`,
+      "",
+      resolution.summary,
+      ""
+    );
+  }
+  lines.push("> _The conflicts were resolved automatically by Claude. Please review the resolution before merging._");
+
+  return lines.join("\n");
+}
+
+/**
+ * Check whether a rebase is stopped in the worktree.
+ */
+async function isRebaseInProgress(workDir: string): Promise<boolean> {
+  const result = await Utils.executeGitCommand(["rev-parse", "--git-path", "rebase-merge"], { cwd: workDir });
+  return result.success && existsSync(resolve(workDir, result.output));
+}
+
+/**
+ * Rebase the checked out branch onto a base ref, calling the resolver for every
+ * commit that conflicts. Aborts the rebase (leaving the branch unchanged) on failure.
+ */
+export async function rebaseBranch(
+  workDir: string,
+  baseRef: string,
+  resolveConflict: ConflictResolver,
+  options: { verbose?: boolean } = {}
+): Promise<RebaseBranchResult> {
+  const git = (args: string[]) => Utils.executeGitCommand(args, { verbose: options.verbose, cwd: workDir });
+  const resolutions: ConflictResolution[] = [];
+
+  const upToDate = await git(["merge-base", "--is-ancestor", baseRef, "HEAD"]);
+  if (upToDate.success) {
+    return { success: true, message: `Already up to date with ${baseRef}`, upToDate: true, commits: 0, resolutions };
+  }
+
+  const mergeBase = await git(["merge-base", baseRef, "HEAD"]);
+  if (!mergeBase.success) {
+    return { success: false, message: `No common history with ${baseRef}`, commits: 0, resolutions };
+  }
+  const count = await git(["rev-list", "--count", `${mergeBase.output}..HEAD`]);
+  const commits = parseInt(count.output, 10) || 0;
+
+  const fail = async (message: string): Promise<RebaseBranchResult> => {
+    if (await isRebaseInProgress(workDir)) {
+      await git(["rebase", "--abort"]);
+    }
+    return { success: false, message, commits, resolutions };
+  };
+
+  try {
+    let result = await git(["rebase", baseRef]);
+    let rounds = 0;
+
+    while (!result.success) {
+      if (!(await isRebaseInProgress(workDir))) {
+        return await fail(result.error || result.output || "git rebase failed");
+      }
+      if (++rounds > commits + 1) {
+        return await fail("The rebase did not finish after resolving every commit");
+      }
+
+      const unmerged = await git(["diff", "--name-only", "--diff-filter=U"]);
+      const paths = unmerged.output.split("\n").filter((path) => path.length > 0);
+
+      // Nothing left to merge: the commit became empty because its change is already on the base
+      if (paths.length === 0) {
+        result = await git(["rebase", "--skip"]);
+        continue;
+      }
+
+      const commit = await git(["show", "-s", "--format=%h %s", "REBASE_HEAD"]);
+      const files: ConflictedFile[] = [];
+      for (const path of paths) {
+        const fullPath = join(workDir, path);
+        const content = existsSync(fullPath) ? readFileSync(fullPath, "utf8") : "";
+        const baseCommits = await git(["log", "--format=%h %s", `${mergeBase.output}..${baseRef}`, "--", path]);
+        files.push({
+          path,
+          hunks: extractConflictHunks(content),
+          baseCommits: baseCommits.output.split("\n").filter((line) => line.length > 0),
+        });
+      }
+
+      const conflict: RebaseConflict = { commit: commit.output || "unknown commit", files };
+      console.log(`\n⚔️  Conflicts replaying ${conflict.commit}: ${paths.join(", ")}`);
+
+      const resolution = await resolveConflict(conflict);
+      if (!resolution.success) {
+        return await fail(`Could not resolve the conflicts of ${conflict.commit}: ${resolution.summary}`);
+      }
+
+      const unresolved = paths.filter((path) => {
+        const fullPath = join(workDir, path);
+        return existsSync(fullPath) && hasConflictMarkers(readFileSync(fullPath, "utf8"));
+      });
+      if (unresolved.length > 0) {
+        return await fail(`Conflict markers left in ${unresolved.join(", ")}`);
+      }
+
+      resolutions.push({ commit: conflict.commit, files: paths, summary: resolution.summary });
+      await git(["add", "-A"]);
+      result = await git(["-c", "core.editor=true", "rebase", "--continue"]);
+    }
+  } catch (error) {
+    return await fail((error as Error).message);
+  }
+
+  return {
+    success: true,
+    message: `Rebased ${commits} commit(s) onto ${baseRef}`,
+    commits,
+    resolutions,
+  };
+}
+
+/**
+ * Details of the task a PR implements: the saved task details if this machine
+ * ran it, otherwise the PR title and description.
+ */
+export function getTaskContext(pr: PullRequestInfo): string {
+  const taskKey = pr.title.match(/^\[([^\]]+)\]/)?.[1];
+  if (taskKey) {
+    const baseOutputDir = process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+    const taskFile = join(baseOutputDir, Utils.taskKeyToSlug(taskKey), "task-details.md");
+    if (existsSync(taskFile)) {
+      return readFileSync(taskFile, "utf8").slice(0, MAX_TASK_CONTEXT_LENGTH);
+    }
+  }
+  return `**${pr.title}**\n\n${pr.body || "(no description)"}`.slice(0, MAX_TASK_CONTEXT_LENGTH);
+}
+
+/**
+ * Run the pre-commit hook on the rebased branch (rebases skip it), letting Claude
+ * fix and amend failures up to HOOK_RETRIES times.
+ */
+async function runPreCommitHook(
+  workDir: string,
+  verbose: boolean,
+  accounting: AgentRunAccounting
+): Promise<{ success: boolean; message: string }> {
+  const hookRetries = parseInt(process.env.HOOK_RETRIES || "10", 10);
+
+  for (let attempt = 0; attempt <= hookRetries; attempt++) {
+    const hook = await Utils.executeGitCommand(["hook", "run", "--ignore-missing", "pre-commit"], {
+      verbose,
+      cwd: workDir,
+    });
+    if (hook.success) {
+      return { success: true, message: "pre-commit hook passed" };
+    }
+    if (attempt === hookRetries) {
+      break;
+    }
+
+    console.log(`\n⚠️  pre-commit hook failed after the rebase (attempt ${attempt + 1}/${hookRetries + 1})`);
+    const prompt = `# Fix Pre-commit Hook Errors
+
+The branch was just rebased and its pre-commit hook now fails:
+
+\`\`\`
+${`${hook.output}\n${hook.error ?? ""}`.trim().slice(-8000)}
+\`\`\`
+
+Fix the reported issues without changing unrelated code, then amend the last commit:
+
+\`\`\`bash
+git add -A && git commit --amend --no-edit --no-verify
+\`\`\`
+`;
+    const fix = await runAgentPrompt(prompt, workDir, verbose, { ...accounting, kind: "hook-fix" });
+    if (!fix.success) {
+      return { success: false, message: `Could not fix pre-commit hook errors: ${fix.output}` };
+    }
+  }
+
+  return { success: false, message: `pre-commit hook still fails after ${hookRetries} fix attempt(s)` };
+}
+
+/**
+ * Rebase a PR onto the latest version of its base branch and force-push it.
+ */
+export async function rebasePR(
+  prUrl: string,
+  options: RebasePROptions = {}
+): Promise<RebasePRResult> {
+  const { noPush = false, noComment = false, verbose = false } = options;
+
+  const { owner, repo, prNumber } = parsePRUrl(prUrl);
+  const githubClient = new GitHubReviewsClient();
+
+  console.log(`\n📋 Fetching PR #${prNumber} (${owner}/${repo})...`);
+  const pr = await githubClient.getPullRequest(owner, repo, prNumber);
+  const branch = pr.head.ref;
+  const baseBranch = pr.base.ref;
+  console.log(`   Title: ${pr.title}`);
+  console.log(`   Branch: ${branch} → ${baseBranch}`);
+
+  if (pr.state !== "open") {
+    throw new Error(`PR is ${pr.state}, not open. Cannot rebase.`);
+  }
+  if (!(await Utils.isGitRepository())) {
+    throw new Error("Not in a git repository. Please run this command from within the repository.");
+  }
+
+  console.log(`\n🌿 Preparing review worktree for branch: ${branch}`);
+  const worktreeResult = await Utils.prepareReviewWorktree(branch, { verbose });
+  if (!worktreeResult.success) {
+    throw new Error(`Failed to prepare worktree: ${worktreeResult.error}`);
+  }
+  const workDir = worktreeResult.path!;
+
+  // The review worktree is fetched shallow, but rebasing needs the shared history
+  await Utils.executeGitCommand(["fetch", "origin", baseBranch], { verbose, cwd: workDir });
+  const shallow = await Utils.executeGitCommand(["rev-parse", "--is-shallow-repository"], { cwd: workDir });
+  if (shallow.output === "true") {
+    await Utils.executeGitCommand(["fetch", "--unshallow", "origin"], { verbose, cwd: workDir });
+  }
+
+  const baseRef = `origin/${baseBranch}`;
+  const baseSha = (await Utils.executeGitCommand(["rev-parse", "--short", baseRef], { cwd: workDir })).output;
+  const accounting = getReviewAccounting("rebase", `${owner}/${repo}`, prNumber, pr.title, branch);
+  const taskContext = getTaskContext(pr);
+
+  let commented = false;
+  const postComment = async (body: string) => {
+    if (noComment) {
+      return;
+    }
+    try {
+      await githubClient.postPullRequestComment(owner, repo, prNumber, body);
+      commented = true;
+      console.log("💬 Posted rebase comment on the PR");
+    } catch (error) {
+      console.warn(`⚠️  Failed to post PR comment: ${(error as Error).message}`);
+    }
+  };
+
+  try {
+    console.log(`\n🔀 Rebasing ${branch} onto ${baseRef} (${baseSha})...`);
+    const result = await rebaseBranch(
+      workDir,
+      baseRef,
+      async (conflict) => {
+        console.log("🤖 Running Claude to resolve the conflicts...");
+        const prompt = formatConflictPrompt(
+          { number: prNumber, title: pr.title, branch, baseBranch },
+          conflict,
+          taskContext
+        );
+        const claudeResult = await runAgentPrompt(prompt, workDir, verbose, accounting);
+        if (!claudeResult.success) {
+          return { success: false, summary: claudeResult.output };
+        }
+        return {
+          success: true,
+          summary:
+            extractResolutionSummary(claudeResult.output) ??
+            `Resolved conflicts in ${conflict.files.map((file) => file.path).join(", ")}.`,
+        };
+      },
+      { verbose }
+    );
+
+    if (result.upToDate) {
+      console.log(`✅ ${branch} is already up to date with ${baseBranch}`);
+      return { success: true, message: result.message, commented };
+    }
+    if (!result.success) {
+      console.error(`❌ ${result.message}`);
+      await postComment(formatRebaseComment(baseBranch, baseSha, result));
+      return { success: false, message: result.message, commented };
+    }
+    console.log(`✅ ${result.message}${result.resolutions.length > 0 ? `, resolved conflicts in ${result.resolutions.length} commit(s)` : ""}`);
+
+    console.log("\n🪝 Running pre-commit hook...");
+    const hookResult = await runPreCommitHook(workDir, verbose, accounting);
+    if (!hookResult.success) {
+      console.error(`❌ ${hookResult.message}`);
+      const failed = { ...result, success: false, message: hookResult.message };
+      await postComment(formatRebaseComment(baseBranch, baseSha, failed));
+      return { success: false, message: hookResult.message, commented };
+    }
+
+    if (noPush) {
+      console.log("\n⏭️  Skipping push (--no-push flag)");
+      return { success: true, message: result.message, commented };
+    }
+
+    console.log("\n📤 Force-pushing the rebased branch (with lease)...");
+    try {
+      pushChanges(branch, workDir, true);
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`❌ ${message}`);
+      return { success: false, message, commented };
+    }
+
+    await postComment(formatRebaseComment(baseBranch, baseSha, result));
+    console.log(`\n✅ Rebased PR #${prNumber} onto ${baseBranch}`);
+    console.log(`   View PR: ${pr.html_url}`);
+    return { success: true, message: result.message, commented };
+  } finally {
+    await Utils.cleanReviewWorktree(workDir);
+  }
+}
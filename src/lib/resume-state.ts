@@ -0,0 +1,153 @@
+/**
+ * Resume State
+ *
+ * When an implementation run stops at the max turns limit or the timeout, the
+ * agent session ID, feature branch and run settings are saved next to the task
+ * details so `claude-intern resume <task-key>` can continue where it stopped.
+ */
+
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { Utils } from "./utils";
+
+export type ResumeReason = "max_turns" | "timeout";
+
+export interface ResumeState {
+  taskKey: string;
+  reason: ResumeReason;
+  /** Agent session to continue (null for agents without sessions) */
+  sessionId: string | null;
+  /** Feature branch holding the work so far */
+  branch: string | null;
+  /** Temporary commit with the uncommitted work, undone on resume */
+  wipCommit: string | null;
+  taskFile: string;
+  taskSummary?: string;
+  /** Settings of the interrupted run, reused for commit, push and PR */
+  enableGit: boolean;
+  createPr: boolean;
+  prTargetBranch: string;
+  skipJiraComments: boolean;
+  hookRetries: number;
+  autoReview: boolean;
+  autoReviewIterations: number;
+  savedAt: string;
+}
+
+/**
+ * Location of the resume state for a task, in the task's output directory.
+ */
+export function getResumeStatePath(taskKey: string): string {
+  const baseOutputDir = process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks";
+  return join(baseOutputDir, Utils.taskKeyToSlug(taskKey), "resume-state.json");
+}
+
+/**
+ * Save the resume state of an interrupted run. Returns the file path.
+ */
+export function saveResumeState(state: ResumeState): string {
+  const statePath = getResumeStatePath(state.taskKey);
+  Utils.ensureDirectoryExists(dirname(statePath));
+  writeFileSync(statePath, JSON.stringify(state, null, 2), "utf8");
+  return statePath;
+}
+
+/**
+ * Load the resume state of a task, or null when there is no interrupted run.
+ */
+export function loadResumeState(taskKey: string): ResumeState | null {
+  const statePath = getResumeStatePath(taskKey);
+  if (!existsSync(statePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(statePath, "utf8")) as ResumeState;
+  } catch (error) {
+    console.warn(`⚠️  Failed to parse resume state: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Remove the resume state once the run has been resumed.
+ */
+export function clearResumeState(taskKey: string): void {
+  rmSync(getResumeStatePath(taskKey), { force: true });
+}
+
+/**
+ * Commit uncommitted work on the feature branch so it survives until the run is resumed.
+ * Hooks are skipped since the commit is undone by `restoreWorkInProgress`.
+ * Returns the commit SHA, or null when there was nothing to save.
+ */
+export async function commitWorkInProgress(
+  taskKey: string,
+  reason: ResumeReason
+): Promise<string | null> {
+  if (!(await Utils.hasUncommittedChanges())) {
+    return null;
+  }
+
+  const addResult = await Utils.executeGitCommand(["add", "-A"]);
+  if (!addResult.success) {
+    throw new Error(`Failed to stage work in progress: ${addResult.error}`);
+  }
+
+  const commitResult = await Utils.executeGitCommand([
+    "commit",
+    "--no-verify",
+    "-m",
+    `WIP: ${taskKey} (${reason === "timeout" ? "timed out" : "max turns reached"}, resume with claude-intern resume ${taskKey})`,
+  ]);
+  if (!commitResult.success) {
+    throw new Error(`Failed to commit work in progress: ${commitResult.error}`);
+  }
+
+  const shaResult = await Utils.executeGitCommand(["rev-parse", "HEAD"]);
+  return shaResult.success ? shaResult.output : null;
+}
+
+/**
+ * Check out the feature branch of an interrupted run and turn its work-in-progress
+ * commit back into uncommitted changes.
+ */
+export async function restoreWorkInProgress(
+  state: ResumeState
+): Promise<{ success: boolean; message: string }> {
+  if (!state.branch) {
+    return { success: true, message: "No feature branch recorded, continuing in the current checkout" };
+  }
+
+  if ((await Utils.getCurrentBranch()) !== state.branch) {
+    if (await Utils.hasUncommittedChanges()) {
+      return {
+        success: false,
+        message: `There are uncommitted changes. Please commit or stash them before resuming on ${state.branch}.`,
+      };
+    }
+
+    const checkoutResult = await Utils.executeGitCommand(["checkout", state.branch]);
+    if (!checkoutResult.success) {
+      return {
+        success: false,
+        message: `Failed to check out ${state.branch}: ${checkoutResult.error}`,
+      };
+    }
+  }
+
+  if (state.wipCommit) {
+    const headResult = await Utils.executeGitCommand(["rev-parse", "HEAD"]);
+    if (headResult.success && headResult.output === state.wipCommit) {
+      const resetResult = await Utils.executeGitCommand(["reset", "--mixed", "HEAD~1"]);
+      if (!resetResult.success) {
+        return {
+          success: false,
+          message: `Failed to restore work in progress: ${resetResult.error}`,
+        };
+      }
+    }
+  }
+
+  return { success: true, message: `Resuming on branch ${state.branch}` };
+}
@@ -0,0 +1,371 @@
+/**
+ * Review Checks
+ *
+ * Runs the configured linters, type checkers and tests in the worktree before
+ * each auto-review iteration and turns their diagnostics into review findings.
+ */
+
+import { spawn } from "child_process";
+import { statSync } from "fs";
+import { isAbsolute, join, relative } from "path";
+import type {
+  ReviewCheck,
+  ReviewCheckResult,
+  ReviewFeedback,
+  ReviewFeedbackItem,
+} from "../types/auto-review";
+import type { ProjectSettings } from "../types/settings";
+import { extractLogTail } from "./ci-fixer";
+import { Utils } from "./utils";
+
+const DEFAULT_TIMEOUT_SECONDS = 600;
+const MAX_ITEMS_PER_CHECK = 20;
+const OUTPUT_TAIL_LINES = 40;
+const MAX_OUTPUT_LENGTH = 10 * 1024 * 1024;
+const KILL_GRACE_MS = 10_000;
+
+// src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+const TSC_PATTERN = /^(.+?)\((\d+),\d+\): (?:error|warning) (.+)$/;
+// src/a.py:12:5: E501 line too long / src/a.go:12: undefined: foo
+const FILE_LINE_PATTERN = /^([^\s:][^:]*):(\d+)(?::\d+)?:\s*(.+)$/;
+// ESLint stylish: "  12:5  error  'x' is defined but never used  no-unused-vars" below a file name line
+const STYLISH_PATTERN = /^\s+(\d+):\d+\s+(?:error|warning)\s+(.+)$/;
+// Coverage totals: Istanbul text-summary, coverage.py and `go tool cover -func`
+const COVERAGE_TOTAL_PATTERNS = [
+  /^Lines\s*:\s*([\d.]+)%/m,
+  /^TOTAL\s.*?([\d.]+)%\s*$/m,
+  /^total:\s+\(statements\)\s+([\d.]+)%/m,
+];
+
+export interface CoverageSummary {
+  /** Line coverage of the whole run in percent */
+  total?: number;
+  /** Files from the coverage table that exist in the working directory */
+  files: Array<{ file: string; percent: number; uncoveredLines?: string }>;
+}
+
+/**
+ * Checks to run: the given ones, or reviewChecks from settings.json.
+ */
+export function getReviewChecks(
+  checks?: ReviewCheck[],
+  settings: ProjectSettings | null = Utils.loadProjectSettings()
+): ReviewCheck[] {
+  return (checks ?? settings?.reviewChecks ?? []).filter((check) => {
+    if (!check?.name || !check.command) {
+      console.warn(`⚠️  Ignoring review check without name or command: ${JSON.stringify(check)}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Path of a diagnostic relative to the working directory, or null if it is not a file there.
+ */
+function toRepoPath(path: string, workDir: string): string | null {
+  const repoPath = isAbsolute(path) ? relative(workDir, path) : path.replace(/^\.\//, "");
+  if (repoPath.startsWith("..")) {
+    return null;
+  }
+  try {
+    return statSync(join(workDir, repoPath)).isFile() ? repoPath : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse file/line diagnostics (tsc, ESLint, compiler-style "file:line: message") from check output.
+ */
+export function parseCheckDiagnostics(output: string, check: ReviewCheck, workDir: string): ReviewFeedbackItem[] {
+  const items: ReviewFeedbackItem[] = [];
+  let stylishFile: string | null = null;
+
+  const addItem = (file: string, line: string, message: string) => {
+    items.push({
+      priority: "high",
+      category: check.category ?? "bug",
+      file,
+      line,
+      issue: `${check.name}: ${message.trim()}`,
+      suggestion: `Fix the code so that \`${check.command}\` passes.`,
+      check: check.name,
+    });
+  };
+
+  for (const rawLine of output.replace(/\x1b\[[0-9;]*m/g, "").split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+
+    const tsc = line.match(TSC_PATTERN);
+    const tscFile = tsc && toRepoPath(tsc[1], workDir);
+    if (tsc && tscFile) {
+      addItem(tscFile, tsc[2], tsc[3]);
+      continue;
+    }
+
+    const stylish = stylishFile ? line.match(STYLISH_PATTERN) : null;
+    if (stylish && stylishFile) {
+      addItem(stylishFile, stylish[1], stylish[2].replace(/\s{2,}/g, " "));
+      continue;
+    }
+
+    const fileLine = line.match(FILE_LINE_PATTERN);
+    const fileLinePath = fileLine && toRepoPath(fileLine[1], workDir);
+    if (fileLine && fileLinePath) {
+      addItem(fileLinePath, fileLine[2], fileLine[3]);
+      continue;
+    }
+
+    // A line holding only a file name starts an ESLint stylish block
+    if (line && !/^\s/.test(line)) {
+      stylishFile = toRepoPath(line, workDir);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Parse line coverage from coverage reports in check output: the "All files" row and
+ * per-file rows of Istanbul/Jest/Bun tables, or the totals of text-summary, coverage.py and Go.
+ */
+export function parseCoverageSummary(output: string, workDir: string): CoverageSummary {
+  const summary: CoverageSummary = { files: [] };
+  let linesColumn = -1;
+  let uncoveredColumn = -1;
+
+  for (const line of output.replace(/\x1b\[[0-9;]*m/g, "").split(/\r?\n/)) {
+    if (!line.includes("|")) {
+      linesColumn = -1;
+      continue;
+    }
+    const cells = line.split("|").map((cell) => cell.trim());
+
+    // Header row, e.g. "File | % Stmts | % Branch | % Funcs | % Lines | Uncovered Line #s"
+    const headerLines = cells.findIndex((cell) => /%\s*Lines/i.test(cell));
+    if (headerLines !== -1) {
+      linesColumn = headerLines;
+      uncoveredColumn = cells.findIndex((cell) => /Uncovered/i.test(cell));
+      continue;
+    }
+
+    const percent = linesColumn === -1 ? NaN : parseFloat(cells[linesColumn]);
+    if (Number.isNaN(percent)) {
+      continue;
+    }
+    if (/^All files$/i.test(cells[0])) {
+      summary.total = percent;
+      continue;
+    }
+    const file = toRepoPath(cells[0], workDir);
+    if (file) {
+      const uncoveredLines = uncoveredColumn === -1 ? undefined : cells[uncoveredColumn] || undefined;
+      summary.files.push({ file, percent, uncoveredLines });
+    }
+  }
+
+  if (summary.total === undefined) {
+    for (const pattern of COVERAGE_TOTAL_PATTERNS) {
+      const match = output.match(pattern);
+      if (match) {
+        summary.total = parseFloat(match[1]);
+        break;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Findings for coverage below the check's minCoverage: the total and each file under it.
+ */
+function getCoverageItems(check: ReviewCheck, coverage: CoverageSummary): ReviewFeedbackItem[] {
+  const minCoverage = check.minCoverage;
+  if (minCoverage === undefined || coverage.total === undefined || coverage.total >= minCoverage) {
+    return [];
+  }
+
+  const suggestion = `Add tests for the uncovered code until \`${check.command}\` reports at least ${minCoverage}% line coverage.`;
+  return [
+    {
+      priority: "high",
+      category: check.category ?? "testing",
+      issue: `${check.name}: line coverage is ${coverage.total}%, below the required ${minCoverage}%`,
+      suggestion,
+      check: check.name,
+    },
+    ...coverage.files
+      .filter(({ percent }) => percent < minCoverage)
+      .map(({ file, percent, uncoveredLines }) => ({
+        priority: "high" as const,
+        category: check.category ?? ("testing" as const),
+        file,
+        line: uncoveredLines?.match(/^\d+(?:-\d+)?/)?.[0],
+        issue: `${check.name}: ${file} has ${percent}% line coverage${uncoveredLines ? ` (uncovered: ${uncoveredLines})` : ""}`,
+        suggestion,
+        check: check.name,
+      })),
+  ];
+}
+
+/**
+ * Run a shell command without blocking the event loop. Kills the command's process
+ * group when it runs longer than the timeout.
+ */
+function runCommand(
+  command: string,
+  workDir: string,
+  timeoutSeconds: number
+): Promise<{ exitCode: number | null; output: string; timedOut: boolean; error?: string }> {
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+
+    // Own process group, so a timeout also stops what the shell started (npm, test runners)
+    const child = spawn("sh", ["-c", command], {
+      cwd: workDir,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
+    });
+
+    const kill = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        child.kill(signal);
+      }
+    };
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      console.error(`\n⏰ ${command} timed out after ${timeoutSeconds}s, killing...`);
+      kill("SIGTERM");
+      setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) {
+          kill("SIGKILL");
+        }
+      }, KILL_GRACE_MS).unref();
+    }, timeoutSeconds * 1000);
+
+    // Keep the tail of long output, where test runners print their failure summary.
+    // Trimming at twice the limit keeps the copying amortized.
+    const collect = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > 2 * MAX_OUTPUT_LENGTH) {
+        output = output.slice(-MAX_OUTPUT_LENGTH);
+      }
+    };
+    child.stdout?.on("data", collect);
+    child.stderr?.on("data", collect);
+
+    child.on("error", (error) => {
+      clearTimeout(timeout);
+      resolve({ exitCode: null, output: output.slice(-MAX_OUTPUT_LENGTH), timedOut, error: error.message });
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timeout);
+      resolve({ exitCode: code, output: output.slice(-MAX_OUTPUT_LENGTH), timedOut });
+    });
+  });
+}
+
+/**
+ * Run a check command in the working directory.
+ */
+export async function runReviewCheck(check: ReviewCheck, workDir: string): Promise<ReviewCheckResult> {
+  const timeoutSeconds = check.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+  const { exitCode, output, timedOut, error } = await runCommand(check.command, workDir, timeoutSeconds);
+
+  const coverage = parseCoverageSummary(output, workDir);
+  const coverageItems = getCoverageItems(check, coverage);
+  if (check.minCoverage !== undefined && coverage.total === undefined) {
+    console.warn(`⚠️  ${check.name}: no coverage summary found in the output, minCoverage not enforced`);
+  }
+
+  if (exitCode === 0 && !timedOut && coverageItems.length === 0) {
+    return { check, passed: true, items: [], output, coverage: coverage.total };
+  }
+
+  const failure = timedOut
+    ? `timed out after ${timeoutSeconds}s`
+    : error ?? `exited with code ${exitCode}`;
+
+  let items = exitCode === 0 && !timedOut ? [] : parseCheckDiagnostics(output, check, workDir);
+  items.push(...coverageItems);
+  if (items.length > MAX_ITEMS_PER_CHECK) {
+    console.log(`   ℹ️  ${check.name}: reporting the first ${MAX_ITEMS_PER_CHECK} of ${items.length} diagnostics`);
+    items = items.slice(0, MAX_ITEMS_PER_CHECK);
+  }
+  if (items.length === 0) {
+    items = [
+      {
+        priority: "high",
+        category: check.category ?? "bug",
+        issue: `\`${check.command}\` ${failure}`,
+        suggestion: `Fix the failures in the output:\n\`\`\`\n${extractLogTail(output, OUTPUT_TAIL_LINES)}\n\`\`\``,
+        check: check.name,
+      },
+    ];
+  }
+
+  return { check, passed: false, items, output, coverage: coverage.total };
+}
+
+/**
+ * Run all checks, logging their outcome.
+ */
+export async function runReviewChecks(checks: ReviewCheck[], workDir: string): Promise<ReviewCheckResult[]> {
+  const results: ReviewCheckResult[] = [];
+
+  for (const check of checks) {
+    console.log(`🧪 Running ${check.name}: ${check.command}`);
+    const result = await runReviewCheck(check, workDir);
+    const coverage = result.coverage !== undefined ? `, ${result.coverage}% line coverage` : "";
+    console.log(
+      result.passed
+        ? `   ✅ ${check.name} passed${coverage}`
+        : `   ❌ ${check.name} failed (${result.items.length} finding(s)${coverage})`
+    );
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Check results section for the review prompt, so reviewers don't repeat known failures.
+ */
+export function formatCheckResults(results: ReviewCheckResult[]): string {
+  if (results.length === 0) {
+    return "";
+  }
+
+  const lines = results.map(({ check, passed, items, coverage }) => {
+    const status = passed ? "passed" : `failed with ${items.length} finding(s)`;
+    return `- **${check.name}** (\`${check.command}\`): ${status}${coverage !== undefined ? `, ${coverage}% line coverage` : ""}`;
+  });
+  return `## Check Results
+These commands were run on the changes. Their failures are already reported; don't repeat them.
+${lines.join("\n")}
+
+`;
+}
+
+/**
+ * Add check failures to the review as findings; a review is only approved when all checks pass.
+ */
+export function applyCheckResults(feedback: ReviewFeedback, results: ReviewCheckResult[]): ReviewFeedback {
+  const failed = results.filter((result) => !result.passed);
+  if (failed.length === 0) {
+    return feedback;
+  }
+
+  return {
+    summary: `${feedback.summary}\nFailed checks: ${failed.map((result) => result.check.name).join(", ")}`,
+    items: [...failed.flatMap((result) => result.items), ...feedback.items],
+    approved: false,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Review Chunks
+ *
+ * Splits a PR diff that is too large for one review prompt into chunks of
+ * related files, after dropping lockfiles, generated files and vendored paths.
+ */
+
+import type { ProjectSettings } from "../types/settings";
+import { Utils } from "./utils";
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+export interface DiffChunk {
+  /** Directories the chunk covers (e.g., "src/lib, tests") */
+  label: string;
+  files: string[];
+  diff: string;
+}
+
+/** Paths never worth reviewing: lockfiles, build output, vendored and generated code */
+export const DEFAULT_REVIEW_IGNORE = [
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lock",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "composer.lock",
+  "go.sum",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "*.snap",
+  "*.generated.*",
+  "**/dist/**",
+  "**/build/**",
+  "**/vendor/**",
+  "**/third_party/**",
+  "**/node_modules/**",
+];
+
+/** Diffs up to this size are reviewed in one prompt (about 25k tokens) */
+export const DEFAULT_MAX_DIFF_CHARS = 100_000;
+
+/**
+ * Convert a glob to a regular expression. Patterns without a slash match the file name
+ * in any directory, like .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches any number of directories, including none
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a path matches any of the globs.
+ */
+export function isIgnoredPath(path: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path));
+}
+
+/**
+ * Ignore globs: the defaults plus reviewIgnore from settings.json and the given ones.
+ */
+export function getReviewIgnoreGlobs(
+  globs: string[] = [],
+  settings: ProjectSettings | null = Utils.loadProjectSettings()
+): string[] {
+  return [...DEFAULT_REVIEW_IGNORE, ...(settings?.reviewIgnore ?? []), ...globs];
+}
+
+/**
+ * Split a unified diff into per-file diffs.
+ */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+
+  for (const part of diff.split(/^(?=diff --git )/m)) {
+    const header = part.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+    if (!header) {
+      continue;
+    }
+    const deleted = /^\+\+\+ \/dev\/null$/m.test(part);
+    files.push({ path: deleted ? header[1] : header[2], diff: part.endsWith("\n") ? part : `${part}\n` });
+  }
+
+  return files;
+}
+
+/**
+ * Split one file's diff into pieces of at most maxChars at hunk boundaries,
+ * repeating the file header in each piece.
+ */
+function splitFileDiff(file: FileDiff, maxChars: number): FileDiff[] {
+  const [header, ...hunks] = file.diff.split(/^(?=@@ )/m);
+  const pieces: FileDiff[] = [];
+  let current = "";
+
+  for (const hunk of hunks) {
+    if (current && header.length + current.length + hunk.length > maxChars) {
+      pieces.push({ path: file.path, diff: header + current });
+      current = "";
+    }
+    current += hunk;
+  }
+  if (current || pieces.length === 0) {
+    pieces.push({ path: file.path, diff: header + current });
+  }
+
+  return pieces;
+}
+
+/**
+ * Group files by directory and pack the groups into chunks of at most maxChars.
+ * Directories and files larger than a chunk are split further.
+ */
+export function chunkDiff(files: FileDiff[], maxChars: number): DiffChunk[] {
+  const groups = new Map<string, FileDiff[]>();
+  for (const file of files) {
+    const directory = file.path.includes("/") ? file.path.slice(0, file.path.lastIndexOf("/")) : ".";
+    groups.set(directory, [...(groups.get(directory) ?? []), file]);
+  }
+
+  const chunks: DiffChunk[] = [];
+  let current: { directories: Set<string>; files: FileDiff[]; size: number } | null = null;
+
+  const flush = () => {
+    if (current && current.files.length > 0) {
+      chunks.push({
+        label: [...current.directories].join(", "),
+        files: [...new Set(current.files.map((file) => file.path))],
+        diff: current.files.map((file) => file.diff).join(""),
+      });
+    }
+    current = null;
+  };
+
+  // Sorted so that neighbouring directories of a module end up in the same chunk
+  for (const directory of [...groups.keys()].sort()) {
+    for (const file of groups.get(directory)!) {
+      for (const piece of file.diff.length > maxChars ? splitFileDiff(file, maxChars) : [file]) {
+        if (current && current.size + piece.diff.length > maxChars) {
+          flush();
+        }
+        current ??= { directories: new Set(), files: [], size: 0 };
+        current.directories.add(directory);
+        current.files.push(piece);
+        current.size += piece.diff.length;
+      }
+    }
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,168 @@
+/**
+ * Review Convergence
+ *
+ * Tracks findings across auto-review iterations and detects when the loop is
+ * going in circles: findings coming back after a fix, reviews swinging between
+ * two states, fixes without effect, a diff that keeps growing, or an iteration
+ * that made things worse and should be rolled back.
+ */
+
+import type {
+  AutoReviewLoopResult,
+  AutoReviewStopReason,
+  ReviewFeedbackItem,
+} from "../types/auto-review";
+import { isSameFinding } from "./review-publisher";
+
+export type ReviewHistory = AutoReviewLoopResult["history"];
+
+export interface ReviewIterationState {
+  items: ReviewFeedbackItem[];
+  /** Findings at or above the priority the loop addresses */
+  openItems: number;
+  approved: boolean;
+  failedChecks: string[];
+  diffLines: number;
+}
+
+export interface ConvergenceVerdict {
+  reason: Exclude<AutoReviewStopReason, "approved" | "no-issues" | "max-iterations">;
+  details: string;
+  /** Revert the previous iteration's fixes before stopping */
+  rollback: boolean;
+}
+
+export const DEFAULT_MAX_DIFF_GROWTH = 2;
+
+const STOP_WORDS = new Set(["the", "and", "for", "not", "this", "that", "with", "are", "should", "when", "from"]);
+
+/**
+ * Stable, readable identifier of a finding: file, category and the distinct words of the issue.
+ */
+export function fingerprintFinding(item: ReviewFeedbackItem): string {
+  const words = [...new Set(item.issue.toLowerCase().match(/[a-z0-9_]{3,}/g) ?? [])]
+    .filter((word) => !STOP_WORDS.has(word))
+    .sort()
+    .slice(0, 8);
+  return `${item.file ?? "general"}:${item.category}:${words.join("-")}`;
+}
+
+/**
+ * Give each finding the fingerprint of the same finding in the most recent earlier iteration,
+ * or a new one.
+ */
+export function assignFingerprints(items: ReviewFeedbackItem[], history: ReviewHistory): void {
+  for (const item of items) {
+    let match: ReviewFeedbackItem | undefined;
+    for (let i = history.length - 1; i >= 0 && !match; i--) {
+      match = history[i].feedback.items.find(
+        (earlier) => earlier.fingerprint === fingerprintFinding(item) || isSameFinding(earlier, item)
+      );
+    }
+    item.fingerprint = match?.fingerprint ?? fingerprintFinding(item);
+  }
+}
+
+/**
+ * Count added and removed lines in a unified diff.
+ */
+export function countDiffLines(diff: string): number {
+  return diff
+    .split("\n")
+    .filter((line) => /^[+-]/.test(line) && !line.startsWith("+++") && !line.startsWith("---")).length;
+}
+
+function fingerprints(items: ReviewFeedbackItem[]): Set<string> {
+  return new Set(items.map((item) => item.fingerprint ?? fingerprintFinding(item)));
+}
+
+function sameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every((value) => b.has(value));
+}
+
+function listIssues(items: ReviewFeedbackItem[]): string {
+  return items.map((item) => `"${item.issue}"`).join(", ");
+}
+
+/**
+ * Decide whether the loop should stop after reviewing the current iteration.
+ * Expects fingerprints to be assigned and the previous iterations to be in history.
+ * Approved reviews and reviews without open findings end the loop normally instead.
+ */
+export function detectConvergenceIssue(
+  history: ReviewHistory,
+  current: ReviewIterationState,
+  maxDiffGrowth = DEFAULT_MAX_DIFF_GROWTH
+): ConvergenceVerdict | null {
+  const previous = history[history.length - 1];
+  if (!previous || current.approved || current.openItems === 0) {
+    return null;
+  }
+
+  // Findings addressed in an earlier iteration, gone at the last review and now back
+  const previousPrints = fingerprints(previous.feedback.items);
+  const fixedPrints = new Set(history.slice(0, -1).flatMap((entry) => [...fingerprints(entry.addressed)]));
+  const reintroduced = current.items.filter(
+    (item) => !previousPrints.has(item.fingerprint!) && fixedPrints.has(item.fingerprint!)
+  );
+
+  const newlyFailing = current.failedChecks.filter((check) => !(previous.failedChecks ?? []).includes(check));
+  const seriousRegressions = reintroduced.filter((item) => item.priority === "critical" || item.priority === "high");
+
+  if (newlyFailing.length > 0) {
+    return {
+      reason: "regression",
+      details: `Iteration ${previous.iteration} fixes broke ${newlyFailing.join(", ")}, which passed before`,
+      rollback: true,
+    };
+  }
+  if (seriousRegressions.length > 0) {
+    return {
+      reason: "regression",
+      details: `Iteration ${previous.iteration} fixes reintroduced ${listIssues(seriousRegressions)}`,
+      rollback: true,
+    };
+  }
+
+  const currentPrints = fingerprints(current.items);
+  const beforePrevious = history[history.length - 2];
+  if (
+    beforePrevious &&
+    currentPrints.size > 0 &&
+    sameSet(currentPrints, fingerprints(beforePrevious.feedback.items)) &&
+    !sameSet(currentPrints, previousPrints)
+  ) {
+    return {
+      reason: "oscillation",
+      details: `Findings swing back to those of iteration ${beforePrevious.iteration}`,
+      rollback: false,
+    };
+  }
+  if (reintroduced.length > 0) {
+    return {
+      reason: "oscillation",
+      details: `Fixed findings came back: ${listIssues(reintroduced)}`,
+      rollback: false,
+    };
+  }
+
+  const addressedPrints = fingerprints(previous.addressed);
+  if (addressedPrints.size > 0 && [...addressedPrints].every((print) => currentPrints.has(print))) {
+    return {
+      reason: "no-progress",
+      details: `Iteration ${previous.iteration} fixes left all ${addressedPrints.size} addressed finding(s) in place`,
+      rollback: false,
+    };
+  }
+
+  const firstDiffLines = history[0].diffLines;
+  if (firstDiffLines && current.diffLines > firstDiffLines * maxDiffGrowth) {
+    return {
+      reason: "diff-growth",
+      details: `Diff grew from ${firstDiffLines} to ${current.diffLines} changed lines (limit: ${maxDiffGrowth}x)`,
+      rollback: false,
+    };
+  }
+
+  return null;
+}
@@ -4,10 +4,12 @@
  * Formats PR review feedback into structured prompts for Claude.
  */
 
+import type { AgentRunLog } from "../types/agent-events";
 import type {
   ProcessedReviewComment,
   ProcessedReviewFeedback,
 } from "../types/github-webhooks";
+import { getAgentOutputText } from "./agent-event-log";
 
 /**
  * Format review feedback into a Claude prompt.
@@ -217,12 +219,13 @@ export function formatReplyMessage(
 /**
  * Extract Claude's summary from its output.
  * Looks for sections like "## Summary" or Claude's final response.
+ * With a structured event log, reads the result message and falls back to the edited files.
  */
-export function extractClaudeSummary(output: string): string {
+export function extractClaudeSummary(output: string, log: AgentRunLog | null = null): string {
   const MAX_LENGTH = 500;
 
   // Remove ANSI color codes
-  const cleanOutput = output.replace(/\x1b\[[0-9;]*m/g, "");
+  const cleanOutput = (log ? getAgentOutputText(log) : output).replace(/\x1b\[[0-9;]*m/g, "");
 
   // Helper to truncate if needed
   const truncate = (text: string): string => {
@@ -248,6 +251,11 @@ export function extractClaudeSummary(output: string): string {
     return truncate(successMatch[1].trim());
   }
 
+  if (log && log.editedFiles.length > 0) {
+    const files = log.editedFiles.map((file) => `- \`${file}\``).join("\n");
+    return truncate(`**Files changed:**\n${files}`);
+  }
+
   // Fallback: return a generic message
   return "Addressed review feedback by implementing the requested changes.";
 }
@@ -0,0 +1,173 @@
+/**
+ * Reviewer Personas
+ *
+ * Specialised reviewer passes for the auto-review loop. Each persona reviews
+ * the diff with its own criteria; their findings are merged into one
+ * ReviewFeedback per iteration.
+ */
+
+import type {
+  ReviewFeedback,
+  ReviewFeedbackItem,
+  ReviewPersona,
+  ReviewPersonaName,
+  ReviewPriority,
+} from "../types/auto-review";
+import type { ProjectSettings } from "../types/settings";
+import { getWordOverlap } from "./review-publisher";
+import { Utils } from "./utils";
+
+export const REVIEW_PERSONAS: Record<ReviewPersonaName, ReviewPersona> = {
+  general: {
+    name: "general",
+    title: "General",
+    focus: ["code-quality", "bug", "performance", "security", "testing", "documentation", "style"],
+    criteria: [
+      "**Code Quality & Best Practices**: Adherence to coding standards, maintainability, readability",
+      "**Potential Bugs**: Logic errors, edge cases, error handling",
+      "**Performance**: Inefficient algorithms, unnecessary operations, resource usage",
+      "**Security**: Vulnerabilities, input validation, authentication/authorization",
+      "**Test Coverage**: Missing tests, inadequate test cases",
+      "**Documentation**: Missing/unclear comments, outdated documentation",
+    ],
+  },
+  security: {
+    name: "security",
+    title: "Security",
+    focus: ["security"],
+    criteria: [
+      "**Injection**: SQL, shell, path and template injection from untrusted input",
+      "**Authentication & Authorization**: Missing or bypassable access checks, privilege escalation",
+      "**Secrets & Data Exposure**: Hardcoded credentials, sensitive data in logs, errors or responses",
+      "**Input Validation**: Unchecked sizes, types and formats at trust boundaries",
+      "**Dependencies & Crypto**: Unsafe APIs, weak randomness or hashing, risky new dependencies",
+    ],
+  },
+  performance: {
+    name: "performance",
+    title: "Performance",
+    focus: ["performance"],
+    criteria: [
+      "**Algorithmic Complexity**: Quadratic loops, repeated work, unbounded growth",
+      "**I/O**: N+1 queries, sequential requests that could be batched, missing pagination",
+      "**Resources**: Memory retention, unclosed handles, missing timeouts",
+      "**Hot Paths**: Expensive work on every request, render or iteration",
+    ],
+  },
+  "test-coverage": {
+    name: "test-coverage",
+    title: "Test Coverage",
+    focus: ["testing"],
+    criteria: [
+      "**Untested Behaviour**: New or changed code paths without tests",
+      "**Edge Cases**: Error paths, empty inputs and boundaries the tests skip",
+      "**Test Quality**: Assertions that cannot fail, tests coupled to implementation details, flaky timing",
+    ],
+  },
+  "api-compat": {
+    name: "api-compat",
+    title: "API Compatibility",
+    focus: ["compatibility"],
+    criteria: [
+      "**Breaking Changes**: Removed or renamed exports, endpoints, options or fields",
+      "**Signatures & Defaults**: Changed parameter order, types, return values or default behaviour",
+      "**Data Formats**: Changed serialized formats, schemas or configuration without migration",
+      "**Deprecation**: Missing deprecation path or changelog entry for changed public behaviour",
+    ],
+  },
+  accessibility: {
+    name: "accessibility",
+    title: "Accessibility",
+    focus: ["accessibility"],
+    criteria: [
+      "**Semantics**: Missing labels, alt text, roles and heading structure",
+      "**Keyboard**: Elements that cannot be reached or operated without a mouse, focus handling",
+      "**Visual**: Colour contrast, information conveyed by colour only, text scaling",
+      "**Assistive Technology**: Dynamic content not announced to screen readers",
+    ],
+  },
+};
+
+const PRIORITY_ORDER: ReviewPriority[] = ["info", "low", "medium", "high", "critical"];
+
+// Findings of different reviewers on nearby lines with similar wording are merged
+const DUPLICATE_LINE_DISTANCE = 3;
+const DUPLICATE_NEARBY_OVERLAP = 0.3;
+const DUPLICATE_OVERLAP = 0.6;
+
+/**
+ * Check if a value is a known reviewer persona name.
+ */
+export function isReviewPersonaName(value: string): value is ReviewPersonaName {
+  return value in REVIEW_PERSONAS;
+}
+
+/**
+ * Resolve reviewer personas by name, or from reviewPersonas in settings.json.
+ * Unknown names are skipped; falls back to the general reviewer.
+ */
+export function getReviewPersonas(
+  names?: string[],
+  settings: ProjectSettings | null = Utils.loadProjectSettings()
+): ReviewPersona[] {
+  const personas: ReviewPersona[] = [];
+
+  for (const name of names ?? settings?.reviewPersonas ?? []) {
+    if (!isReviewPersonaName(name)) {
+      console.warn(
+        `⚠️  Unknown reviewer persona "${name}" (available: ${Object.keys(REVIEW_PERSONAS).join(", ")})`
+      );
+    } else if (!personas.some((persona) => persona.name === name)) {
+      personas.push(REVIEW_PERSONAS[name]);
+    }
+  }
+
+  return personas.length > 0 ? personas : [REVIEW_PERSONAS.general];
+}
+
+/**
+ * Whether two reviewers reported the same issue, regardless of its category.
+ */
+export function isDuplicateFinding(a: ReviewFeedbackItem, b: ReviewFeedbackItem): boolean {
+  if (a.file !== b.file) {
+    return false;
+  }
+
+  const overlap = getWordOverlap(a.issue, b.issue);
+  const lineA = parseInt(a.line ?? "", 10);
+  const lineB = parseInt(b.line ?? "", 10);
+  const nearby =
+    (Number.isNaN(lineA) && Number.isNaN(lineB)) || Math.abs(lineA - lineB) <= DUPLICATE_LINE_DISTANCE;
+
+  return overlap >= DUPLICATE_OVERLAP || (nearby && overlap >= DUPLICATE_NEARBY_OVERLAP);
+}
+
+/**
+ * Merge the reviews of several personas into one, keeping the highest
+ * priority of duplicate findings.
+ */
+export function mergeReviewFeedback(
+  reviews: Array<{ persona: ReviewPersona; feedback: ReviewFeedback }>
+): ReviewFeedback {
+  if (reviews.length === 1) {
+    return reviews[0].feedback;
+  }
+
+  const items: ReviewFeedbackItem[] = [];
+  for (const { feedback } of reviews) {
+    for (const item of feedback.items) {
+      const index = items.findIndex((existing) => isDuplicateFinding(existing, item));
+      if (index === -1) {
+        items.push(item);
+      } else if (PRIORITY_ORDER.indexOf(item.priority) > PRIORITY_ORDER.indexOf(items[index].priority)) {
+        items[index] = item;
+      }
+    }
+  }
+
+  return {
+    summary: reviews.map(({ persona, feedback }) => `${persona.title}: ${feedback.summary}`).join("\n"),
+    items,
+    approved: reviews.every(({ feedback }) => feedback.approved),
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * Auto-Review Publisher
+ *
+ * Publishes auto-review findings on the GitHub PR: inline review comments on
+ * the diff, replies when a later iteration no longer reports a finding, and a
+ * summary of what is still open when the loop ends.
+ */
+
+import type {
+  AutoReviewLoopResult,
+  ReviewCategory,
+  ReviewFeedback,
+  ReviewFeedbackItem,
+  ReviewPriority,
+} from "../types/auto-review";
+import { parsePRUrl } from "./address-review";
+import { GitHubReviewsClient } from "./github-reviews";
+
+export interface PublishedFinding {
+  item: ReviewFeedbackItem;
+  /** Iteration whose review reported it first */
+  iteration: number;
+  /** Inline comment, when the finding could be anchored to the diff */
+  commentId?: number;
+  commentUrl?: string;
+  /** Iteration whose review no longer reported it */
+  fixedIn?: number;
+}
+
+const FINDING_MARKER = "<!-- claude-intern-auto-review -->";
+
+const PRIORITY_BADGES: Record<ReviewPriority, string> = {
+  critical: "🔴 Critical",
+  high: "🟠 High",
+  medium: "🟡 Medium",
+  low: "🔵 Low",
+  info: "⚪ Info",
+};
+
+const CATEGORY_BADGES: Record<ReviewCategory, string> = {
+  "code-quality": "🧹 Code quality",
+  bug: "🐛 Bug",
+  performance: "⚡ Performance",
+  security: "🔒 Security",
+  testing: "🧪 Testing",
+  documentation: "📝 Documentation",
+  style: "🎨 Style",
+  compatibility: "🔌 Compatibility",
+  accessibility: "♿ Accessibility",
+};
+
+// Findings this close together in the same file and category count as the same one
+const SAME_FINDING_LINE_DISTANCE = 10;
+const SAME_FINDING_WORD_OVERLAP = 0.5;
+
+/**
+ * Check whether findings should be published on the PR (AUTO_REVIEW_PUBLISH=true).
+ */
+export function isReviewPublishingEnabled(): boolean {
+  return process.env.AUTO_REVIEW_PUBLISH === "true";
+}
+
+/**
+ * New-file line numbers a review comment can be anchored to, per file of a unified diff.
+ */
+export function getCommentableLines(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let current: Set<number> | null = null;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      current = null;
+    } else if (line.startsWith("+++ ")) {
+      const path = line.slice(4).replace(/^b\//, "");
+      current = path === "/dev/null" ? null : new Set<number>();
+      if (current) {
+        files.set(path, current);
+      }
+    } else if (line.startsWith("@@")) {
+      newLine = Number(line.match(/\+(\d+)/)?.[1] ?? 0);
+    } else if (current && (line.startsWith("+") || line.startsWith(" "))) {
+      current.add(newLine++);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Line of the diff a finding can be commented on, or null if it is outside the diff.
+ */
+export function getAnchorLine(
+  item: ReviewFeedbackItem,
+  commentableLines: Map<string, Set<number>>
+): number | null {
+  const lines = item.file ? commentableLines.get(item.file) : undefined;
+  if (!lines || !item.line) {
+    return null;
+  }
+
+  const [start, end] = item.line.split("-").map((part) => parseInt(part, 10));
+  for (const line of [start, end]) {
+    if (Number.isFinite(line) && lines.has(line)) {
+      return line;
+    }
+  }
+  return null;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9_]{3,}/g) ?? []);
+}
+
+/**
+ * Share of the shorter text's words that also appear in the other text (0-1).
+ */
+export function getWordOverlap(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / Math.max(1, Math.min(wordsA.size, wordsB.size));
+}
+
+/**
+ * Whether two reviews reported the same finding: same file and category, and
+ * nearby lines or mostly the same wording.
+ */
+export function isSameFinding(a: ReviewFeedbackItem, b: ReviewFeedbackItem): boolean {
+  if (a.file !== b.file || a.category !== b.category) {
+    return false;
+  }
+
+  const lineA = parseInt(a.line ?? "", 10);
+  const lineB = parseInt(b.line ?? "", 10);
+  if (Number.isFinite(lineA) && Number.isFinite(lineB) && Math.abs(lineA - lineB) <= SAME_FINDING_LINE_DISTANCE) {
+    return true;
+  }
+
+  return getWordOverlap(a.issue, b.issue) >= SAME_FINDING_WORD_OVERLAP;
+}
+
+function formatBadges(item: ReviewFeedbackItem): string {
+  return `**${PRIORITY_BADGES[item.priority] ?? item.priority}** · ${CATEGORY_BADGES[item.category] ?? item.category}`;
+}
+
+function formatLocation(item: ReviewFeedbackItem): string {
+  return item.file ? `\`${item.file}${item.line ? `:${item.line}` : ""}\`` : "General";
+}
+
+/**
+ * Inline review comment for a finding.
+ */
+export function formatFindingComment(item: ReviewFeedbackItem, iteration: number): string {
+  return [
+    FINDING_MARKER,
+    `${formatBadges(item)} · auto-review iteration ${iteration}`,
+    "",
+    item.issue,
+    "",
+    `**Suggestion:** ${item.suggestion}`,
+  ].join("\n");
+}
+
+/**
+ * PR comment summarising the findings when the loop ends.
+ */
+export function formatReviewSummary(findings: PublishedFinding[], result: AutoReviewLoopResult): string {
+  const open = findings.filter((finding) => finding.fixedIn === undefined);
+  const fixed = findings.filter((finding) => finding.fixedIn !== undefined);
+  const lastIteration = result.history[result.history.length - 1];
+
+  const lines = [
+    "### 🤖 Auto-Review Summary",
+    "",
+    `${findings.length} finding(s) over ${result.iterations} iteration(s): ${fixed.length} fixed, ${open.length} open.`,
+  ];
+  if (result.finalFeedback?.summary) {
+    lines.push("", `> ${result.finalFeedback.summary}`);
+  }
+  if (result.stopDetails) {
+    const rollback = result.rolledBackIteration
+      ? ` The fixes of iteration ${result.rolledBackIteration} were rolled back.`
+      : "";
+    lines.push("", `🛑 Stopped early (${result.stopReason}): ${result.stopDetails}.${rollback}`);
+  }
+
+  if (open.length > 0) {
+    lines.push("", "#### Still Open", "");
+    for (const finding of open) {
+      const link = finding.commentUrl ? ` ([comment](${finding.commentUrl}))` : "";
+      const attempted = lastIteration?.addressed.some((item) => isSameFinding(item, finding.item))
+        ? " — fix attempted in the last iteration, not re-reviewed"
+        : "";
+      lines.push(`- ${formatBadges(finding.item)} ${formatLocation(finding.item)}: ${finding.item.issue}${link}${attempted}`);
+    }
+  }
+
+  if (fixed.length > 0) {
+    lines.push("", "<details>", "<summary>Fixed</summary>", "");
+    for (const finding of fixed) {
+      lines.push(`- ${formatBadges(finding.item)} ${formatLocation(finding.item)}: ${finding.item.issue} (iteration ${finding.iteration}, fixed by iteration ${finding.fixedIn})`);
+    }
+    lines.push("", "</details>");
+  }
+
+  lines.push("", "---", "*Automated review by claude-intern*");
+  return lines.join("\n");
+}
+
+/**
+ * Publishes the findings of each auto-review iteration on a GitHub PR.
+ */
+export class ReviewPublisher {
+  readonly findings: PublishedFinding[] = [];
+
+  constructor(
+    private client: GitHubReviewsClient,
+    private owner: string,
+    private repo: string,
+    private prNumber: number
+  ) {}
+
+  /**
+   * Mark earlier findings the review no longer reports as fixed, and comment on new ones.
+   */
+  async publishIteration(iteration: number, feedback: ReviewFeedback): Promise<void> {
+    for (const finding of this.findings) {
+      if (finding.fixedIn !== undefined || feedback.items.some((item) => isSameFinding(finding.item, item))) {
+        continue;
+      }
+      finding.fixedIn = iteration;
+      if (finding.commentId) {
+        try {
+          await this.client.replyToComment(
+            this.owner,
+            this.repo,
+            this.prNumber,
+            finding.commentId,
+            `✅ Fixed: no longer reported by auto-review iteration ${iteration}.`
+          );
+        } catch (error) {
+          console.warn(`⚠️  Failed to mark finding as fixed: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    const open = this.findings.filter((finding) => finding.fixedIn === undefined);
+    const newItems = feedback.items.filter((item) => !open.some((finding) => isSameFinding(finding.item, item)));
+    if (newItems.length === 0) {
+      return;
+    }
+
+    const pr = await this.client.getPullRequest(this.owner, this.repo, this.prNumber);
+    const commentableLines = getCommentableLines(
+      await this.client.getPullRequestDiff(this.owner, this.repo, this.prNumber)
+    );
+
+    let anchored = 0;
+    for (const item of newItems) {
+      const finding: PublishedFinding = { item, iteration };
+      this.findings.push(finding);
+
+      const line = getAnchorLine(item, commentableLines);
+      if (line === null) {
+        continue;
+      }
+      try {
+        const comment = await this.client.createReviewComment(
+          this.owner,
+          this.repo,
+          this.prNumber,
+          formatFindingComment(item, iteration),
+          pr.head.sha,
+          item.file!,
+          line
+        );
+        finding.commentId = comment.id;
+        finding.commentUrl = comment.html_url;
+        anchored++;
+      } catch (error) {
+        console.warn(`⚠️  Failed to comment on ${item.file}:${line}: ${(error as Error).message}`);
+      }
+    }
+
+    console.log(`💬 Published ${newItems.length} finding(s) on PR #${this.prNumber} (${anchored} inline)`);
+  }
+
+  /**
+   * Post the summary of fixed and still open findings.
+   */
+  async publishSummary(result: AutoReviewLoopResult): Promise<void> {
+    await this.client.postPullRequestComment(
+      this.owner,
+      this.repo,
+      this.prNumber,
+      formatReviewSummary(this.findings, result)
+    );
+  }
+}
+
+/**
+ * Publish a finished auto-review on a PR created after the loop ran.
+ */
+export async function publishAutoReviewResult(
+  prUrl: string,
+  result: AutoReviewLoopResult
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const { owner, repo, prNumber } = parsePRUrl(prUrl);
+    const publisher = new ReviewPublisher(new GitHubReviewsClient(), owner, repo, prNumber);
+
+    // The review after a rolled-back iteration describes code that no longer exists
+    const history =
+      result.rolledBackIteration !== undefined ? result.history.slice(0, -1) : result.history;
+    for (const entry of history) {
+      await publisher.publishIteration(entry.iteration, entry.feedback);
+    }
+    await publisher.publishSummary(result);
+
+    return { success: true, message: `Published ${publisher.findings.length} auto-review finding(s)` };
+  } catch (error) {
+    return { success: false, message: `Failed to publish auto-review findings: ${(error as Error).message}` };
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Run History with SQLite Persistence
+ *
+ * Stores every task run (mode, timing, outcome, branch, PR, commits and turns)
+ * so past runs can be listed and summarised with `claude-intern history`.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+
+export type RunMode = "implement" | "estimate";
+
+export type RunOutcome =
+  | "running"
+  | "implemented"
+  | "incomplete"
+  | "unclear"
+  | "hook-failed"
+  | "timed-out"
+  | "estimated"
+  | "failed";
+
+export const RUN_OUTCOMES: RunOutcome[] = [
+  "running",
+  "implemented",
+  "incomplete",
+  "unclear",
+  "hook-failed",
+  "timed-out",
+  "estimated",
+  "failed",
+];
+
+export interface TaskRun {
+  id: number;
+  taskKey: string;
+  mode: RunMode;
+  startedAt: number;
+  endedAt: number | null;
+  outcome: RunOutcome;
+  branch: string | null;
+  prUrl: string | null;
+  commitShas: string[];
+  turns: number | null;
+  message: string | null;
+  /** Story points estimated by an estimate run */
+  storyPoints: number | null;
+}
+
+export interface TaskRunUpdate {
+  branch?: string;
+  prUrl?: string;
+  turns?: number;
+  message?: string;
+  storyPoints?: number;
+}
+
+export interface RunHistoryFilter {
+  taskKey?: string;
+  mode?: RunMode;
+  outcome?: RunOutcome;
+  /** Only runs started at or after this timestamp (ms) */
+  since?: number;
+  limit?: number;
+}
+
+export interface RunHistoryStats {
+  total: number;
+  byOutcome: Partial<Record<RunOutcome, number>>;
+}
+
+export interface RunHistoryConfig {
+  dbPath: string;
+}
+
+interface TaskRunRow {
+  id: number;
+  task_key: string;
+  mode: string;
+  started_at: number;
+  ended_at: number | null;
+  outcome: string;
+  branch: string | null;
+  pr_url: string | null;
+  commit_shas: string;
+  turns: number | null;
+  message: string | null;
+  story_points: number | null;
+}
+
+/**
+ * Default history location, configurable via CLAUDE_INTERN_HISTORY_DB.
+ */
+export function getDefaultHistoryDbPath(): string {
+  return (
+    process.env.CLAUDE_INTERN_HISTORY_DB ||
+    join(process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks", "history.db")
+  );
+}
+
+/**
+ * SQLite-backed history of task runs.
+ */
+export class RunHistory {
+  private db: Database;
+
+  constructor(config: Partial<RunHistoryConfig> = {}) {
+    const dbPath = config.dbPath || getDefaultHistoryDbPath();
+
+    // Ensure directory exists
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    // Concurrent task processes share the database
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.initializeSchema();
+  }
+
+  /**
+   * Initialize database schema.
+   */
+  private initializeSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS task_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_key TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER,
+        outcome TEXT NOT NULL DEFAULT 'running',
+        branch TEXT,
+        pr_url TEXT,
+        commit_shas TEXT NOT NULL DEFAULT '[]',
+        turns INTEGER,
+        message TEXT,
+        story_points REAL
+      )
+    `);
+
+    // Histories created before estimates were recorded lack the column
+    const columns = this.db.query(`PRAGMA table_info(task_runs)`).all() as Array<{ name: string }>;
+    if (!columns.some((column) => column.name === "story_points")) {
+      this.db.run(`ALTER TABLE task_runs ADD COLUMN story_points REAL`);
+    }
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_task_runs_task
+      ON task_runs(task_key)
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_task_runs_started
+      ON task_runs(started_at)
+    `);
+  }
+
+  /**
+   * Record the start of a run. Returns the run ID.
+   */
+  start(taskKey: string, mode: RunMode, startedAt: number = Date.now()): number {
+    const result = this.db.run(
+      `INSERT INTO task_runs (task_key, mode, started_at) VALUES (?, ?, ?)`,
+      [taskKey, mode, startedAt]
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Update details of a run in progress.
+   */
+  update(id: number, fields: TaskRunUpdate): void {
+    const columns: Record<keyof TaskRunUpdate, string> = {
+      branch: "branch",
+      prUrl: "pr_url",
+      turns: "turns",
+      message: "message",
+      storyPoints: "story_points",
+    };
+    const entries = (Object.keys(fields) as Array<keyof TaskRunUpdate>).filter(
+      (key) => fields[key] !== undefined
+    );
+    if (entries.length === 0) {
+      return;
+    }
+
+    this.db.run(
+      `UPDATE task_runs SET ${entries.map((key) => `${columns[key]} = ?`).join(", ")} WHERE id = ?`,
+      [...entries.map((key) => fields[key] as string | number), id]
+    );
+  }
+
+  /**
+   * Add a commit to a run (ignores commits already recorded).
+   */
+  addCommit(id: number, sha: string): void {
+    const run = this.get(id);
+    if (!run || run.commitShas.includes(sha)) {
+      return;
+    }
+    this.db.run(`UPDATE task_runs SET commit_shas = ? WHERE id = ?`, [
+      JSON.stringify([...run.commitShas, sha]),
+      id,
+    ]);
+  }
+
+  /**
+   * Record the outcome of a run. The first recorded outcome wins.
+   * Returns false if the run was already finished.
+   */
+  finish(id: number, outcome: RunOutcome, message?: string, endedAt: number = Date.now()): boolean {
+    const result = this.db.run(
+      `UPDATE task_runs
+       SET outcome = ?, ended_at = ?, message = COALESCE(?, message)
+       WHERE id = ? AND ended_at IS NULL`,
+      [outcome, endedAt, message ?? null, id]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a run by ID.
+   */
+  get(id: number): TaskRun | null {
+    const row = this.db.query(`SELECT * FROM task_runs WHERE id = ?`).get(id) as TaskRunRow | null;
+    return row ? this.rowToRun(row) : null;
+  }
+
+  /**
+   * List runs matching a filter, most recent first.
+   */
+  list(filter: RunHistoryFilter = {}): TaskRun[] {
+    const { where, params } = this.buildWhere(filter);
+    const limit = filter.limit ?? 20;
+    const rows = this.db.query(
+      `SELECT * FROM task_runs ${where} ORDER BY started_at DESC, id DESC LIMIT ?`
+    ).all(...params, limit) as TaskRunRow[];
+    return rows.map((row) => this.rowToRun(row));
+  }
+
+  /**
+   * Count runs matching a filter by outcome (ignores the limit).
+   */
+  getStats(filter: RunHistoryFilter = {}): RunHistoryStats {
+    const { where, params } = this.buildWhere(filter);
+    const rows = this.db.query(
+      `SELECT outcome, COUNT(*) AS count FROM task_runs ${where} GROUP BY outcome`
+    ).all(...params) as Array<{ outcome: RunOutcome; count: number }>;
+
+    const byOutcome: Partial<Record<RunOutcome, number>> = {};
+    let total = 0;
+    for (const row of rows) {
+      byOutcome[row.outcome] = row.count;
+      total += row.count;
+    }
+    return { total, byOutcome };
+  }
+
+  private buildWhere(filter: RunHistoryFilter): { where: string; params: Array<string | number> } {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.taskKey) {
+      conditions.push("task_key = ?");
+      params.push(filter.taskKey);
+    }
+    if (filter.mode) {
+      conditions.push("mode = ?");
+      params.push(filter.mode);
+    }
+    if (filter.outcome) {
+      conditions.push("outcome = ?");
+      params.push(filter.outcome);
+    }
+    if (filter.since !== undefined) {
+      conditions.push("started_at >= ?");
+      params.push(filter.since);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params,
+    };
+  }
+
+  private rowToRun(row: TaskRunRow): TaskRun {
+    return {
+      id: row.id,
+      taskKey: row.task_key,
+      mode: row.mode as RunMode,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      outcome: row.outcome as RunOutcome,
+      branch: row.branch,
+      prUrl: row.pr_url,
+      commitShas: JSON.parse(row.commit_shas) as string[],
+      turns: row.turns,
+      message: row.message,
+      storyPoints: row.story_points,
+    };
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let sharedHistory: RunHistory | null = null;
+
+/**
+ * History at the default location, opened on first use.
+ */
+export function getRunHistory(): RunHistory {
+  if (!sharedHistory) {
+    sharedHistory = new RunHistory();
+  }
+  return sharedHistory;
+}
+
+/**
+ * Parse a --since value: a duration such as "7d", "12h" or "2w", or a date such as "2026-03-01".
+ */
+export function parseSince(value: string, now: Date = new Date()): number {
+  const duration = value.match(/^(\d+)([hdw])$/);
+  if (duration) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[duration[2] as "h" | "d" | "w"];
+    return now.getTime() - parseInt(duration[1], 10) * hours * 60 * 60 * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    throw new Error(`Invalid --since value: ${value} (use e.g. 7d, 12h or 2026-03-01)`);
+  }
+  return date;
+}
+
+function formatDuration(run: TaskRun): string {
+  if (run.endedAt === null) {
+    return "-";
+  }
+  const minutes = Math.round((run.endedAt - run.startedAt) / 60_000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Render runs as a table.
+ */
+export function formatRunList(runs: TaskRun[]): string {
+  if (runs.length === 0) {
+    return "No runs found.";
+  }
+
+  const rows = [
+    ["ID", "Started (UTC)", "Task", "Mode", "Outcome", "Duration", "Turns", "PR"],
+    ...runs.map((run) => [
+      run.id.toString(),
+      formatTime(run.startedAt),
+      run.taskKey,
+      run.mode,
+      run.outcome,
+      formatDuration(run),
+      run.turns?.toString() ?? "-",
+      run.prUrl ?? "-",
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/**
+ * Render a single run with all details.
+ */
+export function formatRunDetails(run: TaskRun): string {
+  const lines = [
+    `Run #${run.id}: ${run.taskKey}`,
+    `  Mode:     ${run.mode}`,
+    `  Outcome:  ${run.outcome}`,
+    `  Started:  ${formatTime(run.startedAt)} UTC`,
+    `  Ended:    ${run.endedAt !== null ? `${formatTime(run.endedAt)} UTC (${formatDuration(run)})` : "-"}`,
+    `  Branch:   ${run.branch ?? "-"}`,
+    `  PR:       ${run.prUrl ?? "-"}`,
+    `  Turns:    ${run.turns ?? "-"}`,
+    `  Commits:  ${run.commitShas.length > 0 ? run.commitShas.join(", ") : "-"}`,
+  ];
+  if (run.storyPoints !== null) {
+    lines.push(`  Points:   ${run.storyPoints}`);
+  }
+  if (run.message) {
+    lines.push(`  Message:  ${run.message}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render outcome counts with the success rate of finished runs.
+ */
+export function formatRunStats(stats: RunHistoryStats): string {
+  if (stats.total === 0) {
+    return "0 runs";
+  }
+
+  const counts = RUN_OUTCOMES.filter((outcome) => stats.byOutcome[outcome])
+    .map((outcome) => `${stats.byOutcome[outcome]} ${outcome}`)
+    .join(", ");
+
+  const succeeded = (stats.byOutcome.implemented ?? 0) + (stats.byOutcome.estimated ?? 0);
+  const finished = stats.total - (stats.byOutcome.running ?? 0);
+  const rate = finished > 0 ? ` — ${Math.round((succeeded / finished) * 100)}% succeeded` : "";
+
+  return `${stats.total} run${stats.total === 1 ? "" : "s"}: ${counts}${rate}`;
+}
@@ -0,0 +1,206 @@
+/**
+ * Stacked Pull Requests
+ *
+ * Orders the sub-tasks of an epic or parent issue by their "blocks" links so
+ * each one is implemented on top of the branch of the one before it, and
+ * cross-links the resulting pull requests.
+ */
+
+import type { JiraIssue, JiraIssueLink } from "../types/jira";
+import { GitHubReviewsClient } from "./github-reviews";
+import { GitLabReviewsClient } from "./gitlab-reviews";
+import type { IssueTracker } from "./issue-tracker";
+import { GitLabPRClient } from "./pr-client";
+
+export interface StackTask {
+  key: string;
+  summary: string;
+  /** Keys of other tasks in the stack that block this one */
+  blockedBy: string[];
+}
+
+export interface StackEntry {
+  key: string;
+  summary: string;
+  branch?: string;
+  prUrl?: string;
+}
+
+const STACK_SECTION_START = "<!-- claude-intern-stack -->";
+const STACK_SECTION_END = "<!-- /claude-intern-stack -->";
+
+// Status categories of finished work (JIRA "done", Linear "completed" and "canceled")
+const DONE_STATUS_CATEGORIES = ["done", "completed", "canceled"];
+
+function isBlocksLink(link: JiraIssueLink): boolean {
+  return link.type?.outward?.toLowerCase() === "blocks" || link.type?.name?.toLowerCase() === "blocks";
+}
+
+/**
+ * Stack tasks of the given sub-tasks, with the "blocks" links between them.
+ */
+export function createStackTasks(children: JiraIssue[]): StackTask[] {
+  const blockedBy = new Map(children.map((child) => [child.key, new Set<string>()]));
+
+  for (const child of children) {
+    for (const link of child.fields.issuelinks || []) {
+      if (!isBlocksLink(link)) {
+        continue;
+      }
+      // Inward: the linked issue blocks this one; outward: this one blocks the linked issue
+      if (link.inwardIssue && blockedBy.has(link.inwardIssue.key)) {
+        blockedBy.get(child.key)?.add(link.inwardIssue.key);
+      }
+      if (link.outwardIssue && blockedBy.has(link.outwardIssue.key)) {
+        blockedBy.get(link.outwardIssue.key)?.add(child.key);
+      }
+    }
+  }
+
+  return children.map((child) => ({
+    key: child.key,
+    summary: child.fields.summary,
+    blockedBy: [...(blockedBy.get(child.key) ?? [])],
+  }));
+}
+
+/**
+ * Order tasks so every task comes after the tasks blocking it. Tasks without
+ * dependencies between them keep their original order.
+ */
+export function orderStackTasks(tasks: StackTask[]): StackTask[] {
+  const ordered: StackTask[] = [];
+  const done = new Set<string>();
+  const remaining = [...tasks];
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((task) => task.blockedBy.every((key) => done.has(key)));
+    if (index === -1) {
+      throw new Error(
+        `Circular "blocks" links between ${remaining.map((task) => task.key).join(", ")}`
+      );
+    }
+    const [task] = remaining.splice(index, 1);
+    ordered.push(task);
+    done.add(task.key);
+  }
+
+  return ordered;
+}
+
+/**
+ * Open sub-tasks of an epic or parent issue in dependency order.
+ */
+export async function loadStackTasks(
+  issueTracker: IssueTracker,
+  parent: JiraIssue
+): Promise<StackTask[]> {
+  let children: JiraIssue[];
+  if (issueTracker.getChildIssues) {
+    children = await issueTracker.getChildIssues(parent.key);
+  } else {
+    children = [];
+    for (const subtask of parent.fields.subtasks || []) {
+      children.push(await issueTracker.getIssue(subtask.key));
+    }
+  }
+
+  const open = children.filter(
+    (child) =>
+      !DONE_STATUS_CATEGORIES.includes(child.fields.status?.statusCategory?.key?.toLowerCase() ?? "")
+  );
+  return orderStackTasks(createStackTasks(open));
+}
+
+/**
+ * "Stack" section for the pull request of one task, listing every pull request in merge order.
+ */
+export function formatStackSection(
+  parentKey: string,
+  entries: StackEntry[],
+  currentKey: string
+): string {
+  const position = entries.findIndex((entry) => entry.key === currentKey) + 1;
+  const lines = [
+    STACK_SECTION_START,
+    "## Stack",
+    "",
+    `Part ${position} of ${entries.length} of ${parentKey}. Each pull request builds on the one above it; review and merge from the top.`,
+    "",
+    ...entries.map((entry, index) => {
+      const pointer = entry.key === currentKey ? "👉 " : "";
+      const link = entry.prUrl ?? "no pull request";
+      return `${index + 1}. ${pointer}**${entry.key}** ${entry.summary} — ${link}`;
+    }),
+    STACK_SECTION_END,
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Put the stack section into a pull request description, replacing an earlier one.
+ */
+export function applyStackSection(body: string | null, section: string): string {
+  const text = body ?? "";
+  const start = text.indexOf(STACK_SECTION_START);
+  const end = text.indexOf(STACK_SECTION_END);
+
+  if (start !== -1 && end > start) {
+    return text.slice(0, start) + section + text.slice(end + STACK_SECTION_END.length);
+  }
+  return text.trim() ? `${text.trimEnd()}\n\n${section}` : section;
+}
+
+/**
+ * Add the stack section to the description of every pull request in the stack
+ * (GitHub pull requests and GitLab merge requests).
+ */
+export async function linkStackPullRequests(
+  parentKey: string,
+  entries: StackEntry[]
+): Promise<{ success: boolean; message: string }> {
+  const failures: string[] = [];
+  let linked = 0;
+
+  for (const entry of entries) {
+    if (!entry.prUrl) {
+      continue;
+    }
+    const section = formatStackSection(parentKey, entries, entry.key);
+
+    try {
+      const github = entry.prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+      const gitlab = entry.prUrl.match(/^(https?:\/\/[^/]+)\/(.+?)\/-\/merge_requests\/(\d+)/);
+
+      if (github) {
+        const [, owner, repo, number] = github;
+        const client = new GitHubReviewsClient();
+        const pr = await client.getPullRequest(owner, repo, Number(number));
+        await client.updatePullRequestBody(owner, repo, Number(number), applyStackSection(pr.body, section));
+      } else if (gitlab) {
+        const [, host, project, iid] = gitlab;
+        const client = new GitLabReviewsClient({ baseUrl: GitLabPRClient.apiUrlForHost(host) });
+        const mr = await client.getMergeRequest(project, Number(iid));
+        await client.updateMergeRequestDescription(
+          project,
+          Number(iid),
+          applyStackSection(mr.description, section)
+        );
+      } else {
+        failures.push(`${entry.prUrl} (only GitHub and GitLab are supported)`);
+        continue;
+      }
+      linked++;
+    } catch (error) {
+      failures.push(`${entry.prUrl} (${(error as Error).message})`);
+    }
+  }
+
+  if (failures.length > 0) {
+    return {
+      success: false,
+      message: `Linked ${linked} pull request(s), failed to update ${failures.join(", ")}`,
+    };
+  }
+  return { success: true, message: `Linked ${linked} pull request(s) in the stack` };
+}
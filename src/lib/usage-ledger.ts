@@ -0,0 +1,432 @@
+/**
+ * Usage Ledger with SQLite Persistence
+ *
+ * Records tokens, cost and wall time of every agent run per task key and
+ * enforces the per-task and monthly per-project budgets from settings.json,
+ * before a run and while it is in progress.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import type { AgentEvent, AgentUsage } from "../types/agent-events";
+import type { ProjectSettings } from "../types/settings";
+import type {
+  AgentRunner,
+  AgentRunOptions,
+  AgentRunResult,
+} from "./agent-runner";
+import { IssueTrackerRegistry } from "./issue-tracker-registry";
+import { Utils } from "./utils";
+
+export type AgentRunKind =
+  | "implementation"
+  | "clarity"
+  | "estimation"
+  | "auto-review"
+  | "address-review"
+  | "rebase"
+  | "ci-fix"
+  | "pr-command"
+  | "hook-fix";
+
+export interface UsageRecord {
+  taskKey: string;
+  projectKey: string;
+  kind: AgentRunKind;
+  status: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  createdAt: number;
+}
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface UsageLedgerConfig {
+  dbPath: string;
+}
+
+// USD per million input/output tokens, by model name; cache writes cost 1.25x
+// and cache reads 0.1x the input price
+const MODEL_PRICES: Array<{ pattern: RegExp; input: number; output: number }> = [
+  { pattern: /opus-4-[5-9]/, input: 5, output: 25 },
+  { pattern: /opus/, input: 15, output: 75 },
+  { pattern: /haiku-4/, input: 1, output: 5 },
+  { pattern: /haiku/, input: 0.8, output: 4 },
+];
+// Sonnet, also used for models not listed above
+const DEFAULT_MODEL_PRICE = { input: 3, output: 15 };
+
+/**
+ * Estimate the cost of tokens from their model's list price. Runs in progress have no
+ * reported cost yet; the agent's own figure replaces the estimate when it finishes.
+ */
+export function estimateUsageCost(usage: AgentUsage, model: string | null): number {
+  const price = MODEL_PRICES.find(({ pattern }) => pattern.test(model ?? "")) ?? DEFAULT_MODEL_PRICE;
+  return (
+    (usage.inputTokens * price.input +
+      usage.cacheCreationInputTokens * price.input * 1.25 +
+      usage.cacheReadInputTokens * price.input * 0.1 +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+function sumUsage(usages: AgentUsage[]): AgentUsage | null {
+  if (usages.length === 0) {
+    return null;
+  }
+  return {
+    inputTokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+    cacheCreationInputTokens: usages.reduce((sum, usage) => sum + usage.cacheCreationInputTokens, 0),
+    cacheReadInputTokens: usages.reduce((sum, usage) => sum + usage.cacheReadInputTokens, 0),
+  };
+}
+
+/**
+ * Default ledger location, configurable via CLAUDE_INTERN_USAGE_DB.
+ */
+export function getDefaultUsageDbPath(): string {
+  return (
+    process.env.CLAUDE_INTERN_USAGE_DB ||
+    join(process.env.CLAUDE_INTERN_OUTPUT_DIR || "/tmp/claude-intern-tasks", "usage.db")
+  );
+}
+
+/**
+ * SQLite-backed record of agent runs.
+ */
+export class UsageLedger {
+  private db: Database;
+
+  constructor(config: Partial<UsageLedgerConfig> = {}) {
+    const dbPath = config.dbPath || getDefaultUsageDbPath();
+
+    // Ensure directory exists
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    // Concurrent task processes share the database
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.initializeSchema();
+  }
+
+  /**
+   * Initialize database schema.
+   */
+  private initializeSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS agent_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_key TEXT NOT NULL,
+        project_key TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        status TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_agent_runs_task
+      ON agent_runs(task_key)
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_agent_runs_project_created
+      ON agent_runs(project_key, created_at)
+    `);
+  }
+
+  /**
+   * Record a finished agent run.
+   */
+  record(record: UsageRecord): void {
+    this.db.run(
+      `INSERT INTO agent_runs
+         (task_key, project_key, kind, status, input_tokens, output_tokens, cost_usd, duration_ms, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.taskKey,
+        record.projectKey,
+        record.kind,
+        record.status,
+        record.inputTokens,
+        record.outputTokens,
+        record.costUsd,
+        record.durationMs,
+        record.createdAt,
+      ]
+    );
+  }
+
+  /**
+   * Totals for all runs of a task.
+   */
+  getTaskTotals(taskKey: string): UsageTotals {
+    return this.queryTotals(`WHERE task_key = ?`, [taskKey]);
+  }
+
+  /**
+   * Totals for a project's runs since a timestamp (ms).
+   */
+  getProjectTotals(projectKey: string, since: number): UsageTotals {
+    return this.queryTotals(`WHERE project_key = ? AND created_at >= ?`, [projectKey, since]);
+  }
+
+  private queryTotals(where: string, params: Array<string | number>): UsageTotals {
+    const row = this.db.query(
+      `SELECT COUNT(*) AS runs,
+              COALESCE(SUM(input_tokens), 0) AS input_tokens,
+              COALESCE(SUM(output_tokens), 0) AS output_tokens,
+              COALESCE(SUM(cost_usd), 0) AS cost_usd,
+              COALESCE(SUM(duration_ms), 0) AS duration_ms
+       FROM agent_runs ${where}`
+    ).get(...params) as Record<string, number>;
+
+    return {
+      runs: row.runs,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd,
+      durationMs: row.duration_ms,
+    };
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let sharedLedger: UsageLedger | null = null;
+
+/**
+ * Ledger at the default location, opened on first use.
+ */
+export function getUsageLedger(): UsageLedger {
+  if (!sharedLedger) {
+    sharedLedger = new UsageLedger();
+  }
+  return sharedLedger;
+}
+
+/**
+ * Start of the calendar month (UTC) containing the given date.
+ */
+function getMonthStart(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+/**
+ * Check the task and project budgets, counting the cost of a run in progress that is
+ * not recorded yet. Returns the reason when a budget is exhausted, null otherwise.
+ */
+export function checkBudget(
+  ledger: UsageLedger,
+  taskKey: string,
+  settings: ProjectSettings | null,
+  now: Date = new Date(),
+  pendingCostUsd = 0
+): string | null {
+  const projectKey = IssueTrackerRegistry.getProjectKey(taskKey);
+  const projectSettings = settings?.projects?.[projectKey];
+  if (!projectSettings) {
+    return null;
+  }
+
+  const { maxCostPerTask, monthlyBudget } = projectSettings;
+
+  if (maxCostPerTask !== undefined) {
+    const spent = ledger.getTaskTotals(taskKey).costUsd + pendingCostUsd;
+    if (spent >= maxCostPerTask) {
+      return `${taskKey} has used $${spent.toFixed(2)} of its $${maxCostPerTask.toFixed(2)} per-task budget (maxCostPerTask)`;
+    }
+  }
+
+  if (monthlyBudget !== undefined) {
+    const spent = ledger.getProjectTotals(projectKey, getMonthStart(now)).costUsd + pendingCostUsd;
+    if (spent >= monthlyBudget) {
+      const month = now.toISOString().slice(0, 7);
+      return `Project ${projectKey} has used $${spent.toFixed(2)} of its $${monthlyBudget.toFixed(2)} monthly budget for ${month} (monthlyBudget)`;
+    }
+  }
+
+  return null;
+}
+
+// Budget month each task was last notified in, so repeated refusals post one comment
+// per month and a long-running server notifies again after the monthly budget resets
+const notifiedTasks = new Map<string, number>();
+
+/**
+ * Post a tracker comment explaining why work on a task stopped.
+ */
+export async function notifyBudgetExceeded(
+  taskKey: string,
+  reason: string,
+  settings: ProjectSettings | null,
+  now: Date = new Date()
+): Promise<void> {
+  const month = getMonthStart(now);
+  if (notifiedTasks.get(taskKey) === month) {
+    return;
+  }
+  notifiedTasks.set(taskKey, month);
+
+  try {
+    const tracker = IssueTrackerRegistry.forTask(taskKey, settings);
+    await tracker.postBudgetExceededComment(taskKey, reason);
+    console.log(`💬 Posted budget notice to ${taskKey}`);
+  } catch (error) {
+    console.warn(`⚠️  Failed to post budget notice to ${taskKey}: ${(error as Error).message}`);
+  }
+}
+
+export interface AgentRunAccounting {
+  /** Task key the run is billed to (e.g., "PROJ-123" or "owner/repo#42") */
+  taskKey: string;
+  kind: AgentRunKind;
+  /** Post a tracker comment when the budget stops the run (default: true) */
+  notify?: boolean;
+  settings?: ProjectSettings | null;
+  ledger?: UsageLedger;
+}
+
+/**
+ * Accounting for a pull request review run. Bills the task named in the PR title or
+ * branch (e.g., "[PROJ-123] ..." or "feature/proj-123"), otherwise the PR itself
+ * without tracker notices.
+ */
+export function getReviewAccounting(
+  kind: AgentRunKind,
+  repository: string,
+  prNumber: number,
+  prTitle?: string,
+  prBranch?: string
+): AgentRunAccounting {
+  const fromTitle = prTitle?.match(/\b([A-Z][A-Z0-9]+-\d+)\b/)?.[1];
+  const fromBranch = prBranch?.match(/(?:^|\/)([a-z][a-z0-9]+-\d+)(?:\b|$)/i)?.[1];
+  const taskKey = fromTitle || fromBranch?.toUpperCase();
+
+  return taskKey
+    ? { taskKey, kind }
+    : { taskKey: `${repository}#${prNumber}`, kind, notify: false };
+}
+
+/**
+ * Wraps an agent runner to refuse runs once a budget is exhausted, stop runs that exhaust
+ * it and record usage. Runs are only stopped midway by agents that report usage events.
+ */
+export class AccountedAgentRunner implements AgentRunner {
+  readonly name: string;
+
+  constructor(
+    private inner: AgentRunner,
+    private accounting: AgentRunAccounting
+  ) {
+    this.name = inner.name;
+  }
+
+  describeCommand(maxTurns: number): string {
+    return this.inner.describeCommand(maxTurns);
+  }
+
+  async run(options: AgentRunOptions): Promise<AgentRunResult> {
+    const { taskKey, kind, notify = true } = this.accounting;
+    const settings =
+      this.accounting.settings === undefined
+        ? Utils.loadProjectSettings()
+        : this.accounting.settings;
+    const ledger = this.accounting.ledger || getUsageLedger();
+
+    const reason = checkBudget(ledger, taskKey, settings);
+    if (reason) {
+      console.error(`\n💸 Budget exhausted, not running ${this.name}: ${reason}`);
+      if (notify) {
+        await notifyBudgetExceeded(taskKey, reason, settings);
+      }
+      return {
+        status: "budget_exceeded",
+        exitCode: null,
+        output: "",
+        stdout: "",
+        stderr: "",
+        log: null,
+        durationMs: 0,
+        error: `Budget exhausted: ${reason}`,
+      };
+    }
+
+    // Usage per API message so far; a message's content blocks arrive as separate events
+    const messageUsage = new Map<string, Extract<AgentEvent, { type: "usage" }>>();
+    let estimatedCost = 0;
+    let exceededReason: string | null = null;
+    const controller = new AbortController();
+    options.signal?.addEventListener("abort", () => controller.abort(), { once: true });
+
+    const onEvent = (event: AgentEvent) => {
+      options.onEvent?.(event);
+      if (event.type !== "usage" || exceededReason) {
+        return;
+      }
+      messageUsage.set(event.messageId, event);
+      estimatedCost = [...messageUsage.values()].reduce(
+        (sum, { usage, model }) => sum + estimateUsageCost(usage, model),
+        0
+      );
+      exceededReason = checkBudget(ledger, taskKey, settings, new Date(), estimatedCost);
+      if (exceededReason) {
+        console.error(`\n💸 Budget exhausted, stopping ${this.name}: ${exceededReason}`);
+        controller.abort();
+      }
+    };
+
+    const runResult = await this.inner.run({ ...options, onEvent, signal: controller.signal });
+    const result: AgentRunResult = exceededReason
+      ? { ...runResult, status: "budget_exceeded", error: `Budget exhausted: ${exceededReason}` }
+      : runResult;
+
+    if (result.status !== "not_found" && result.status !== "spawn_error") {
+      // A stopped run never reports its totals, so fall back to the tracked usage
+      const usage =
+        result.log?.usage ?? sumUsage([...messageUsage.values()].map((event) => event.usage));
+      ledger.record({
+        taskKey,
+        projectKey: IssueTrackerRegistry.getProjectKey(taskKey),
+        kind,
+        status: result.status,
+        inputTokens: usage
+          ? usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens
+          : 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        costUsd: result.log?.costUsd ?? estimatedCost,
+        durationMs: result.durationMs,
+        createdAt: Date.now(),
+      });
+    }
+
+    if (exceededReason && notify) {
+      await notifyBudgetExceeded(taskKey, exceededReason, settings);
+    }
+
+    return result;
+  }
+}
@@ -1,8 +1,28 @@
 import { spawn } from "child_process";
-import { existsSync, mkdirSync, rmSync } from "fs";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, rmSync } from "fs";
 import { join } from "path";
+import type { ProjectSettings } from "../types/settings";
 
 export class Utils {
+  /**
+   * Load project settings from .claude-intern/settings.json
+   */
+  static loadProjectSettings(baseDir = process.cwd()): ProjectSettings | null {
+    const settingsPath = join(baseDir, ".claude-intern", "settings.json");
+
+    if (!existsSync(settingsPath)) {
+      return null;
+    }
+
+    try {
+      const settingsContent = readFileSync(settingsPath, "utf8");
+      return JSON.parse(settingsContent) as ProjectSettings;
+    } catch (error) {
+      console.warn(`⚠️  Failed to parse settings.json: ${error}`);
+      return null;
+    }
+  }
+
   /**
    * Ensure a directory exists, create it if it doesn't
    */
@@ -270,6 +290,14 @@ export class Utils {
     };
   }
 
+  /**
+   * Convert a task key into a branch/directory-safe slug
+   * e.g., "PROJ-123" → "proj-123", "owner/repo#42" → "owner-repo-42"
+   */
+  static taskKeyToSlug(taskKey: string): string {
+    return taskKey.toLowerCase().replace(/[^a-z0-9._-]+/g, "-");
+  }
+
   /**
    * Extract target branch from JIRA task description
    * Looks for patterns like "Target branch: <branch-name>"
@@ -988,7 +1016,7 @@ export class Utils {
     taskKey: string,
     baseBranch?: string
   ): Promise<{ success: boolean; branchName: string; message: string }> {
-    const baseBranchName = `feature/${taskKey.toLowerCase()}`;
+    const baseBranchName = `feature/${Utils.taskKeyToSlug(taskKey)}`;
     let branchName = baseBranchName;
     let attemptCounter = 1;
 
@@ -1012,8 +1040,9 @@ export class Utils {
         console.warn(`⚠️  Failed to reset changes: ${resetResult.error}`);
       }
 
-      // Remove untracked files and directories
-      const cleanResult = await Utils.executeGitCommand(["clean", "-fd"]);
+      // Remove untracked files and directories, except untracked project settings
+      // (e.g., the copy in a task worktree)
+      const cleanResult = await Utils.executeGitCommand(["clean", "-fd", "-e", "/.claude-intern/"]);
       if (!cleanResult.success) {
         console.warn(`⚠️  Failed to clean untracked files: ${cleanResult.error}`);
       }
@@ -1055,7 +1084,11 @@ export class Utils {
         }
 
         // Handle worktree conflict - target branch is locked by another worktree
-        if (!switchResult.success && switchResult.error?.includes("already used by worktree")) {
+        // (git before 2.42 reports it as "already checked out at")
+        if (
+          !switchResult.success &&
+          /already used by worktree|already checked out at/.test(switchResult.error ?? "")
+        ) {
           console.log(`⚠️  Target branch '${targetBranch}' is locked by a worktree, will create branch from remote...`);
           createFromRemote = true;
         } else if (!switchResult.success) {
@@ -1621,6 +1654,15 @@ export class Utils {
     }
   }
 
+  /**
+   * Discard uncommitted changes and untracked files left in the shared review
+   * worktree, so the next job starts from a clean checkout.
+   */
+  static async cleanReviewWorktree(workDir: string): Promise<void> {
+    await Utils.executeGitCommand(["reset", "--hard", "HEAD"], { verbose: false, cwd: workDir });
+    await Utils.executeGitCommand(["clean", "-fd"], { verbose: false, cwd: workDir });
+  }
+
   /**
    * Get the path to the single review worktree.
    */
@@ -1628,6 +1670,81 @@ export class Utils {
     return "/tmp/claude-intern-review-worktree";
   }
 
+  /**
+   * Get the path to the worktree used for a task in concurrent batch runs.
+   */
+  static getTaskWorktreePath(taskKey: string): string {
+    return join("/tmp/claude-intern-worktrees", Utils.taskKeyToSlug(taskKey));
+  }
+
+  /**
+   * Prepare an isolated worktree for processing a task alongside others.
+   * The base branch is checked out detached - the task run creates its own feature branch.
+   * Untracked project settings are copied over and dependencies are installed.
+   */
+  static async prepareTaskWorktree(
+    taskKey: string,
+    baseBranch: string,
+    options?: { verbose?: boolean }
+  ): Promise<{ success: boolean; path?: string; error?: string }> {
+    const verbose = options?.verbose ?? false;
+    const worktreePath = Utils.getTaskWorktreePath(taskKey);
+
+    try {
+      if (verbose) {
+        console.log(`\n📂 Preparing worktree for ${taskKey}: ${worktreePath}`);
+      }
+
+      // Remove leftovers from an interrupted run
+      if (existsSync(worktreePath)) {
+        await Utils.removeReviewWorktree(worktreePath, { verbose });
+      }
+      await Utils.executeGitCommand(["worktree", "prune"], { verbose: false });
+
+      // Prefer the local base branch (pulled before processing), fall back to origin
+      const localBranchCheck = await Utils.executeGitCommand(
+        ["show-ref", "--verify", "--quiet", `refs/heads/${baseBranch}`],
+        { verbose: false }
+      );
+      const baseRef = localBranchCheck.success ? baseBranch : `origin/${baseBranch}`;
+
+      const createResult = await Utils.executeGitCommand(
+        ["worktree", "add", "--detach", worktreePath, baseRef],
+        { verbose }
+      );
+
+      if (!createResult.success) {
+        return {
+          success: false,
+          error: `Failed to create worktree: ${createResult.error || createResult.output}`,
+        };
+      }
+
+      // Settings may not be committed, so the worktree wouldn't have them
+      const settingsPath = join(".claude-intern", "settings.json");
+      const sourceSettings = join(process.cwd(), settingsPath);
+      const targetSettings = join(worktreePath, settingsPath);
+      if (existsSync(sourceSettings) && !existsSync(targetSettings)) {
+        Utils.ensureDirectoryExists(join(worktreePath, ".claude-intern"));
+        copyFileSync(sourceSettings, targetSettings);
+      }
+
+      const installResult = await Utils.installDependencies(worktreePath, { verbose });
+
+      if (!installResult.success) {
+        console.warn(`⚠️  Failed to install dependencies for ${taskKey}: ${installResult.error}`);
+        console.warn(`   Claude may not be able to run tests or build commands`);
+      }
+
+      return { success: true, path: worktreePath };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Worktree preparation failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
   /**
    * Detect and run the appropriate package manager to install dependencies.
    * Supports: JavaScript/TypeScript (bun, pnpm, yarn, npm), Python (poetry, pip),
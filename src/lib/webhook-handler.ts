@@ -6,14 +6,21 @@
 
 import { createHmac, timingSafeEqual } from "crypto";
 import type {
+  CheckConclusion,
+  CheckPullRequestRef,
+  CheckRunEvent,
+  CheckSuiteEvent,
+  CiFailure,
   PingEvent,
   ProcessedReviewComment,
   ProcessedReviewFeedback,
   PullRequestReviewCommentEvent,
   PullRequestReviewEvent,
+  PushEvent,
   SignatureVerificationResult,
   WebhookEventType,
   WebhookProcessingResult,
+  WorkflowRunEvent,
 } from "../types/github-webhooks";
 
 /**
@@ -79,6 +86,11 @@ export function parseEventType(
   const supportedEvents: WebhookEventType[] = [
     "pull_request_review",
     "pull_request_review_comment",
+    "push",
+    "check_run",
+    "check_suite",
+    "workflow_run",
+    "issue_comment",
     "ping",
   ];
 
@@ -224,6 +236,65 @@ export function processReviewComment(
   };
 }
 
+/**
+ * Branch a push event moved, or null for tag pushes and deleted branches.
+ */
+export function getPushedBranch(event: PushEvent): string | null {
+  if (event.deleted || !event.ref.startsWith("refs/heads/")) {
+    return null;
+  }
+  return event.ref.slice("refs/heads/".length);
+}
+
+/**
+ * Check if a pull request was opened by claude-intern: a feature branch with a "[TASK-KEY] Summary" title.
+ */
+export function isInternPullRequest(pr: { title: string; head: { ref: string } }): boolean {
+  return pr.head.ref.startsWith("feature/") && /^\[[^\]]+\] /.test(pr.title);
+}
+
+/**
+ * Failed CI run reported by a check_run, check_suite or workflow_run event.
+ * Returns null for runs that are not finished, didn't fail or belong to no open PR commit.
+ */
+export function getCiFailure(
+  eventType: "check_run" | "check_suite" | "workflow_run",
+  event: CheckRunEvent | CheckSuiteEvent | WorkflowRunEvent
+): CiFailure | null {
+  if (event.action !== "completed") {
+    return null;
+  }
+
+  let run: {
+    name: string;
+    head_sha: string;
+    conclusion: CheckConclusion;
+    pull_requests: CheckPullRequestRef[];
+  };
+  if (eventType === "check_run") {
+    run = (event as CheckRunEvent).check_run;
+  } else if (eventType === "workflow_run") {
+    run = (event as WorkflowRunEvent).workflow_run;
+  } else {
+    const suite = (event as CheckSuiteEvent).check_suite;
+    run = { ...suite, name: suite.app?.name ?? "check suite" };
+  }
+
+  if (run.conclusion !== "failure" && run.conclusion !== "timed_out") {
+    return null;
+  }
+
+  // PRs whose head moved on since the run don't need this run fixed
+  const prNumbers = run.pull_requests
+    .filter((pr) => pr.head.sha === run.head_sha)
+    .map((pr) => pr.number);
+  if (prNumbers.length === 0) {
+    return null;
+  }
+
+  return { name: run.name, headSha: run.head_sha, conclusion: run.conclusion, prNumbers };
+}
+
 /**
  * Handle ping event (sent when webhook is first configured).
  */
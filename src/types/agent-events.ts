@@ -0,0 +1,60 @@
+/**
+ * Agent Event Types
+ *
+ * Typed events built from Claude's `--output-format stream-json` output.
+ */
+
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type AgentEvent =
+  | { type: "init"; sessionId: string; model?: string }
+  | { type: "text"; text: string }
+  | ({ type: "tool_call" } & AgentToolCall)
+  | { type: "tool_result"; toolUseId: string; isError: boolean }
+  | {
+      type: "usage";
+      /** API message the tokens belong to; each of its content blocks repeats the usage */
+      messageId: string;
+      model: string | null;
+      usage: AgentUsage;
+    }
+  | {
+      type: "result";
+      /** "success", "error_max_turns", "error_during_execution", ... */
+      subtype: string;
+      isError: boolean;
+      text: string | null;
+      turns: number | null;
+      costUsd: number | null;
+      usage: AgentUsage | null;
+      sessionId: string | null;
+    };
+
+/**
+ * Summary of a structured agent run
+ */
+export interface AgentRunLog {
+  events: AgentEvent[];
+  toolCalls: AgentToolCall[];
+  /** Files touched by Edit, MultiEdit, Write and NotebookEdit, in first-edit order */
+  editedFiles: string[];
+  /** Final result message, or null if the run did not finish */
+  resultText: string | null;
+  resultSubtype: string | null;
+  isError: boolean;
+  turns: number | null;
+  costUsd: number | null;
+  usage: AgentUsage | null;
+  sessionId: string | null;
+}
@@ -11,7 +11,33 @@ export type ReviewCategory =
   | 'security'
   | 'testing'
   | 'documentation'
-  | 'style';
+  | 'style'
+  | 'compatibility'
+  | 'accessibility';
+
+export type ReviewPersonaName =
+  | 'general'
+  | 'security'
+  | 'performance'
+  | 'test-coverage'
+  | 'api-compat'
+  | 'accessibility';
+
+/**
+ * A specialised reviewer pass with its own prompt criteria
+ */
+export interface ReviewPersona {
+  name: ReviewPersonaName;
+
+  /** Display name (e.g., "Security") */
+  title: string;
+
+  /** Categories the reviewer reports findings in */
+  focus: ReviewCategory[];
+
+  /** Review criteria listed in the prompt */
+  criteria: string[];
+}
 
 export interface ReviewFeedbackItem {
   /** Priority level of the feedback */
@@ -26,6 +52,15 @@ export interface ReviewFeedbackItem {
   /** Line number or range (e.g., "42" or "42-45") */
   line?: string;
 
+  /** Reviewer persona that reported the finding */
+  reviewer?: ReviewPersonaName;
+
+  /** Check command that reported the finding (ground truth, not a reviewer opinion) */
+  check?: string;
+
+  /** Stable ID of the finding across iterations, kept when a later review reports it again */
+  fingerprint?: string;
+
   /** Description of the issue */
   issue: string;
 
@@ -44,6 +79,42 @@ export interface ReviewFeedback {
   approved: boolean;
 }
 
+/**
+ * Command run in the worktree before each review iteration (linter, type checker, tests)
+ */
+export interface ReviewCheck {
+  /** Display name (e.g., "lint", "typecheck", "tests") */
+  name: string;
+
+  /** Shell command, run in the working directory */
+  command: string;
+
+  /** Category of the findings it reports (default: bug) */
+  category?: ReviewCategory;
+
+  /** Time limit in seconds (default: 600) */
+  timeoutSeconds?: number;
+
+  /** Fail the check when the line coverage it reports is below this percentage */
+  minCoverage?: number;
+}
+
+export interface ReviewCheckResult {
+  check: ReviewCheck;
+
+  /** Whether the command exited with code 0 */
+  passed: boolean;
+
+  /** Findings parsed from the command output */
+  items: ReviewFeedbackItem[];
+
+  /** Combined stdout and stderr */
+  output: string;
+
+  /** Line coverage in percent, when the output has a coverage summary */
+  coverage?: number;
+}
+
 export interface AutoReviewLoopOptions {
   /** GitHub repository (e.g., "owner/repo") */
   repository: string;
@@ -60,12 +131,33 @@ export interface AutoReviewLoopOptions {
   /** Path to Claude CLI executable */
   claudePath: string;
 
+  /** Task key that review runs are billed to (default: "repository#prNumber") */
+  taskKey?: string;
+
+  /** Don't post a budget notice to the issue tracker when the budget stops the loop */
+  skipTrackerComments?: boolean;
+
   /** Maximum number of review iterations */
   maxIterations?: number;
 
   /** Minimum priority to address (default: medium) */
   minPriority?: ReviewPriority;
 
+  /** Reviewer personas run each iteration (default: reviewPersonas from settings.json, or general) */
+  personas?: ReviewPersonaName[];
+
+  /** Checks run before each review; the review is only approved when they pass (default: reviewChecks from settings.json) */
+  checks?: ReviewCheck[];
+
+  /** Stop once the diff is this many times larger than at the first iteration (default: 2) */
+  maxDiffGrowth?: number;
+
+  /** Globs of files left out of the review, on top of the lockfile/generated/vendored defaults and reviewIgnore from settings.json */
+  ignoreGlobs?: string[];
+
+  /** Diffs larger than this many characters are reviewed in parts (default: reviewMaxDiffChars from settings.json, or 100000) */
+  maxDiffChars?: number;
+
   /** Working directory for the repository */
   workingDir: string;
 
@@ -78,8 +170,31 @@ export interface AutoReviewLoopOptions {
    * Useful when running local hook validation before a single final push.
    */
   skipPush?: boolean;
+
+  /**
+   * Publish findings on the PR as inline review comments, with a summary at the end.
+   * Default: AUTO_REVIEW_PUBLISH=true. Ignored until the PR exists (prNumber 0).
+   */
+  publishReview?: boolean;
 }
 
+/**
+ * Why the auto-review loop ended
+ * - approved / no-issues / max-iterations: normal completion
+ * - regression: an iteration made things worse and was rolled back
+ * - oscillation: findings came back after being fixed, or reviews swung between two states
+ * - no-progress: fixes left the same findings in place
+ * - diff-growth: the diff kept growing past maxDiffGrowth
+ */
+export type AutoReviewStopReason =
+  | 'approved'
+  | 'no-issues'
+  | 'max-iterations'
+  | 'regression'
+  | 'oscillation'
+  | 'no-progress'
+  | 'diff-growth';
+
 export interface AutoReviewLoopResult {
   /** Number of iterations performed */
   iterations: number;
@@ -95,5 +210,18 @@ export interface AutoReviewLoopResult {
     iteration: number;
     feedback: ReviewFeedback;
     addressed: ReviewFeedbackItem[];
+    /** Names of the checks that failed before the review */
+    failedChecks?: string[];
+    /** Added and removed lines in the reviewed diff */
+    diffLines?: number;
   }>;
+
+  /** Why the loop ended */
+  stopReason?: AutoReviewStopReason;
+
+  /** Explanation of an early stop */
+  stopDetails?: string;
+
+  /** Iteration whose fixes were reverted because they made things worse */
+  rolledBackIteration?: number;
 }
@@ -0,0 +1,63 @@
+// GitHub Issues REST API types (only the fields claude-intern reads)
+
+export interface GitHubIssueUser {
+  login: string;
+  id: number;
+  type?: string;
+}
+
+export interface GitHubIssueLabel {
+  id: number;
+  name: string;
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: "open" | "closed";
+  html_url: string;
+  repository_url: string;
+  user: GitHubIssueUser;
+  assignee: GitHubIssueUser | null;
+  labels: GitHubIssueLabel[];
+  milestone: { id: number; title: string; state: string } | null;
+  created_at: string;
+  updated_at: string;
+  /** Present when the "issue" is actually a pull request */
+  pull_request?: { url: string; html_url: string; merged_at?: string | null };
+}
+
+export interface GitHubIssueComment {
+  id: number;
+  body: string;
+  user: GitHubIssueUser;
+  created_at: string;
+  updated_at: string;
+  html_url: string;
+}
+
+export interface GitHubTimelineEvent {
+  event: string;
+  created_at?: string;
+  source?: {
+    type: string;
+    issue?: GitHubIssue;
+  };
+}
+
+/**
+ * Pull request that references or closes an issue
+ */
+export interface GitHubLinkedPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  state: "open" | "closed" | "merged";
+  url: string;
+  repository: string;
+  author: string;
+  created: string;
+  updated: string;
+}
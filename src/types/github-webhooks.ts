@@ -111,7 +111,143 @@ export type WebhookEvent = PullRequestReviewEvent | PullRequestReviewCommentEven
 /**
  * Webhook event type identifiers (from X-GitHub-Event header)
  */
-export type WebhookEventType = "pull_request_review" | "pull_request_review_comment" | "ping";
+export type WebhookEventType =
+  | "pull_request_review"
+  | "pull_request_review_comment"
+  | "push"
+  | "check_run"
+  | "check_suite"
+  | "workflow_run"
+  | "issue_comment"
+  | "ping";
+
+/**
+ * Push event, used to rebase open intern PRs when their base branch moves
+ */
+export interface PushEvent {
+  /** Full ref, e.g. "refs/heads/main" */
+  ref: string;
+  before: string;
+  after: string;
+  deleted: boolean;
+  repository: GitHubRepository;
+  sender: GitHubUser;
+  installation?: GitHubInstallation;
+}
+
+/**
+ * Issue comment event. Comments in a pull request's conversation tab arrive as
+ * issue comments whose issue has a pull_request field.
+ */
+export interface IssueCommentEvent {
+  action: "created" | "edited" | "deleted";
+  issue: {
+    number: number;
+    title: string;
+    state: "open" | "closed";
+    html_url: string;
+    pull_request?: { url: string; html_url: string };
+  };
+  comment: {
+    id: number;
+    body: string;
+    user: GitHubUser;
+    html_url: string;
+    created_at: string;
+  };
+  repository: GitHubRepository;
+  sender: GitHubUser;
+  installation?: GitHubInstallation;
+}
+
+/**
+ * Pull request a check or workflow run was triggered for
+ */
+export interface CheckPullRequestRef {
+  number: number;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+export type CheckConclusion =
+  | "success"
+  | "failure"
+  | "neutral"
+  | "cancelled"
+  | "skipped"
+  | "timed_out"
+  | "action_required"
+  | "stale"
+  | null;
+
+/**
+ * Check run event (a single CI job)
+ */
+export interface CheckRunEvent {
+  action: "created" | "completed" | "rerequested" | "requested_action";
+  check_run: {
+    id: number;
+    name: string;
+    head_sha: string;
+    status: "queued" | "in_progress" | "completed";
+    conclusion: CheckConclusion;
+    html_url: string;
+    pull_requests: CheckPullRequestRef[];
+  };
+  repository: GitHubRepository;
+  sender: GitHubUser;
+  installation?: GitHubInstallation;
+}
+
+/**
+ * Check suite event (all check runs of one app for a commit)
+ */
+export interface CheckSuiteEvent {
+  action: "completed" | "requested" | "rerequested";
+  check_suite: {
+    id: number;
+    head_branch: string | null;
+    head_sha: string;
+    status: "queued" | "in_progress" | "completed";
+    conclusion: CheckConclusion;
+    app?: { slug: string; name: string };
+    pull_requests: CheckPullRequestRef[];
+  };
+  repository: GitHubRepository;
+  sender: GitHubUser;
+  installation?: GitHubInstallation;
+}
+
+/**
+ * GitHub Actions workflow run event
+ */
+export interface WorkflowRunEvent {
+  action: "requested" | "in_progress" | "completed";
+  workflow_run: {
+    id: number;
+    name: string;
+    head_branch: string | null;
+    head_sha: string;
+    status: string;
+    conclusion: CheckConclusion;
+    html_url: string;
+    pull_requests: CheckPullRequestRef[];
+  };
+  repository: GitHubRepository;
+  sender: GitHubUser;
+  installation?: GitHubInstallation;
+}
+
+/**
+ * Failed CI run taken from a check_run, check_suite or workflow_run event
+ */
+export interface CiFailure {
+  /** Check, app or workflow name */
+  name: string;
+  headSha: string;
+  conclusion: string;
+  prNumbers: number[];
+}
 
 /**
  * Ping event sent when webhook is first configured
@@ -167,6 +303,8 @@ export interface ProcessedReviewComment {
   body: string;
   reviewer: string;
   isReply: boolean;
+  /** GitLab discussion thread the comment belongs to (for replying/resolving) */
+  discussionId?: string;
 }
 
 export interface ProcessedConversationComment {
@@ -174,6 +312,8 @@ export interface ProcessedConversationComment {
   body: string;
   author: string;
   createdAt: string;
+  /** GitLab discussion thread the comment belongs to (for replying/resolving) */
+  discussionId?: string;
 }
 
 /**
@@ -183,8 +323,20 @@ export interface WebhookServerConfig {
   port: number;
   host: string;
   webhookSecret: string;
+  /** Secret token GitLab sends in X-Gitlab-Token (defaults to webhookSecret) */
+  gitlabWebhookToken?: string;
+  /** Shared secret for JIRA issue webhooks (JIRA endpoint disabled when empty) */
+  jiraWebhookSecret?: string;
   autoReview: boolean;
   autoReviewMaxIterations: number;
+  /** Rebase open intern PRs when a push moves their base branch */
+  autoRebase?: boolean;
+  /** Let Claude fix failed CI checks on PRs opened by the bot */
+  ciFix?: boolean;
+  /** PRs with this label get CI fixes too, whoever opened them */
+  ciFixLabel?: string;
+  /** Fix attempts per PR before leaving CI failures to a human */
+  ciFixMaxAttempts?: number;
   validateIp: boolean;
   debug: boolean;
 }
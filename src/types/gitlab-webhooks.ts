@@ -0,0 +1,105 @@
+/**
+ * GitLab Webhook Event Types
+ *
+ * These types represent the webhook payloads sent by GitLab for merge request events.
+ * Reference: https://docs.gitlab.com/ee/user/project/integrations/webhook_events.html
+ */
+
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+export interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+  default_branch: string;
+}
+
+export interface GitLabMergeRequestAttributes {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: "opened" | "closed" | "merged" | "locked";
+  source_branch: string;
+  target_branch: string;
+  url: string;
+  draft?: boolean;
+}
+
+export interface GitLabReviewer extends GitLabUser {
+  /** Review state (GitLab 17+), e.g., "requested_changes" */
+  state?: "unreviewed" | "reviewed" | "requested_changes" | "approved" | "unapproved";
+}
+
+/**
+ * Position of a diff note
+ */
+export interface GitLabNotePosition {
+  old_path: string | null;
+  new_path: string | null;
+  old_line: number | null;
+  new_line: number | null;
+}
+
+/**
+ * "Note Hook" event for a comment on a merge request
+ */
+export interface GitLabNoteEvent {
+  object_kind: "note";
+  user: GitLabUser;
+  project: GitLabProject;
+  object_attributes: {
+    id: number;
+    note: string;
+    noteable_type: "MergeRequest" | "Issue" | "Commit" | "Snippet";
+    discussion_id: string;
+    type: "DiffNote" | "DiscussionNote" | null;
+    system?: boolean;
+    position?: GitLabNotePosition | null;
+    url: string;
+  };
+  merge_request?: GitLabMergeRequestAttributes;
+}
+
+/**
+ * "Merge Request Hook" event
+ */
+export interface GitLabMergeRequestEvent {
+  object_kind: "merge_request";
+  user: GitLabUser;
+  project: GitLabProject;
+  object_attributes: GitLabMergeRequestAttributes & {
+    action?: string;
+  };
+  reviewers?: GitLabReviewer[];
+}
+
+export type GitLabWebhookEventType = "Note Hook" | "Merge Request Hook";
+
+/**
+ * Note inside a merge request discussion (REST API)
+ */
+export interface GitLabDiscussionNote {
+  id: number;
+  body: string;
+  author: GitLabUser;
+  system: boolean;
+  resolvable: boolean;
+  resolved?: boolean;
+  position?: GitLabNotePosition | null;
+  created_at: string;
+}
+
+/**
+ * Merge request discussion thread (REST API)
+ */
+export interface GitLabDiscussion {
+  id: string;
+  individual_note: boolean;
+  notes: GitLabDiscussionNote[];
+}
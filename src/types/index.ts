@@ -1,3 +1,5 @@
 // Main types export
+export * from './github-issues';
 export * from './jira';
-export * from './settings'; 
\ No newline at end of file
+export * from './linear';
+export * from './settings';
@@ -0,0 +1,56 @@
+/**
+ * JIRA Webhook Event Types
+ *
+ * These types represent the webhook payloads sent by JIRA for issue events.
+ * Reference: https://developer.atlassian.com/server/jira/platform/webhooks/
+ */
+
+export interface JiraWebhookUser {
+  accountId: string;
+  displayName: string;
+  emailAddress?: string;
+}
+
+export interface JiraChangelogItem {
+  field: string;
+  fieldId?: string;
+  fieldtype?: string;
+  from: string | null;
+  fromString: string | null;
+  to: string | null;
+  toString: string | null;
+}
+
+/**
+ * Comment included in "comment_created" events and in "jira:issue_updated" events for new comments
+ */
+export interface JiraWebhookComment {
+  id: string;
+  body: string;
+  author?: JiraWebhookUser;
+  created: string;
+}
+
+/**
+ * "jira:issue_updated" webhook event (also used for "comment_created")
+ */
+export interface JiraIssueUpdatedEvent {
+  webhookEvent: "jira:issue_updated" | "comment_created" | string;
+  timestamp: number;
+  user?: JiraWebhookUser;
+  issue: {
+    id: string;
+    key: string;
+    fields: {
+      summary?: string;
+      assignee?: JiraWebhookUser | null;
+      labels?: string[];
+      status?: { name: string };
+    };
+  };
+  changelog?: {
+    id: string;
+    items: JiraChangelogItem[];
+  };
+  comment?: JiraWebhookComment;
+}
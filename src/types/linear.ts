@@ -0,0 +1,92 @@
+// Linear GraphQL API types (only the fields claude-intern queries)
+
+export interface LinearUser {
+  id: string;
+  name: string;
+  displayName?: string;
+  email?: string;
+}
+
+export interface LinearTeam {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface LinearWorkflowState {
+  id: string;
+  name: string;
+  type: 'triage' | 'backlog' | 'unstarted' | 'started' | 'completed' | 'canceled' | string;
+}
+
+export interface LinearLabel {
+  id: string;
+  name: string;
+}
+
+export interface LinearIssueReference {
+  id: string;
+  identifier: string;
+  title: string;
+  priority: number;
+  priorityLabel: string;
+  state: LinearWorkflowState;
+}
+
+export interface LinearIssueRelation {
+  id: string;
+  type: 'blocks' | 'duplicate' | 'related' | 'similar' | string;
+  relatedIssue?: LinearIssueReference;
+  issue?: LinearIssueReference;
+}
+
+export interface LinearAttachment {
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  sourceType?: string;
+  createdAt: string;
+  creator?: LinearUser;
+}
+
+export interface LinearComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  user?: LinearUser;
+}
+
+export interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  url: string;
+  priority: number;
+  priorityLabel: string;
+  estimate?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  state: LinearWorkflowState;
+  team: LinearTeam;
+  assignee?: LinearUser | null;
+  creator?: LinearUser | null;
+  project?: { id: string; name: string } | null;
+  cycle?: { id: string; name?: string; number: number } | null;
+  parent?: LinearIssueReference | null;
+  labels: { nodes: LinearLabel[] };
+  children: { nodes: LinearIssueReference[] };
+  relations: { nodes: LinearIssueRelation[] };
+  inverseRelations: { nodes: LinearIssueRelation[] };
+  attachments: { nodes: LinearAttachment[] };
+}
+
+export interface LinearGraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{
+    message: string;
+    extensions?: Record<string, any>;
+  }>;
+}
@@ -1,9 +1,33 @@
 // Settings types for .claude-intern/settings.json
 
+import type { ReviewCheck, ReviewPersonaName } from "./auto-review";
+
 /**
  * Per-project configuration settings
  */
 export interface ProjectSettings {
+  /**
+   * Reviewer personas the auto-review loop runs for this repository, each iteration
+   * e.g., ["general", "security", "test-coverage"] (default: ["general"])
+   */
+  reviewPersonas?: ReviewPersonaName[];
+  /**
+   * Commands the auto-review loop runs before each review iteration
+   * Their failures become high-priority findings and block approval
+   * e.g., [{ "name": "typecheck", "command": "npm run typecheck" }]
+   */
+  reviewChecks?: ReviewCheck[];
+  /**
+   * Globs of files the auto-review loop leaves out, on top of lockfiles, generated and vendored paths
+   * Patterns without a slash match file names in any directory
+   * e.g., ["*.pb.go", "docs/api/**"]
+   */
+  reviewIgnore?: string[];
+  /**
+   * Diffs larger than this many characters are reviewed in parts grouped by directory,
+   * then merged into one review (default: 100000)
+   */
+  reviewMaxDiffChars?: number;
   /**
    * JIRA project configurations
    * Key is the JIRA project key (e.g., "PROJ", "ABC")
@@ -11,6 +35,12 @@ export interface ProjectSettings {
    */
   projects?: {
     [projectKey: string]: {
+      /**
+       * Issue tracker that owns this project/team key (any registered tracker name)
+       * Defaults to "jira", or "linear" when only LINEAR_API_KEY is configured
+       * e.g., "linear" for a Linear team key like "ENG"
+       */
+      tracker?: string;
       /**
        * JIRA status to transition to after PR creation
        * e.g., "In Review", "Code Review", "Ready for Review"
@@ -26,12 +56,62 @@ export interface ProjectSettings {
        * e.g., "To Do", "Backlog", "Open"
        */
       todoStatus?: string;
+      /**
+       * JIRA status to transition to when the feasibility check has questions for the reporter
+       * The task is re-assessed once the questions are answered in a comment
+       * e.g., "Needs Info", "Waiting for Reporter"
+       */
+      needsInfoStatus?: string;
       /**
        * Custom field ID or name for story points
        * If not set, auto-discovery will search for "Story Points" or "Story point estimate" fields
        * e.g., "customfield_10016"
        */
       storyPointsField?: string;
+      /**
+       * Labels to add to created pull/merge requests (GitLab)
+       * e.g., ["claude-intern", "needs-review"]
+       */
+      prLabels?: string[];
+      /**
+       * Open pull/merge requests as drafts
+       */
+      prDraft?: boolean;
+      /**
+       * Rules that start an implementation from a JIRA issue_updated webhook
+       * The task runs when any configured rule matches the change
+       */
+      webhookTriggers?: WebhookTriggerSettings;
+      /**
+       * Maximum agent spend per task in USD, across all runs for the task
+       * Work on the task stops once it is reached, e.g., 5
+       */
+      maxCostPerTask?: number;
+      /**
+       * Maximum agent spend per calendar month (UTC) for the project in USD
+       * e.g., 200
+       */
+      monthlyBudget?: number;
     };
   };
 }
+
+/**
+ * JIRA webhook trigger rules for a project
+ */
+export interface WebhookTriggerSettings {
+  /**
+   * Trigger when the issue is assigned to this user (account ID, display name or email)
+   * e.g., "Claude Intern"
+   */
+  assignee?: string;
+  /**
+   * Trigger when any of these labels is added
+   * e.g., ["ai-ready"]
+   */
+  labels?: string[];
+  /**
+   * Target branch for the pull request (default: "main")
+   */
+  prTargetBranch?: string;
+}
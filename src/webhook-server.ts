@@ -3,25 +3,44 @@
 /**
  * Webhook Server for Claude Intern
  *
- * Listens for GitHub PR review events and automatically addresses
- * review feedback using Claude.
+ * Listens for GitHub PR review events and GitLab merge request notes and
+ * automatically addresses review feedback using Claude. Also starts task
+ * implementations from JIRA issue webhooks.
  */
 
 import { spawn, type ChildProcess } from "child_process";
-import { existsSync, mkdirSync, unlinkSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
 import { createServer, type IncomingMessage, type ServerResponse } from "http";
-import { join } from "path";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
 import PQueue from "p-queue";
+import { createAgentRunner, getAgentTimeoutMinutes } from "./lib/agent-runner";
 import { GitHubAppAuth } from "./lib/github-app-auth";
 import { GitHubReviewsClient } from "./lib/github-reviews";
+import { GitLabReviewsClient } from "./lib/gitlab-reviews";
+import {
+  matchClarificationAnswer,
+  matchJiraTrigger,
+  verifyJiraWebhook,
+  type JiraTriggerMatch,
+} from "./lib/jira-webhook-handler";
+import { getClarificationStore } from "./lib/clarifications";
 import { WebhookQueue } from "./lib/webhook-queue";
 import { formatReviewPrompt } from "./lib/review-formatter";
 import { Utils } from "./lib/utils";
 import { runClaudeToFixGitHook } from "./lib/git-hook-fixer";
 import { runAutoReviewLoop } from "./lib/auto-review-loop";
+import { rebasePR } from "./lib/rebase-pr";
+import { fixFailedChecks } from "./lib/ci-fixer";
+import { handlePRCommandComment } from "./lib/pr-commands";
+import { getReviewAccounting, type AgentRunAccounting } from "./lib/usage-ledger";
 import {
+  containsBotMention,
+  getCiFailure,
+  getPushedBranch,
   handlePingEvent,
   isGitHubIP,
+  isInternPullRequest,
   parseEventType,
   processReviewComment,
   processReviewEvent,
@@ -29,21 +48,46 @@ import {
   shouldProcessReview,
   verifyWebhookSignature,
 } from "./lib/webhook-handler";
+import {
+  getFeedbackDiscussionIds,
+  parseGitLabEventType,
+  processGitLabDiscussions,
+  processGitLabMergeRequest,
+  shouldProcessGitLabMergeRequest,
+  shouldProcessGitLabNote,
+  verifyGitLabToken,
+} from "./lib/gitlab-webhook-handler";
 import type {
+  CheckRunEvent,
+  CheckSuiteEvent,
+  IssueCommentEvent,
   PingEvent,
   ProcessedReviewComment,
   ProcessedReviewFeedback,
   PullRequestReviewEvent,
+  PushEvent,
   WebhookServerConfig,
+  WorkflowRunEvent,
 } from "./types/github-webhooks";
+import type {
+  GitLabMergeRequestEvent,
+  GitLabNoteEvent,
+} from "./types/gitlab-webhooks";
+import type { JiraIssueUpdatedEvent } from "./types/jira-webhooks";
 
 // Default configuration
 const DEFAULT_CONFIG: WebhookServerConfig = {
   port: parseInt(process.env.WEBHOOK_PORT || "3000", 10),
   host: process.env.WEBHOOK_HOST || "0.0.0.0",
   webhookSecret: process.env.WEBHOOK_SECRET || "",
+  gitlabWebhookToken: process.env.GITLAB_WEBHOOK_TOKEN || "",
+  jiraWebhookSecret: process.env.JIRA_WEBHOOK_SECRET || "",
   autoReview: process.env.WEBHOOK_AUTO_REVIEW === "true",
   autoReviewMaxIterations: parseInt(process.env.WEBHOOK_AUTO_REVIEW_MAX_ITERATIONS || "5", 10),
+  autoRebase: process.env.WEBHOOK_AUTO_REBASE === "true",
+  ciFix: process.env.WEBHOOK_CI_FIX === "true",
+  ciFixLabel: process.env.WEBHOOK_CI_FIX_LABEL || "",
+  ciFixMaxAttempts: parseInt(process.env.WEBHOOK_CI_FIX_MAX_ATTEMPTS || "3", 10),
   validateIp: process.env.WEBHOOK_VALIDATE_IP === "true",
   debug: process.env.WEBHOOK_DEBUG === "true",
 };
@@ -57,6 +101,9 @@ const reviewQueue = new PQueue({ concurrency: 1 });
 // Persistent webhook queue (initialized in startWebhookServer)
 let webhookQueue: WebhookQueue | null = null;
 
+// JIRA tasks queued or running, to ignore duplicate triggers for the same issue
+const activeJiraTasks = new Set<string>();
+
 // Cleanup rate limiter periodically
 setInterval(() => rateLimiter.cleanup(), 60000);
 // Note: We use a single reusable worktree, so no periodic cleanup needed
@@ -263,9 +310,7 @@ async function handleWebhook(
 
     // Add to queue for sequential processing (prevents race conditions)
     // Bot mention check happens inside processReviewAsync after fetching comments
-    reviewQueue.add(() => processReviewWithPersistence(eventId, event, config)).catch((error) => {
-      console.error("❌ Error processing review:", error);
-    });
+    withPersistence(eventId, "processing review", () => processReviewAsync(event, config));
 
     const duration = Date.now() - startTime;
     return jsonResponse({
@@ -278,6 +323,127 @@ async function handleWebhook(
     });
   }
 
+  // Handle push event: rebase open intern PRs onto the updated base branch
+  if (eventType === "push") {
+    const event = payload as PushEvent;
+    const branch = getPushedBranch(event);
+
+    if (!config.autoRebase || !branch) {
+      const reason = !config.autoRebase ? "auto-rebase disabled" : "not a branch update";
+      debugLog(config, `Skipping push to ${event.ref}: ${reason}`);
+      return jsonResponse({
+        success: true,
+        message: "Push does not require processing",
+        reason,
+      });
+    }
+
+    console.log(`\n🔔 Received push to ${branch}`);
+    console.log(`   Repository: ${event.repository.full_name}`);
+
+    let eventId: string | undefined;
+    if (webhookQueue) {
+      eventId = webhookQueue.enqueue("push", event);
+      debugLog(config, `Persisted event ${eventId} to queue`);
+    }
+
+    withPersistence(eventId, "rebasing pull requests", () => processPushAsync(event, config));
+
+    const duration = Date.now() - startTime;
+    return jsonResponse({
+      success: true,
+      message: "Rebase of open pull requests started",
+      eventId,
+      branch,
+      repository: event.repository.full_name,
+      processingTime: `${duration}ms`,
+    });
+  }
+
+  // Handle CI events: fix failed checks on intern PRs
+  if (eventType === "check_run" || eventType === "check_suite" || eventType === "workflow_run") {
+    const event = payload as CheckRunEvent | CheckSuiteEvent | WorkflowRunEvent;
+    const failure = config.ciFix ? getCiFailure(eventType, event) : null;
+
+    if (!failure) {
+      const reason = !config.ciFix ? "CI fixes disabled" : "not a failed pull request run";
+      debugLog(config, `Skipping ${eventType} (${event.action}): ${reason}`);
+      return jsonResponse({
+        success: true,
+        message: "CI event does not require processing",
+        reason,
+      });
+    }
+
+    console.log(`\n🔔 Received failed ${eventType} "${failure.name}" (${failure.conclusion})`);
+    console.log(`   Repository: ${event.repository.full_name}`);
+    console.log(`   PR(s): ${failure.prNumbers.map((number) => `#${number}`).join(", ")}`);
+
+    let eventId: string | undefined;
+    if (webhookQueue) {
+      eventId = webhookQueue.enqueue(eventType, event);
+      debugLog(config, `Persisted event ${eventId} to queue`);
+    }
+
+    withPersistence(eventId, "fixing CI failures", () => processCiFailureAsync(eventType, event, config));
+
+    const duration = Date.now() - startTime;
+    return jsonResponse({
+      success: true,
+      message: "CI fix started",
+      eventId,
+      prNumbers: failure.prNumbers,
+      repository: event.repository.full_name,
+      processingTime: `${duration}ms`,
+    });
+  }
+
+  // Handle issue_comment event: "@bot <command>" in a PR conversation
+  if (eventType === "issue_comment") {
+    const event = payload as IssueCommentEvent;
+
+    // Quick payload-only checks; the bot mention and permission are checked when processing
+    let reason: string | null = null;
+    if (event.action !== "created") {
+      reason = `action=${event.action}`;
+    } else if (!event.issue.pull_request) {
+      reason = "not a pull request";
+    } else if (event.comment.user.type === "Bot") {
+      reason = "commenter is a bot";
+    } else if (!event.comment.body.includes("@")) {
+      reason = "no mention";
+    }
+    if (reason) {
+      debugLog(config, `Skipping issue comment: ${reason}`);
+      return jsonResponse({
+        success: true,
+        message: "Comment does not require processing",
+        reason,
+      });
+    }
+
+    console.log(`\n🔔 Received comment on PR #${event.issue.number} from @${event.comment.user.login}`);
+    console.log(`   Repository: ${event.repository.full_name}`);
+
+    let eventId: string | undefined;
+    if (webhookQueue) {
+      eventId = webhookQueue.enqueue("issue_comment", event);
+      debugLog(config, `Persisted event ${eventId} to queue`);
+    }
+
+    withPersistence(eventId, "processing PR command", () => processIssueCommentAsync(event, config));
+
+    const duration = Date.now() - startTime;
+    return jsonResponse({
+      success: true,
+      message: "Comment processing started",
+      eventId,
+      prNumber: event.issue.number,
+      repository: event.repository.full_name,
+      processingTime: `${duration}ms`,
+    });
+  }
+
   // Handle pull_request_review_comment event (optional - for individual comments)
   if (eventType === "pull_request_review_comment") {
     // For now, we only process full reviews, not individual comments
@@ -292,115 +458,500 @@ async function handleWebhook(
 }
 
 /**
- * Wrapper for processReviewAsync that handles persistence.
+ * Handle incoming GitLab webhook request (Note Hook and Merge Request Hook).
  */
-async function processReviewWithPersistence(
-  eventId: string | undefined,
-  event: PullRequestReviewEvent,
+async function handleGitLabWebhook(
+  request: Request,
   config: WebhookServerConfig
-): Promise<void> {
-  // Mark as processing
-  if (eventId && webhookQueue) {
-    webhookQueue.markProcessing(eventId);
+): Promise<Response> {
+  const startTime = Date.now();
+
+  // Get client IP for rate limiting and logging
+  const clientIp =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+
+  debugLog(config, `Incoming GitLab request from ${clientIp}`);
+
+  // Rate limiting
+  if (!rateLimiter.isAllowed(clientIp)) {
+    console.log(`⚠️  Rate limit exceeded for ${clientIp}`);
+    return jsonResponse(
+      { error: "Rate limit exceeded" },
+      429
+    );
+  }
+
+  // Verify secret token
+  const verification = verifyGitLabToken(
+    request.headers.get("x-gitlab-token"),
+    config.gitlabWebhookToken || config.webhookSecret
+  );
+
+  if (!verification.valid) {
+    console.log(`❌ GitLab token verification failed: ${verification.error}`);
+    return jsonResponse(
+      { error: "Invalid token", details: verification.error },
+      401
+    );
+  }
+
+  // Parse event type
+  const eventType = parseGitLabEventType(request.headers.get("x-gitlab-event"));
+  if (!eventType) {
+    return jsonResponse(
+      { error: "Unsupported event type" },
+      400
+    );
   }
 
+  debugLog(config, `GitLab event type: ${eventType}`);
+
+  // Parse payload
+  let payload: GitLabNoteEvent | GitLabMergeRequestEvent;
   try {
-    await processReviewAsync(event, config);
+    payload = JSON.parse(await request.text());
+  } catch (error) {
+    return jsonResponse(
+      { error: "Invalid JSON payload" },
+      400
+    );
+  }
 
-    // Mark as completed (removes from queue)
-    if (eventId && webhookQueue) {
-      webhookQueue.markCompleted(eventId);
+  // Quick payload-only checks (no API calls — respond 200 fast)
+  // Bot mention check happens inside processGitLabReviewAsync
+  let mergeRequestIid: number | undefined;
+  if (eventType === "Note Hook" && payload.object_kind === "note") {
+    const note = payload.object_attributes;
+    if (
+      note.noteable_type !== "MergeRequest" ||
+      note.system ||
+      payload.merge_request?.state !== "opened"
+    ) {
+      debugLog(config, `Skipping: note on ${note.noteable_type} is not actionable`);
+      return jsonResponse({
+        success: true,
+        message: "Note does not require processing",
+      });
     }
-  } catch (error) {
-    // Mark as failed (will retry if under max retries)
-    if (eventId && webhookQueue) {
-      webhookQueue.markFailed(eventId, (error as Error).message);
+    mergeRequestIid = payload.merge_request.iid;
+  } else if (eventType === "Merge Request Hook" && payload.object_kind === "merge_request") {
+    if (!shouldProcessGitLabMergeRequest(payload)) {
+      debugLog(config, "Skipping: no reviewer requested changes");
+      return jsonResponse({
+        success: true,
+        message: "Merge request does not require processing",
+      });
     }
-    throw error; // Re-throw so the queue's catch handler logs it
+    mergeRequestIid = payload.object_attributes.iid;
+  } else {
+    return jsonResponse({ error: "Event type does not match payload" }, 400);
+  }
+
+  console.log(`\n🔔 Received GitLab ${eventType} for MR !${mergeRequestIid}`);
+  console.log(`   Project: ${payload.project.path_with_namespace}`);
+  console.log(`   Author: ${payload.user.username}`);
+
+  // Persist event to SQLite before processing (crash resilience)
+  let eventId: string | undefined;
+  if (webhookQueue) {
+    eventId = webhookQueue.enqueue(`gitlab_${payload.object_kind}`, payload);
+    debugLog(config, `Persisted event ${eventId} to queue`);
   }
+
+  withPersistence(eventId, "processing GitLab review", () => processGitLabReviewAsync(payload, config));
+
+  const duration = Date.now() - startTime;
+  return jsonResponse({
+    success: true,
+    message: "Review processing started",
+    eventId,
+    mergeRequestIid,
+    repository: payload.project.path_with_namespace,
+    processingTime: `${duration}ms`,
+  });
 }
 
 /**
- * Mark review comments as addressed by adding a hooray reaction.
+ * Match a JIRA event against the trigger rules, or as an answer to clarification questions.
  */
-async function markCommentsAsAddressed(
-  client: GitHubReviewsClient,
-  owner: string,
-  repo: string,
-  comments: ProcessedReviewComment[],
-  verbose = false
-): Promise<void> {
-  if (comments.length === 0) {
-    return;
+function matchJiraEvent(
+  payload: JiraIssueUpdatedEvent,
+  settings = Utils.loadProjectSettings()
+): JiraTriggerMatch | null {
+  const clarification = payload.issue?.key
+    ? getClarificationStore().get(payload.issue.key)
+    : null;
+  return (
+    matchJiraTrigger(payload, settings) ||
+    matchClarificationAnswer(payload, clarification, settings)
+  );
+}
+
+/**
+ * Handle incoming JIRA webhook request (jira:issue_updated and comment_created).
+ */
+async function handleJiraWebhook(
+  request: Request,
+  config: WebhookServerConfig
+): Promise<Response> {
+  if (!config.jiraWebhookSecret) {
+    return jsonResponse({ error: "JIRA webhook not configured" }, 404);
   }
 
-  const topLevelComments = comments.filter(c => !c.isReply);
-  const replyCount = comments.length - topLevelComments.length;
+  // Get client IP for rate limiting and logging
+  const clientIp =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
 
-  if (replyCount > 0) {
-    console.log(`   Skipping ${replyCount} reply comment(s) (only marking top-level)`);
+  debugLog(config, `Incoming JIRA request from ${clientIp}`);
+
+  // Rate limiting
+  if (!rateLimiter.isAllowed(clientIp)) {
+    console.log(`⚠️  Rate limit exceeded for ${clientIp}`);
+    return jsonResponse(
+      { error: "Rate limit exceeded" },
+      429
+    );
   }
 
-  if (topLevelComments.length === 0) {
-    console.log(`   No top-level comments to mark`);
-    return;
+  const rawBody = await request.text();
+
+  // Verify shared secret
+  const verification = verifyJiraWebhook(
+    rawBody,
+    request.headers.get("x-hub-signature"),
+    new URL(request.url).searchParams.get("secret"),
+    config.jiraWebhookSecret
+  );
+
+  if (!verification.valid) {
+    console.log(`❌ JIRA webhook verification failed: ${verification.error}`);
+    return jsonResponse(
+      { error: "Invalid secret", details: verification.error },
+      401
+    );
   }
 
-  console.log(`🎉 Marking ${topLevelComments.length} comment(s) as addressed...`);
-  let successCount = 0;
-  let failCount = 0;
+  // Parse payload
+  let payload: JiraIssueUpdatedEvent;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    return jsonResponse(
+      { error: "Invalid JSON payload" },
+      400
+    );
+  }
 
-  for (const comment of topLevelComments) {
-    try {
-      await client.addReactionToComment(owner, repo, comment.id, "hooray");
-      successCount++;
-    } catch (error) {
-      failCount++;
-      // Always log failures - they indicate a real problem
-      console.warn(`   ⚠️  Failed to add reaction to comment ${comment.id}: ${(error as Error).message}`);
-    }
+  const match = matchJiraEvent(payload);
+  if (!match) {
+    debugLog(config, `Skipping: ${payload.issue?.key || "event"} does not match any trigger`);
+    return jsonResponse({
+      success: true,
+      message: "Issue update does not match any trigger",
+    });
   }
 
-  if (successCount > 0) {
-    console.log(`✅ Marked ${successCount} comment(s) as addressed with 🎉 reaction`);
+  if (activeJiraTasks.has(match.taskKey)) {
+    console.log(`⏭️  ${match.taskKey} is already queued, ignoring duplicate trigger`);
+    return jsonResponse({
+      success: true,
+      message: "Task already queued",
+      taskKey: match.taskKey,
+    });
   }
-  if (failCount > 0) {
-    console.warn(`⚠️  Failed to mark ${failCount} comment(s)`);
+
+  console.log(`\n🔔 JIRA task ${match.taskKey} triggered: ${match.reason}`);
+
+  // Persist event to SQLite before processing (crash resilience)
+  let eventId: string | undefined;
+  if (webhookQueue) {
+    eventId = webhookQueue.enqueue("jira_issue_updated", payload);
+    debugLog(config, `Persisted event ${eventId} to queue`);
   }
+
+  activeJiraTasks.add(match.taskKey);
+  withPersistence(eventId, `implementing ${match.taskKey}`, () => processJiraTaskAsync(match, config));
+
+  return jsonResponse({
+    success: true,
+    message: "Task implementation queued",
+    eventId,
+    taskKey: match.taskKey,
+    reason: match.reason,
+  });
 }
 
 /**
- * Process a review asynchronously.
+ * Implement a JIRA task, releasing its slot in activeJiraTasks when done.
  */
-async function processReviewAsync(
-  event: PullRequestReviewEvent,
+async function processJiraTaskAsync(match: JiraTriggerMatch, config: WebhookServerConfig): Promise<void> {
+  try {
+    await runTaskImplementation(match, config);
+  } finally {
+    activeJiraTasks.delete(match.taskKey);
+  }
+}
+
+/**
+ * Path of the CLI entry point: src/index.ts when running from source, or dist/index.js
+ * in the build, where this module is bundled into it.
+ */
+export function getCliEntryPath(moduleDir = dirname(fileURLToPath(import.meta.url))): string {
+  const sourceEntry = join(moduleDir, "index.ts");
+  return existsSync(sourceEntry) ? sourceEntry : join(moduleDir, "index.js");
+}
+
+/**
+ * Run the regular CLI flow for a task (clarity check, implementation, PR, transitions)
+ * in its own worktree, leaving the server's checkout and the review worktree alone.
+ */
+async function runTaskImplementation(
+  match: JiraTriggerMatch,
   config: WebhookServerConfig
 ): Promise<void> {
-  const [owner, repo] = event.repository.full_name.split("/");
-  const prNumber = event.pull_request.number;
-  const branch = event.pull_request.head.ref;
-
-  console.log(`\n📋 Processing review for ${owner}/${repo}#${prNumber}`);
+  const worktree = await Utils.prepareTaskWorktree(match.taskKey, match.prTargetBranch, {
+    verbose: config.debug,
+  });
+  if (!worktree.success || !worktree.path) {
+    throw new Error(`Failed to prepare worktree for ${match.taskKey}: ${worktree.error}`);
+  }
 
   try {
-    // Initialize GitHub client
-    const githubClient = new GitHubReviewsClient();
+    await spawnTaskImplementation(match, config, worktree.path);
+  } finally {
+    // The feature branch lives in the shared repository, so the worktree can go
+    await Utils.removeReviewWorktree(worktree.path, { verbose: config.debug });
+  }
+}
 
-    // Get GitHub App author info if available (for commit attribution)
-    let gitAuthor: { name: string; email: string } | undefined;
-    if (!process.env.GITHUB_TOKEN) {
-      const githubAppAuth = GitHubAppAuth.fromEnvironment();
-      if (githubAppAuth) {
-        try {
-          gitAuthor = await githubAppAuth.getGitAuthor();
-          debugLog(config, `Commits will be authored by: ${gitAuthor.name}`);
-        } catch (error) {
-          debugLog(config, `Could not get GitHub App author info: ${(error as Error).message}`);
-        }
-      }
+function spawnTaskImplementation(
+  match: JiraTriggerMatch,
+  config: WebhookServerConfig,
+  workDir: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const args = [
+      getCliEntryPath(),
+      match.taskKey,
+      "--create-pr",
+      "--pr-target-branch",
+      match.prTargetBranch,
+      // Creating the feature branch brings the target branch up to date from origin
+      "--no-pull",
+    ];
+    if (config.autoReview) {
+      args.push("--auto-review", "--auto-review-iterations", String(config.autoReviewMaxIterations));
     }
 
-    // Fetch ALL review comments for the PR (not just from this review)
+    console.log(`🤖 Implementing ${match.taskKey} (${match.reason}) in ${workDir}...`);
+    debugLog(config, `Command: ${process.execPath} ${args.join(" ")}`);
+
+    const child: ChildProcess = spawn(process.execPath, args, {
+      cwd: workDir,
+      stdio: ["ignore", "inherit", "inherit"],
+    });
+
+    child.on("error", (error: Error) => {
+      reject(new Error(`Failed to start implementation: ${error.message}`));
+    });
+
+    child.on("close", (code: number | null) => {
+      if (code === 0) {
+        console.log(`\n✅ Finished processing ${match.taskKey}`);
+        resolve();
+      } else {
+        reject(new Error(`Implementation of ${match.taskKey} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Queue a job for a persisted event: marks the event processing while the job runs,
+ * completed (removed from the queue) when it succeeds, and failed (retried if under
+ * max retries) when it throws. Errors are logged as "Error <label>".
+ */
+function withPersistence(eventId: string | undefined, label: string, fn: () => Promise<void>): void {
+  reviewQueue
+    .add(async () => {
+      if (eventId && webhookQueue) {
+        webhookQueue.markProcessing(eventId);
+      }
+
+      try {
+        await fn();
+
+        if (eventId && webhookQueue) {
+          webhookQueue.markCompleted(eventId);
+        }
+      } catch (error) {
+        if (eventId && webhookQueue) {
+          webhookQueue.markFailed(eventId, (error as Error).message);
+        }
+        throw error;
+      }
+    })
+    .catch((error) => {
+      console.error(`❌ Error ${label}:`, error);
+    });
+}
+
+/**
+ * Rebase every open intern pull request targeting the pushed branch.
+ * Rebase failures are reported on the pull request instead of being retried.
+ */
+async function processPushAsync(event: PushEvent, config: WebhookServerConfig): Promise<void> {
+  const branch = getPushedBranch(event);
+  if (!branch) {
+    return;
+  }
+
+  const [owner, repo] = event.repository.full_name.split("/");
+  const pullRequests = (
+    await new GitHubReviewsClient().listOpenPullRequests(owner, repo, branch)
+  ).filter(isInternPullRequest);
+
+  if (pullRequests.length === 0) {
+    console.log(`   No open intern pull requests target ${branch}`);
+    return;
+  }
+
+  console.log(`   Rebasing ${pullRequests.length} pull request(s) onto ${branch}`);
+  for (const pr of pullRequests) {
+    try {
+      const result = await rebasePR(pr.html_url, { verbose: config.debug });
+      console.log(`${result.success ? "✅" : "⚠️ "} PR #${pr.number}: ${result.message}`);
+    } catch (error) {
+      console.error(`❌ Failed to rebase PR #${pr.number}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Fix the failed checks of every PR a CI event reports on.
+ * Failed fixes are reported on the PR and count towards its attempt limit instead of being retried.
+ */
+async function processCiFailureAsync(
+  eventType: "check_run" | "check_suite" | "workflow_run",
+  event: CheckRunEvent | CheckSuiteEvent | WorkflowRunEvent,
+  config: WebhookServerConfig
+): Promise<void> {
+  const failure = getCiFailure(eventType, event);
+  if (!failure) {
+    return;
+  }
+
+  const [owner, repo] = event.repository.full_name.split("/");
+  for (const prNumber of failure.prNumbers) {
+    try {
+      const result = await fixFailedChecks(owner, repo, prNumber, failure.headSha, {
+        label: config.ciFixLabel,
+        maxAttempts: config.ciFixMaxAttempts,
+        verbose: config.debug,
+      });
+      console.log(`${result.success ? "✅" : "⚠️ "} PR #${prNumber}: ${result.message}`);
+    } catch (error) {
+      console.error(`❌ Failed to fix CI on PR #${prNumber}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Run a PR conversation command. Failed commands are reported on the PR, not retried.
+ */
+async function processIssueCommentAsync(event: IssueCommentEvent, config: WebhookServerConfig): Promise<void> {
+  const result = await handlePRCommandComment(event, {
+    autoReviewMaxIterations: config.autoReviewMaxIterations,
+    verbose: config.debug,
+  });
+  console.log(`${result.success ? "✅" : "⚠️ "} PR #${event.issue.number}: ${result.message}`);
+}
+
+/**
+ * Mark review comments as addressed by adding a hooray reaction.
+ */
+async function markCommentsAsAddressed(
+  client: GitHubReviewsClient,
+  owner: string,
+  repo: string,
+  comments: ProcessedReviewComment[],
+  verbose = false
+): Promise<void> {
+  if (comments.length === 0) {
+    return;
+  }
+
+  const topLevelComments = comments.filter(c => !c.isReply);
+  const replyCount = comments.length - topLevelComments.length;
+
+  if (replyCount > 0) {
+    console.log(`   Skipping ${replyCount} reply comment(s) (only marking top-level)`);
+  }
+
+  if (topLevelComments.length === 0) {
+    console.log(`   No top-level comments to mark`);
+    return;
+  }
+
+  console.log(`🎉 Marking ${topLevelComments.length} comment(s) as addressed...`);
+  let successCount = 0;
+  let failCount = 0;
+
+  for (const comment of topLevelComments) {
+    try {
+      await client.addReactionToComment(owner, repo, comment.id, "hooray");
+      successCount++;
+    } catch (error) {
+      failCount++;
+      // Always log failures - they indicate a real problem
+      console.warn(`   ⚠️  Failed to add reaction to comment ${comment.id}: ${(error as Error).message}`);
+    }
+  }
+
+  if (successCount > 0) {
+    console.log(`✅ Marked ${successCount} comment(s) as addressed with 🎉 reaction`);
+  }
+  if (failCount > 0) {
+    console.warn(`⚠️  Failed to mark ${failCount} comment(s)`);
+  }
+}
+
+/**
+ * Process a review asynchronously.
+ */
+async function processReviewAsync(
+  event: PullRequestReviewEvent,
+  config: WebhookServerConfig
+): Promise<void> {
+  const [owner, repo] = event.repository.full_name.split("/");
+  const prNumber = event.pull_request.number;
+  const branch = event.pull_request.head.ref;
+
+  console.log(`\n📋 Processing review for ${owner}/${repo}#${prNumber}`);
+
+  try {
+    // Initialize GitHub client
+    const githubClient = new GitHubReviewsClient();
+
+    // Get GitHub App author info if available (for commit attribution)
+    let gitAuthor: { name: string; email: string } | undefined;
+    if (!process.env.GITHUB_TOKEN) {
+      const githubAppAuth = GitHubAppAuth.fromEnvironment();
+      if (githubAppAuth) {
+        try {
+          gitAuthor = await githubAppAuth.getGitAuthor();
+          debugLog(config, `Commits will be authored by: ${gitAuthor.name}`);
+        } catch (error) {
+          debugLog(config, `Could not get GitHub App author info: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // Fetch ALL review comments for the PR (not just from this review)
     console.log("📥 Fetching review comments...");
     const allRawComments = await githubClient.getPullRequestReviewComments(
       owner,
@@ -462,352 +1013,519 @@ async function processReviewAsync(
     // Build feedback object
     const feedback = processReviewEvent(event, processedComments);
 
-    // Prepare the single reusable worktree for this review
-    console.log(`🌿 Preparing worktree for branch: ${branch}`);
-    const worktreePath = await prepareRepository(branch, config.debug);
-
-    if (!worktreePath) {
-      console.error("❌ Failed to prepare repository");
+    const addressed = await addressFeedbackInWorktree(
+      feedback,
+      event.pull_request.base.ref,
+      config,
+      { gitAuthor, botName: botName || undefined }
+    );
+    if (!addressed) {
       return;
     }
 
-    // Set git config for bot author if available (so Claude's commits are attributed to bot)
-    if (gitAuthor) {
-      await Utils.executeGitCommand(["config", "user.name", gitAuthor.name], { verbose: config.debug, cwd: worktreePath });
-      await Utils.executeGitCommand(["config", "user.email", gitAuthor.email], { verbose: config.debug, cwd: worktreePath });
-      console.log(`🤖 Git author set to: ${gitAuthor.name}`);
+    // Mark comments as addressed with hooray reaction
+    await markCommentsAsAddressed(githubClient, owner, repo, processedComments, config.debug);
+
+    console.log(`\n✅ Successfully addressed review for PR #${prNumber}`);
+  } catch (error) {
+    console.error(`❌ Error processing review: ${(error as Error).message}`);
+    if (config.debug) {
+      console.error((error as Error).stack);
+    }
+  }
+  // Note: We don't cleanup the worktree - it's reused across reviews for efficiency
+}
+
+/**
+ * Reply in each addressed GitLab discussion thread and resolve it.
+ */
+async function markDiscussionsAsAddressed(
+  client: GitLabReviewsClient,
+  projectId: number,
+  iid: number,
+  discussionIds: string[]
+): Promise<void> {
+  if (discussionIds.length === 0) {
+    return;
+  }
+
+  console.log(`🎉 Resolving ${discussionIds.length} discussion(s)...`);
+  let successCount = 0;
+  let failCount = 0;
+
+  for (const discussionId of discussionIds) {
+    try {
+      await client.replyToDiscussion(
+        projectId,
+        iid,
+        discussionId,
+        "✅ Addressed by Claude Intern in the latest push."
+      );
+      await client.resolveDiscussion(projectId, iid, discussionId);
+      successCount++;
+    } catch (error) {
+      failCount++;
+      console.warn(`   ⚠️  Failed to resolve discussion ${discussionId}: ${(error as Error).message}`);
     }
+  }
 
-    // Check if this is an auto-review trigger (e.g., "@bot enhance", "@bot improve")
-    const reviewBody = event.review.body;
-    const isAutoReviewRequest = isAutoReviewTrigger(reviewBody, botName || undefined);
+  if (successCount > 0) {
+    console.log(`✅ Replied to and resolved ${successCount} discussion(s)`);
+  }
+  if (failCount > 0) {
+    console.warn(`⚠️  Failed to resolve ${failCount} discussion(s)`);
+  }
+}
 
-    if (isAutoReviewRequest && config.autoReview) {
-      console.log(`\n🔄 Auto-review trigger detected: "${reviewBody?.trim()}"`);
-      console.log("   Skipping normal review flow, running auto-review loop directly...");
+/**
+ * Process a GitLab merge request review asynchronously.
+ */
+async function processGitLabReviewAsync(
+  event: GitLabNoteEvent | GitLabMergeRequestEvent,
+  config: WebhookServerConfig
+): Promise<void> {
+  const project = event.project;
+  const mergeRequest =
+    event.object_kind === "note" ? event.merge_request : event.object_attributes;
 
-      const autoReviewOutputDir = `/tmp/claude-intern-auto-review-${prNumber}`;
-      const baseBranch = event.pull_request.base.ref;
-      try {
-        const autoReviewResult = await runAutoReviewLoop({
-          repository: `${owner}/${repo}`,
-          prNumber,
-          prBranch: branch,
-          baseBranch,
-          claudePath: process.env.CLAUDE_CLI_PATH || "claude",
-          maxIterations: config.autoReviewMaxIterations,
-          minPriority: "medium",
-          workingDir: worktreePath,
-          outputDir: autoReviewOutputDir,
-        });
+  if (!mergeRequest) {
+    console.log("⏭️  Skipping note: not attached to a merge request");
+    return;
+  }
 
-        if (autoReviewResult.success) {
-          console.log(`✅ Auto-review completed successfully after ${autoReviewResult.iterations} iteration(s)`);
-        } else {
-          console.warn(`⚠️  Auto-review completed but some issues remain after ${autoReviewResult.iterations} iteration(s)`);
-        }
+  const iid = mergeRequest.iid;
+  console.log(`\n📋 Processing review for ${project.path_with_namespace}!${iid}`);
 
-        console.log(`\n✅ Successfully completed auto-review for PR #${prNumber}`);
-        return;
-      } catch (error) {
-        console.error(`❌ Auto-review loop failed: ${(error as Error).message}`);
-        // Don't fall through to normal flow - just return
+  try {
+    const gitlabClient = new GitLabReviewsClient();
+    const botName = (await gitlabClient.getBotUsername()) || undefined;
+    debugLog(config, `Bot username: ${botName || "unknown"}`);
+
+    if (event.object_kind === "note" && !shouldProcessGitLabNote(event, botName)) {
+      const reason = botName
+        ? `No @${botName} mention found in note`
+        : "No bot mention found in note";
+      console.log(`⏭️  Skipping note: ${reason}`);
+      return;
+    }
+
+    // Fetch all discussions for the MR, keeping unresolved threads
+    console.log("📥 Fetching merge request discussions...");
+    const discussions = await gitlabClient.getMergeRequestDiscussions(project.id, iid);
+    const processedDiscussions = processGitLabDiscussions(discussions, botName);
+    const unresolvedCount =
+      processedDiscussions.comments.length + processedDiscussions.conversationComments.length;
+    console.log(`   Found ${discussions.length} discussion(s), ${unresolvedCount} unresolved note(s) to address`);
+
+    // Merge request events have no triggering note, so require a mention in the threads
+    if (event.object_kind === "merge_request") {
+      const mentioned = [
+        ...processedDiscussions.comments.map((c) => c.body),
+        ...processedDiscussions.conversationComments.map((c) => c.body),
+      ].some((body) => containsBotMention(body, botName));
+      if (!mentioned) {
+        const reason = botName
+          ? `No @${botName} mention found in unresolved discussions`
+          : "No bot mention found in unresolved discussions";
+        console.log(`⏭️  Skipping merge request: ${reason}`);
         return;
       }
     }
 
-    // Format prompt for Claude
-    const prompt = formatReviewPrompt(feedback);
+    const feedback = processGitLabMergeRequest(
+      mergeRequest,
+      project,
+      event.user.username,
+      event.object_kind === "note" ? event.object_attributes.note : null,
+      processedDiscussions
+    );
+
+    const addressed = await addressFeedbackInWorktree(
+      feedback,
+      mergeRequest.target_branch,
+      config,
+      { botName }
+    );
+    if (!addressed) {
+      return;
+    }
+
+    // Reply in the threads and resolve them
+    await markDiscussionsAsAddressed(
+      gitlabClient,
+      project.id,
+      iid,
+      getFeedbackDiscussionIds(feedback)
+    );
+
+    console.log(`\n✅ Successfully addressed review for MR !${iid}`);
+  } catch (error) {
+    console.error(`❌ Error processing GitLab review: ${(error as Error).message}`);
+    if (config.debug) {
+      console.error((error as Error).stack);
+    }
+  }
+}
 
-    // Save prompt to file (outside worktree to avoid git issues)
-    const promptFile = `/tmp/claude-intern-review-prompt-${prNumber}.md`;
-    writeFileSync(promptFile, prompt, "utf8");
-    console.log(`💾 Saved review prompt to: ${promptFile}`);
+/**
+ * Address review feedback in the review worktree: run Claude, commit, validate
+ * hooks, optionally run the auto-review loop, and push.
+ * Shared by the GitHub and GitLab review flows.
+ * Returns true when the review comments were addressed and can be marked as such.
+ */
+async function addressFeedbackInWorktree(
+  feedback: ProcessedReviewFeedback,
+  baseBranch: string,
+  config: WebhookServerConfig,
+  options: { gitAuthor?: { name: string; email: string }; botName?: string } = {}
+): Promise<boolean> {
+  const prNumber = feedback.prNumber;
+  const branch = feedback.branch;
+  const accounting = getReviewAccounting(
+    "address-review",
+    feedback.repository,
+    prNumber,
+    feedback.prTitle,
+    branch
+  );
+  const hookFixAccounting: AgentRunAccounting = { ...accounting, kind: "hook-fix" };
 
-    // Run Claude to address the feedback
-    console.log("🤖 Running Claude to address review feedback...");
-    const claudeResult = await runClaudeForReview(promptFile, worktreePath);
+  // Prepare the single reusable worktree for this review
+  console.log(`🌿 Preparing worktree for branch: ${branch}`);
+  const worktreePath = await prepareRepository(branch, config.debug);
 
-    // Clean up prompt file
+  if (!worktreePath) {
+    console.error("❌ Failed to prepare repository");
+    return false;
+  }
+
+  // Set git config for bot author if available (so Claude's commits are attributed to bot)
+  if (options.gitAuthor) {
+    await Utils.executeGitCommand(["config", "user.name", options.gitAuthor.name], { verbose: config.debug, cwd: worktreePath });
+    await Utils.executeGitCommand(["config", "user.email", options.gitAuthor.email], { verbose: config.debug, cwd: worktreePath });
+    console.log(`🤖 Git author set to: ${options.gitAuthor.name}`);
+  }
+
+  // Check if this is an auto-review trigger (e.g., "@bot enhance", "@bot improve")
+  const reviewBody = feedback.reviewBody;
+  const isAutoReviewRequest = isAutoReviewTrigger(reviewBody, options.botName);
+
+  if (isAutoReviewRequest && config.autoReview) {
+    console.log(`\n🔄 Auto-review trigger detected: "${reviewBody?.trim()}"`);
+    console.log("   Skipping normal review flow, running auto-review loop directly...");
+
+    const autoReviewOutputDir = `/tmp/claude-intern-auto-review-${prNumber}`;
     try {
-      unlinkSync(promptFile);
-    } catch {
-      // Ignore cleanup errors
-    }
+      const autoReviewResult = await runAutoReviewLoop({
+        repository: feedback.repository,
+        prNumber,
+        prBranch: branch,
+        baseBranch,
+        claudePath: process.env.CLAUDE_CLI_PATH || "claude",
+        taskKey: accounting.notify === false ? undefined : accounting.taskKey,
+        maxIterations: config.autoReviewMaxIterations,
+        minPriority: "medium",
+        workingDir: worktreePath,
+        outputDir: autoReviewOutputDir,
+      });
 
-    // Check for max turns error in output (Claude exits 0 but didn't complete)
-    const hitMaxTurns = claudeResult.output?.includes("Reached max turns");
+      if (autoReviewResult.success) {
+        console.log(`✅ Auto-review completed successfully after ${autoReviewResult.iterations} iteration(s)`);
+      } else {
+        console.warn(`⚠️  Auto-review completed but some issues remain after ${autoReviewResult.iterations} iteration(s)`);
+      }
 
-    if (!claudeResult.success) {
-      console.error(`❌ Claude failed: ${claudeResult.message}`);
-      return;
+      console.log(`\n✅ Successfully completed auto-review for PR #${prNumber}`);
+      return false;
+    } catch (error) {
+      console.error(`❌ Auto-review loop failed: ${(error as Error).message}`);
+      // Don't fall through to normal flow - just return
+      return false;
     }
+  }
 
-    if (hitMaxTurns) {
-      console.warn("⚠️  Claude hit max turns limit");
-    }
+  // Format prompt for Claude
+  const prompt = formatReviewPrompt(feedback);
+
+  // Save prompt to file (outside worktree to avoid git issues)
+  const promptFile = `/tmp/claude-intern-review-prompt-${prNumber}.md`;
+  writeFileSync(promptFile, prompt, "utf8");
+  console.log(`💾 Saved review prompt to: ${promptFile}`);
 
-    // Get hook retries configuration
-    const hookRetries = parseInt(process.env.HOOK_RETRIES || "10", 10);
-    const claudePath = process.env.CLAUDE_CLI_PATH || "claude";
-    const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+  // Run Claude to address the feedback
+  console.log("🤖 Running Claude to address review feedback...");
+  const claudeResult = await runClaudeForReview(promptFile, worktreePath, accounting);
 
-    // Verify Claude didn't switch branches during execution (e.g., checking out main for comparison)
-    const currentBranch = await Utils.getCurrentBranch(worktreePath);
-    if (currentBranch && currentBranch !== branch) {
-      console.warn(`⚠️  Claude switched from '${branch}' to '${currentBranch}' during execution, switching back...`);
-      const switchBack = await Utils.executeGitCommand(
+  // Clean up prompt file
+  try {
+    unlinkSync(promptFile);
+  } catch {
+    // Ignore cleanup errors
+  }
+
+  // Claude can exit 0 after hitting max turns without completing
+  const hitMaxTurns = claudeResult.maxTurnsReached;
+
+  if (!claudeResult.success) {
+    console.error(`❌ Claude failed: ${claudeResult.message}`);
+    return false;
+  }
+
+  if (hitMaxTurns) {
+    console.warn("⚠️  Claude hit max turns limit");
+  }
+
+  // Get hook retries configuration
+  const hookRetries = parseInt(process.env.HOOK_RETRIES || "10", 10);
+  const claudePath = process.env.CLAUDE_CLI_PATH || "claude";
+  const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+
+  // Verify Claude didn't switch branches during execution (e.g., checking out main for comparison)
+  const currentBranch = await Utils.getCurrentBranch(worktreePath);
+  if (currentBranch && currentBranch !== branch) {
+    console.warn(`⚠️  Claude switched from '${branch}' to '${currentBranch}' during execution, switching back...`);
+    const switchBack = await Utils.executeGitCommand(
+      ["checkout", branch],
+      { verbose: config.debug, cwd: worktreePath }
+    );
+    if (!switchBack.success) {
+      // If simple checkout fails (dirty state conflicts), try stashing first
+      console.warn(`   Simple checkout failed, trying stash + checkout...`);
+      await Utils.executeGitCommand(["stash", "--include-untracked"], { verbose: false, cwd: worktreePath });
+      const switchAfterStash = await Utils.executeGitCommand(
         ["checkout", branch],
         { verbose: config.debug, cwd: worktreePath }
       );
-      if (!switchBack.success) {
-        // If simple checkout fails (dirty state conflicts), try stashing first
-        console.warn(`   Simple checkout failed, trying stash + checkout...`);
-        await Utils.executeGitCommand(["stash", "--include-untracked"], { verbose: false, cwd: worktreePath });
-        const switchAfterStash = await Utils.executeGitCommand(
-          ["checkout", branch],
-          { verbose: config.debug, cwd: worktreePath }
-        );
-        if (switchAfterStash.success) {
-          await Utils.executeGitCommand(["stash", "pop"], { verbose: false, cwd: worktreePath });
-        } else {
-          console.error(`❌ Failed to switch back to branch '${branch}': ${switchAfterStash.error}`);
-          return;
-        }
+      if (switchAfterStash.success) {
+        await Utils.executeGitCommand(["stash", "pop"], { verbose: false, cwd: worktreePath });
+      } else {
+        console.error(`❌ Failed to switch back to branch '${branch}': ${switchAfterStash.error}`);
+        return false;
       }
-      console.log(`✅ Switched back to '${branch}'`);
     }
+    console.log(`✅ Switched back to '${branch}'`);
+  }
 
-    // Check for uncommitted changes (indicates Claude didn't commit or hook failed)
-    const hasUncommitted = await Utils.hasUncommittedChanges(worktreePath);
+  // Check for uncommitted changes (indicates Claude didn't commit or hook failed)
+  const hasUncommitted = await Utils.hasUncommittedChanges(worktreePath);
 
-    // Check if there are commits to push
-    const aheadResult = await Utils.executeGitCommand(
-      ["rev-list", "--count", `origin/${branch}..HEAD`],
-      { verbose: false, cwd: worktreePath }
-    );
-    const commitsAhead = parseInt(aheadResult.output?.trim() || "0", 10);
-
-    if (!hasUncommitted && commitsAhead === 0) {
-      console.warn("⚠️  No changes were made by Claude");
-      // Still continue to mark comments as addressed if Claude determined no changes needed
-    } else if (hasUncommitted) {
-      // Claude left uncommitted changes - try to commit with hook retry logic
-      console.log("\n📝 Claude left changes uncommitted, committing now...");
-
-      let commitAttempt = 0;
-      let commitSuccess = false;
-
-      while (commitAttempt <= hookRetries && !commitSuccess) {
-        commitAttempt++;
-        const commitResult = await Utils.commitChanges(
-          `PR-${prNumber}`,
-          `Address review feedback`,
-          { verbose: config.debug, author: gitAuthor, cwd: worktreePath }
-        );
-
-        if (commitResult.success) {
-          console.log("✅ Changes committed successfully");
-          commitSuccess = true;
-          break;
-        }
+  // Check if there are commits to push
+  const aheadResult = await Utils.executeGitCommand(
+    ["rev-list", "--count", `origin/${branch}..HEAD`],
+    { verbose: false, cwd: worktreePath }
+  );
+  const commitsAhead = parseInt(aheadResult.output?.trim() || "0", 10);
+
+  if (!hasUncommitted && commitsAhead === 0) {
+    console.warn("⚠️  No changes were made by Claude");
+    // Still continue to mark comments as addressed if Claude determined no changes needed
+  } else if (hasUncommitted) {
+    // Claude left uncommitted changes - try to commit with hook retry logic
+    console.log("\n📝 Claude left changes uncommitted, committing now...");
+
+    let commitAttempt = 0;
+    let commitSuccess = false;
+
+    while (commitAttempt <= hookRetries && !commitSuccess) {
+      commitAttempt++;
+      const commitResult = await Utils.commitChanges(
+        `PR-${prNumber}`,
+        `Address review feedback`,
+        { verbose: config.debug, author: options.gitAuthor, cwd: worktreePath }
+      );
 
-        // Check if this is a git hook error that we can try to fix
-        if (commitResult.hookError && commitAttempt <= hookRetries) {
-          console.log(`\n⚠️  Git pre-commit hook failed (attempt ${commitAttempt}/${hookRetries + 1})`);
+      if (commitResult.success) {
+        console.log("✅ Changes committed successfully");
+        commitSuccess = true;
+        break;
+      }
 
-          // Try to fix the hook error with Claude
-          const fixed = await runClaudeToFixGitHook("commit", claudePath, maxTurns, worktreePath);
+      // Check if this is a git hook error that we can try to fix
+      if (commitResult.hookError && commitAttempt <= hookRetries) {
+        console.log(`\n⚠️  Git pre-commit hook failed (attempt ${commitAttempt}/${hookRetries + 1})`);
 
-          if (fixed) {
-            console.log("\n🔄 Retrying commit after Claude fixed the issues...");
-            continue;
-          } else {
-            console.log("\n❌ Could not fix git hook errors automatically");
-            break;
-          }
+        // Try to fix the hook error with Claude
+        const fixed = await runClaudeToFixGitHook("commit", claudePath, maxTurns, worktreePath, hookFixAccounting);
+
+        if (fixed) {
+          console.log("\n🔄 Retrying commit after Claude fixed the issues...");
+          continue;
         } else {
-          // Not a hook error or out of retries
-          if (commitAttempt > hookRetries) {
-            console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
-          }
-          console.error(`\n❌ Failed to commit changes: ${commitResult.message}`);
-          return;
+          console.log("\n❌ Could not fix git hook errors automatically");
+          break;
+        }
+      } else {
+        // Not a hook error or out of retries
+        if (commitAttempt > hookRetries) {
+          console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
         }
+        console.error(`\n❌ Failed to commit changes: ${commitResult.message}`);
+        return false;
       }
+    }
 
-      if (!commitSuccess) {
-        console.error("❌ Failed to commit changes after retries");
-        return;
-      }
+    if (!commitSuccess) {
+      console.error("❌ Failed to commit changes after retries");
+      return false;
     }
+  }
 
-    // Re-check commits to push after potential commit
-    const finalAheadResult = await Utils.executeGitCommand(
-      ["rev-list", "--count", `origin/${branch}..HEAD`],
-      { verbose: false, cwd: worktreePath }
-    );
-    const finalCommitsAhead = parseInt(finalAheadResult.output?.trim() || "0", 10);
+  // Re-check commits to push after potential commit
+  const finalAheadResult = await Utils.executeGitCommand(
+    ["rev-list", "--count", `origin/${branch}..HEAD`],
+    { verbose: false, cwd: worktreePath }
+  );
+  const finalCommitsAhead = parseInt(finalAheadResult.output?.trim() || "0", 10);
+
+  if (finalCommitsAhead === 0) {
+    console.warn("⚠️  No new commits to push - Claude may not have made any changes");
+    // Still continue to mark comments as addressed
+  } else {
+    // Helper function for local hook validation with retry
+    const validateLocalHook = async (phase: string): Promise<boolean> => {
+      let attempt = 0;
+
+      while (attempt <= hookRetries) {
+        attempt++;
+        const hookResult = await Utils.runPrePushHookLocally({
+          verbose: config.debug,
+          cwd: worktreePath,
+        });
 
-    if (finalCommitsAhead === 0) {
-      console.warn("⚠️  No new commits to push - Claude may not have made any changes");
-      // Still continue to mark comments as addressed
-    } else {
-      // Helper function for local hook validation with retry
-      const validateLocalHook = async (phase: string): Promise<boolean> => {
-        let attempt = 0;
-
-        while (attempt <= hookRetries) {
-          attempt++;
-          const hookResult = await Utils.runPrePushHookLocally({
-            verbose: config.debug,
-            cwd: worktreePath,
-          });
-
-          if (hookResult.success) {
-            if (attempt === 1) {
-              console.log(`✅ ${hookResult.message}`);
-            } else {
-              console.log(`✅ Pre-push hook passed after ${attempt} attempt(s)`);
-            }
-            return true;
+        if (hookResult.success) {
+          if (attempt === 1) {
+            console.log(`✅ ${hookResult.message}`);
+          } else {
+            console.log(`✅ Pre-push hook passed after ${attempt} attempt(s)`);
           }
+          return true;
+        }
 
-          // Check if this is a hook error that we can try to fix
-          if (hookResult.hookError && attempt <= hookRetries) {
-            console.log(`\n⚠️  Pre-push hook failed during ${phase} (attempt ${attempt}/${hookRetries + 1})`);
+        // Check if this is a hook error that we can try to fix
+        if (hookResult.hookError && attempt <= hookRetries) {
+          console.log(`\n⚠️  Pre-push hook failed during ${phase} (attempt ${attempt}/${hookRetries + 1})`);
 
-            // Try to fix the hook error with Claude
-            const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, worktreePath);
+          // Try to fix the hook error with Claude
+          const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, worktreePath, hookFixAccounting);
 
-            if (fixed) {
-              console.log("\n🔄 Retrying local hook validation after Claude fixed the issues...");
-              continue;
-            } else {
-              console.log("\n❌ Could not fix pre-push hook errors automatically");
-              return false;
-            }
+          if (fixed) {
+            console.log("\n🔄 Retrying local hook validation after Claude fixed the issues...");
+            continue;
           } else {
-            // Not a hook error or out of retries
-            if (attempt > hookRetries) {
-              console.log(`\n❌ Max retries (${hookRetries}) exceeded for pre-push hook fixes`);
-            }
-            console.error(`\n❌ Pre-push hook validation failed: ${hookResult.message}`);
+            console.log("\n❌ Could not fix pre-push hook errors automatically");
             return false;
           }
+        } else {
+          // Not a hook error or out of retries
+          if (attempt > hookRetries) {
+            console.log(`\n❌ Max retries (${hookRetries}) exceeded for pre-push hook fixes`);
+          }
+          console.error(`\n❌ Pre-push hook validation failed: ${hookResult.message}`);
+          return false;
         }
+      }
 
-        return false;
-      };
+      return false;
+    };
 
-      // Step 1: Validate pre-push hook locally BEFORE any push
-      console.log("\n🔍 Validating pre-push hook locally (before pushing)...");
-      const initialHookValid = await validateLocalHook("initial validation");
+    // Step 1: Validate pre-push hook locally BEFORE any push
+    console.log("\n🔍 Validating pre-push hook locally (before pushing)...");
+    const initialHookValid = await validateLocalHook("initial validation");
 
-      if (!initialHookValid) {
-        console.error("❌ Cannot proceed without passing pre-push hook validation");
-        return;
-      }
+    if (!initialHookValid) {
+      console.error("❌ Cannot proceed without passing pre-push hook validation");
+      return false;
+    }
 
-      // Step 2: Run auto-review loop with skipPush if enabled
-      // This allows all improvements to be made locally before pushing
-      let autoReviewRan = false;
-      if (config.autoReview) {
-        console.log("\n🔄 Running auto-review loop (without pushing)...");
-        const autoReviewOutputDir = `/tmp/claude-intern-auto-review-${prNumber}`;
-        const baseBranchForReview = event.pull_request.base.ref;
-        try {
-          const autoReviewResult = await runAutoReviewLoop({
-            repository: `${owner}/${repo}`,
-            prNumber,
-            prBranch: branch,
-            baseBranch: baseBranchForReview,
-            claudePath: process.env.CLAUDE_CLI_PATH || "claude",
-            maxIterations: config.autoReviewMaxIterations,
-            minPriority: "medium",
-            workingDir: worktreePath,
-            outputDir: autoReviewOutputDir,
-            skipPush: true, // Don't push during auto-review iterations
-          });
-
-          if (autoReviewResult.success) {
-            console.log(`✅ Auto-review completed successfully after ${autoReviewResult.iterations} iteration(s)`);
-          } else {
-            console.warn(`⚠️  Auto-review completed but some issues remain after ${autoReviewResult.iterations} iteration(s)`);
-          }
-          autoReviewRan = true;
+    // Step 2: Run auto-review loop with skipPush if enabled
+    // This allows all improvements to be made locally before pushing
+    let autoReviewRan = false;
+    if (config.autoReview) {
+      console.log("\n🔄 Running auto-review loop (without pushing)...");
+      const autoReviewOutputDir = `/tmp/claude-intern-auto-review-${prNumber}`;
+      try {
+        const autoReviewResult = await runAutoReviewLoop({
+          repository: feedback.repository,
+          prNumber,
+          prBranch: branch,
+          baseBranch,
+          claudePath: process.env.CLAUDE_CLI_PATH || "claude",
+          taskKey: accounting.notify === false ? undefined : accounting.taskKey,
+          maxIterations: config.autoReviewMaxIterations,
+          minPriority: "medium",
+          workingDir: worktreePath,
+          outputDir: autoReviewOutputDir,
+          skipPush: true, // Don't push during auto-review iterations
+        });
 
-          // Step 3: Re-validate local hook after auto-review (auto-review changes may have broken things)
-          console.log("\n🔍 Re-validating pre-push hook after auto-review improvements...");
-          const postAutoReviewHookValid = await validateLocalHook("post auto-review validation");
+        if (autoReviewResult.success) {
+          console.log(`✅ Auto-review completed successfully after ${autoReviewResult.iterations} iteration(s)`);
+        } else {
+          console.warn(`⚠️  Auto-review completed but some issues remain after ${autoReviewResult.iterations} iteration(s)`);
+        }
+        autoReviewRan = true;
 
-          if (!postAutoReviewHookValid) {
-            console.error("❌ Cannot proceed - auto-review changes failed pre-push hook validation");
-            return;
-          }
-        } catch (error) {
-          console.error(`❌ Auto-review loop failed: ${(error as Error).message}`);
-          // Continue with push even if auto-review fails
+        // Step 3: Re-validate local hook after auto-review (auto-review changes may have broken things)
+        console.log("\n🔍 Re-validating pre-push hook after auto-review improvements...");
+        const postAutoReviewHookValid = await validateLocalHook("post auto-review validation");
+
+        if (!postAutoReviewHookValid) {
+          console.error("❌ Cannot proceed - auto-review changes failed pre-push hook validation");
+          return false;
         }
+      } catch (error) {
+        console.error(`❌ Auto-review loop failed: ${(error as Error).message}`);
+        // Continue with push even if auto-review fails
       }
+    }
 
-      // Step 4: Now do the actual push (hooks already validated, should succeed)
-      console.log(`\n📤 Pushing ${finalCommitsAhead}${autoReviewRan ? "+ auto-review" : ""} commit(s)...`);
+    // Step 4: Now do the actual push (hooks already validated, should succeed)
+    console.log(`\n📤 Pushing ${finalCommitsAhead}${autoReviewRan ? "+ auto-review" : ""} commit(s)...`);
 
-      let pushAttempt = 0;
-      let pushSuccess = false;
+    let pushAttempt = 0;
+    let pushSuccess = false;
 
-      while (pushAttempt <= hookRetries && !pushSuccess) {
-        pushAttempt++;
-        const pushResult = await Utils.pushCurrentBranch({ verbose: config.debug, cwd: worktreePath });
+    while (pushAttempt <= hookRetries && !pushSuccess) {
+      pushAttempt++;
+      const pushResult = await Utils.pushCurrentBranch({ verbose: config.debug, cwd: worktreePath });
 
-        if (pushResult.success) {
-          console.log("✅ Changes pushed successfully");
-          pushSuccess = true;
-          break;
-        }
+      if (pushResult.success) {
+        console.log("✅ Changes pushed successfully");
+        pushSuccess = true;
+        break;
+      }
 
-        // Check if this is a git hook error that we can try to fix
-        if (pushResult.hookError && pushAttempt <= hookRetries) {
-          console.log(`\n⚠️  Git pre-push hook failed during actual push (attempt ${pushAttempt}/${hookRetries + 1})`);
+      // Check if this is a git hook error that we can try to fix
+      if (pushResult.hookError && pushAttempt <= hookRetries) {
+        console.log(`\n⚠️  Git pre-push hook failed during actual push (attempt ${pushAttempt}/${hookRetries + 1})`);
 
-          // Try to fix the hook error with Claude
-          const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, worktreePath);
+        // Try to fix the hook error with Claude
+        const fixed = await runClaudeToFixGitHook("push", claudePath, maxTurns, worktreePath, hookFixAccounting);
 
-          if (fixed) {
-            console.log("\n🔄 Retrying push after Claude fixed and amended the commit...");
-            continue;
-          } else {
-            console.log("\n❌ Could not fix git pre-push hook errors automatically");
-            break;
-          }
+        if (fixed) {
+          console.log("\n🔄 Retrying push after Claude fixed and amended the commit...");
+          continue;
         } else {
-          // Not a hook error or out of retries
-          if (pushAttempt > hookRetries) {
-            console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
-          }
-          console.error(`\n❌ Failed to push changes: ${pushResult.message}`);
-          return;
+          console.log("\n❌ Could not fix git pre-push hook errors automatically");
+          break;
         }
-      }
-
-      if (!pushSuccess) {
-        console.error("❌ Failed to push changes after retries");
-        return;
+      } else {
+        // Not a hook error or out of retries
+        if (pushAttempt > hookRetries) {
+          console.log(`\n❌ Max retries (${hookRetries}) exceeded for git hook fixes`);
+        }
+        console.error(`\n❌ Failed to push changes: ${pushResult.message}`);
+        return false;
       }
     }
 
-    // Mark comments as addressed with hooray reaction
-    await markCommentsAsAddressed(githubClient, owner, repo, processedComments, config.debug);
-
-    console.log(`\n✅ Successfully addressed review for PR #${prNumber}`);
-  } catch (error) {
-    console.error(`❌ Error processing review: ${(error as Error).message}`);
-    if (config.debug) {
-      console.error((error as Error).stack);
+    if (!pushSuccess) {
+      console.error("❌ Failed to push changes after retries");
+      return false;
     }
   }
-  // Note: We don't cleanup the worktree - it's reused across reviews for efficiency
+
+  return true;
 }
 
 /**
@@ -844,96 +1562,59 @@ async function prepareRepository(
  */
 async function runClaudeForReview(
   promptFile: string,
-  workDir: string
-): Promise<{ success: boolean; message: string; output?: string }> {
-  return new Promise((resolve) => {
-    const claudePath = process.env.CLAUDE_CLI_PATH || "claude";
-    const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
-
-    const timeoutMinutes = parseInt(process.env.CLAUDE_TIMEOUT_MINUTES || "60", 10);
-
-    console.log(`   Command: ${claudePath} -p --dangerously-skip-permissions --max-turns ${maxTurns}`);
-    console.log(`   Timeout: ${timeoutMinutes} minutes`);
-
-    let stdoutOutput = "";
-    let stderrOutput = "";
-    let timedOut = false;
-
-    const claude: ChildProcess = spawn(
-      claudePath,
-      ["-p", "--dangerously-skip-permissions", "--max-turns", maxTurns.toString()],
-      {
-        cwd: workDir,
-        stdio: ["pipe", "pipe", "pipe"],
-      }
-    );
-
-    const timeout = setTimeout(() => {
-      timedOut = true;
-      console.error(`\n⏰ Claude process timed out after ${timeoutMinutes} minutes, killing...`);
-      claude.kill("SIGTERM");
-      // Force kill after 10 seconds if SIGTERM doesn't work
-      setTimeout(() => {
-        if (!claude.killed) {
-          claude.kill("SIGKILL");
-        }
-      }, 10_000);
-    }, timeoutMinutes * 60 * 1000);
-
-    if (claude.stdout) {
-      claude.stdout.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stdoutOutput += output;
-        process.stdout.write(output);
-      });
-    }
-
-    if (claude.stderr) {
-      claude.stderr.on("data", (data: Buffer) => {
-        const output = data.toString();
-        stderrOutput += output;
-        process.stderr.write(output);
-      });
-    }
+  workDir: string,
+  accounting: AgentRunAccounting
+): Promise<{ success: boolean; message: string; output?: string; maxTurnsReached?: boolean }> {
+  const runner = createAgentRunner(undefined, accounting);
+  const maxTurns = parseInt(process.env.CLAUDE_MAX_TURNS || "500", 10);
+
+  const timeoutMinutes = getAgentTimeoutMinutes();
+
+  console.log(`   Command: ${runner.describeCommand(maxTurns)}`);
+  console.log(`   Timeout: ${timeoutMinutes} minutes`);
+
+  const result = await runner.run({
+    prompt: readFileSync(promptFile, "utf8"),
+    maxTurns,
+    cwd: workDir,
+    timeoutMinutes,
+    stream: true,
+  });
 
-    claude.on("error", (error: NodeJS.ErrnoException) => {
-      clearTimeout(timeout);
-      resolve({
+  switch (result.status) {
+    case "not_found":
+    case "spawn_error":
+      return {
         success: false,
-        message: `Failed to run Claude: ${error.message}`,
-      });
-    });
-
-    claude.on("close", (code: number | null) => {
-      clearTimeout(timeout);
-      if (timedOut) {
-        resolve({
-          success: false,
-          message: `Claude timed out after ${timeoutMinutes} minutes`,
-          output: stdoutOutput,
-        });
-      } else if (code === 0) {
-        resolve({
+        message: `Failed to run Claude: ${result.error}`,
+      };
+    case "budget_exceeded":
+      return {
+        success: false,
+        message: result.error || "Budget exhausted",
+      };
+    case "timeout":
+      return {
+        success: false,
+        message: `Claude timed out after ${timeoutMinutes} minutes`,
+        output: result.output,
+      };
+    default:
+      if (result.exitCode === 0) {
+        return {
           success: true,
           message: "Claude completed successfully",
-          output: stdoutOutput,
-        });
-      } else {
-        resolve({
-          success: false,
-          message: `Claude exited with code ${code}`,
-          output: stdoutOutput,
-        });
+          output: result.output,
+          maxTurnsReached: result.status === "max_turns",
+        };
       }
-    });
-
-    // Send prompt content to Claude
-    if (claude.stdin) {
-      const promptContent = require("fs").readFileSync(promptFile, "utf8");
-      claude.stdin.write(promptContent);
-      claude.stdin.end();
-    }
-  });
+      return {
+        success: false,
+        message: `Claude exited with code ${result.exitCode}`,
+        output: result.output,
+        maxTurnsReached: result.status === "max_turns",
+      };
+  }
 }
 
 /**
@@ -1002,7 +1683,10 @@ export async function startWebhookServer(
   console.log(`   Port: ${finalConfig.port}`);
   console.log(`   Host: ${finalConfig.host}`);
   console.log(`   Auto-review: ${finalConfig.autoReview}${finalConfig.autoReview ? ` (max ${finalConfig.autoReviewMaxIterations} iterations)` : ""}`);
+  console.log(`   Auto-rebase: ${finalConfig.autoRebase}`);
+  console.log(`   CI fixes: ${finalConfig.ciFix}${finalConfig.ciFix ? ` (max ${finalConfig.ciFixMaxAttempts} attempts per PR${finalConfig.ciFixLabel ? `, label "${finalConfig.ciFixLabel}"` : ""})` : ""}`);
   console.log(`   IP validation: ${finalConfig.validateIp}`);
+  console.log(`   JIRA triggers: ${finalConfig.jiraWebhookSecret ? "enabled" : "disabled (set JIRA_WEBHOOK_SECRET)"}`);
   console.log(`   Debug mode: ${finalConfig.debug}`);
 
   // Log bot username for debugging
@@ -1031,14 +1715,57 @@ export async function startWebhookServer(
   if (pendingEvents.length > 0) {
     console.log(`\n🔄 Recovering ${pendingEvents.length} pending event(s) from previous run...`);
     for (const event of pendingEvents) {
+      const recovered = `processing recovered event ${event.id}`;
       try {
+        if (event.eventType === "jira_issue_updated") {
+          const match = matchJiraEvent(
+            JSON.parse(event.payload) as JiraIssueUpdatedEvent,
+            Utils.loadProjectSettings()
+          );
+          if (!match || activeJiraTasks.has(match.taskKey)) {
+            webhookQueue.markCompleted(event.id);
+            continue;
+          }
+          console.log(`   Requeueing: JIRA task ${match.taskKey}`);
+          activeJiraTasks.add(match.taskKey);
+          withPersistence(event.id, recovered, () => processJiraTaskAsync(match, finalConfig));
+          continue;
+        }
+
+        if (event.eventType.startsWith("gitlab_")) {
+          const gitlabPayload = JSON.parse(event.payload) as GitLabNoteEvent | GitLabMergeRequestEvent;
+          console.log(`   Requeueing: GitLab ${gitlabPayload.object_kind} (${gitlabPayload.project.path_with_namespace})`);
+          withPersistence(event.id, recovered, () => processGitLabReviewAsync(gitlabPayload, finalConfig));
+          continue;
+        }
+
+        if (event.eventType === "push") {
+          const pushPayload = JSON.parse(event.payload) as PushEvent;
+          console.log(`   Requeueing: push to ${pushPayload.ref} (${pushPayload.repository.full_name})`);
+          withPersistence(event.id, recovered, () => processPushAsync(pushPayload, finalConfig));
+          continue;
+        }
+
+        if (event.eventType === "check_run" || event.eventType === "check_suite" || event.eventType === "workflow_run") {
+          const eventType = event.eventType;
+          const ciPayload = JSON.parse(event.payload) as CheckRunEvent | CheckSuiteEvent | WorkflowRunEvent;
+          console.log(`   Requeueing: ${eventType} (${ciPayload.repository.full_name})`);
+          withPersistence(event.id, recovered, () => processCiFailureAsync(eventType, ciPayload, finalConfig));
+          continue;
+        }
+
+        if (event.eventType === "issue_comment") {
+          const commentPayload = JSON.parse(event.payload) as IssueCommentEvent;
+          console.log(`   Requeueing: comment on PR #${commentPayload.issue.number} (${commentPayload.repository.full_name})`);
+          withPersistence(event.id, recovered, () => processIssueCommentAsync(commentPayload, finalConfig));
+          continue;
+        }
+
         const payload = JSON.parse(event.payload) as PullRequestReviewEvent;
         console.log(`   Requeueing: PR #${payload.pull_request.number} (${payload.repository.full_name})`);
 
         // Add to processing queue
-        reviewQueue.add(() => processReviewWithPersistence(event.id, payload, finalConfig)).catch((error) => {
-          console.error(`❌ Error processing recovered event ${event.id}:`, error);
-        });
+        withPersistence(event.id, recovered, () => processReviewAsync(payload, finalConfig));
       } catch (error) {
         console.error(`   ⚠️  Failed to parse event ${event.id}: ${(error as Error).message}`);
         webhookQueue.markFailed(event.id, `Failed to parse: ${(error as Error).message}`);
@@ -1081,12 +1808,52 @@ export async function startWebhookServer(
         return;
       }
 
+      // GitLab webhook endpoint
+      if (path === "/webhooks/gitlab" && method === "POST") {
+        const body = await readBody(req);
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (value) {
+            headers.set(key, Array.isArray(value) ? value[0] : value);
+          }
+        }
+        const request = new Request(url.toString(), {
+          method: "POST",
+          headers,
+          body,
+        });
+        const response = await handleGitLabWebhook(request, finalConfig);
+        sendResponse(res, response);
+        return;
+      }
+
+      // JIRA webhook endpoint
+      if (path === "/webhooks/jira" && method === "POST") {
+        const body = await readBody(req);
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (value) {
+            headers.set(key, Array.isArray(value) ? value[0] : value);
+          }
+        }
+        const request = new Request(url.toString(), {
+          method: "POST",
+          headers,
+          body,
+        });
+        const response = await handleJiraWebhook(request, finalConfig);
+        sendResponse(res, response);
+        return;
+      }
+
       // Root endpoint (info)
       if (path === "/" && method === "GET") {
         const response = jsonResponse({
           service: "Claude Intern Webhook Server",
           endpoints: {
             webhook: "POST /webhooks/github",
+            gitlabWebhook: "POST /webhooks/gitlab",
+            jiraWebhook: "POST /webhooks/jira",
             health: "GET /health",
           },
         });
@@ -1108,6 +1875,12 @@ export async function startWebhookServer(
   console.log("");
   console.log("📝 Configure your GitHub App webhook URL to:");
   console.log(`   https://your-domain/webhooks/github`);
+  console.log("   GitLab project webhooks (Comments, Merge request events) to:");
+  console.log(`   https://your-domain/webhooks/gitlab`);
+  if (finalConfig.jiraWebhookSecret) {
+    console.log("   JIRA issue_updated webhooks to:");
+    console.log(`   https://your-domain/webhooks/jira`);
+  }
   console.log("");
   console.log("Press Ctrl+C to stop the server");
 }
@@ -0,0 +1,194 @@
+import { describe, test, expect } from "bun:test";
+import {
+  findPlanOutput,
+  formatAgentEvent,
+  getAgentOutputText,
+  isMaxTurnsRun,
+  parseStreamJson,
+  parseStreamJsonLine,
+} from "../src/lib/agent-event-log";
+import { extractClaudeSummary } from "../src/lib/review-formatter";
+
+function toStreamJson(messages: object[]): string {
+  return messages.map((message) => JSON.stringify(message)).join("\n") + "\n";
+}
+
+function assistant(...content: object[]): object {
+  return { type: "assistant", message: { content } };
+}
+
+const successfulRun = toStreamJson([
+  { type: "system", subtype: "init", session_id: "sess-42", model: "claude-sonnet" },
+  assistant({ type: "text", text: "Let me look at the exporter." }),
+  assistant({ type: "tool_use", id: "t1", name: "Read", input: { file_path: "/repo/src/export.ts" } }),
+  { type: "user", message: { content: [{ type: "tool_result", tool_use_id: "t1", content: "..." }] } },
+  assistant(
+    { type: "tool_use", id: "t2", name: "Edit", input: { file_path: "/repo/src/export.ts" } },
+    { type: "tool_use", id: "t3", name: "Write", input: { file_path: "/repo/tests/export.test.ts" } }
+  ),
+  assistant({ type: "tool_use", id: "t4", name: "Edit", input: { file_path: "/repo/src/export.ts" } }),
+  {
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    num_turns: 6,
+    result: "## Summary\n\nAdded CSV export.\n\n## Notes\n\nNone.",
+    session_id: "sess-42",
+    total_cost_usd: 0.4213,
+    usage: { input_tokens: 1200, output_tokens: 300, cache_read_input_tokens: 5000 },
+  },
+]);
+
+describe("Agent Event Log", () => {
+  describe("parseStreamJsonLine", () => {
+    test("should ignore non-JSON lines", () => {
+      expect(parseStreamJsonLine("plain text")).toBeNull();
+      expect(parseStreamJsonLine("{not json")).toBeNull();
+    });
+
+    test("should split assistant messages into text and tool call events", () => {
+      const events = parseStreamJsonLine(
+        JSON.stringify(
+          assistant(
+            { type: "text", text: "Running tests" },
+            { type: "tool_use", id: "t9", name: "Bash", input: { command: "bun test" } }
+          )
+        )
+      );
+
+      expect(events).toEqual([
+        { type: "text", text: "Running tests" },
+        { type: "tool_call", id: "t9", name: "Bash", input: { command: "bun test" } },
+      ]);
+    });
+
+    test("should report the token usage of assistant messages", () => {
+      const line = {
+        type: "assistant",
+        message: {
+          id: "msg_1",
+          model: "claude-sonnet-4-5",
+          content: [{ type: "text", text: "Done" }],
+          usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 300 },
+        },
+      };
+
+      expect(parseStreamJsonLine(JSON.stringify(line))).toEqual([
+        { type: "text", text: "Done" },
+        {
+          type: "usage",
+          messageId: "msg_1",
+          model: "claude-sonnet-4-5",
+          usage: { inputTokens: 10, outputTokens: 20, cacheCreationInputTokens: 0, cacheReadInputTokens: 300 },
+        },
+      ]);
+    });
+  });
+
+  describe("parseStreamJson", () => {
+    test("should summarise tool calls, edited files, result, turns and cost", () => {
+      const log = parseStreamJson(successfulRun);
+
+      expect(log).not.toBeNull();
+      expect(log?.toolCalls.map((call) => call.name)).toEqual(["Read", "Edit", "Write", "Edit"]);
+      expect(log?.editedFiles).toEqual(["/repo/src/export.ts", "/repo/tests/export.test.ts"]);
+      expect(log?.resultText).toStartWith("## Summary\n\nAdded CSV export.");
+      expect(log?.turns).toBe(6);
+      expect(log?.costUsd).toBe(0.4213);
+      expect(log?.sessionId).toBe("sess-42");
+      expect(log?.usage).toEqual({
+        inputTokens: 1200,
+        outputTokens: 300,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 5000,
+      });
+      expect(isMaxTurnsRun(log!)).toBe(false);
+    });
+
+    test("should return null for plain text output", () => {
+      expect(parseStreamJson("Done!\nAll tests pass.")).toBeNull();
+    });
+
+    test("should detect max turns and fall back to the last text", () => {
+      const log = parseStreamJson(
+        toStreamJson([
+          assistant({ type: "text", text: "Still working on it" }),
+          { type: "result", subtype: "error_max_turns", is_error: true, num_turns: 10 },
+        ])
+      )!;
+
+      expect(isMaxTurnsRun(log)).toBe(true);
+      expect(getAgentOutputText(log)).toBe("Still working on it");
+    });
+  });
+
+  describe("findPlanOutput", () => {
+    test("should return the plan file written by the agent", () => {
+      const log = parseStreamJson(
+        toStreamJson([
+          assistant({
+            type: "tool_use",
+            id: "t1",
+            name: "Write",
+            input: { file_path: "/home/dev/.claude/plans/export.md" },
+          }),
+          { type: "result", subtype: "success", result: "The plan is ready." },
+        ])
+      )!;
+
+      expect(findPlanOutput(log)).toBe("/home/dev/.claude/plans/export.md");
+    });
+
+    test("should detect plan mode without a plan file", () => {
+      const log = parseStreamJson(
+        toStreamJson([
+          assistant({ type: "tool_use", id: "t1", name: "ExitPlanMode", input: { plan: "1. Do it" } }),
+        ])
+      )!;
+
+      expect(findPlanOutput(log)).toBe("PLAN_DETECTED_NO_PATH");
+    });
+
+    test("should not flag runs that mention a plan but only edited code", () => {
+      expect(findPlanOutput(parseStreamJson(successfulRun)!)).toBeNull();
+    });
+  });
+
+  describe("formatAgentEvent", () => {
+    test("should render tool calls and results for the terminal", () => {
+      expect(
+        formatAgentEvent({ type: "tool_call", id: "t1", name: "Bash", input: { command: "bun test\n--watch" } })
+      ).toBe("🔧 Bash: bun test");
+      expect(
+        formatAgentEvent({
+          type: "result",
+          subtype: "success",
+          isError: false,
+          text: "done",
+          turns: 4,
+          costUsd: 0.5,
+          usage: null,
+          sessionId: null,
+        })
+      ).toBe("📈 Finished: success (4 turns, $0.50)");
+      expect(formatAgentEvent({ type: "tool_result", toolUseId: "t1", isError: false })).toBeNull();
+    });
+  });
+
+  describe("extractClaudeSummary", () => {
+    test("should read the summary from the result message", () => {
+      expect(extractClaudeSummary("", parseStreamJson(successfulRun))).toBe("Added CSV export.");
+    });
+
+    test("should list edited files when the result has no summary", () => {
+      const log = parseStreamJson(
+        toStreamJson([
+          assistant({ type: "tool_use", id: "t1", name: "Edit", input: { file_path: "src/a.ts" } }),
+          { type: "result", subtype: "success", result: "Done." },
+        ])
+      );
+
+      expect(extractClaudeSummary("", log)).toBe("**Files changed:**\n- `src/a.ts`");
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from "bun:test";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ClaudeAgentRunner,
+  CommandTemplateAgentRunner,
+  classifyAgentExit,
+  createAgentRunner,
+  parseCommandTemplate,
+} from "../src/lib/agent-runner";
+
+describe("Agent Runner", () => {
+  let testDir: string;
+  let fakeClaude: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), "agent-runner-test-"));
+    fakeClaude = join(testDir, "fake-claude");
+    writeFileSync(fakeClaude, '#!/bin/sh\necho "args: $*"\ncat\n');
+    chmodSync(fakeClaude, 0o755);
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("parseCommandTemplate", () => {
+    test("should split on whitespace and honour quotes", () => {
+      expect(parseCommandTemplate(`agent run --message "fix the bug" --name 'a b'`)).toEqual([
+        "agent",
+        "run",
+        "--message",
+        "fix the bug",
+        "--name",
+        "a b",
+      ]);
+    });
+
+    test("should reject unterminated quotes", () => {
+      expect(() => parseCommandTemplate('agent "oops')).toThrow("Unterminated quote");
+    });
+  });
+
+  describe("classifyAgentExit", () => {
+    test("should classify exit codes, timeouts and max turns", () => {
+      expect(classifyAgentExit(0, "done", "", false)).toBe("success");
+      expect(classifyAgentExit(1, "", "boom", false)).toBe("failed");
+      expect(classifyAgentExit(null, "", "", true)).toBe("timeout");
+      expect(classifyAgentExit(1, "", "Error: Reached max turns (10)", false)).toBe("max_turns");
+      expect(classifyAgentExit(0, "maximum turns reached", "", false)).toBe("max_turns");
+      expect(
+        classifyAgentExit(1, "", "", false, {
+          events: [],
+          toolCalls: [],
+          editedFiles: [],
+          resultText: null,
+          resultSubtype: "error_max_turns",
+          isError: true,
+          turns: 10,
+          costUsd: null,
+          usage: null,
+          sessionId: null,
+        })
+      ).toBe("max_turns");
+    });
+  });
+
+  describe("ClaudeAgentRunner", () => {
+    test("should pass print mode flags and the prompt on stdin", async () => {
+      const runner = new ClaudeAgentRunner(fakeClaude);
+      const result = await runner.run({ prompt: "Implement PROJ-1", maxTurns: 25 });
+
+      expect(result.status).toBe("success");
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain(
+        "args: -p --dangerously-skip-permissions --max-turns 25 --output-format stream-json --verbose"
+      );
+      expect(result.stdout).toContain("Implement PROJ-1");
+      // Plain text output has no event log
+      expect(result.log).toBeNull();
+      expect(result.output).toBe(result.stdout);
+    });
+
+    test("should continue an earlier session", async () => {
+      const runner = new ClaudeAgentRunner(fakeClaude);
+      const result = await runner.run({
+        prompt: "Continue",
+        maxTurns: 10,
+        resumeSessionId: "session-123",
+      });
+
+      expect(result.stdout).toContain("--verbose --resume session-123");
+    });
+
+    test("should build an event log from stream-json output", async () => {
+      const streamClaude = join(testDir, "stream-claude");
+      const lines = [
+        { type: "system", subtype: "init", session_id: "sess-1" },
+        {
+          type: "assistant",
+          message: {
+            content: [{ type: "tool_use", id: "t1", name: "Write", input: { file_path: "src/a.ts" } }],
+          },
+        },
+        {
+          type: "result",
+          subtype: "error_max_turns",
+          is_error: true,
+          num_turns: 3,
+          session_id: "sess-1",
+        },
+      ];
+      writeFileSync(
+        streamClaude,
+        `#!/bin/sh\ncat > /dev/null\ncat <<'EOF'\n${lines.map((line) => JSON.stringify(line)).join("\n")}\nEOF\nexit 1\n`
+      );
+      chmodSync(streamClaude, 0o755);
+
+      const result = await new ClaudeAgentRunner(streamClaude).run({ prompt: "go", maxTurns: 3 });
+
+      expect(result.status).toBe("max_turns");
+      expect(result.log?.sessionId).toBe("sess-1");
+      expect(result.log?.editedFiles).toEqual(["src/a.ts"]);
+      expect(result.log?.turns).toBe(3);
+    });
+
+    test("should pass events on and stop when aborted", async () => {
+      const slowClaude = join(testDir, "slow-claude");
+      const line = { type: "assistant", message: { id: "msg_1", content: [], usage: { output_tokens: 5 } } };
+      writeFileSync(slowClaude, `#!/bin/sh\ncat > /dev/null\necho '${JSON.stringify(line)}'\nexec sleep 30\n`);
+      chmodSync(slowClaude, 0o755);
+
+      const controller = new AbortController();
+      const events: string[] = [];
+      const result = await new ClaudeAgentRunner(slowClaude).run({
+        prompt: "go",
+        maxTurns: 3,
+        signal: controller.signal,
+        onEvent: (event) => {
+          events.push(event.type);
+          controller.abort();
+        },
+      });
+
+      expect(events).toEqual(["usage"]);
+      expect(result.status).toBe("failed");
+      expect(result.durationMs).toBeLessThan(10_000);
+    });
+
+    test("should report a missing CLI", async () => {
+      const result = await new ClaudeAgentRunner(join(testDir, "missing")).run({
+        prompt: "hi",
+        maxTurns: 1,
+      });
+
+      expect(result.status).toBe("not_found");
+      expect(result.error).toContain("Claude CLI not found at:");
+    });
+  });
+
+  describe("CommandTemplateAgentRunner", () => {
+    test("should substitute placeholders and write the prompt to stdin", async () => {
+      const runner = new CommandTemplateAgentRunner(`sh -c 'echo turns={maxTurns}; cat'`);
+      const result = await runner.run({ prompt: "hello agent", maxTurns: 7 });
+
+      expect(runner.name).toBe("sh");
+      expect(result.status).toBe("success");
+      expect(result.stdout).toBe("turns=7\nhello agent");
+    });
+
+    test("should pass the prompt through a temporary file", async () => {
+      const runner = new CommandTemplateAgentRunner("cat {promptFile}");
+      const result = await runner.run({ prompt: "from a file", maxTurns: 1 });
+
+      expect(result.stdout).toBe("from a file");
+    });
+
+    test("should run in the given working directory", async () => {
+      const result = await new CommandTemplateAgentRunner("pwd").run({
+        prompt: "",
+        maxTurns: 1,
+        cwd: testDir,
+      });
+
+      expect(result.stdout.trim()).toEndWith(testDir.split("/").pop() as string);
+    });
+
+    test("should classify non-zero exits and timeouts", async () => {
+      const failed = await new CommandTemplateAgentRunner("sh -c 'exit 3'").run({
+        prompt: "",
+        maxTurns: 1,
+      });
+      expect(failed.status).toBe("failed");
+      expect(failed.exitCode).toBe(3);
+
+      const timedOut = await new CommandTemplateAgentRunner("sleep 5").run({
+        prompt: "",
+        maxTurns: 1,
+        timeoutMinutes: 0.002,
+      });
+      expect(timedOut.status).toBe("timeout");
+    });
+  });
+
+  describe("createAgentRunner", () => {
+    const originalCommand = process.env.AGENT_COMMAND;
+
+    afterEach(() => {
+      if (originalCommand === undefined) {
+        delete process.env.AGENT_COMMAND;
+      } else {
+        process.env.AGENT_COMMAND = originalCommand;
+      }
+    });
+
+    test("should use Claude unless AGENT_COMMAND is set", () => {
+      delete process.env.AGENT_COMMAND;
+      expect(createAgentRunner("/usr/local/bin/claude")).toBeInstanceOf(ClaudeAgentRunner);
+
+      process.env.AGENT_COMMAND = "codex exec --full-auto";
+      const runner = createAgentRunner("/usr/local/bin/claude");
+      expect(runner).toBeInstanceOf(CommandTemplateAgentRunner);
+      expect(runner.describeCommand(10)).toBe("codex exec --full-auto");
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { execSync } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resetToCommit } from "../src/lib/auto-review-loop";
+
+describe("Auto-Review Loop", () => {
+  describe("resetToCommit", () => {
+    let repoDir: string;
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: repoDir, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+
+    beforeEach(() => {
+      repoDir = mkdtempSync(join(tmpdir(), "auto-review-loop-test-"));
+      git("init -q -b main");
+      git("config user.email test@example.com");
+      git("config user.name Test");
+      writeFileSync(join(repoDir, "app.ts"), "export const a = 1;\n");
+      git("add app.ts");
+      git('commit -qm "Initial"');
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    test("should roll back an iteration's fixes and keep other untracked files", () => {
+      const base = git("rev-parse HEAD");
+      mkdirSync(join(repoDir, ".claude-intern"));
+      writeFileSync(join(repoDir, ".claude-intern", "settings.json"), "{}\n");
+      writeFileSync(join(repoDir, "notes.txt"), "user notes\n");
+
+      // The iteration's fixes: a changed file and a new one, amended into a commit
+      writeFileSync(join(repoDir, "app.ts"), "export const a = 2;\n");
+      mkdirSync(join(repoDir, "src"));
+      writeFileSync(join(repoDir, "src", "helper.ts"), "export const b = 1;\n");
+      git("add app.ts src/helper.ts");
+      git('commit -qm "fix: address PR review feedback"');
+
+      resetToCommit(base, repoDir);
+
+      expect(git("rev-parse HEAD")).toBe(base);
+      expect(readFileSync(join(repoDir, "app.ts"), "utf8")).toBe("export const a = 1;\n");
+      expect(existsSync(join(repoDir, "src", "helper.ts"))).toBe(false);
+      expect(existsSync(join(repoDir, ".claude-intern", "settings.json"))).toBe(true);
+      expect(existsSync(join(repoDir, "notes.txt"))).toBe(true);
+    });
+  });
+});
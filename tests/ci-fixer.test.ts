@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test";
+import {
+  extractLogTail,
+  formatCiFixComment,
+  formatCiFixLimitComment,
+  formatCiFixPrompt,
+  getCiFixAttempts,
+  isCiFixCandidate,
+  type FailedCheck,
+} from "../src/lib/ci-fixer";
+
+const lintCheck: FailedCheck = {
+  id: 1,
+  name: "lint",
+  conclusion: "failure",
+  url: "https://github.com/owner/repo/actions/runs/1/job/1",
+  summary: "1 error",
+  annotations: [
+    {
+      path: "src/app.ts",
+      start_line: 12,
+      end_line: 12,
+      annotation_level: "failure",
+      title: "no-unused-vars",
+      message: "'x' is assigned a value but never used",
+    },
+  ],
+  log: "$ eslint .\n##[error]src/app.ts:12 'x' is unused",
+};
+
+describe("CI Fixer", () => {
+  test("should keep the log up to the last error without timestamps and colors", () => {
+    const log = [
+      "2024-05-01T10:00:00.1234567Z ##[group]Run bun test",
+      "2024-05-01T10:00:01.0000000Z \x1b[31mFAIL\x1b[0m tests/app.test.ts",
+      "2024-05-01T10:00:01.5000000Z ##[endgroup]",
+      "2024-05-01T10:00:02.0000000Z ##[error]Process completed with exit code 1.",
+      "2024-05-01T10:00:03.0000000Z Post job cleanup.",
+    ].join("\n");
+
+    expect(extractLogTail(log)).toBe(
+      "##[group]Run bun test\nFAIL tests/app.test.ts\n##[error]Process completed with exit code 1."
+    );
+    expect(extractLogTail("a\nb\nc", 2)).toBe("b\nc");
+  });
+
+  test("should fix PRs opened by the bot or carrying the label", () => {
+    const botPr = { user: { login: "intern[bot]" }, labels: [] };
+    const labelledPr = { user: { login: "alice" }, labels: [{ name: "ci-fix" }] };
+
+    expect(isCiFixCandidate(botPr, "intern[bot]")).toBe(true);
+    expect(isCiFixCandidate(labelledPr, "intern[bot]", "ci-fix")).toBe(true);
+    expect(isCiFixCandidate(labelledPr, "intern[bot]")).toBe(false);
+    expect(isCiFixCandidate(botPr, null)).toBe(false);
+  });
+
+  test("should count earlier attempts from the PR comments", () => {
+    const comments = [
+      { body: "<!-- claude-intern-ci-fix sha=abc123 -->\n### 🔧 Fixed Failing CI Checks" },
+      { body: "Looks good" },
+      { body: "<!-- claude-intern-ci-fix sha=def456 -->\n### ⚠️ Could Not Fix" },
+    ];
+
+    expect(getCiFixAttempts(comments)).toEqual({
+      attempts: 2,
+      shas: ["abc123", "def456"],
+      limitReported: false,
+    });
+    expect(getCiFixAttempts([{ body: formatCiFixLimitComment(3) }])).toEqual({
+      attempts: 0,
+      shas: [],
+      limitReported: true,
+    });
+  });
+
+  test("should give Claude the annotations, log and original task", () => {
+    const prompt = formatCiFixPrompt(
+      { number: 7, title: "[PROJ-1] Add app", branch: "feature/proj-1" },
+      [lintCheck],
+      "# PROJ-1: Add the app\n"
+    );
+
+    expect(prompt).toContain('CI failed on pull request #7 "[PROJ-1] Add app" (branch `feature/proj-1`)');
+    expect(prompt).toContain("### lint (failure)");
+    expect(prompt).toContain("- `src/app.ts:12` (failure) no-unused-vars: 'x' is assigned a value but never used");
+    expect(prompt).toContain("```\n$ eslint .\n##[error]src/app.ts:12 'x' is unused\n```");
+    expect(prompt).toContain("## Original Task\n\n# PROJ-1: Add the app");
+    expect(prompt).toContain("never delete or skip tests");
+  });
+
+  test("should record the attempt in the PR comment", () => {
+    const fixed = formatCiFixComment("abc1234def", [lintCheck], 1, 3, {
+      success: true,
+      message: "Pushed `fff0000`; CI will run again.",
+      summary: "Removed the unused variable.",
+    });
+    const failed = formatCiFixComment("abc1234def", [lintCheck], 3, 3, {
+      success: false,
+      message: "Claude run ended with timeout",
+    });
+
+    expect(fixed).toContain("### 🔧 Fixed Failing CI Checks (attempt 1/3)");
+    expect(fixed).toContain("CI failed on `abc1234`: **lint**.\n\nRemoved the unused variable.");
+    expect(failed).toContain("### ⚠️ Could Not Fix Failing CI Checks (attempt 3/3)");
+    expect(getCiFixAttempts([{ body: fixed }, { body: failed }]).attempts).toBe(2);
+  });
+});
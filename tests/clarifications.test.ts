@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ClarificationStore,
+  findClarificationAnswers,
+  formatClarificationAnswers,
+  getClarificationQuestions,
+} from "../src/lib/clarifications";
+import type { JiraComment } from "../src/types/jira";
+
+function comment(id: string, text: string, created: string): JiraComment {
+  return {
+    id,
+    body: text,
+    author: { accountId: `acc-${id}`, displayName: "Jane Reporter" },
+    created,
+    updated: created,
+  };
+}
+
+describe("Clarifications", () => {
+  describe("ClarificationStore", () => {
+    let testDir: string;
+    let store: ClarificationStore;
+
+    beforeEach(() => {
+      testDir = mkdtempSync(join(tmpdir(), "clarifications-test-"));
+      store = new ClarificationStore({ dbPath: join(testDir, "clarifications.db") });
+    });
+
+    afterEach(() => {
+      store.close();
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test("should track questions and count rounds", () => {
+      const first = store.ask("PROJ-1", ["Which formats?"], "Formats unclear", 1000);
+      expect(first).toEqual({
+        taskKey: "PROJ-1",
+        questions: ["Which formats?"],
+        summary: "Formats unclear",
+        askedAt: 1000,
+        rounds: 1,
+      });
+
+      const second = store.ask("PROJ-1", ["Which delimiter?"], "Delimiter unclear", 2000);
+      expect(second.rounds).toBe(2);
+      expect(second.questions).toEqual(["Which delimiter?"]);
+      expect(second.askedAt).toBe(2000);
+    });
+
+    test("should list pending tasks oldest first and resolve them", () => {
+      store.ask("PROJ-2", ["Q2"], "S2", 2000);
+      store.ask("PROJ-1", ["Q1"], "S1", 1000);
+
+      expect(store.list().map((item) => item.taskKey)).toEqual(["PROJ-1", "PROJ-2"]);
+
+      expect(store.resolve("PROJ-1")).toBe(true);
+      expect(store.resolve("PROJ-1")).toBe(false);
+      expect(store.get("PROJ-1")).toBeNull();
+      expect(store.list()).toHaveLength(1);
+    });
+  });
+
+  describe("findClarificationAnswers", () => {
+    test("should keep comments posted after the questions that aren't claude-intern's", () => {
+      const askedAt = Date.parse("2026-03-02T09:00:00.000Z");
+      const comments = [
+        comment("1", "Earlier discussion", "2026-03-01T12:00:00.000+0000"),
+        comment("2", "## 🤖 Automated Task Feasibility Assessment", "2026-03-02T09:00:01.000+0000"),
+        comment("3", "CSV and JSON, please", "2026-03-02T10:30:00.000+0100"),
+      ];
+
+      expect(findClarificationAnswers(comments, askedAt).map((item) => item.id)).toEqual(["3"]);
+    });
+  });
+
+  test("should turn assessment issues into questions", () => {
+    expect(
+      getClarificationQuestions({
+        issues: [{ category: "requirements", description: "Which export formats are needed?" }],
+      })
+    ).toEqual(["requirements: Which export formats are needed?"]);
+  });
+
+  test("should format questions and answers for the feasibility check", () => {
+    const output = formatClarificationAnswers(
+      { taskKey: "PROJ-1", questions: ["Which formats?"], summary: "", askedAt: 0, rounds: 1 },
+      [comment("3", "CSV and JSON", "2026-03-02T10:00:00.000+0000")]
+    );
+
+    expect(output).toStartWith("## Answers to Clarification Questions");
+    expect(output).toContain("- Which formats?");
+    expect(output).toContain("### Jane Reporter (2026-03-02T10:00:00.000+0000)");
+    expect(output).toContain("CSV and JSON");
+  });
+});
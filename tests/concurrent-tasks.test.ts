@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import {
+  createLinePrefixer,
+  formatConcurrentSummary,
+  type ConcurrentTaskResult,
+} from "../src/lib/concurrent-tasks";
+import type { TaskRun } from "../src/lib/run-history";
+
+function run(overrides: Partial<TaskRun>): TaskRun {
+  const startedAt = Date.UTC(2026, 2, 2, 9, 0);
+  return {
+    id: 1,
+    taskKey: "PROJ-1",
+    mode: "implement",
+    startedAt,
+    endedAt: startedAt + 20 * 60 * 1000,
+    outcome: "implemented",
+    branch: "feature/proj-1",
+    prUrl: null,
+    commitShas: [],
+    turns: 12,
+    message: null,
+    storyPoints: null,
+    ...overrides,
+  };
+}
+
+describe("Concurrent Tasks", () => {
+  describe("createLinePrefixer", () => {
+    test("should prefix complete lines and keep partial ones until flushed", () => {
+      const prefixer = createLinePrefixer("[PROJ-1] ");
+
+      expect(prefixer.push("Fetching")).toBe("");
+      expect(prefixer.push(" task\nDone\nPartial")).toBe("[PROJ-1] Fetching task\n[PROJ-1] Done\n");
+      expect(prefixer.flush()).toBe("[PROJ-1] Partial\n");
+      expect(prefixer.flush()).toBe("");
+    });
+  });
+
+  describe("formatConcurrentSummary", () => {
+    test("should combine outcomes of all tasks", () => {
+      const results: ConcurrentTaskResult[] = [
+        { taskKey: "PROJ-1", exitCode: 0, run: run({}) },
+        {
+          taskKey: "PROJ-2",
+          exitCode: 0,
+          run: run({ id: 2, taskKey: "PROJ-2", outcome: "incomplete" }),
+        },
+        {
+          taskKey: "PROJ-3",
+          exitCode: 1,
+          error: "Exited with code 1",
+          run: run({ id: 3, taskKey: "PROJ-3", outcome: "hook-failed" }),
+        },
+        { taskKey: "PROJ-4", exitCode: 0, run: null },
+        {
+          taskKey: "PROJ-5",
+          exitCode: null,
+          error: "Failed to create worktree: invalid reference",
+          run: null,
+        },
+      ];
+
+      const summary = formatConcurrentSummary(results);
+
+      expect(summary).toContain("Total tasks: 5");
+      expect(summary).toContain("✅ Successful: 3");
+      expect(summary).toContain("❌ Failed: 2");
+      expect(summary).toContain("3 runs: 1 implemented, 1 incomplete, 1 hook-failed — 33% succeeded");
+      expect(summary).toContain("PROJ-3  implement  hook-failed");
+      expect(summary).toContain("- PROJ-4: skipped");
+      expect(summary).toContain("- PROJ-5: Failed to create worktree: invalid reference");
+    });
+  });
+});
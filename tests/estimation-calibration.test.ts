@@ -0,0 +1,181 @@
+import { describe, test, expect } from "bun:test";
+import {
+  compareEstimates,
+  formatEstimateReport,
+  getDaysInProgress,
+  getPullRequestSize,
+  selectSimilarIssues,
+} from "../src/lib/estimation-calibration";
+import type { IssueOutcome } from "../src/lib/issue-tracker";
+import type { TaskRun } from "../src/lib/run-history";
+
+function outcome(overrides: Partial<IssueOutcome>): IssueOutcome {
+  return {
+    key: "PROJ-1",
+    summary: "Add CSV export",
+    labels: [],
+    components: [],
+    status: "Done",
+    done: true,
+    storyPoints: 3,
+    startedAt: "2026-03-02T09:00:00.000+0000",
+    resolvedAt: "2026-03-04T21:00:00.000+0000",
+    pullRequests: [],
+    ...overrides,
+  };
+}
+
+function estimateRun(taskKey: string, storyPoints: number | null, startedAt: number): TaskRun {
+  return {
+    id: startedAt,
+    taskKey,
+    mode: "estimate",
+    startedAt,
+    endedAt: startedAt + 60_000,
+    outcome: "estimated",
+    branch: null,
+    prUrl: null,
+    commitShas: [],
+    turns: null,
+    message: null,
+    storyPoints,
+  };
+}
+
+describe("Estimation Calibration", () => {
+  test("should measure days from the first status change to resolution", () => {
+    expect(getDaysInProgress(outcome({}))).toBe(2.5);
+    expect(getDaysInProgress(outcome({ startedAt: null }))).toBeNull();
+  });
+
+  describe("selectSimilarIssues", () => {
+    const task = { key: "PROJ-9", summary: "Add PDF export", labels: ["reports"], components: ["API"] };
+
+    test("should rank shared components, labels and summary words", () => {
+      const candidates = [
+        outcome({ key: "PROJ-1", summary: "Fix login redirect" }),
+        outcome({ key: "PROJ-2", summary: "Export invoices" }),
+        outcome({ key: "PROJ-3", summary: "Rate limiting", components: ["API"], labels: ["reports"] }),
+        outcome({ key: "PROJ-4", summary: "Nightly backups" }),
+      ];
+
+      expect(selectSimilarIssues(task, candidates, 3).map((issue) => issue.key)).toEqual([
+        "PROJ-3",
+        "PROJ-2",
+        "PROJ-1",
+      ]);
+    });
+
+    test("should skip the task itself and issues without story points", () => {
+      const candidates = [
+        outcome({ key: "PROJ-9" }),
+        outcome({ key: "PROJ-5", storyPoints: null }),
+        outcome({ key: "PROJ-6" }),
+      ];
+
+      expect(selectSimilarIssues(task, candidates).map((issue) => issue.key)).toEqual(["PROJ-6"]);
+    });
+  });
+
+  test("should sum the size of linked GitHub pull requests", async () => {
+    const client = {
+      getPullRequest: async (_owner: string, _repo: string, prNumber: number) => {
+        if (prNumber === 404) {
+          throw new Error("Not Found");
+        }
+        return {
+          number: prNumber,
+          title: "PR",
+          body: null,
+          state: "closed" as const,
+          head: { ref: "feature", sha: "abc" },
+          base: { ref: "main" },
+          html_url: "",
+          additions: 100,
+          deletions: 20,
+          changed_files: 4,
+        };
+      },
+    };
+
+    expect(
+      await getPullRequestSize(
+        [
+          "https://github.com/o/r/pull/1",
+          "https://github.com/o/r/pull/1",
+          "https://github.com/o/r/pull/2",
+          "https://gitlab.com/g/p/-/merge_requests/3",
+        ],
+        client
+      )
+    ).toEqual({ additions: 200, deletions: 40, changedFiles: 8 });
+    expect(await getPullRequestSize(["https://github.com/o/r/pull/404"], client)).toBeNull();
+  });
+
+  describe("estimate report", () => {
+    const march = Date.UTC(2026, 2, 2);
+    const april = Date.UTC(2026, 3, 2);
+
+    test("should compare the latest estimate of each task with its outcome", () => {
+      const comparisons = compareEstimates(
+        [
+          estimateRun("PROJ-1", 8, march),
+          estimateRun("PROJ-1", 5, april),
+          estimateRun("PROJ-2", null, march),
+          estimateRun("PROJ-3", 2, march),
+        ],
+        [
+          outcome({ key: "PROJ-1", storyPoints: 3 }),
+          outcome({ key: "PROJ-2" }),
+          outcome({ key: "PROJ-3", status: "In Progress", done: false, storyPoints: 2 }),
+        ],
+        new Map([["PROJ-1", { additions: 10, deletions: 2, changedFiles: 1 }]])
+      );
+
+      expect(comparisons.map((comparison) => [comparison.taskKey, comparison.aiPoints])).toEqual([
+        ["PROJ-3", 2],
+        ["PROJ-1", 5],
+      ]);
+      expect(comparisons[0].daysInProgress).toBeNull();
+      expect(comparisons[1]).toMatchObject({ finalPoints: 3, daysInProgress: 2.5, done: true });
+      expect(comparisons[1].prSize?.additions).toBe(10);
+    });
+
+    test("should summarise accuracy and bias by month", () => {
+      const report = formatEstimateReport(
+        compareEstimates(
+          [
+            estimateRun("PROJ-1", 3, march),
+            estimateRun("PROJ-2", 5, march),
+            estimateRun("PROJ-3", 8, april),
+            estimateRun("PROJ-4", 5, april),
+          ],
+          [
+            outcome({ key: "PROJ-1", storyPoints: 3 }),
+            outcome({ key: "PROJ-2", storyPoints: 3 }),
+            outcome({ key: "PROJ-3", storyPoints: 3 }),
+            outcome({ key: "PROJ-4", status: "To Do", done: false, storyPoints: 5 }),
+          ]
+        )
+      );
+
+      expect(report).toContain("Task    Estimated   AI  Final  Status  Days  PR size");
+      expect(report).toContain("3 completed of 4 estimated tasks:");
+      expect(report).toContain("Exact: 1 (33%)");
+      expect(report).toContain("Mean absolute error: 2.3 points");
+      expect(report).toContain("Bias: +2.3 points");
+      expect(report).toContain("2026-03: +1.0 points over 2 task(s)");
+      expect(report).toContain("2026-04: +5.0 points over 1 task(s)");
+      expect(report).toContain("5 points: 2.5 days avg over 1 task(s)");
+    });
+
+    test("should handle reports without completed tasks", () => {
+      expect(formatEstimateReport([])).toBe("No AI estimates found.");
+      expect(
+        formatEstimateReport(
+          compareEstimates([estimateRun("PROJ-1", 3, march)], [outcome({ done: false, status: "To Do" })])
+        )
+      ).toContain("No estimated task has been completed");
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test";
+import {
+  combineEstimationSamples,
+  formatPersonaPrompt,
+  formatSpreadSamples,
+  getSamplePersonas,
+  parseEstimationPersonas,
+} from "../src/lib/estimation-consensus";
+import { JiraClient } from "../src/lib/jira-client";
+import type { TrackerEstimation } from "../src/lib/issue-tracker";
+import { MarkdownFormatter } from "../src/lib/markdown-formatter";
+
+function estimate(
+  storyPoints: number,
+  confidence: TrackerEstimation["confidence"] = "high",
+  overrides: Partial<TrackerEstimation> = {}
+): TrackerEstimation {
+  return {
+    storyPoints,
+    confidence,
+    implementationConfidence: 8,
+    reasoning: `Reasoning for ${storyPoints}`,
+    risks: [],
+    unclearAreas: [],
+    summary: `Summary for ${storyPoints}`,
+    ...overrides,
+  };
+}
+
+describe("Estimation Consensus", () => {
+  test("should parse personas and assign them to samples in turn", () => {
+    expect(parseEstimationPersonas(" Frontend, backend,,qa ")).toEqual(["frontend", "backend", "qa"]);
+    expect(getSamplePersonas(4, ["frontend", "backend"])).toEqual([
+      "frontend",
+      "backend",
+      "frontend",
+      "backend",
+    ]);
+    expect(getSamplePersonas(2, [])).toEqual([undefined, undefined]);
+  });
+
+  test("should add the persona's perspective to the prompt", () => {
+    expect(formatPersonaPrompt("# Story Points Estimation\n", "qa")).toContain(
+      "## Your Perspective\n\nYou take part in a planning poker session as a QA engineer."
+    );
+    expect(formatPersonaPrompt("# Story Points Estimation", "security")).toContain(
+      "as a security specialist."
+    );
+  });
+
+  describe("combineEstimationSamples", () => {
+    test("should agree on the median and keep confidence when samples match", () => {
+      const result = combineEstimationSamples([
+        { estimate: estimate(5, "high", { risks: ["Migration"], implementationConfidence: 7 }) },
+        { estimate: estimate(5, "high", { risks: ["Migration", "Caching"], implementationConfidence: 9 }) },
+        { estimate: estimate(5, "medium") },
+      ]);
+
+      expect(result.storyPoints).toBe(5);
+      expect(result.confidence).toBe("high");
+      expect(result.implementationConfidence).toBe(8);
+      expect(result.risks).toEqual(["Migration", "Caching"]);
+      expect(result.spread).toMatchObject({ min: 5, max: 5, steps: 0, wide: false });
+    });
+
+    test("should cap confidence at medium for neighbouring estimates", () => {
+      const result = combineEstimationSamples([
+        { estimate: estimate(3) },
+        { estimate: estimate(5) },
+      ]);
+
+      // Even counts take the higher middle value
+      expect(result.storyPoints).toBe(5);
+      expect(result.reasoning).toBe("Reasoning for 5");
+      expect(result.confidence).toBe("medium");
+      expect(result.spread.steps).toBe(1);
+    });
+
+    test("should lower confidence to low for a wide spread", () => {
+      const result = combineEstimationSamples([
+        { persona: "frontend", estimate: estimate(2) },
+        { persona: "backend", estimate: estimate(8) },
+        { persona: "qa", estimate: estimate(5) },
+      ]);
+
+      expect(result.storyPoints).toBe(5);
+      expect(result.confidence).toBe("low");
+      expect(result.spread).toEqual({
+        samples: [
+          { persona: "frontend", storyPoints: 2 },
+          { persona: "backend", storyPoints: 8 },
+          { persona: "qa", storyPoints: 5 },
+        ],
+        min: 2,
+        max: 8,
+        steps: 3,
+        wide: true,
+      });
+      expect(formatSpreadSamples(result.spread)).toBe("frontend: 2, backend: 8, qa: 5");
+    });
+
+    test("should number samples without personas", () => {
+      const result = combineEstimationSamples([{ estimate: estimate(1) }, { estimate: estimate(2) }]);
+      expect(formatSpreadSamples(result.spread)).toBe("#1: 1, #2: 2");
+    });
+  });
+
+  describe("estimation comments", () => {
+    const wide = combineEstimationSamples([
+      { persona: "frontend", estimate: estimate(2) },
+      { persona: "backend", estimate: estimate(8) },
+    ]);
+
+    test("should call out a wide spread in Markdown comments", () => {
+      const markdown = MarkdownFormatter.createEstimationCommentMarkdown(wide);
+
+      expect(markdown).toContain("#### Planning Poker\n\n2 estimates — frontend: 2, backend: 8");
+      expect(markdown).toContain("Wide spread: 2 to 8 points");
+      expect(MarkdownFormatter.createEstimationCommentMarkdown(estimate(3))).not.toContain("Planning Poker");
+    });
+
+    test("should call out a wide spread in JIRA comments", async () => {
+      const jiraClient = new JiraClient("https://test.atlassian.net", "test@example.com", "test-token");
+      let body: any;
+      (jiraClient as any).jiraApiCall = async (_method: string, _url: string, data: any) => {
+        body = data;
+      };
+
+      await jiraClient.postEstimationComment("TEST-1", wide);
+
+      const text = JSON.stringify(body);
+      expect(text).toContain("Planning Poker");
+      expect(text).toContain("2 estimates — frontend: 2, backend: 8");
+      expect(text).toContain("Wide spread: 2 to 8 points");
+    });
+  });
+});
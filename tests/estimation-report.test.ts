@@ -0,0 +1,121 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createEstimatedRow,
+  createUnestimatedRow,
+  formatEstimationReport,
+  getIssueEpic,
+  getReportFormat,
+  summarizeEstimationReport,
+  writeEstimationReport,
+} from "../src/lib/estimation-report";
+import type { JiraIssue } from "../src/types/jira";
+
+function issue(key: string, summary: string, components: string[], epic?: string): JiraIssue {
+  return {
+    id: key,
+    key,
+    self: "",
+    fields: {
+      summary,
+      components: components.map((name, index) => ({ id: `${index}`, name })),
+      parent: epic
+        ? { key: epic, fields: { summary: "Checkout revamp", issuetype: { name: "Epic" } } }
+        : undefined,
+    } as JiraIssue["fields"],
+  };
+}
+
+function estimated(key: string, storyPoints: number, components: string[], epic?: string) {
+  return createEstimatedRow(issue(key, `Task ${key}`, components, epic), {
+    storyPoints,
+    confidence: "medium",
+    implementationConfidence: 7,
+    reasoning: "",
+    risks: ["Payment provider, sandbox"],
+    unclearAreas: [],
+    summary: "",
+  });
+}
+
+const rows = [
+  estimated("PROJ-1", 5, ["API", "Web"], "PROJ-100"),
+  estimated("PROJ-2", 3, ["API"], "PROJ-100"),
+  estimated("PROJ-3", 2, []),
+  createUnestimatedRow("PROJ-4", issue("PROJ-4", "Old task", ["Web"]), "skipped", "already estimated"),
+];
+
+describe("Estimation Report", () => {
+  test("should pick the format from the file extension", () => {
+    expect(getReportFormat("sprint.csv")).toBe("csv");
+    expect(getReportFormat("/tmp/sprint.MD")).toBe("markdown");
+    expect(getReportFormat("sprint.json")).toBe("json");
+    expect(() => getReportFormat("sprint.xlsx")).toThrow("use a .csv, .md or .json file");
+  });
+
+  test("should only treat epic parents as epics", () => {
+    expect(getIssueEpic(issue("PROJ-1", "Task", [], "PROJ-100"))).toBe("PROJ-100 Checkout revamp");
+    expect(getIssueEpic(issue("PROJ-1", "Task", []))).toBeNull();
+
+    const subtask = issue("PROJ-1", "Task", []);
+    subtask.fields.parent = { key: "PROJ-9", fields: { summary: "Story", issuetype: { name: "Story" } } };
+    expect(getIssueEpic(subtask)).toBeNull();
+  });
+
+  test("should total story points per epic and component", () => {
+    const totals = summarizeEstimationReport(rows);
+
+    expect(totals.overall).toEqual({ name: "Total", tasks: 3, storyPoints: 10 });
+    expect(totals.byEpic).toEqual([
+      { name: "PROJ-100 Checkout revamp", tasks: 2, storyPoints: 8 },
+      { name: "No epic", tasks: 1, storyPoints: 2 },
+    ]);
+    expect(totals.byComponent).toEqual([
+      { name: "API", tasks: 2, storyPoints: 8 },
+      { name: "Web", tasks: 1, storyPoints: 5 },
+      { name: "No component", tasks: 1, storyPoints: 2 },
+    ]);
+  });
+
+  test("should write CSV with quoted cells and totals", () => {
+    const csv = formatEstimationReport(rows, "csv").split("\n");
+
+    expect(csv[0]).toBe(
+      "Key,Summary,Epic,Components,Status,Story Points,Confidence,Implementation Confidence,Risks,Unclear Areas"
+    );
+    expect(csv[1]).toBe(
+      'PROJ-1,Task PROJ-1,PROJ-100 Checkout revamp,"API, Web",estimated,5,medium,7,"Payment provider, sandbox",'
+    );
+    expect(csv[4]).toBe("PROJ-4,Old task,,Web,skipped (already estimated),,,,,");
+    expect(csv).toContain("Epic,Tasks,Story Points");
+    expect(csv).toContain("API,2,8");
+    expect(csv).toContain("Total,3,10");
+  });
+
+  test("should write Markdown tables", () => {
+    const markdown = formatEstimationReport(rows, "markdown", new Date(Date.UTC(2026, 2, 2, 9, 30)));
+
+    expect(markdown).toContain("Generated 2026-03-02 09:30 UTC — 3 task(s) estimated, 10 story points in total");
+    expect(markdown).toContain("| Key | Summary | Epic |");
+    expect(markdown).toContain("| PROJ-3 | Task PROJ-3 |  |  | estimated | 2 | medium | 7 |");
+    expect(markdown).toContain("## Totals by Epic");
+    expect(markdown).toContain("| No component | 1 | 2 |");
+  });
+
+  test("should write JSON with tasks and totals", () => {
+    const dir = mkdtempSync(join(tmpdir(), "estimation-report-test-"));
+    try {
+      const file = join(dir, "report.json");
+      writeEstimationReport(file, rows);
+
+      const report = JSON.parse(readFileSync(file, "utf8"));
+      expect(report.tasks).toHaveLength(4);
+      expect(report.tasks[0].risks).toEqual(["Payment provider, sandbox"]);
+      expect(report.totals.overall.storyPoints).toBe(10);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -367,6 +367,26 @@ describe("ClaudeFormatter - Estimation Prompt", () => {
     expect(prompt).toContain("Implement OAuth2 login flow");
   });
 
+  test("should include reference tasks when calibrating", () => {
+    const details = createMockTaskDetails();
+    const prompt = ClaudeFormatter.formatEstimationPrompt(details, undefined, undefined, undefined, [
+      {
+        key: "TEST-100",
+        summary: "Add password reset | email",
+        storyPoints: 5,
+        daysInProgress: 3.5,
+        prSize: { additions: 240, deletions: 30, changedFiles: 9 },
+      },
+      { key: "TEST-101", summary: "Add login", storyPoints: 3, daysInProgress: null, prSize: null },
+    ]);
+
+    expect(prompt).toContain("## Reference: Similar Completed Tasks");
+    expect(prompt).toContain("| TEST-100 | Add password reset \\| email | 5 | 3.5 | +240/-30 in 9 files |");
+    expect(prompt).toContain("| TEST-101 | Add login | 3 | unknown | unknown |");
+    expect(prompt.indexOf("## Reference")).toBeLessThan(prompt.indexOf("## Estimation Instructions"));
+    expect(ClaudeFormatter.formatEstimationPrompt(details)).not.toContain("## Reference");
+  });
+
   test("should show placeholder when no description", () => {
     const details = createMockTaskDetails({
       description: null as any,
@@ -738,6 +758,86 @@ describe("JiraClient - findEstimationComment", () => {
   });
 });
 
+describe("JiraClient - getIssueOutcomes", () => {
+  let jiraClient: JiraClient;
+  let requests: string[];
+
+  beforeEach(() => {
+    jiraClient = new JiraClient(
+      "https://test.atlassian.net",
+      "test@example.com",
+      "test-token"
+    );
+    requests = [];
+    (jiraClient as any).jiraApiCall = async (_method: string, url: string) => {
+      requests.push(url);
+      if (url.endsWith("/remotelink")) {
+        return [
+          { object: { url: "https://github.com/o/r/pull/12", title: "PR" } },
+          { object: { url: "https://wiki.example.com/spec", title: "Spec" } },
+        ];
+      }
+      return {
+        issues: [
+          {
+            key: "TEST-100",
+            fields: {
+              summary: "Add password reset",
+              labels: ["auth"],
+              components: [{ id: "1", name: "API" }],
+              status: { name: "Done", statusCategory: { key: "done" } },
+              resolutiondate: "2024-06-20T10:00:00.000+0000",
+              customfield_10016: 5,
+            },
+            changelog: {
+              histories: [
+                { created: "2024-06-18T10:00:00.000+0000", items: [{ field: "status" }] },
+                { created: "2024-06-10T10:00:00.000+0000", items: [{ field: "labels" }] },
+                { created: "2024-06-15T10:00:00.000+0000", items: [{ field: "status" }] },
+              ],
+            },
+          },
+        ],
+      };
+    };
+  });
+
+  test("should search completed project issues with their outcome", async () => {
+    const outcomes = await jiraClient.getIssueOutcomes({
+      projectKey: "TEST",
+      storyPointsField: "customfield_10016",
+    });
+
+    expect(decodeURIComponent(requests[0])).toContain(
+      'project = "TEST" AND statusCategory = Done AND resolved >= -180d'
+    );
+    expect(requests[0]).toContain("expand=changelog");
+    expect(outcomes).toEqual([
+      {
+        key: "TEST-100",
+        summary: "Add password reset",
+        labels: ["auth"],
+        components: ["API"],
+        status: "Done",
+        done: true,
+        storyPoints: 5,
+        startedAt: "2024-06-15T10:00:00.000+0000",
+        resolvedAt: "2024-06-20T10:00:00.000+0000",
+        pullRequests: ["https://github.com/o/r/pull/12"],
+      },
+    ]);
+  });
+
+  test("should look up specific issues", async () => {
+    await jiraClient.getIssueOutcomes({ issueKeys: ["TEST-1", "TEST-2"], storyPointsField: "customfield_10016" });
+    expect(decodeURIComponent(requests[0])).toContain("key in (TEST-1, TEST-2)");
+
+    requests = [];
+    expect(await jiraClient.getIssueOutcomes({ issueKeys: [] })).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
+
 describe("Settings - storyPointsField", () => {
   // Replicate the helper from index.ts
   function getStoryPointsFieldForProject(
@@ -839,6 +939,18 @@ describe("CLI - --estimate option", () => {
     expect(output).toContain("estimation mode");
   });
 
+  test("should show help for the estimate report", () => {
+    const result = runCLI(["estimate", "--help"]);
+    expect(result.stdout).toContain("Usage: claude-intern estimate --report");
+    expect(result.exitCode).toBe(0);
+  });
+
+  test("should require --report for the estimate command", () => {
+    const result = runCLI(["estimate"]);
+    expect(result.stderr).toContain("Missing --report");
+    expect(result.exitCode).toBe(1);
+  });
+
   test("should error when --estimate used without tasks", () => {
     const result = runCLI(["--estimate"]);
     const output = result.stdout + result.stderr;
@@ -0,0 +1,258 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  GitHubIssuesClient,
+  parseGitHubIssueKey,
+} from "../src/lib/github-issues-client";
+import type { GitHubIssue } from "../src/types/github-issues";
+
+// Minimal GitHub issue payload as returned by the REST API
+function createGitHubIssue(overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    id: 1001,
+    number: 42,
+    title: "Add dark mode",
+    body:
+      "Support dark mode.\n\n![mockup](https://github.com/user-attachments/assets/abc-123)\n\nSee https://figma.com/file/123",
+    state: "open",
+    html_url: "https://github.com/acme/app/issues/42",
+    repository_url: "https://api.github.com/repos/acme/app",
+    user: { login: "pm", id: 2 },
+    assignee: { login: "dev", id: 1 },
+    labels: [{ id: 1, name: "frontend" }],
+    milestone: { id: 7, title: "v2.0", state: "open" },
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const linkedPullRequestEvent = {
+  event: "cross-referenced",
+  source: {
+    type: "issue",
+    issue: createGitHubIssue({
+      id: 2001,
+      number: 50,
+      title: "Theme tokens",
+      body: "Fixes #42",
+      html_url: "https://github.com/acme/app/pull/50",
+      user: { login: "dev", id: 1 },
+      pull_request: {
+        url: "https://api.github.com/repos/acme/app/pulls/50",
+        html_url: "https://github.com/acme/app/pull/50",
+        merged_at: "2024-01-03T00:00:00Z",
+      },
+    }),
+  },
+};
+
+describe("parseGitHubIssueKey", () => {
+  test("should parse owner/repo#number keys", () => {
+    expect(parseGitHubIssueKey("acme/my.app#42")).toEqual({
+      owner: "acme",
+      repo: "my.app",
+      number: 42,
+    });
+  });
+
+  test("should reject other key formats", () => {
+    expect(parseGitHubIssueKey("PROJ-123")).toBeNull();
+    expect(parseGitHubIssueKey("acme/app#abc")).toBeNull();
+    expect(parseGitHubIssueKey("#42")).toBeNull();
+  });
+});
+
+describe("GitHubIssuesClient", () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ url: string; method: string; body: any; headers: any }>;
+  let responses: Array<{ status?: number; body?: any }>;
+
+  beforeEach(() => {
+    requests = [];
+    responses = [];
+    globalThis.fetch = (async (url: string, init: RequestInit = {}) => {
+      requests.push({
+        url,
+        method: init.method || "GET",
+        body: init.body ? JSON.parse(init.body as string) : undefined,
+        headers: init.headers,
+      });
+      const next = responses.shift() ?? { body: [] };
+      const status = next.status ?? 200;
+      return new Response(status === 204 ? null : JSON.stringify(next.body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should normalize a GitHub issue into the JiraIssue shape", async () => {
+    responses.push({ body: createGitHubIssue() });
+    responses.push({ body: [linkedPullRequestEvent] });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const issue = await client.getIssue("acme/app#42");
+
+    expect(requests[0].url).toBe("https://api.github.com/repos/acme/app/issues/42");
+    expect(requests[0].headers.Authorization).toBe("Bearer ghp_test");
+    expect(issue.key).toBe("acme/app#42");
+    expect(issue.fields.summary).toBe("Add dark mode");
+    expect(issue.fields.status.name).toBe("Open");
+    expect(issue.fields.labels).toEqual(["frontend"]);
+    expect(issue.fields.fixVersions.map((v) => v.name)).toEqual(["v2.0"]);
+    expect(issue.fields.assignee?.displayName).toBe("dev");
+    expect(issue.fields.attachment).toHaveLength(1);
+    expect(issue.fields.attachment[0].content).toBe(
+      "https://github.com/user-attachments/assets/abc-123"
+    );
+  });
+
+  test("should reject pull request numbers", async () => {
+    responses.push({
+      body: createGitHubIssue({
+        pull_request: {
+          url: "https://api.github.com/repos/acme/app/pulls/42",
+          html_url: "https://github.com/acme/app/pull/42",
+        },
+      }),
+    });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    await expect(client.getIssue("acme/app#42")).rejects.toThrow(
+      "acme/app#42 is a pull request, not an issue"
+    );
+  });
+
+  test("should expose linked pull requests as related work items and resources", async () => {
+    responses.push({ body: createGitHubIssue() });
+    responses.push({ body: [linkedPullRequestEvent] });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const issue = await client.getIssue("acme/app#42");
+    const related = await client.getRelatedWorkItems(issue);
+    const resources = client.extractLinkedResources(issue);
+
+    expect(related).toHaveLength(1);
+    expect(related[0].key).toBe("acme/app#50");
+    expect(related[0].status).toBe("merged");
+    expect(related[0].linkType).toBe("linked pull request");
+    expect(
+      resources.find((r) => r.url === "https://github.com/acme/app/pull/50")?.description
+    ).toBe("Pull request #50: Theme tokens (merged)");
+  });
+
+  test("should produce FormattedTaskDetails with Markdown description", async () => {
+    responses.push({ body: createGitHubIssue() });
+    responses.push({ body: [] });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const issue = await client.getIssue("acme/app#42");
+    const details = client.formatIssueDetails(issue, [], []);
+
+    expect(details.key).toBe("acme/app#42");
+    expect(details.reporter).toBe("pm");
+    expect(details.description).toContain("Support dark mode.");
+    expect(details.labels).toEqual(["frontend"]);
+  });
+
+  test("should filter Claude Intern comments", async () => {
+    responses.push({
+      body: [
+        {
+          id: 1,
+          body: "Please use CSS variables",
+          user: { login: "alice", id: 3 },
+          created_at: "2024-01-02T00:00:00Z",
+          updated_at: "2024-01-02T00:00:00Z",
+          html_url: "https://github.com/acme/app/issues/42#issuecomment-1",
+        },
+        {
+          id: 2,
+          body: "### 🤖 Implementation Completed by Claude",
+          user: { login: "claude-intern[bot]", id: 4 },
+          created_at: "2024-01-03T00:00:00Z",
+          updated_at: "2024-01-03T00:00:00Z",
+          html_url: "https://github.com/acme/app/issues/42#issuecomment-2",
+        },
+      ],
+    });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const comments = await client.getIssueComments("acme/app#42");
+
+    expect(comments.map((c) => c.id)).toEqual(["1"]);
+    expect(comments[0].author.displayName).toBe("alice");
+  });
+
+  test("should post results as issue comments", async () => {
+    responses.push({ status: 201, body: { id: 9 } });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    await client.postImplementationComment("acme/app#42", "Done", "Add dark mode");
+
+    expect(requests[0].method).toBe("POST");
+    expect(requests[0].url).toBe(
+      "https://api.github.com/repos/acme/app/issues/42/comments"
+    );
+    expect(requests[0].body.body).toContain("Implementation Completed by Claude");
+  });
+
+  test("should swap status labels on transition", async () => {
+    responses.push({
+      body: [
+        { id: 1, name: "frontend" },
+        { id: 2, name: "In Progress" },
+      ],
+    });
+    responses.push({ body: [] });
+    responses.push({ body: [] });
+    const client = new GitHubIssuesClient({
+      token: "ghp_test",
+      statusLabels: ["In Progress", "In Review"],
+    });
+
+    await client.transitionIssue("acme/app#42", "In Review");
+
+    expect(requests[1].method).toBe("DELETE");
+    expect(requests[1].url).toBe(
+      "https://api.github.com/repos/acme/app/issues/42/labels/In%20Progress"
+    );
+    expect(requests[2].method).toBe("POST");
+    expect(requests[2].body).toEqual({ labels: ["In Review"] });
+  });
+
+  test("should store story points as a label", async () => {
+    responses.push({ body: [{ id: 1, name: "story-points: 3" }] });
+    responses.push({ body: [] });
+    responses.push({ body: [] });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const fieldId = await client.discoverStoryPointsField("acme/app#42");
+    await client.updateStoryPoints("acme/app#42", fieldId!, 5);
+
+    expect(requests[1].method).toBe("DELETE");
+    expect(requests[2].body).toEqual({ labels: ["story-points: 5"] });
+  });
+
+  test("should search issues and derive keys from the repository", async () => {
+    responses.push({
+      body: {
+        total_count: 1,
+        items: [createGitHubIssue({ number: 7 })],
+      },
+    });
+    const client = new GitHubIssuesClient({ token: "ghp_test" });
+
+    const result = await client.searchIssues("repo:acme/app label:claude");
+
+    expect(decodeURIComponent(requests[0].url)).toContain(
+      "q=repo:acme/app label:claude is:issue"
+    );
+    expect(result.issues.map((i) => i.key)).toEqual(["acme/app#7"]);
+    expect(result.total).toBe(1);
+  });
+});
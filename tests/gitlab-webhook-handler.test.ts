@@ -0,0 +1,240 @@
+import { describe, test, expect } from "bun:test";
+import {
+  getFeedbackDiscussionIds,
+  parseGitLabEventType,
+  processGitLabDiscussions,
+  processGitLabMergeRequest,
+  shouldProcessGitLabMergeRequest,
+  shouldProcessGitLabNote,
+  verifyGitLabToken,
+} from "../src/lib/gitlab-webhook-handler";
+import type {
+  GitLabDiscussion,
+  GitLabMergeRequestAttributes,
+  GitLabMergeRequestEvent,
+  GitLabNoteEvent,
+  GitLabProject,
+} from "../src/types/gitlab-webhooks";
+
+const project: GitLabProject = {
+  id: 77,
+  name: "api",
+  path_with_namespace: "acme/platform/api",
+  web_url: "https://gitlab.example.com/acme/platform/api",
+  default_branch: "main",
+};
+
+const mergeRequest: GitLabMergeRequestAttributes = {
+  id: 900,
+  iid: 12,
+  title: "[PROJ-1] Add export",
+  description: "",
+  state: "opened",
+  source_branch: "feature/proj-1",
+  target_branch: "develop",
+  url: "https://gitlab.example.com/acme/platform/api/-/merge_requests/12",
+};
+
+function createNoteEvent(
+  note: string,
+  overrides: Partial<GitLabNoteEvent["object_attributes"]> = {}
+): GitLabNoteEvent {
+  return {
+    object_kind: "note",
+    user: { id: 1, username: "reviewer", name: "Reviewer" },
+    project,
+    object_attributes: {
+      id: 501,
+      note,
+      noteable_type: "MergeRequest",
+      discussion_id: "d1",
+      type: "DiffNote",
+      url: `${mergeRequest.url}#note_501`,
+      ...overrides,
+    },
+    merge_request: mergeRequest,
+  };
+}
+
+function createDiscussion(
+  id: string,
+  bodies: string[],
+  options: { path?: string; resolved?: boolean; resolvable?: boolean } = {}
+): GitLabDiscussion {
+  return {
+    id,
+    individual_note: false,
+    notes: bodies.map((body, index) => ({
+      id: Number(`${id.replace(/\D/g, "") || 0}${index}`),
+      body,
+      author: { id: 1, username: index === 1 ? "claude-bot" : "reviewer", name: "" },
+      system: false,
+      resolvable: options.resolvable ?? true,
+      resolved: options.resolved ?? false,
+      position: options.path
+        ? { old_path: options.path, new_path: options.path, old_line: null, new_line: 42 }
+        : null,
+      created_at: "2024-01-01T00:00:00Z",
+    })),
+  };
+}
+
+describe("GitLab Webhook Handler", () => {
+  describe("verifyGitLabToken", () => {
+    test("should accept the configured token", () => {
+      expect(verifyGitLabToken("secret-123", "secret-123")).toEqual({ valid: true });
+    });
+
+    test("should reject missing or wrong tokens", () => {
+      expect(verifyGitLabToken(null, "secret-123").error).toBe(
+        "Missing X-Gitlab-Token header"
+      );
+      expect(verifyGitLabToken("secret-124", "secret-123").valid).toBe(false);
+      expect(verifyGitLabToken("short", "secret-123").valid).toBe(false);
+    });
+  });
+
+  describe("parseGitLabEventType", () => {
+    test("should accept note and merge request hooks", () => {
+      expect(parseGitLabEventType("Note Hook")).toBe("Note Hook");
+      expect(parseGitLabEventType("Merge Request Hook")).toBe("Merge Request Hook");
+    });
+
+    test("should reject other events", () => {
+      expect(parseGitLabEventType("Push Hook")).toBeNull();
+      expect(parseGitLabEventType(null)).toBeNull();
+    });
+  });
+
+  describe("shouldProcessGitLabNote", () => {
+    test("should process notes that mention the bot", () => {
+      expect(
+        shouldProcessGitLabNote(createNoteEvent("@claude-bot please fix"), "claude-bot")
+      ).toBe(true);
+    });
+
+    test("should skip notes without a mention", () => {
+      expect(shouldProcessGitLabNote(createNoteEvent("please fix"), "claude-bot")).toBe(false);
+    });
+
+    test("should skip system notes, the bot's own notes and closed MRs", () => {
+      expect(
+        shouldProcessGitLabNote(
+          createNoteEvent("@claude-bot resolved", { system: true }),
+          "claude-bot"
+        )
+      ).toBe(false);
+
+      const ownNote = createNoteEvent("@claude-bot done");
+      ownNote.user = { id: 2, username: "claude-bot", name: "Bot" };
+      expect(shouldProcessGitLabNote(ownNote, "claude-bot")).toBe(false);
+
+      const merged = createNoteEvent("@claude-bot fix");
+      merged.merge_request = { ...mergeRequest, state: "merged" };
+      expect(shouldProcessGitLabNote(merged, "claude-bot")).toBe(false);
+    });
+
+    test("should skip notes on issues", () => {
+      expect(
+        shouldProcessGitLabNote(
+          createNoteEvent("@claude-bot fix", { noteable_type: "Issue" }),
+          "claude-bot"
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("shouldProcessGitLabMergeRequest", () => {
+    const event: GitLabMergeRequestEvent = {
+      object_kind: "merge_request",
+      user: { id: 1, username: "reviewer", name: "Reviewer" },
+      project,
+      object_attributes: { ...mergeRequest, action: "update" },
+    };
+
+    test("should process when a reviewer requested changes", () => {
+      expect(
+        shouldProcessGitLabMergeRequest({
+          ...event,
+          reviewers: [{ id: 1, username: "reviewer", name: "", state: "requested_changes" }],
+        })
+      ).toBe(true);
+    });
+
+    test("should skip approvals and closed MRs", () => {
+      expect(
+        shouldProcessGitLabMergeRequest({
+          ...event,
+          reviewers: [{ id: 1, username: "reviewer", name: "", state: "approved" }],
+        })
+      ).toBe(false);
+      expect(
+        shouldProcessGitLabMergeRequest({
+          ...event,
+          object_attributes: { ...event.object_attributes, state: "closed" },
+          reviewers: [{ id: 1, username: "reviewer", name: "", state: "requested_changes" }],
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("processGitLabDiscussions", () => {
+    test("should map diff threads to file comments and other threads to conversation", () => {
+      const result = processGitLabDiscussions(
+        [
+          createDiscussion("d1", ["Rename this", "On it", "Also add a test"], {
+            path: "src/export.ts",
+          }),
+          createDiscussion("d2", ["Update the changelog"]),
+        ],
+        "claude-bot"
+      );
+
+      expect(result.comments).toHaveLength(2);
+      expect(result.comments[0]).toMatchObject({
+        path: "src/export.ts",
+        line: 42,
+        side: "RIGHT",
+        body: "Rename this",
+        isReply: false,
+        discussionId: "d1",
+      });
+      expect(result.comments[1].isReply).toBe(true);
+      expect(result.conversationComments).toHaveLength(1);
+      expect(result.conversationComments[0].discussionId).toBe("d2");
+    });
+
+    test("should skip resolved and non-resolvable threads", () => {
+      const result = processGitLabDiscussions([
+        createDiscussion("d1", ["Done already"], { path: "a.ts", resolved: true }),
+        createDiscussion("d2", ["Nice work"], { resolvable: false }),
+      ]);
+
+      expect(result.comments).toHaveLength(0);
+      expect(result.conversationComments).toHaveLength(0);
+    });
+  });
+
+  describe("processGitLabMergeRequest", () => {
+    test("should build review feedback with the discussion ids", () => {
+      const discussions = processGitLabDiscussions([
+        createDiscussion("d1", ["Rename this"], { path: "src/export.ts" }),
+        createDiscussion("d2", ["Update the changelog"]),
+      ]);
+
+      const feedback = processGitLabMergeRequest(
+        mergeRequest,
+        project,
+        "reviewer",
+        "@claude-bot please address",
+        discussions
+      );
+
+      expect(feedback.prNumber).toBe(12);
+      expect(feedback.repository).toBe("acme/platform/api");
+      expect(feedback.branch).toBe("feature/proj-1");
+      expect(feedback.reviewState).toBe("changes_requested");
+      expect(getFeedbackDiscussionIds(feedback)).toEqual(["d1", "d2"]);
+    });
+  });
+});
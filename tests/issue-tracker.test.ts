@@ -0,0 +1,286 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { ClaudeFormatter } from "../src/lib/claude-formatter";
+import type { IssueTracker, TrackerEstimation } from "../src/lib/issue-tracker";
+import { IssueTrackerRegistry } from "../src/lib/issue-tracker-registry";
+import { JiraClient } from "../src/lib/jira-client";
+import { GitHubIssuesClient } from "../src/lib/github-issues-client";
+import { JiraExtractor } from "../src/lib/jira-extractor";
+import { LinearClient } from "../src/lib/linear-client";
+import type { JiraComment, JiraIssue } from "../src/types/jira";
+import type { ProjectSettings } from "../src/types/settings";
+
+// In-memory tracker used to exercise flows without network access
+class FakeIssueTracker implements IssueTracker {
+  issues = new Map<string, JiraIssue>();
+  comments = new Map<string, JiraComment[]>();
+  posted: Array<{ issueKey: string; kind: string; body: any }> = [];
+  transitions: Array<{ issueKey: string; status: string }> = [];
+  storyPoints = new Map<string, number>();
+
+  getBaseUrl(): string {
+    return "https://tracker.example.com";
+  }
+
+  async getIssue(issueKey: string): Promise<JiraIssue> {
+    const issue = this.issues.get(issueKey);
+    if (!issue) throw new Error(`Issue ${issueKey} not found`);
+    return issue;
+  }
+
+  async getIssueComments(issueKey: string): Promise<JiraComment[]> {
+    return this.comments.get(issueKey) || [];
+  }
+
+  extractLinkedResources(issue: JiraIssue) {
+    return JiraExtractor.extractLinkedResources(issue);
+  }
+
+  async getRelatedWorkItems(issue: JiraIssue) {
+    return JiraExtractor.getRelatedWorkItems(issue, this.getIssue.bind(this));
+  }
+
+  formatIssueDetails(issue: JiraIssue, comments: JiraComment[], linkedResources: any[], relatedIssues: any[] = []) {
+    return JiraExtractor.formatIssueDetails(issue, comments, linkedResources, relatedIssues);
+  }
+
+  async downloadIssueAttachments() {
+    return new Map<string, string>();
+  }
+
+  async downloadAttachmentsFromContent(_content: string, _outputDir: string, existingMap?: Map<string, string>) {
+    return existingMap || new Map<string, string>();
+  }
+
+  async postImplementationComment(issueKey: string, claudeOutput: string) {
+    this.posted.push({ issueKey, kind: "implementation", body: claudeOutput });
+  }
+
+  async postClarityComment(issueKey: string, assessment: any) {
+    this.posted.push({ issueKey, kind: "clarity", body: assessment });
+  }
+
+  async postAssessmentFailureComment(issueKey: string, failureType: "max-turns" | "parse-error") {
+    this.posted.push({ issueKey, kind: "assessment-failure", body: failureType });
+  }
+
+  async postIncompleteImplementationComment(issueKey: string, claudeOutput: string) {
+    this.posted.push({ issueKey, kind: "incomplete", body: claudeOutput });
+  }
+
+  async hasIncompleteImplementationComment() {
+    return false;
+  }
+
+  async postBudgetExceededComment(issueKey: string, reason: string) {
+    this.posted.push({ issueKey, kind: "budget", body: reason });
+  }
+
+  async transitionIssue(issueKey: string, statusName: string) {
+    this.transitions.push({ issueKey, status: statusName });
+  }
+
+  async findEstimationComment() {
+    return null;
+  }
+
+  async discoverStoryPointsField() {
+    return "points";
+  }
+
+  async updateStoryPoints(issueKey: string, _fieldId: string, points: number) {
+    this.storyPoints.set(issueKey, points);
+  }
+
+  async postEstimationComment(issueKey: string, result: TrackerEstimation) {
+    this.posted.push({ issueKey, kind: "estimation", body: result });
+  }
+
+  async updateEstimationComment(issueKey: string, _commentId: string, result: TrackerEstimation) {
+    this.posted.push({ issueKey, kind: "estimation-update", body: result });
+  }
+}
+
+function createIssue(key: string, summary: string): JiraIssue {
+  return {
+    id: key,
+    key,
+    self: `https://tracker.example.com/${key}`,
+    fields: {
+      summary,
+      description: "Plain text description",
+      issuetype: { id: "1", name: "Task", subtask: false },
+      status: { id: "1", name: "To Do", statusCategory: { id: 1, name: "To Do", key: "new", colorName: "blue" } },
+      reporter: { accountId: "1", displayName: "Reporter" },
+      created: "2024-01-01T00:00:00.000Z",
+      updated: "2024-01-01T00:00:00.000Z",
+      labels: [],
+      components: [],
+      fixVersions: [],
+      attachment: [],
+      issuelinks: [],
+    },
+  };
+}
+
+const TRACKER_ENV = [
+  "JIRA_BASE_URL",
+  "JIRA_EMAIL",
+  "JIRA_API_TOKEN",
+  "LINEAR_API_KEY",
+  "GITHUB_TOKEN",
+  "GITHUB_APP_ID",
+];
+
+describe("IssueTrackerRegistry", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of TRACKER_ENV) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of TRACKER_ENV) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+    IssueTrackerRegistry.unregister("fake");
+  });
+
+  const setJiraEnv = () => {
+    process.env.JIRA_BASE_URL = "https://test.atlassian.net";
+    process.env.JIRA_EMAIL = "test@example.com";
+    process.env.JIRA_API_TOKEN = "test-token";
+  };
+
+  test("should register JIRA and Linear by default", () => {
+    const names = IssueTrackerRegistry.list().map((d) => d.name);
+    expect(names).toContain("jira");
+    expect(names).toContain("linear");
+  });
+
+  test("should derive the project key from a task key", () => {
+    expect(IssueTrackerRegistry.getProjectKey("PROJ-123")).toBe("PROJ");
+    expect(IssueTrackerRegistry.getProjectKey("ENG-42")).toBe("ENG");
+    expect(IssueTrackerRegistry.getProjectKey("acme/my-app#7")).toBe("acme/my-app");
+  });
+
+  test("should default to JIRA when JIRA is configured", () => {
+    setJiraEnv();
+    process.env.LINEAR_API_KEY = "lin_api_test";
+    expect(IssueTrackerRegistry.resolveName("ENG-42", null)).toBe("jira");
+  });
+
+  test("should fall back to Linear when it is the only configured tracker", () => {
+    process.env.LINEAR_API_KEY = "lin_api_test";
+    expect(IssueTrackerRegistry.resolveName("ENG-42", null)).toBe("linear");
+    expect(IssueTrackerRegistry.forTask("ENG-42", null)).toBeInstanceOf(LinearClient);
+  });
+
+  test("should prefer the tracker configured in settings.json", () => {
+    setJiraEnv();
+    process.env.LINEAR_API_KEY = "lin_api_test";
+    const settings: ProjectSettings = { projects: { ENG: { tracker: "linear" } } };
+
+    expect(IssueTrackerRegistry.resolveName("ENG-42", settings)).toBe("linear");
+    expect(IssueTrackerRegistry.resolveName("PROJ-1", settings)).toBe("jira");
+    expect(IssueTrackerRegistry.forTask("PROJ-1", settings)).toBeInstanceOf(JiraClient);
+  });
+
+  test("should let a tracker claim task keys by format", () => {
+    setJiraEnv();
+    IssueTrackerRegistry.register({
+      name: "fake",
+      missingConfiguration: () => [],
+      matchesTaskKey: (taskKey) => taskKey.startsWith("FAKE-"),
+      create: () => new FakeIssueTracker(),
+    });
+
+    expect(IssueTrackerRegistry.resolveName("FAKE-1", null)).toBe("fake");
+    expect(IssueTrackerRegistry.resolveName("PROJ-1", null)).toBe("jira");
+  });
+
+  test("should route GitHub issue keys to the GitHub tracker", () => {
+    setJiraEnv();
+    process.env.GITHUB_TOKEN = "ghp_test";
+
+    expect(IssueTrackerRegistry.resolveName("acme/app#42", null)).toBe("github");
+    expect(IssueTrackerRegistry.resolveName("PROJ-1", null)).toBe("jira");
+    expect(IssueTrackerRegistry.forTask("acme/app#42", null)).toBeInstanceOf(GitHubIssuesClient);
+  });
+
+  test("should not use GitHub for generic keys when it is the only configured tracker", () => {
+    process.env.GITHUB_TOKEN = "ghp_test";
+    expect(() => IssueTrackerRegistry.forTask("PROJ-1", null)).toThrow(
+      "Missing jira configuration"
+    );
+  });
+
+  test("should report missing configuration for the selected tracker", () => {
+    const settings: ProjectSettings = { projects: { ENG: { tracker: "linear" } } };
+    expect(() => IssueTrackerRegistry.forTask("ENG-42", settings)).toThrow(
+      "Missing linear configuration: LINEAR_API_KEY"
+    );
+  });
+
+  test("should reject unknown tracker names", () => {
+    const settings: ProjectSettings = { projects: { ENG: { tracker: "trello" } } };
+    expect(() => IssueTrackerRegistry.forTask("ENG-42", settings)).toThrow(
+      'Unknown issue tracker "trello"'
+    );
+  });
+
+  test("should report whether any tracker is configured", () => {
+    expect(IssueTrackerRegistry.hasConfiguredTracker()).toBe(false);
+    process.env.LINEAR_API_KEY = "lin_api_test";
+    expect(IssueTrackerRegistry.hasConfiguredTracker()).toBe(true);
+  });
+});
+
+describe("IssueTracker with an in-memory fake", () => {
+  test("should build a Claude prompt from tracker data", async () => {
+    const tracker = new FakeIssueTracker();
+    tracker.issues.set("FAKE-1", createIssue("FAKE-1", "Add export button"));
+    tracker.comments.set("FAKE-1", [
+      {
+        id: "c1",
+        body: "Use CSV format",
+        author: { accountId: "2", displayName: "PM" },
+        created: "2024-01-02T00:00:00.000Z",
+        updated: "2024-01-02T00:00:00.000Z",
+      },
+    ]);
+
+    const issue = await tracker.getIssue("FAKE-1");
+    const comments = await tracker.getIssueComments("FAKE-1");
+    const details = tracker.formatIssueDetails(
+      issue,
+      comments,
+      tracker.extractLinkedResources(issue),
+      await tracker.getRelatedWorkItems(issue)
+    );
+    const prompt = ClaudeFormatter.formatTaskForClaude(details, tracker.getBaseUrl());
+
+    expect(prompt).toContain("Add export button");
+    expect(prompt).toContain("Plain text description");
+    expect(prompt).toContain("Use CSV format");
+  });
+
+  test("should record posted comments, transitions and story points", async () => {
+    const tracker = new FakeIssueTracker();
+
+    await tracker.transitionIssue("FAKE-1", "In Progress");
+    await tracker.postAssessmentFailureComment("FAKE-1", "max-turns");
+    const fieldId = await tracker.discoverStoryPointsField();
+    await tracker.updateStoryPoints("FAKE-1", fieldId, 3);
+
+    expect(tracker.transitions).toEqual([{ issueKey: "FAKE-1", status: "In Progress" }]);
+    expect(tracker.posted[0].kind).toBe("assessment-failure");
+    expect(tracker.storyPoints.get("FAKE-1")).toBe(3);
+  });
+});
@@ -514,4 +514,23 @@ Implementation complete!`;
       expect(incompleteStr).toContain("⚠️");
     });
   });
+
+  describe("Assessment Failure Comment", () => {
+    test("should explain max-turns failures with next steps", () => {
+      const adf = JiraFormatter.createAssessmentFailureADF("max-turns");
+      const adfStr = JSON.stringify(adf);
+
+      expect(adf[0].type).toBe("panel");
+      expect(adfStr).toContain("Feasibility Assessment Failed");
+      expect(adfStr).toContain("maximum conversation turns");
+      expect(adfStr).toContain("Next steps:");
+    });
+
+    test("should describe parse errors without the max-turns guidance", () => {
+      const adfStr = JSON.stringify(JiraFormatter.createAssessmentFailureADF("parse-error"));
+
+      expect(adfStr).toContain("Could not parse feasibility assessment response");
+      expect(adfStr).not.toContain("Next steps:");
+    });
+  });
 });
@@ -0,0 +1,192 @@
+import { describe, test, expect } from "bun:test";
+import { createHmac } from "crypto";
+import {
+  matchClarificationAnswer,
+  matchJiraTrigger,
+  verifyJiraWebhook,
+} from "../src/lib/jira-webhook-handler";
+import type { PendingClarification } from "../src/lib/clarifications";
+import type { JiraChangelogItem, JiraIssueUpdatedEvent } from "../src/types/jira-webhooks";
+import type { ProjectSettings } from "../src/types/settings";
+
+function createEvent(
+  items: JiraChangelogItem[],
+  assignee: JiraIssueUpdatedEvent["issue"]["fields"]["assignee"] = null
+): JiraIssueUpdatedEvent {
+  return {
+    webhookEvent: "jira:issue_updated",
+    timestamp: 1700000000000,
+    issue: {
+      id: "10001",
+      key: "PROJ-42",
+      fields: { summary: "Add export", assignee, labels: [] },
+    },
+    changelog: { id: "1", items },
+  };
+}
+
+const settings: ProjectSettings = {
+  projects: {
+    PROJ: {
+      webhookTriggers: {
+        assignee: "Claude Intern",
+        labels: ["ai-ready"],
+        prTargetBranch: "develop",
+      },
+    },
+  },
+};
+
+describe("JIRA Webhook Handler", () => {
+  describe("verifyJiraWebhook", () => {
+    const secret = "jira-secret";
+
+    test("should verify an HMAC signature", () => {
+      const payload = '{"webhookEvent":"jira:issue_updated"}';
+      const signature =
+        "sha256=" + createHmac("sha256", secret).update(payload).digest("hex");
+
+      expect(verifyJiraWebhook(payload, signature, null, secret).valid).toBe(true);
+      expect(verifyJiraWebhook(payload, "sha256=bad", null, secret).valid).toBe(false);
+    });
+
+    test("should accept the secret as a query parameter", () => {
+      expect(verifyJiraWebhook("{}", null, "jira-secret", secret).valid).toBe(true);
+      expect(verifyJiraWebhook("{}", null, "jira-secreT", secret).valid).toBe(false);
+    });
+
+    test("should reject requests without a secret", () => {
+      const result = verifyJiraWebhook("{}", null, null, secret);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Missing");
+    });
+  });
+
+  describe("matchJiraTrigger", () => {
+    test("should match when the issue is assigned to the bot user", () => {
+      const event = createEvent(
+        [{ field: "assignee", from: null, fromString: null, to: "acc-1", toString: "Claude Intern" }],
+        { accountId: "acc-1", displayName: "Claude Intern" }
+      );
+
+      expect(matchJiraTrigger(event, settings)).toEqual({
+        taskKey: "PROJ-42",
+        projectKey: "PROJ",
+        reason: "assigned to Claude Intern",
+        prTargetBranch: "develop",
+      });
+    });
+
+    test("should match when a trigger label is added", () => {
+      const event = createEvent([
+        { field: "labels", from: null, fromString: "backend", to: null, toString: "backend ai-ready" },
+      ]);
+
+      expect(matchJiraTrigger(event, settings)?.reason).toBe('label "ai-ready" added');
+    });
+
+    test("should ignore labels that were already present", () => {
+      const event = createEvent([
+        { field: "labels", from: null, fromString: "ai-ready", to: null, toString: "ai-ready backend" },
+      ]);
+
+      expect(matchJiraTrigger(event, settings)).toBeNull();
+    });
+
+    test("should ignore updates that do not change a trigger field", () => {
+      const event = createEvent(
+        [{ field: "summary", from: null, fromString: "Old", to: null, toString: "New" }],
+        { accountId: "acc-1", displayName: "Claude Intern" }
+      );
+
+      expect(matchJiraTrigger(event, settings)).toBeNull();
+    });
+
+    test("should ignore assignment to other users", () => {
+      const event = createEvent(
+        [{ field: "assignee", from: null, fromString: null, to: "acc-2", toString: "Jane" }],
+        { accountId: "acc-2", displayName: "Jane" }
+      );
+
+      expect(matchJiraTrigger(event, settings)).toBeNull();
+    });
+
+    test("should ignore projects without triggers and other events", () => {
+      const event = createEvent([
+        { field: "labels", from: null, fromString: "", to: null, toString: "ai-ready" },
+      ]);
+
+      expect(matchJiraTrigger({ ...event, issue: { ...event.issue, key: "OTHER-1" } }, settings)).toBeNull();
+      expect(matchJiraTrigger({ ...event, webhookEvent: "jira:issue_created" }, settings)).toBeNull();
+      expect(matchJiraTrigger(event, null)).toBeNull();
+    });
+
+    test("should default the PR target branch to main", () => {
+      const event = createEvent([
+        { field: "labels", from: null, fromString: "", to: null, toString: "ai-ready" },
+      ]);
+
+      expect(
+        matchJiraTrigger(event, { projects: { PROJ: { webhookTriggers: { labels: ["ai-ready"] } } } })
+          ?.prTargetBranch
+      ).toBe("main");
+    });
+  });
+
+  describe("matchClarificationAnswer", () => {
+    const clarification: PendingClarification = {
+      taskKey: "PROJ-42",
+      questions: ["requirements: Which export formats are needed?"],
+      summary: "Export formats are not specified",
+      askedAt: Date.parse("2026-03-02T09:00:00.000Z"),
+      rounds: 1,
+    };
+
+    function commentEvent(body: string, created: string): JiraIssueUpdatedEvent {
+      return {
+        ...createEvent([]),
+        webhookEvent: "comment_created",
+        comment: {
+          id: "c1",
+          body,
+          author: { accountId: "acc-3", displayName: "Jane Reporter" },
+          created,
+        },
+      };
+    }
+
+    test("should match a comment posted after the questions", () => {
+      const event = commentEvent("CSV and JSON", "2026-03-02T10:00:00.000+0000");
+
+      expect(matchClarificationAnswer(event, clarification, settings)).toEqual({
+        taskKey: "PROJ-42",
+        projectKey: "PROJ",
+        reason: "clarification answered by Jane Reporter",
+        prTargetBranch: "develop",
+      });
+    });
+
+    test("should ignore earlier comments and claude-intern's own comments", () => {
+      expect(
+        matchClarificationAnswer(commentEvent("CSV", "2026-03-02T08:00:00.000+0000"), clarification, settings)
+      ).toBeNull();
+      expect(
+        matchClarificationAnswer(
+          commentEvent("Automated Task Feasibility Assessment", "2026-03-02T10:00:00.000+0000"),
+          clarification,
+          settings
+        )
+      ).toBeNull();
+    });
+
+    test("should ignore tasks without pending questions", () => {
+      const event = commentEvent("CSV", "2026-03-02T10:00:00.000+0000");
+
+      expect(matchClarificationAnswer(event, null, settings)).toBeNull();
+      expect(
+        matchClarificationAnswer(event, { ...clarification, taskKey: "PROJ-7" }, settings)
+      ).toBeNull();
+      expect(matchClarificationAnswer(createEvent([]), clarification, settings)).toBeNull();
+    });
+  });
+});
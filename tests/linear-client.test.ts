@@ -0,0 +1,352 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { LinearClient } from "../src/lib/linear-client";
+import { MarkdownFormatter } from "../src/lib/markdown-formatter";
+import type { LinearIssue, LinearIssueReference } from "../src/types/linear";
+
+function createReference(identifier: string, title: string): LinearIssueReference {
+  return {
+    id: `uuid-${identifier.split("-")[1]}`,
+    identifier,
+    title,
+    priority: 0,
+    priorityLabel: "No priority",
+    state: { id: "state-2", name: "In Progress", type: "started" },
+  };
+}
+
+// Minimal Linear issue payload as returned by the GraphQL API
+function createLinearIssue(overrides: Partial<LinearIssue> = {}): LinearIssue {
+  return {
+    id: "uuid-42",
+    identifier: "ENG-42",
+    title: "Add dark mode",
+    description:
+      "Support dark mode.\n\n![mock](https://uploads.linear.app/abc/def/mockup.png)\n\nSee https://figma.com/file/123",
+    url: "https://linear.app/acme/issue/ENG-42",
+    priority: 2,
+    priorityLabel: "High",
+    estimate: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-02T00:00:00.000Z",
+    state: { id: "state-1", name: "Todo", type: "unstarted" },
+    team: { id: "team-1", key: "ENG", name: "Engineering" },
+    assignee: { id: "user-1", name: "dev", displayName: "Dev" },
+    creator: { id: "user-2", name: "pm", displayName: "PM" },
+    project: { id: "project-1", name: "Theming" },
+    cycle: { id: "cycle-1", number: 7 },
+    parent: null,
+    labels: { nodes: [{ id: "label-1", name: "frontend" }] },
+    children: { nodes: [createReference("ENG-43", "Toggle")] },
+    relations: {
+      nodes: [
+        {
+          id: "rel-1",
+          type: "blocks",
+          relatedIssue: createReference("ENG-50", "Release"),
+        },
+      ],
+    },
+    inverseRelations: {
+      nodes: [
+        {
+          id: "rel-2",
+          type: "blocks",
+          issue: createReference("ENG-10", "Tokens"),
+        },
+      ],
+    },
+    attachments: {
+      nodes: [
+        {
+          id: "att-1",
+          title: "PR #12",
+          subtitle: "Open",
+          url: "https://github.com/acme/app/pull/12",
+          createdAt: "2024-01-01T00:00:00.000Z",
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe("LinearClient", () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ query: string; variables: any; headers: any }>;
+  let responses: any[];
+
+  beforeEach(() => {
+    requests = [];
+    responses = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      requests.push({ ...body, headers: init.headers });
+      return new Response(JSON.stringify(responses.shift() ?? { data: {} }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should require an API key", () => {
+    expect(() => new LinearClient("")).toThrow("Linear API key is required");
+  });
+
+  test("should send the API key as the Authorization header", async () => {
+    responses.push({ data: { issue: createLinearIssue() } });
+    const client = new LinearClient("lin_api_test");
+
+    await client.getIssue("ENG-42");
+
+    expect(requests[0].headers.Authorization).toBe("lin_api_test");
+    expect(requests[0].variables).toEqual({ id: "ENG-42" });
+  });
+
+  test("should normalize a Linear issue into the JiraIssue shape", async () => {
+    responses.push({ data: { issue: createLinearIssue() } });
+    const client = new LinearClient("lin_api_test");
+
+    const issue = await client.getIssue("ENG-42");
+
+    expect(issue.key).toBe("ENG-42");
+    expect(issue.fields.summary).toBe("Add dark mode");
+    expect(issue.fields.status.name).toBe("Todo");
+    expect(issue.fields.priority?.name).toBe("High");
+    expect(issue.fields.labels).toEqual(["frontend"]);
+    expect(issue.fields.components.map((c) => c.name)).toEqual(["Theming"]);
+    expect(issue.fields.fixVersions.map((v) => v.name)).toEqual(["Cycle 7"]);
+    expect(issue.fields.subtasks.map((s: any) => s.key)).toEqual(["ENG-43"]);
+    expect(issue.fields.attachment).toHaveLength(1);
+    expect(issue.fields.attachment[0].filename).toBe("mockup.png");
+  });
+
+  test("should map relations to outward and inward issue links", async () => {
+    responses.push({ data: { issue: createLinearIssue() } });
+    const client = new LinearClient("lin_api_test");
+
+    const issue = await client.getIssue("ENG-42");
+    const [outward, inward] = issue.fields.issuelinks;
+
+    expect(outward.outwardIssue?.key).toBe("ENG-50");
+    expect(outward.outwardIssue?.fields.status.name).toBe("In Progress");
+    expect(outward.type.outward).toBe("blocks");
+    expect(inward.inwardIssue?.key).toBe("ENG-10");
+    expect(inward.type.inward).toBe("is blocked by");
+  });
+
+  test("should surface GraphQL errors", async () => {
+    responses.push({ errors: [{ message: "Entity not found" }] });
+    const client = new LinearClient("lin_api_test");
+
+    await expect(client.getIssue("ENG-999")).rejects.toThrow("Entity not found");
+  });
+
+  test("should include link attachments as linked resources", async () => {
+    responses.push({ data: { issue: createLinearIssue() } });
+    const client = new LinearClient("lin_api_test");
+
+    const issue = await client.getIssue("ENG-42");
+    const resources = client.extractLinkedResources(issue);
+
+    const pr = resources.find((r) => r.url === "https://github.com/acme/app/pull/12");
+    expect(pr?.description).toBe("PR #12 (Open)");
+    expect(resources.some((r) => r.issueKey === "ENG-50")).toBe(true);
+  });
+
+  test("should produce FormattedTaskDetails with Markdown description", async () => {
+    responses.push({ data: { issue: createLinearIssue() } });
+    const client = new LinearClient("lin_api_test");
+
+    const issue = await client.getIssue("ENG-42");
+    const details = client.formatIssueDetails(issue, [], []);
+
+    expect(details.key).toBe("ENG-42");
+    expect(details.issueType).toBe("Issue");
+    expect(details.reporter).toBe("PM");
+    expect(typeof details.description).toBe("string");
+    expect(details.renderedDescription).toBeUndefined();
+  });
+
+  test("should filter Claude Intern comments and keep chronological order", async () => {
+    responses.push({
+      data: {
+        issue: {
+          comments: {
+            nodes: [
+              {
+                id: "c2",
+                body: "Second",
+                createdAt: "2024-01-03T00:00:00.000Z",
+                updatedAt: "2024-01-03T00:00:00.000Z",
+                user: { id: "u", name: "bob" },
+              },
+              {
+                id: "c3",
+                body: "### 🤖 Implementation Completed by Claude",
+                createdAt: "2024-01-04T00:00:00.000Z",
+                updatedAt: "2024-01-04T00:00:00.000Z",
+              },
+              {
+                id: "c1",
+                body: "First",
+                createdAt: "2024-01-02T00:00:00.000Z",
+                updatedAt: "2024-01-02T00:00:00.000Z",
+                user: { id: "u", name: "alice" },
+              },
+            ],
+          },
+        },
+      },
+    });
+    const client = new LinearClient("lin_api_test");
+
+    const comments = await client.getIssueComments("ENG-42");
+
+    expect(comments.map((c) => c.id)).toEqual(["c1", "c2"]);
+    expect(comments[0].author.displayName).toBe("alice");
+  });
+
+  test("should fetch every page of comments", async () => {
+    const comment = (id: string) => ({
+      id,
+      body: id,
+      createdAt: `2024-01-0${id.slice(1)}T00:00:00.000Z`,
+      updatedAt: `2024-01-0${id.slice(1)}T00:00:00.000Z`,
+    });
+    responses.push({
+      data: {
+        issue: {
+          comments: { nodes: [comment("c2")], pageInfo: { hasNextPage: true, endCursor: "cursor-1" } },
+        },
+      },
+    });
+    responses.push({
+      data: {
+        issue: {
+          comments: { nodes: [comment("c1")], pageInfo: { hasNextPage: false, endCursor: "cursor-2" } },
+        },
+      },
+    });
+    const client = new LinearClient("lin_api_test");
+
+    const comments = await client.getIssueComments("ENG-42");
+
+    expect(comments.map((c) => c.id)).toEqual(["c1", "c2"]);
+    expect(requests.map((r) => r.variables.after)).toEqual([null, "cursor-1"]);
+  });
+
+  test("should move the issue to the matching workflow state", async () => {
+    responses.push({ data: { issue: { id: "uuid-42", team: { id: "team-1" } } } });
+    responses.push({
+      data: {
+        team: {
+          states: {
+            nodes: [
+              { id: "s-todo", name: "Todo", type: "unstarted" },
+              { id: "s-review", name: "In Review", type: "started" },
+            ],
+          },
+        },
+      },
+    });
+    responses.push({ data: { issueUpdate: { success: true } } });
+    const client = new LinearClient("lin_api_test");
+
+    await client.transitionIssue("ENG-42", "in review");
+
+    expect(requests[2].variables).toEqual({
+      id: "uuid-42",
+      input: { stateId: "s-review" },
+    });
+  });
+
+  test("should list available states when the target state is missing", async () => {
+    responses.push({ data: { issue: { id: "uuid-42", team: { id: "team-1" } } } });
+    responses.push({
+      data: { team: { states: { nodes: [{ id: "s-todo", name: "Todo", type: "unstarted" }] } } },
+    });
+    const client = new LinearClient("lin_api_test");
+
+    await expect(client.transitionIssue("ENG-42", "Done")).rejects.toThrow(
+      'Status "Done" not available for ENG-42. Available: Todo'
+    );
+  });
+
+  test("should write story points to the estimate field", async () => {
+    responses.push({ data: { issue: { id: "uuid-42", team: { id: "team-1" } } } });
+    responses.push({ data: { issueUpdate: { success: true } } });
+    const client = new LinearClient("lin_api_test");
+
+    expect(await client.discoverStoryPointsField("ENG-42")).toBe("estimate");
+    await client.updateStoryPoints("ENG-42", "estimate", 5);
+
+    expect(requests[1].variables.input).toEqual({ estimate: 5 });
+  });
+
+  test("should find an existing estimation comment", async () => {
+    responses.push({
+      data: {
+        issue: {
+          comments: {
+            nodes: [
+              {
+                id: "est-1",
+                body: "### 🤖 Automated Story Points Estimation",
+                createdAt: "2024-01-05T00:00:00.000Z",
+                updatedAt: "2024-01-05T00:00:00.000Z",
+              },
+            ],
+          },
+        },
+      },
+    });
+    const client = new LinearClient("lin_api_test");
+
+    const existing = await client.findEstimationComment("ENG-42");
+
+    expect(existing).toEqual({ commentId: "est-1", created: "2024-01-05T00:00:00.000Z" });
+  });
+});
+
+describe("MarkdownFormatter", () => {
+  test("should include the markers used to filter Claude Intern comments", () => {
+    expect(
+      MarkdownFormatter.createImplementationCommentMarkdown("Done", "Add dark mode")
+    ).toContain("Implementation Completed by Claude");
+    expect(
+      MarkdownFormatter.createClarityAssessmentMarkdown({
+        isImplementable: true,
+        clarityScore: 8,
+        issues: [],
+        recommendations: [],
+        summary: "Clear",
+      })
+    ).toContain("Automated Task Feasibility Assessment");
+    expect(
+      MarkdownFormatter.createIncompleteImplementationCommentMarkdown("Stuck")
+    ).toContain("Implementation Incomplete");
+  });
+
+  test("should render estimation details as Markdown", () => {
+    const markdown = MarkdownFormatter.createEstimationCommentMarkdown({
+      storyPoints: 5,
+      confidence: "low",
+      implementationConfidence: 6,
+      reasoning: "Touches several modules",
+      risks: ["Theme tokens"],
+      unclearAreas: [],
+      summary: "Medium task",
+    });
+
+    expect(markdown).toContain("Automated Story Points Estimation");
+    expect(markdown).toContain("**Story Points:** 5");
+    expect(markdown).toContain("6/10 — May need guidance");
+    expect(markdown).toContain("- Theme tokens");
+    expect(markdown).not.toContain("Unclear Areas");
+    expect(markdown).toContain("Low confidence estimate");
+  });
+});
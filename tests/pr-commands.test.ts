@@ -0,0 +1,153 @@
+import { describe, test, expect } from "bun:test";
+import type { GitHubReviewsClient } from "../src/lib/github-reviews";
+import {
+  formatCommandHelp,
+  formatSelfReviewReply,
+  handlePRCommandComment,
+  hasPermission,
+  parsePRCommand,
+} from "../src/lib/pr-commands";
+import type { AutoReviewLoopResult, ReviewFeedback, ReviewFeedbackItem } from "../src/types/auto-review";
+import type { IssueCommentEvent } from "../src/types/github-webhooks";
+
+function commentEvent(body: string, login = "alice"): IssueCommentEvent {
+  return {
+    action: "created",
+    issue: {
+      number: 7,
+      title: "[PROJ-1] Add login",
+      state: "open",
+      html_url: "https://github.com/owner/repo/pull/7",
+      pull_request: { url: "", html_url: "https://github.com/owner/repo/pull/7" },
+    },
+    comment: { id: 99, body, user: { login, id: 1, avatar_url: "", type: "User" }, html_url: "", created_at: "" },
+    repository: { full_name: "owner/repo" },
+    sender: { login },
+  } as unknown as IssueCommentEvent;
+}
+
+function fakeClient(permission: string) {
+  const calls = { reactions: [] as string[], comments: [] as string[], closed: [] as number[] };
+  const client = {
+    getBotUsername: async () => "claude-intern[bot]",
+    getRepositoryPermission: async () => permission,
+    addReactionToIssueComment: async (_o: string, _r: string, _id: number, reaction: string) => {
+      calls.reactions.push(reaction);
+    },
+    postPullRequestComment: async (_o: string, _r: string, _n: number, body: string) => {
+      calls.comments.push(body);
+    },
+    getPullRequest: async () => ({ number: 7, title: "[PROJ-1] Add login", state: "open", head: { ref: "feature/proj-1" }, base: { ref: "main" } }),
+    closePullRequest: async (_o: string, _r: string, number: number) => {
+      calls.closed.push(number);
+    },
+  } as unknown as GitHubReviewsClient;
+  return { client, calls };
+}
+
+describe("PR Commands", () => {
+  test("should parse the command after the bot mention", () => {
+    expect(parsePRCommand("@claude-intern rebase", "claude-intern[bot]")).toEqual({ name: "rebase", args: "" });
+    expect(parsePRCommand("Thanks!\n@Claude-Intern[bot] explain why the cache is needed?\nMore text", "claude-intern[bot]")).toEqual({
+      name: "explain",
+      args: "why the cache is needed?",
+    });
+    expect(parsePRCommand("@claude-intern add tests for the error path", "claude-intern[bot]")).toEqual({
+      name: "add-tests",
+      args: "for the error path",
+    });
+    expect(parsePRCommand("@claude-intern auto-review", "claude-intern[bot]")?.name).toBe("review");
+    expect(parsePRCommand("@someone-else rebase", "claude-intern[bot]")).toBeNull();
+  });
+
+  test("should compare repository permissions", () => {
+    expect(hasPermission("admin", "write")).toBe(true);
+    expect(hasPermission("maintain", "write")).toBe(true);
+    expect(hasPermission("triage", "write")).toBe(false);
+    expect(hasPermission("read", "read")).toBe(true);
+    expect(hasPermission("none", "read")).toBe(false);
+  });
+
+  test("should list the commands with the bot mention", () => {
+    const help = formatCommandHelp("claude-intern[bot]");
+    expect(help).toContain("| `@claude-intern rebase` | Rebase onto the base branch, resolving conflicts |");
+    expect(help).toContain("| `@claude-intern explain [question]` |");
+  });
+
+  describe("formatSelfReviewReply", () => {
+    const item = { title: "Missing null check", priority: "high" } as ReviewFeedbackItem;
+    const feedback = (items: ReviewFeedbackItem[]): ReviewFeedback => ({ summary: "", items, approved: items.length === 0 });
+
+    test("should not claim fixes when the first review passes", () => {
+      const result: AutoReviewLoopResult = {
+        iterations: 1,
+        success: true,
+        finalFeedback: feedback([]),
+        history: [{ iteration: 1, feedback: feedback([]), addressed: [] }],
+        stopReason: "approved",
+      };
+
+      expect(formatSelfReviewReply(result)).toBe("Self-review finished after 1 iteration(s). No fixes were pushed.");
+    });
+
+    test("should count fixes that were kept and report a rollback", () => {
+      const result: AutoReviewLoopResult = {
+        iterations: 3,
+        success: false,
+        finalFeedback: feedback([item]),
+        history: [
+          { iteration: 1, feedback: feedback([item, item]), addressed: [item, item] },
+          { iteration: 2, feedback: feedback([item]), addressed: [item] },
+          { iteration: 3, feedback: feedback([item, item]), addressed: [] },
+        ],
+        stopReason: "regression",
+        stopDetails: "findings went from 1 to 2",
+        rolledBackIteration: 2,
+      };
+
+      expect(formatSelfReviewReply(result)).toBe(
+        "Self-review stopped after 3 iteration(s). Fixes for 2 finding(s) were pushed to this branch. " +
+          "The fixes of iteration 2 made things worse and were rolled back. " +
+          "Stopped early (regression): findings went from 1 to 2. 1 finding(s) left."
+      );
+    });
+  });
+
+  describe("handlePRCommandComment", () => {
+    test("should ignore comments without a command for the bot", async () => {
+      const { client, calls } = fakeClient("admin");
+      const result = await handlePRCommandComment(commentEvent("cc @bob"), { client });
+
+      expect(result.success).toBe(true);
+      expect(calls.reactions).toEqual([]);
+    });
+
+    test("should refuse commands the commenter has no permission for", async () => {
+      const { client, calls } = fakeClient("read");
+      const result = await handlePRCommandComment(commentEvent("@claude-intern close"), { client });
+
+      expect(result.success).toBe(false);
+      expect(calls.reactions).toEqual(["confused"]);
+      expect(calls.comments).toEqual(["@alice `close` needs write access to this repository."]);
+      expect(calls.closed).toEqual([]);
+    });
+
+    test("should answer unknown commands with the command list", async () => {
+      const { client, calls } = fakeClient("write");
+      const result = await handlePRCommandComment(commentEvent("@claude-intern deploy"), { client });
+
+      expect(result.message).toBe('Unknown command "deploy"');
+      expect(calls.reactions).toEqual(["confused"]);
+      expect(calls.comments[0]).toContain("I don't know the command `deploy`");
+    });
+
+    test("should acknowledge and run allowed commands", async () => {
+      const { client, calls } = fakeClient("write");
+      const result = await handlePRCommandComment(commentEvent("@claude-intern close"), { client });
+
+      expect(result).toEqual({ success: true, message: "Closed PR #7" });
+      expect(calls.reactions).toEqual(["eyes", "hooray"]);
+      expect(calls.closed).toEqual([7]);
+    });
+  });
+});
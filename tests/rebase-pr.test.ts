@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { execSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  extractConflictHunks,
+  extractResolutionSummary,
+  formatConflictPrompt,
+  formatRebaseComment,
+  hasConflictMarkers,
+  rebaseBranch,
+  type RebaseConflict,
+} from "../src/lib/rebase-pr";
+
+const conflicted = [
+  "import a from 'a';",
+  "",
+  "export function greet() {",
+  "<<<<<<< HEAD",
+  '  return "Hello";',
+  "=======",
+  '  return "Hi";',
+  ">>>>>>> abc1234 (Shorter greeting)",
+  "}",
+  "",
+  "export const x = 1;",
+].join("\n");
+
+describe("Rebase PR", () => {
+  test("should find conflict regions with context", () => {
+    expect(hasConflictMarkers(conflicted)).toBe(true);
+    expect(hasConflictMarkers("const a = '<<<<<<<';")).toBe(false);
+
+    const hunks = extractConflictHunks(conflicted, 1);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toBe(
+      [
+        "@@ line 3 @@",
+        "export function greet() {",
+        "<<<<<<< HEAD",
+        '  return "Hello";',
+        "=======",
+        '  return "Hi";',
+        ">>>>>>> abc1234 (Shorter greeting)",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("should give Claude both sides and the original task", () => {
+    const conflict: RebaseConflict = {
+      commit: "abc1234 Shorter greeting",
+      files: [
+        { path: "src/greet.ts", hunks: extractConflictHunks(conflicted), baseCommits: ["def5678 Greet politely"] },
+        { path: "src/old.ts", hunks: [], baseCommits: [] },
+      ],
+    };
+
+    const prompt = formatConflictPrompt(
+      { number: 42, title: "[PROJ-1] Shorter greeting", branch: "feature/proj-1", baseBranch: "main" },
+      conflict,
+      "# PROJ-1: Make the greeting shorter\n"
+    );
+
+    expect(prompt).toContain("Replaying commit `abc1234 Shorter greeting`");
+    expect(prompt).toContain("### src/greet.ts\n\nChanged on `main` by:\n- def5678 Greet politely");
+    expect(prompt).toContain('<<<<<<< HEAD\n  return "Hello";');
+    expect(prompt).toContain("deleted on one side");
+    expect(prompt).toContain("## Original Task\n\n# PROJ-1: Make the greeting shorter");
+    expect(prompt).toContain("Do NOT run `git rebase --continue`");
+  });
+
+  test("should extract the resolution summary", () => {
+    expect(
+      extractResolutionSummary("Fixed it.\n\n## Resolution Summary\n\nKept the polite greeting.\n")
+    ).toBe("Kept the polite greeting.");
+    expect(extractResolutionSummary("Fixed it.")).toBeNull();
+  });
+
+  test("should explain conflict resolutions in the PR comment", () => {
+    const comment = formatRebaseComment("main", "def5678", {
+      success: true,
+      message: "",
+      commits: 2,
+      resolutions: [{ commit: "abc1234 Shorter greeting", files: ["src/greet.ts"], summary: "Kept both." }],
+    });
+
+    expect(comment).toContain("### 🔀 Rebased onto `main`");
+    expect(comment).toContain("2 commit(s) of this branch were replayed onto `def5678`");
+    expect(comment).toContain("**abc1234 Shorter greeting** — `src/greet.ts`\n\nKept both.");
+    expect(
+      formatRebaseComment("main", "def5678", { success: false, message: "boom", commits: 1, resolutions: [] })
+    ).toContain("### ⚠️ Automatic Rebase Failed");
+  });
+
+  describe("rebaseBranch", () => {
+    let repoDir: string;
+
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: repoDir, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+    const commitFile = (content: string, message: string) => {
+      writeFileSync(join(repoDir, "greet.txt"), content);
+      git(`commit -qam "${message}"`);
+    };
+
+    beforeEach(() => {
+      repoDir = mkdtempSync(join(tmpdir(), "rebase-pr-test-"));
+      git("init -q -b main");
+      git("config user.email test@example.com");
+      git("config user.name Test");
+      writeFileSync(join(repoDir, "greet.txt"), "Hello\n");
+      git("add greet.txt");
+      git('commit -qm "Initial"');
+      git("checkout -qb feature/proj-1");
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    test("should report a branch that is already up to date", async () => {
+      commitFile("Hi\n", "Shorter greeting");
+
+      const result = await rebaseBranch(repoDir, "main", async () => {
+        throw new Error("no conflicts expected");
+      });
+
+      expect(result).toMatchObject({ success: true, upToDate: true, commits: 0 });
+    });
+
+    test("should hand conflicts to the resolver and continue the rebase", async () => {
+      commitFile("Hi\n", "Shorter greeting");
+      git("checkout -q main");
+      commitFile("Hello there\n", "Greet politely");
+      git("checkout -q feature/proj-1");
+
+      const conflicts: RebaseConflict[] = [];
+      const result = await rebaseBranch(repoDir, "main", async (conflict) => {
+        conflicts.push(conflict);
+        writeFileSync(join(repoDir, "greet.txt"), "Hi there\n");
+        return { success: true, summary: "Kept the shorter greeting with the polite suffix." };
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.commits).toBe(1);
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].commit).toMatch(/^[0-9a-f]+ Shorter greeting$/);
+      expect(conflicts[0].files[0].path).toBe("greet.txt");
+      expect(conflicts[0].files[0].baseCommits[0]).toMatch(/Greet politely$/);
+      expect(result.resolutions[0].summary).toBe("Kept the shorter greeting with the polite suffix.");
+      expect(readFileSync(join(repoDir, "greet.txt"), "utf8")).toBe("Hi there\n");
+      expect(git("log --format=%s")).toBe("Shorter greeting\nGreet politely\nInitial");
+    });
+
+    test("should abort and keep the branch when conflict markers remain", async () => {
+      commitFile("Hi\n", "Shorter greeting");
+      const before = git("rev-parse HEAD");
+      git("checkout -q main");
+      commitFile("Hello there\n", "Greet politely");
+      git("checkout -q feature/proj-1");
+
+      const result = await rebaseBranch(repoDir, "main", async () => ({ success: true, summary: "" }));
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Conflict markers left in greet.txt");
+      expect(git("rev-parse HEAD")).toBe(before);
+      expect(git("status --porcelain")).toBe("");
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { execSync } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  clearResumeState,
+  commitWorkInProgress,
+  getResumeStatePath,
+  loadResumeState,
+  restoreWorkInProgress,
+  saveResumeState,
+  type ResumeState,
+} from "../src/lib/resume-state";
+
+function resumeState(overrides: Partial<ResumeState> = {}): ResumeState {
+  return {
+    taskKey: "PROJ-1",
+    reason: "max_turns",
+    sessionId: "session-123",
+    branch: "feature/proj-1",
+    wipCommit: null,
+    taskFile: "/tmp/claude-intern-tasks/proj-1/task-details.md",
+    taskSummary: "Add export",
+    enableGit: true,
+    createPr: true,
+    prTargetBranch: "main",
+    skipJiraComments: false,
+    hookRetries: 10,
+    autoReview: false,
+    autoReviewIterations: 5,
+    savedAt: "2026-03-02T09:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("Resume State", () => {
+  let testDir: string;
+  let originalCwd: string;
+  let originalOutputDir: string | undefined;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    originalOutputDir = process.env.CLAUDE_INTERN_OUTPUT_DIR;
+    testDir = mkdtempSync(join(tmpdir(), "resume-state-test-"));
+    process.env.CLAUDE_INTERN_OUTPUT_DIR = join(testDir, "output");
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (originalOutputDir === undefined) {
+      delete process.env.CLAUDE_INTERN_OUTPUT_DIR;
+    } else {
+      process.env.CLAUDE_INTERN_OUTPUT_DIR = originalOutputDir;
+    }
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("should save, load and clear the state in the task directory", () => {
+    const statePath = saveResumeState(resumeState());
+
+    expect(statePath).toBe(join(testDir, "output", "proj-1", "resume-state.json"));
+    expect(getResumeStatePath("PROJ-1")).toBe(statePath);
+    expect(loadResumeState("PROJ-1")).toEqual(resumeState());
+    expect(loadResumeState("PROJ-2")).toBeNull();
+
+    clearResumeState("PROJ-1");
+    expect(existsSync(statePath)).toBe(false);
+    expect(loadResumeState("PROJ-1")).toBeNull();
+  });
+
+  describe("work in progress", () => {
+    let repoDir: string;
+
+    beforeEach(() => {
+      repoDir = join(testDir, "repo");
+      execSync(`git init -q ${repoDir}`);
+      process.chdir(repoDir);
+      execSync("git config user.email 'test@test.com'");
+      execSync("git config user.name 'Test User'");
+      writeFileSync(join(repoDir, "README.md"), "# Test Repo\n", "utf8");
+      execSync("git add . && git commit -q -m 'Initial commit'");
+      execSync("git checkout -q -b feature/proj-1");
+    });
+
+    test("should commit interrupted work and restore it as uncommitted changes", async () => {
+      writeFileSync(join(repoDir, "export.ts"), "export const x = 1;\n", "utf8");
+      writeFileSync(join(repoDir, "README.md"), "# Test Repo\n\nExport\n", "utf8");
+
+      const wipCommit = await commitWorkInProgress("PROJ-1", "max_turns");
+
+      expect(wipCommit).toMatch(/^[0-9a-f]{40}$/);
+      expect(execSync("git log -1 --format=%s").toString()).toContain("WIP: PROJ-1");
+      expect(execSync("git status --porcelain").toString()).toBe("");
+
+      // Other work happens on another branch in the meantime
+      execSync("git checkout -q -");
+
+      const result = await restoreWorkInProgress(resumeState({ wipCommit }));
+
+      expect(result.success).toBe(true);
+      expect(execSync("git branch --show-current").toString().trim()).toBe("feature/proj-1");
+      expect(execSync("git log -1 --format=%s").toString().trim()).toBe("Initial commit");
+      expect(readFileSync(join(repoDir, "export.ts"), "utf8")).toBe("export const x = 1;\n");
+      expect(execSync("git status --porcelain").toString()).toContain("README.md");
+    });
+
+    test("should not commit when there is nothing to save", async () => {
+      expect(await commitWorkInProgress("PROJ-1", "timeout")).toBeNull();
+    });
+
+    test("should leave commits alone once the branch moved on", async () => {
+      writeFileSync(join(repoDir, "export.ts"), "export const x = 1;\n", "utf8");
+      const wipCommit = await commitWorkInProgress("PROJ-1", "timeout");
+      writeFileSync(join(repoDir, "fix.ts"), "export const y = 2;\n", "utf8");
+      execSync("git add . && git commit -q -m 'Manual fix'");
+
+      const result = await restoreWorkInProgress(resumeState({ wipCommit }));
+
+      expect(result.success).toBe(true);
+      expect(execSync("git log -1 --format=%s").toString().trim()).toBe("Manual fix");
+    });
+
+    test("should refuse to switch branches over uncommitted changes", async () => {
+      execSync("git checkout -q -");
+      writeFileSync(join(repoDir, "README.md"), "# Changed\n", "utf8");
+
+      const result = await restoreWorkInProgress(resumeState());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("uncommitted changes");
+    });
+  });
+});
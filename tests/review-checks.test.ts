@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  applyCheckResults,
+  parseCheckDiagnostics,
+  parseCoverageSummary,
+  runReviewCheck,
+} from "../src/lib/review-checks";
+import type { ReviewCheck } from "../src/types/auto-review";
+
+const TYPECHECK: ReviewCheck = { name: "typecheck", command: "npm run typecheck" };
+
+describe("Review Checks", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "review-checks-test-"));
+    mkdirSync(join(workDir, "src"));
+    writeFileSync(join(workDir, "src", "api.ts"), "export {};\n");
+    writeFileSync(join(workDir, "src", "util.py"), "x = 1\n");
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("should parse tsc, compiler-style and ESLint stylish diagnostics", () => {
+    const output = [
+      "src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/util.py:3:1: E302 expected 2 blank lines",
+      "missing.ts:1:1: error in a file that does not exist",
+      "",
+      join(workDir, "src", "api.ts"),
+      "  7:10  error  'x' is defined but never used  no-unused-vars",
+      "",
+      "✖ 1 problem",
+    ].join("\n");
+
+    const items = parseCheckDiagnostics(output, TYPECHECK, workDir);
+
+    expect(items.map((item) => [item.file, item.line, item.issue])).toEqual([
+      ["src/api.ts", "12", "typecheck: TS2322: Type 'string' is not assignable to type 'number'."],
+      ["src/util.py", "3", "typecheck: E302 expected 2 blank lines"],
+      ["src/api.ts", "7", "typecheck: 'x' is defined but never used no-unused-vars"],
+    ]);
+    expect(items.every((item) => item.priority === "high" && item.check === "typecheck")).toBe(true);
+  });
+
+  test("should pass when the command exits with code 0", async () => {
+    const result = await runReviewCheck({ name: "lint", command: "echo ok" }, workDir);
+
+    expect(result.passed).toBe(true);
+    expect(result.items).toEqual([]);
+  });
+
+  test("should keep the end of output past the length limit", async () => {
+    const result = await runReviewCheck(
+      { name: "tests", command: "head -c 24000000 /dev/zero | tr '\\0' x; echo; echo '3 tests failed'; exit 1" },
+      workDir
+    );
+
+    expect(result.output.length).toBeLessThanOrEqual(10 * 1024 * 1024);
+    expect(result.items[0].suggestion).toContain("3 tests failed");
+  });
+
+  test("should report the output tail when a failure has no diagnostics", async () => {
+    const result = await runReviewCheck({ name: "tests", command: "echo '1 test failed'; exit 1", category: "testing" }, workDir);
+
+    expect(result.passed).toBe(false);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].issue).toBe("`echo '1 test failed'; exit 1` exited with code 1");
+    expect(result.items[0].category).toBe("testing");
+    expect(result.items[0].suggestion).toContain("1 test failed");
+  });
+
+  test("should only allow approval when all checks pass", async () => {
+    const feedback = { summary: "Fine", items: [], approved: true };
+    const failed = await runReviewCheck({ name: "tests", command: "exit 2" }, workDir);
+
+    expect(applyCheckResults(feedback, [await runReviewCheck({ name: "lint", command: "true" }, workDir)])).toBe(feedback);
+
+    const applied = applyCheckResults(feedback, [failed]);
+    expect(applied.approved).toBe(false);
+    expect(applied.items).toEqual(failed.items);
+    expect(applied.summary).toBe("Fine\nFailed checks: tests");
+  });
+
+  test("should stop a check that runs past its time limit", async () => {
+    const result = await runReviewCheck({ name: "tests", command: "sleep 30", timeoutSeconds: 1 }, workDir);
+
+    expect(result.passed).toBe(false);
+    expect(result.items[0].issue).toBe("`sleep 30` timed out after 1s");
+  });
+
+  test("should parse coverage tables and totals", () => {
+    const table = [
+      "-------------|---------|----------|---------|---------|-------------------",
+      "File         | % Stmts | % Branch | % Funcs | % Lines | Uncovered Line #s",
+      "-------------|---------|----------|---------|---------|-------------------",
+      "All files    |   81.25 |       75 |     100 |   78.57 |",
+      " src/api.ts  |    62.5 |       50 |     100 |      60 | 4-6,9",
+      " lib/gone.ts |     100 |      100 |     100 |     100 |",
+    ].join("\n");
+
+    expect(parseCoverageSummary(table, workDir)).toEqual({
+      total: 78.57,
+      files: [{ file: "src/api.ts", percent: 60, uncoveredLines: "4-6,9" }],
+    });
+    expect(parseCoverageSummary("TOTAL     120     12    90%", workDir).total).toBe(90);
+    expect(parseCoverageSummary("total:\t(statements)\t85.2%", workDir).total).toBe(85.2);
+    expect(parseCoverageSummary("Lines        : 71.4% ( 10/14 )", workDir).total).toBe(71.4);
+    expect(parseCoverageSummary("ok", workDir).total).toBeUndefined();
+  });
+
+  test("should fail a passing check whose coverage is below minCoverage", async () => {
+    const command = "echo 'TOTAL  120  48  60%'";
+    const failed = await runReviewCheck({ name: "coverage", command, minCoverage: 80 }, workDir);
+
+    expect(failed.passed).toBe(false);
+    expect(failed.coverage).toBe(60);
+    expect(failed.items.map((item) => [item.category, item.issue])).toEqual([
+      ["testing", "coverage: line coverage is 60%, below the required 80%"],
+    ]);
+    expect((await runReviewCheck({ name: "coverage", command, minCoverage: 50 }, workDir)).passed).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import {
+  chunkDiff,
+  DEFAULT_REVIEW_IGNORE,
+  getReviewIgnoreGlobs,
+  isIgnoredPath,
+  splitDiffByFile,
+} from "../src/lib/review-chunks";
+
+function fileDiff(path: string, hunks: string[], deleted = false): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    deleted ? "+++ /dev/null" : `+++ b/${path}`,
+    ...hunks,
+  ].join("\n") + "\n";
+}
+
+describe("Review Chunks", () => {
+  test("should ignore lockfiles, generated and vendored paths", () => {
+    expect(isIgnoredPath("package-lock.json", DEFAULT_REVIEW_IGNORE)).toBe(true);
+    expect(isIgnoredPath("packages/web/yarn.lock", DEFAULT_REVIEW_IGNORE)).toBe(true);
+    expect(isIgnoredPath("public/app.min.js", DEFAULT_REVIEW_IGNORE)).toBe(true);
+    expect(isIgnoredPath("vendor/lib/x.go", DEFAULT_REVIEW_IGNORE)).toBe(true);
+    expect(isIgnoredPath("src/dist/index.js", DEFAULT_REVIEW_IGNORE)).toBe(true);
+    expect(isIgnoredPath("src/lib/utils.ts", DEFAULT_REVIEW_IGNORE)).toBe(false);
+    expect(isIgnoredPath("src/distance.ts", DEFAULT_REVIEW_IGNORE)).toBe(false);
+  });
+
+  test("should add ignore globs from settings.json", () => {
+    const globs = getReviewIgnoreGlobs(["*.pb.go"], { reviewIgnore: ["docs/api/**"] });
+
+    expect(isIgnoredPath("docs/api/v1/index.md", globs)).toBe(true);
+    expect(isIgnoredPath("docs/guide.md", globs)).toBe(false);
+    expect(isIgnoredPath("api/user.pb.go", globs)).toBe(true);
+  });
+
+  test("should split a diff into files", () => {
+    const diff = fileDiff("src/a.ts", ["@@ -1 +1 @@", "-a", "+b"]) + fileDiff("old.ts", ["@@ -1 +0,0 @@", "-x"], true);
+    const files = splitDiffByFile(diff);
+
+    expect(files.map((file) => file.path)).toEqual(["src/a.ts", "old.ts"]);
+    expect(files.map((file) => file.diff).join("")).toBe(diff);
+  });
+
+  test("should group files by directory into chunks", () => {
+    const files = splitDiffByFile(
+      fileDiff("src/lib/a.ts", ["@@ -1 +1 @@", `+${"a".repeat(60)}`]) +
+        fileDiff("tests/a.test.ts", ["@@ -1 +1 @@", `+${"t".repeat(60)}`]) +
+        fileDiff("src/lib/b.ts", ["@@ -1 +1 @@", `+${"b".repeat(60)}`])
+    );
+    const chunks = chunkDiff(files, 400);
+
+    expect(chunks.map((chunk) => [chunk.label, chunk.files])).toEqual([
+      ["src/lib", ["src/lib/a.ts", "src/lib/b.ts"]],
+      ["tests", ["tests/a.test.ts"]],
+    ]);
+  });
+
+  test("should split a file larger than a chunk at hunk boundaries", () => {
+    const hunks = [1, 2, 3].flatMap((n) => [`@@ -${n * 10} +${n * 10} @@`, `+${String(n).repeat(80)}`]);
+    const chunks = chunkDiff(splitDiffByFile(fileDiff("src/big.ts", hunks)), 200);
+
+    expect(chunks).toHaveLength(3);
+    for (const chunk of chunks) {
+      expect(chunk.files).toEqual(["src/big.ts"]);
+      expect(chunk.diff.startsWith("diff --git a/src/big.ts b/src/big.ts\n")).toBe(true);
+    }
+    expect(chunks[2].diff).toContain("@@ -30 +30 @@");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import {
+  assignFingerprints,
+  countDiffLines,
+  detectConvergenceIssue,
+  fingerprintFinding,
+  type ReviewHistory,
+} from "../src/lib/review-convergence";
+import type { ReviewFeedbackItem } from "../src/types/auto-review";
+
+const NULL_CHECK: ReviewFeedbackItem = {
+  priority: "high",
+  category: "bug",
+  file: "src/api.ts",
+  line: "20",
+  issue: "Response body is used without a null check",
+  suggestion: "Check for null",
+};
+const NAMING: ReviewFeedbackItem = {
+  priority: "medium",
+  category: "code-quality",
+  file: "src/util.ts",
+  line: "5",
+  issue: "Helper name does not describe its result",
+  suggestion: "Rename it",
+};
+
+function entry(iteration: number, items: ReviewFeedbackItem[], addressed = items, extra: Partial<ReviewHistory[number]> = {}) {
+  const history: ReviewHistory[number] = {
+    iteration,
+    feedback: { summary: "", items: items.map((item) => ({ ...item })), approved: false },
+    addressed: [],
+    failedChecks: [],
+    diffLines: 100,
+    ...extra,
+  };
+  assignFingerprints(history.feedback.items, []);
+  history.addressed = history.feedback.items.filter((item) => addressed.some((a) => a.issue === item.issue));
+  return history;
+}
+
+function current(
+  items: ReviewFeedbackItem[],
+  history: ReviewHistory,
+  extra: { failedChecks?: string[]; diffLines?: number; approved?: boolean } = {}
+) {
+  const copies = items.map((item) => ({ ...item }));
+  assignFingerprints(copies, history);
+  return {
+    items: copies,
+    openItems: copies.length,
+    approved: extra.approved ?? false,
+    failedChecks: extra.failedChecks ?? [],
+    diffLines: extra.diffLines ?? 100,
+  };
+}
+
+describe("Review Convergence", () => {
+  test("should keep the fingerprint of a finding reported again with other wording", () => {
+    const history = [entry(1, [NULL_CHECK])];
+    const items = [{ ...NULL_CHECK, line: "24", issue: "Missing null check on the response" }];
+
+    assignFingerprints(items, history);
+
+    expect(items[0].fingerprint).toBe(fingerprintFinding(NULL_CHECK));
+    expect(fingerprintFinding(NULL_CHECK)).toBe("src/api.ts:bug:body-check-null-response-used-without");
+  });
+
+  test("should count changed lines of a diff", () => {
+    expect(countDiffLines("--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n-old\n+new\n+added\n same")).toBe(3);
+  });
+
+  test("should roll back fixes that broke a passing check", () => {
+    const history = [entry(1, [NAMING])];
+    const testFailure: ReviewFeedbackItem = { ...NULL_CHECK, category: "testing", issue: "`npm test` exited with code 1", check: "tests" };
+    const verdict = detectConvergenceIssue(history, current([testFailure], history, { failedChecks: ["tests"] }));
+
+    expect(verdict).toEqual({
+      reason: "regression",
+      details: "Iteration 1 fixes broke tests, which passed before",
+      rollback: true,
+    });
+  });
+
+  test("should roll back fixes that reintroduced a serious finding", () => {
+    const history = [entry(1, [NULL_CHECK, NAMING]), entry(2, [NAMING])];
+    const verdict = detectConvergenceIssue(history, current([NULL_CHECK], history));
+
+    expect(verdict?.reason).toBe("regression");
+    expect(verdict?.rollback).toBe(true);
+  });
+
+  test("should stop when a fixed lower-priority finding comes back", () => {
+    const history = [entry(1, [NULL_CHECK, NAMING]), entry(2, [NULL_CHECK])];
+    const verdict = detectConvergenceIssue(history, current([NULL_CHECK, NAMING], history));
+
+    expect(verdict?.reason).toBe("oscillation");
+    expect(verdict?.rollback).toBe(false);
+  });
+
+  test("should stop when fixes left the addressed findings in place", () => {
+    const history = [entry(1, [NULL_CHECK])];
+
+    expect(detectConvergenceIssue(history, current([NULL_CHECK], history))?.reason).toBe("no-progress");
+    expect(detectConvergenceIssue(history, current([NAMING], history))).toBeNull();
+  });
+
+  test("should stop when the diff grows past the limit", () => {
+    const history = [entry(1, [NULL_CHECK])];
+    const verdict = detectConvergenceIssue(history, current([NAMING], history, { diffLines: 250 }));
+
+    expect(verdict?.reason).toBe("diff-growth");
+    expect(detectConvergenceIssue(history, current([NAMING], history, { diffLines: 250 }), 3)).toBeNull();
+  });
+
+  test("should let approved reviews and reviews without open findings end the loop normally", () => {
+    const history = [entry(1, [NULL_CHECK])];
+
+    expect(detectConvergenceIssue(history, current([NAMING], history, { diffLines: 250, approved: true }))).toBeNull();
+    expect(detectConvergenceIssue(history, { ...current([NAMING], history, { diffLines: 250 }), openItems: 0 })).toBeNull();
+  });
+});
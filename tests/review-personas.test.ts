@@ -0,0 +1,59 @@
+import { describe, test, expect } from "bun:test";
+import { getReviewPersonas, isDuplicateFinding, mergeReviewFeedback, REVIEW_PERSONAS } from "../src/lib/review-personas";
+import type { ReviewFeedback, ReviewFeedbackItem } from "../src/types/auto-review";
+
+function item(overrides: Partial<ReviewFeedbackItem> = {}): ReviewFeedbackItem {
+  return {
+    priority: "medium",
+    category: "bug",
+    file: "src/api.ts",
+    line: "20",
+    issue: "User input is passed to the shell command unescaped",
+    suggestion: "Escape the argument",
+    ...overrides,
+  };
+}
+
+function feedback(items: ReviewFeedbackItem[], approved = false): ReviewFeedback {
+  return { summary: "Looks fine", items, approved };
+}
+
+describe("Reviewer Personas", () => {
+  test("should resolve personas from settings and skip unknown names", () => {
+    const personas = getReviewPersonas(undefined, { reviewPersonas: ["security", "nope" as never, "security", "test-coverage"] });
+
+    expect(personas.map((persona) => persona.name)).toEqual(["security", "test-coverage"]);
+    expect(getReviewPersonas(["performance"], { reviewPersonas: ["security"] })[0]).toBe(REVIEW_PERSONAS.performance);
+  });
+
+  test("should default to the general reviewer", () => {
+    expect(getReviewPersonas(undefined, null)).toEqual([REVIEW_PERSONAS.general]);
+    expect(getReviewPersonas([], { reviewPersonas: [] })).toEqual([REVIEW_PERSONAS.general]);
+  });
+
+  test("should detect the same issue reported under different categories", () => {
+    expect(isDuplicateFinding(item(), item({ category: "security", line: "21", issue: "Shell command built from unescaped user input" }))).toBe(true);
+    expect(isDuplicateFinding(item(), item({ line: "80", issue: "Loop fetches each user separately" }))).toBe(false);
+    expect(isDuplicateFinding(item(), item({ file: "src/other.ts" }))).toBe(false);
+  });
+
+  test("should merge reviews keeping the highest priority duplicate", () => {
+    const merged = mergeReviewFeedback([
+      { persona: REVIEW_PERSONAS.general, feedback: feedback([item()], true) },
+      {
+        persona: REVIEW_PERSONAS.security,
+        feedback: feedback([
+          item({ priority: "critical", category: "security", line: "21", issue: "Shell command built from unescaped user input" }),
+          item({ priority: "low", category: "security", file: "src/auth.ts", issue: "Token logged at debug level" }),
+        ]),
+      },
+    ]);
+
+    expect(merged.items.map((finding) => [finding.priority, finding.category])).toEqual([
+      ["critical", "security"],
+      ["low", "security"],
+    ]);
+    expect(merged.summary).toBe("General: Looks fine\nSecurity: Looks fine");
+    expect(merged.approved).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, test, expect } from "bun:test";
+import type { GitHubReviewsClient } from "../src/lib/github-reviews";
+import {
+  getAnchorLine,
+  getCommentableLines,
+  isSameFinding,
+  ReviewPublisher,
+} from "../src/lib/review-publisher";
+import type { ReviewFeedback, ReviewFeedbackItem } from "../src/types/auto-review";
+
+const DIFF = [
+  "diff --git a/src/auth.ts b/src/auth.ts",
+  "--- a/src/auth.ts",
+  "+++ b/src/auth.ts",
+  "@@ -10,3 +10,4 @@ export class Auth {",
+  "   login() {",
+  "-    return true;",
+  "+    const token = getToken();",
+  "+    return token !== null;",
+  "   }",
+  "diff --git a/old.ts b/old.ts",
+  "--- a/old.ts",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-removed",
+].join("\n");
+
+function item(overrides: Partial<ReviewFeedbackItem> = {}): ReviewFeedbackItem {
+  return {
+    priority: "high",
+    category: "bug",
+    file: "src/auth.ts",
+    line: "11",
+    issue: "Token is not validated before use",
+    suggestion: "Check the token expiry",
+    ...overrides,
+  };
+}
+
+function feedback(items: ReviewFeedbackItem[]): ReviewFeedback {
+  return { summary: "Review", items, approved: items.length === 0 };
+}
+
+function fakeClient() {
+  const calls = { inline: [] as Array<{ path: string; line: number; body: string }>, replies: [] as number[], comments: [] as string[] };
+  let nextId = 100;
+  const client = {
+    getPullRequest: async () => ({ head: { sha: "abc123", ref: "feature" }, base: { ref: "main" } }),
+    getPullRequestDiff: async () => DIFF,
+    createReviewComment: async (_o: string, _r: string, _n: number, body: string, _sha: string, path: string, line: number) => {
+      calls.inline.push({ path, line, body });
+      const id = nextId++;
+      return { id, html_url: `https://github.com/owner/repo/pull/7#discussion_r${id}` };
+    },
+    replyToComment: async (_o: string, _r: string, _n: number, commentId: number) => {
+      calls.replies.push(commentId);
+    },
+    postPullRequestComment: async (_o: string, _r: string, _n: number, body: string) => {
+      calls.comments.push(body);
+    },
+  } as unknown as GitHubReviewsClient;
+  return { client, calls };
+}
+
+describe("Review Publisher", () => {
+  test("should collect the new-file lines of each diff hunk", () => {
+    const lines = getCommentableLines(DIFF);
+
+    expect([...lines.keys()]).toEqual(["src/auth.ts"]);
+    expect([...lines.get("src/auth.ts")!]).toEqual([10, 11, 12, 13]);
+  });
+
+  test("should anchor findings only to lines in the diff", () => {
+    const lines = getCommentableLines(DIFF);
+
+    expect(getAnchorLine(item({ line: "12" }), lines)).toBe(12);
+    expect(getAnchorLine(item({ line: "5-11" }), lines)).toBe(11);
+    expect(getAnchorLine(item({ line: "40" }), lines)).toBeNull();
+    expect(getAnchorLine(item({ file: "src/other.ts" }), lines)).toBeNull();
+  });
+
+  test("should match the same finding across iterations", () => {
+    expect(isSameFinding(item(), item({ line: "14", issue: "Missing validation" }))).toBe(true);
+    expect(isSameFinding(item(), item({ line: "90", issue: "The token is not validated before it is used" }))).toBe(true);
+    expect(isSameFinding(item(), item({ category: "security" }))).toBe(false);
+    expect(isSameFinding(item(), item({ line: "90", issue: "Unused import" }))).toBe(false);
+  });
+
+  test("should comment inline, reply when fixed and summarise open findings", async () => {
+    const { client, calls } = fakeClient();
+    const publisher = new ReviewPublisher(client, "owner", "repo", 7);
+    const styleItem = item({ priority: "low", category: "style", line: "40", issue: "Inconsistent naming" });
+
+    await publisher.publishIteration(1, feedback([item(), styleItem]));
+    expect(calls.inline).toHaveLength(1);
+    expect(calls.inline[0].path).toBe("src/auth.ts");
+    expect(calls.inline[0].line).toBe(11);
+    expect(calls.inline[0].body).toContain("**🟠 High** · 🐛 Bug");
+
+    await publisher.publishIteration(2, feedback([styleItem]));
+    expect(calls.replies).toEqual([100]);
+    expect(calls.inline).toHaveLength(1);
+
+    await publisher.publishSummary({
+      iterations: 2,
+      success: true,
+      finalFeedback: feedback([styleItem]),
+      history: [],
+    });
+    expect(calls.comments[0]).toContain("2 finding(s) over 2 iteration(s): 1 fixed, 1 open.");
+    expect(calls.comments[0]).toContain("`src/auth.ts:40`: Inconsistent naming");
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  RunHistory,
+  formatRunDetails,
+  formatRunList,
+  formatRunStats,
+  parseSince,
+} from "../src/lib/run-history";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Run History", () => {
+  let testDir: string;
+  let history: RunHistory;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), "run-history-test-"));
+    history = new RunHistory({ dbPath: join(testDir, "history.db") });
+  });
+
+  afterEach(() => {
+    history.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("should record a run from start to finish", () => {
+    const started = Date.UTC(2026, 2, 2, 9, 0);
+    const id = history.start("PROJ-1", "implement", started);
+
+    history.update(id, { branch: "feature/proj-1", turns: 18 });
+    history.addCommit(id, "abc123");
+    history.addCommit(id, "abc123");
+    history.addCommit(id, "def456");
+    history.update(id, { prUrl: "https://github.com/o/r/pull/7" });
+    expect(history.finish(id, "implemented", undefined, started + 25 * 60 * 1000)).toBe(true);
+
+    expect(history.get(id)).toEqual({
+      id,
+      taskKey: "PROJ-1",
+      mode: "implement",
+      startedAt: started,
+      endedAt: started + 25 * 60 * 1000,
+      outcome: "implemented",
+      branch: "feature/proj-1",
+      prUrl: "https://github.com/o/r/pull/7",
+      commitShas: ["abc123", "def456"],
+      turns: 18,
+      message: null,
+      storyPoints: null,
+    });
+  });
+
+  test("should keep the first recorded outcome", () => {
+    const id = history.start("PROJ-1", "implement");
+
+    expect(history.finish(id, "hook-failed", "lint failed")).toBe(true);
+    expect(history.finish(id, "implemented")).toBe(false);
+
+    expect(history.get(id)?.outcome).toBe("hook-failed");
+    expect(history.get(id)?.message).toBe("lint failed");
+  });
+
+  test("should list and count runs by task, outcome, mode and start time", () => {
+    const now = Date.UTC(2026, 2, 20);
+    const runs: Array<[string, "implement" | "estimate", number, "implemented" | "incomplete" | "estimated"]> = [
+      ["PROJ-1", "implement", now - 10 * DAY, "incomplete"],
+      ["PROJ-1", "implement", now - 2 * DAY, "implemented"],
+      ["PROJ-2", "implement", now - DAY, "implemented"],
+      ["PROJ-3", "estimate", now - DAY, "estimated"],
+    ];
+    for (const [taskKey, mode, startedAt, outcome] of runs) {
+      history.finish(history.start(taskKey, mode, startedAt), outcome);
+    }
+
+    expect(history.list().map((run) => run.taskKey)).toEqual(["PROJ-3", "PROJ-2", "PROJ-1", "PROJ-1"]);
+    expect(history.list({ taskKey: "PROJ-1" })).toHaveLength(2);
+    expect(history.list({ outcome: "implemented" })).toHaveLength(2);
+    expect(history.list({ mode: "estimate" })).toHaveLength(1);
+    expect(history.list({ since: now - 7 * DAY, limit: 1 })).toHaveLength(1);
+
+    const lastWeek = history.getStats({ mode: "implement", since: now - 7 * DAY });
+    expect(lastWeek).toEqual({ total: 2, byOutcome: { implemented: 2 } });
+    expect(formatRunStats(history.getStats({ mode: "implement" }))).toBe(
+      "3 runs: 2 implemented, 1 incomplete — 67% succeeded"
+    );
+  });
+
+  test("should record estimated story points, also in histories without the column", () => {
+    const oldPath = join(testDir, "old-history.db");
+    const oldDb = new Database(oldPath);
+    oldDb.run(`CREATE TABLE task_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, task_key TEXT NOT NULL, mode TEXT NOT NULL,
+      started_at INTEGER NOT NULL, ended_at INTEGER, outcome TEXT NOT NULL DEFAULT 'running',
+      branch TEXT, pr_url TEXT, commit_shas TEXT NOT NULL DEFAULT '[]', turns INTEGER, message TEXT
+    )`);
+    oldDb.run(`INSERT INTO task_runs (task_key, mode, started_at) VALUES ('PROJ-1', 'implement', 1)`);
+    oldDb.close();
+
+    const upgraded = new RunHistory({ dbPath: oldPath });
+    expect(upgraded.get(1)?.storyPoints).toBeNull();
+
+    const id = upgraded.start("PROJ-2", "estimate");
+    upgraded.update(id, { storyPoints: 5 });
+    upgraded.finish(id, "estimated");
+    expect(upgraded.get(id)?.storyPoints).toBe(5);
+    expect(formatRunDetails(upgraded.get(id)!)).toContain("Points:   5");
+    upgraded.close();
+  });
+
+  test("should format runs for the terminal", () => {
+    const started = Date.UTC(2026, 2, 2, 9, 0);
+    const id = history.start("PROJ-1", "implement", started);
+    history.finish(id, "timed-out", "Claude timed out after 60 minutes", started + 75 * 60 * 1000);
+    const run = history.get(id)!;
+
+    const table = formatRunList([run]).split("\n");
+    expect(table[0]).toStartWith("ID  Started (UTC)     Task    Mode       Outcome    Duration  Turns  PR");
+    expect(table[1]).toContain("2026-03-02 09:00  PROJ-1  implement  timed-out  1h15m");
+
+    expect(formatRunDetails(run)).toContain("Message:  Claude timed out after 60 minutes");
+    expect(formatRunList([])).toBe("No runs found.");
+  });
+
+  describe("parseSince", () => {
+    const now = new Date(Date.UTC(2026, 2, 20));
+
+    test("should accept durations and dates", () => {
+      expect(parseSince("7d", now)).toBe(now.getTime() - 7 * DAY);
+      expect(parseSince("12h", now)).toBe(now.getTime() - DAY / 2);
+      expect(parseSince("2w", now)).toBe(now.getTime() - 14 * DAY);
+      expect(parseSince("2026-03-01", now)).toBe(Date.UTC(2026, 2, 1));
+    });
+
+    test("should reject unknown values", () => {
+      expect(() => parseSince("last week", now)).toThrow("Invalid --since value");
+    });
+  });
+});
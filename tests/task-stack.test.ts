@@ -0,0 +1,164 @@
+import { describe, test, expect } from "bun:test";
+import { JiraClient } from "../src/lib/jira-client";
+import type { IssueTracker } from "../src/lib/issue-tracker";
+import {
+  applyStackSection,
+  createStackTasks,
+  formatStackSection,
+  linkStackPullRequests,
+  loadStackTasks,
+  orderStackTasks,
+} from "../src/lib/task-stack";
+import type { JiraIssue, JiraIssueLink } from "../src/types/jira";
+
+const blocks = { id: "1", name: "Blocks", outward: "blocks", inward: "is blocked by" };
+const relates = { id: "2", name: "Relates", outward: "relates to", inward: "relates to" };
+
+function linkedIssue(key: string) {
+  return { id: key, key, fields: { summary: key } } as JiraIssueLink["outwardIssue"];
+}
+
+function issue(
+  key: string,
+  links: Array<{ type?: typeof blocks; blocks?: string; blockedBy?: string }> = [],
+  status = "indeterminate"
+): JiraIssue {
+  return {
+    id: key,
+    key,
+    self: "",
+    fields: {
+      summary: `Summary of ${key}`,
+      status: { name: status, statusCategory: { key: status } },
+      issuelinks: links.map((link, index) => ({
+        id: `${key}-${index}`,
+        type: link.type ?? blocks,
+        outwardIssue: link.blocks ? linkedIssue(link.blocks) : undefined,
+        inwardIssue: link.blockedBy ? linkedIssue(link.blockedBy) : undefined,
+      })),
+    } as unknown as JiraIssue["fields"],
+  };
+}
+
+describe("Task Stack", () => {
+  test("should read blocks links in both directions between sub-tasks", () => {
+    const tasks = createStackTasks([
+      issue("PROJ-2", [{ blockedBy: "PROJ-1" }]),
+      issue("PROJ-1", [{ blocks: "PROJ-3" }, { type: relates, blocks: "PROJ-2" }]),
+      issue("PROJ-3", [{ blockedBy: "OTHER-9" }]),
+    ]);
+
+    expect(tasks).toEqual([
+      { key: "PROJ-2", summary: "Summary of PROJ-2", blockedBy: ["PROJ-1"] },
+      { key: "PROJ-1", summary: "Summary of PROJ-1", blockedBy: [] },
+      { key: "PROJ-3", summary: "Summary of PROJ-3", blockedBy: ["PROJ-1"] },
+    ]);
+  });
+
+  test("should order blockers first and keep the order of independent tasks", () => {
+    const ordered = orderStackTasks([
+      { key: "PROJ-3", summary: "", blockedBy: ["PROJ-2"] },
+      { key: "PROJ-4", summary: "", blockedBy: [] },
+      { key: "PROJ-2", summary: "", blockedBy: ["PROJ-1"] },
+      { key: "PROJ-1", summary: "", blockedBy: [] },
+    ]);
+
+    expect(ordered.map((task) => task.key)).toEqual(["PROJ-4", "PROJ-1", "PROJ-2", "PROJ-3"]);
+  });
+
+  test("should reject circular blocks links", () => {
+    expect(() =>
+      orderStackTasks([
+        { key: "PROJ-1", summary: "", blockedBy: [] },
+        { key: "PROJ-2", summary: "", blockedBy: ["PROJ-3"] },
+        { key: "PROJ-3", summary: "", blockedBy: ["PROJ-2"] },
+      ])
+    ).toThrow('Circular "blocks" links between PROJ-2, PROJ-3');
+  });
+
+  describe("loadStackTasks", () => {
+    test("should use the tracker's child issues and skip finished ones", async () => {
+      const tracker = {
+        getChildIssues: async (key: string) => {
+          expect(key).toBe("PROJ-100");
+          return [
+            issue("PROJ-2", [{ blockedBy: "PROJ-1" }]),
+            issue("PROJ-1"),
+            issue("PROJ-0", [{ blocks: "PROJ-1" }], "done"),
+          ];
+        },
+      } as unknown as IssueTracker;
+
+      const tasks = await loadStackTasks(tracker, issue("PROJ-100"));
+      expect(tasks.map((task) => task.key)).toEqual(["PROJ-1", "PROJ-2"]);
+    });
+
+    test("should fall back to the sub-tasks listed on the parent", async () => {
+      const children: Record<string, JiraIssue> = {
+        "ENG-2": issue("ENG-2", [{ blocks: "ENG-1" }]),
+        "ENG-1": issue("ENG-1", [{ blockedBy: "ENG-2" }]),
+      };
+      const tracker = {
+        getIssue: async (key: string) => children[key],
+      } as unknown as IssueTracker;
+      const parent = issue("ENG-10");
+      parent.fields.subtasks = [{ key: "ENG-1" }, { key: "ENG-2" }];
+
+      const tasks = await loadStackTasks(tracker, parent);
+      expect(tasks.map((task) => task.key)).toEqual(["ENG-2", "ENG-1"]);
+    });
+  });
+
+  describe("stack section", () => {
+    const entries = [
+      { key: "PROJ-1", summary: "Add model", prUrl: "https://github.com/o/r/pull/1" },
+      { key: "PROJ-2", summary: "Add API", prUrl: "https://github.com/o/r/pull/2" },
+      { key: "PROJ-3", summary: "Add UI" },
+    ];
+
+    test("should list the stack and point at the current pull request", () => {
+      const section = formatStackSection("PROJ-100", entries, "PROJ-2");
+
+      expect(section).toContain("## Stack");
+      expect(section).toContain("Part 2 of 3 of PROJ-100.");
+      expect(section).toContain("1. **PROJ-1** Add model — https://github.com/o/r/pull/1");
+      expect(section).toContain("2. 👉 **PROJ-2** Add API — https://github.com/o/r/pull/2");
+      expect(section).toContain("3. **PROJ-3** Add UI — no pull request");
+    });
+
+    test("should append the section once and replace it on later updates", () => {
+      const first = applyStackSection("## JIRA Task: PROJ-2\n", formatStackSection("PROJ-100", entries.slice(0, 2), "PROJ-2"));
+      const second = applyStackSection(first, formatStackSection("PROJ-100", entries, "PROJ-2"));
+
+      expect(first.startsWith("## JIRA Task: PROJ-2\n\n<!-- claude-intern-stack -->")).toBe(true);
+      expect(second.match(/## Stack/g)).toHaveLength(1);
+      expect(second).toContain("Part 2 of 3");
+      expect(applyStackSection(null, "section")).toBe("section");
+    });
+
+    test("should report pull requests on unsupported platforms", async () => {
+      const result = await linkStackPullRequests("PROJ-100", [
+        { key: "PROJ-1", summary: "Add model", prUrl: "https://bitbucket.org/w/r/pull-requests/1" },
+        { key: "PROJ-2", summary: "Add API" },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("only GitHub and GitLab are supported");
+    });
+  });
+
+  test("JiraClient should search children of the parent in rank order", async () => {
+    const jiraClient = new JiraClient("https://test.atlassian.net", "test@example.com", "test-token");
+    let requestedUrl = "";
+    (jiraClient as any).jiraApiCall = async (_method: string, url: string) => {
+      requestedUrl = url;
+      return { issues: [issue("PROJ-1")] };
+    };
+
+    const children = await jiraClient.getChildIssues("PROJ-100");
+
+    expect(children.map((child) => child.key)).toEqual(["PROJ-1"]);
+    expect(decodeURIComponent(requestedUrl)).toContain('jql=parent = "PROJ-100" ORDER BY rank ASC');
+    expect(requestedUrl).toContain("fields=summary,status,issuetype,issuelinks");
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AgentRunner, AgentRunOptions, AgentRunResult } from "../src/lib/agent-runner";
+import type { IssueTracker } from "../src/lib/issue-tracker";
+import { IssueTrackerRegistry } from "../src/lib/issue-tracker-registry";
+import {
+  AccountedAgentRunner,
+  UsageLedger,
+  checkBudget,
+  estimateUsageCost,
+  getReviewAccounting,
+  notifyBudgetExceeded,
+  type UsageRecord,
+} from "../src/lib/usage-ledger";
+import type { ProjectSettings } from "../src/types/settings";
+
+function usage(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    taskKey: "PROJ-1",
+    projectKey: "PROJ",
+    kind: "implementation",
+    status: "success",
+    inputTokens: 1000,
+    outputTokens: 200,
+    costUsd: 1,
+    durationMs: 60_000,
+    createdAt: Date.UTC(2026, 2, 15),
+    ...overrides,
+  };
+}
+
+class FakeRunner implements AgentRunner {
+  readonly name = "Fake";
+  runs = 0;
+
+  describeCommand(): string {
+    return "fake";
+  }
+
+  async run(): Promise<AgentRunResult> {
+    this.runs++;
+    return {
+      status: "success",
+      exitCode: 0,
+      output: "done",
+      stdout: "",
+      stderr: "",
+      log: {
+        events: [],
+        toolCalls: [],
+        editedFiles: [],
+        resultText: "done",
+        resultSubtype: "success",
+        isError: false,
+        turns: 3,
+        costUsd: 0.75,
+        usage: {
+          inputTokens: 100,
+          outputTokens: 50,
+          cacheCreationInputTokens: 10,
+          cacheReadInputTokens: 40,
+        },
+        sessionId: null,
+      },
+      durationMs: 1234,
+    };
+  }
+}
+
+// Reports a message of 100k Sonnet output tokens ($1.50) at a time until stopped
+class StreamingRunner implements AgentRunner {
+  readonly name = "Streaming";
+  messages = 0;
+
+  describeCommand(): string {
+    return "streaming";
+  }
+
+  async run(options: AgentRunOptions): Promise<AgentRunResult> {
+    while (!options.signal?.aborted && this.messages < 10) {
+      this.messages++;
+      options.onEvent?.({
+        type: "usage",
+        messageId: `msg-${this.messages}`,
+        model: "claude-sonnet-4-5",
+        usage: { inputTokens: 0, outputTokens: 100_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+      });
+    }
+    return { status: "failed", exitCode: null, output: "", stdout: "", stderr: "", log: null, durationMs: 500 };
+  }
+}
+
+describe("Usage Ledger", () => {
+  let testDir: string;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), "usage-ledger-test-"));
+    ledger = new UsageLedger({ dbPath: join(testDir, "usage.db") });
+  });
+
+  afterEach(() => {
+    ledger.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("should aggregate runs per task and per project since a date", () => {
+    ledger.record(usage({ kind: "clarity", costUsd: 0.25 }));
+    ledger.record(usage({ kind: "implementation", costUsd: 2 }));
+    ledger.record(usage({ taskKey: "PROJ-2", costUsd: 4, createdAt: Date.UTC(2026, 1, 20) }));
+
+    expect(ledger.getTaskTotals("PROJ-1")).toEqual({
+      runs: 2,
+      inputTokens: 2000,
+      outputTokens: 400,
+      costUsd: 2.25,
+      durationMs: 120_000,
+    });
+    expect(ledger.getProjectTotals("PROJ", Date.UTC(2026, 2, 1)).costUsd).toBe(2.25);
+    expect(ledger.getProjectTotals("PROJ", 0).runs).toBe(3);
+    expect(ledger.getTaskTotals("OTHER-1").runs).toBe(0);
+  });
+
+  describe("checkBudget", () => {
+    const settings: ProjectSettings = {
+      projects: { PROJ: { maxCostPerTask: 3, monthlyBudget: 10 } },
+    };
+    const now = new Date(Date.UTC(2026, 2, 20));
+
+    test("should allow runs without budgets or under them", () => {
+      ledger.record(usage({ costUsd: 2 }));
+
+      expect(checkBudget(ledger, "PROJ-1", null, now)).toBeNull();
+      expect(checkBudget(ledger, "PROJ-1", settings, now)).toBeNull();
+    });
+
+    test("should stop a task that used its per-task budget", () => {
+      ledger.record(usage({ costUsd: 3.1 }));
+
+      expect(checkBudget(ledger, "PROJ-1", settings, now)).toBe(
+        "PROJ-1 has used $3.10 of its $3.00 per-task budget (maxCostPerTask)"
+      );
+      expect(checkBudget(ledger, "PROJ-2", settings, now)).toBeNull();
+    });
+
+    test("should stop every task once the monthly budget is used", () => {
+      for (let i = 2; i <= 6; i++) {
+        ledger.record(usage({ taskKey: `PROJ-${i}`, costUsd: 2 }));
+      }
+      // Spend from the previous month doesn't count
+      ledger.record(usage({ taskKey: "PROJ-9", costUsd: 50, createdAt: Date.UTC(2026, 1, 28) }));
+
+      expect(checkBudget(ledger, "PROJ-7", settings, now)).toBe(
+        "Project PROJ has used $10.00 of its $10.00 monthly budget for 2026-03 (monthlyBudget)"
+      );
+      expect(checkBudget(ledger, "PROJ-7", settings, new Date(Date.UTC(2026, 3, 1)))).toBeNull();
+    });
+  });
+
+  describe("AccountedAgentRunner", () => {
+    test("should record tokens, cost and wall time of each run", async () => {
+      const runner = new AccountedAgentRunner(new FakeRunner(), {
+        taskKey: "PROJ-1",
+        kind: "estimation",
+        settings: null,
+        ledger,
+      });
+
+      const result = await runner.run({ prompt: "estimate", maxTurns: 10 });
+
+      expect(result.status).toBe("success");
+      expect(ledger.getTaskTotals("PROJ-1")).toEqual({
+        runs: 1,
+        inputTokens: 150,
+        outputTokens: 50,
+        costUsd: 0.75,
+        durationMs: 1234,
+      });
+    });
+
+    test("should refuse to run once the budget is exhausted", async () => {
+      const inner = new FakeRunner();
+      const runner = new AccountedAgentRunner(inner, {
+        taskKey: "PROJ-1",
+        kind: "implementation",
+        notify: false,
+        settings: { projects: { PROJ: { maxCostPerTask: 1 } } },
+        ledger,
+      });
+
+      expect((await runner.run({ prompt: "go", maxTurns: 10 })).status).toBe("success");
+      expect((await runner.run({ prompt: "go", maxTurns: 10 })).status).toBe("success");
+
+      const refused = await runner.run({ prompt: "go", maxTurns: 10 });
+      expect(refused.status).toBe("budget_exceeded");
+      expect(refused.error).toContain("per-task budget");
+      expect(inner.runs).toBe(2);
+    });
+
+    test("should stop a run once its estimated cost exhausts the budget", async () => {
+      ledger.record(usage({ costUsd: 1 }));
+      const inner = new StreamingRunner();
+      const runner = new AccountedAgentRunner(inner, {
+        taskKey: "PROJ-1",
+        kind: "implementation",
+        notify: false,
+        settings: { projects: { PROJ: { maxCostPerTask: 5 } } },
+        ledger,
+      });
+
+      const result = await runner.run({ prompt: "go", maxTurns: 10 });
+
+      expect(result.status).toBe("budget_exceeded");
+      expect(result.error).toBe("Budget exhausted: PROJ-1 has used $5.50 of its $5.00 per-task budget (maxCostPerTask)");
+      expect(inner.messages).toBe(3);
+      expect(ledger.getTaskTotals("PROJ-1")).toMatchObject({ runs: 2, outputTokens: 300_200, costUsd: 5.5 });
+    });
+  });
+
+  test("should estimate token cost from the model's price", () => {
+    const tokens = { inputTokens: 1_000_000, outputTokens: 100_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 1_000_000 };
+
+    expect(estimateUsageCost(tokens, "claude-sonnet-4-5-20250929")).toBeCloseTo(4.8);
+    expect(estimateUsageCost(tokens, "claude-opus-4-1-20250805")).toBeCloseTo(24);
+    expect(estimateUsageCost(tokens, "claude-opus-4-5-20251101")).toBeCloseTo(8);
+    expect(estimateUsageCost(tokens, null)).toBeCloseTo(4.8);
+  });
+
+  describe("getReviewAccounting", () => {
+    test("should bill the task named in the PR title or branch", () => {
+      expect(getReviewAccounting("address-review", "o/r", 7, "[PROJ-12] Add export", "main")).toEqual({
+        taskKey: "PROJ-12",
+        kind: "address-review",
+      });
+      expect(getReviewAccounting("hook-fix", "o/r", 7, "Add export", "feature/proj-12-attempt-2")).toEqual({
+        taskKey: "PROJ-12",
+        kind: "hook-fix",
+      });
+    });
+
+    test("should fall back to the PR without tracker notices", () => {
+      expect(getReviewAccounting("address-review", "o/r", 7, "Fix typo", "fix-typo")).toEqual({
+        taskKey: "o/r#7",
+        kind: "address-review",
+        notify: false,
+      });
+    });
+  });
+
+  test("should post one budget notice per task and month", async () => {
+    const notices: string[] = [];
+    const forTask = spyOn(IssueTrackerRegistry, "forTask").mockReturnValue({
+      postBudgetExceededComment: async (taskKey: string) => {
+        notices.push(taskKey);
+      },
+    } as unknown as IssueTracker);
+
+    try {
+      await notifyBudgetExceeded("NOTICE-1", "over budget", null, new Date(Date.UTC(2026, 2, 10)));
+      await notifyBudgetExceeded("NOTICE-1", "over budget", null, new Date(Date.UTC(2026, 2, 20)));
+      await notifyBudgetExceeded("NOTICE-2", "over budget", null, new Date(Date.UTC(2026, 2, 20)));
+      await notifyBudgetExceeded("NOTICE-1", "over budget", null, new Date(Date.UTC(2026, 3, 2)));
+    } finally {
+      forTask.mockRestore();
+    }
+
+    expect(notices).toEqual(["NOTICE-1", "NOTICE-2", "NOTICE-1"]);
+  });
+});
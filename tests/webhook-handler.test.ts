@@ -9,9 +9,15 @@ import {
   isGitHubIP,
   containsBotMention,
   reviewMentionsBot,
+  getPushedBranch,
+  isInternPullRequest,
+  getCiFailure,
 } from "../src/lib/webhook-handler";
 import type {
   PullRequestReviewEvent,
+  PushEvent,
+  CheckRunEvent,
+  CheckSuiteEvent,
   GitHubReviewComment,
   ProcessedReviewComment,
 } from "../src/types/github-webhooks";
@@ -81,8 +87,21 @@ describe("Webhook Handler", () => {
       expect(parseEventType("ping")).toBe("ping");
     });
 
+    test("should parse push event", () => {
+      expect(parseEventType("push")).toBe("push");
+    });
+
+    test("should parse CI events", () => {
+      expect(parseEventType("check_run")).toBe("check_run");
+      expect(parseEventType("check_suite")).toBe("check_suite");
+      expect(parseEventType("workflow_run")).toBe("workflow_run");
+    });
+
+    test("should parse issue_comment event", () => {
+      expect(parseEventType("issue_comment")).toBe("issue_comment");
+    });
+
     test("should return null for unsupported events", () => {
-      expect(parseEventType("push")).toBeNull();
       expect(parseEventType("issues")).toBeNull();
       expect(parseEventType("pull_request")).toBeNull();
     });
@@ -92,6 +111,65 @@ describe("Webhook Handler", () => {
     });
   });
 
+  describe("push events", () => {
+    const push = (ref: string, deleted = false) =>
+      ({ ref, deleted, repository: { full_name: "owner/repo" } }) as unknown as PushEvent;
+
+    test("should return the pushed branch", () => {
+      expect(getPushedBranch(push("refs/heads/main"))).toBe("main");
+      expect(getPushedBranch(push("refs/heads/release/1.2"))).toBe("release/1.2");
+    });
+
+    test("should ignore tags and deleted branches", () => {
+      expect(getPushedBranch(push("refs/tags/v1.0.0"))).toBeNull();
+      expect(getPushedBranch(push("refs/heads/main", true))).toBeNull();
+    });
+
+    test("should recognize pull requests opened by the intern", () => {
+      expect(isInternPullRequest({ title: "[PROJ-1] Add login", head: { ref: "feature/proj-1" } })).toBe(true);
+      expect(isInternPullRequest({ title: "Add login", head: { ref: "feature/proj-1" } })).toBe(false);
+      expect(isInternPullRequest({ title: "[PROJ-1] Add login", head: { ref: "fix/login" } })).toBe(false);
+    });
+  });
+
+  describe("getCiFailure", () => {
+    const pullRequests = [
+      { number: 7, head: { ref: "feature/proj-1", sha: "abc123" }, base: { ref: "main" } },
+      { number: 8, head: { ref: "feature/proj-2", sha: "fff000" }, base: { ref: "main" } },
+    ];
+    const checkRun = (action: string, conclusion: string | null) =>
+      ({
+        action,
+        check_run: { id: 1, name: "test", head_sha: "abc123", status: "completed", conclusion, html_url: "", pull_requests: pullRequests },
+        repository: { full_name: "owner/repo" },
+      }) as unknown as CheckRunEvent;
+
+    test("should report failed runs for PRs still at the run's commit", () => {
+      expect(getCiFailure("check_run", checkRun("completed", "failure"))).toEqual({
+        name: "test",
+        headSha: "abc123",
+        conclusion: "failure",
+        prNumbers: [7],
+      });
+
+      const suite = {
+        action: "completed",
+        check_suite: { id: 2, head_branch: "feature/proj-1", head_sha: "abc123", status: "completed", conclusion: "timed_out", app: { slug: "github-actions", name: "GitHub Actions" }, pull_requests: pullRequests },
+        repository: { full_name: "owner/repo" },
+      } as unknown as CheckSuiteEvent;
+      expect(getCiFailure("check_suite", suite)?.name).toBe("GitHub Actions");
+    });
+
+    test("should ignore passing, unfinished and PR-less runs", () => {
+      expect(getCiFailure("check_run", checkRun("completed", "success"))).toBeNull();
+      expect(getCiFailure("check_run", checkRun("created", null))).toBeNull();
+
+      const noPr = checkRun("completed", "failure");
+      noPr.check_run.pull_requests = [];
+      expect(getCiFailure("check_run", noPr)).toBeNull();
+    });
+  });
+
   describe("containsBotMention", () => {
     test("should detect bot mention with @", () => {
       expect(containsBotMention("@claude-intern please fix this", "claude-intern")).toBe(true);
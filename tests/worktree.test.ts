@@ -385,3 +385,88 @@ describe("Git Worktree with Origin Remote", () => {
     expect(existsSync(join(result2.path!, "feature.txt"))).toBe(false);
   });
 });
+
+describe("Git Worktree Utilities - Task Worktrees", () => {
+  let testDir: string;
+  let repoDir: string;
+  let originalCwd: string;
+  let baseBranch: string;
+  const taskKey = `WT-${Date.now() % 100000}`;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+
+    testDir = join(
+      tmpdir(),
+      `task-worktree-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    repoDir = join(testDir, "test-repo");
+    mkdirSync(repoDir, { recursive: true });
+    process.chdir(repoDir);
+
+    execSync("git init", { cwd: repoDir });
+    execSync("git config user.email 'test@test.com'", { cwd: repoDir });
+    execSync("git config user.name 'Test User'", { cwd: repoDir });
+    writeFileSync(join(repoDir, "README.md"), "# Test Repo\n", "utf8");
+    execSync("git add .", { cwd: repoDir });
+    execSync("git commit -m 'Initial commit'", { cwd: repoDir });
+    baseBranch = execSync("git branch --show-current", { cwd: repoDir }).toString().trim();
+
+    // Untracked settings, as left by `claude-intern init`
+    mkdirSync(join(repoDir, ".claude-intern"), { recursive: true });
+    writeFileSync(join(repoDir, ".claude-intern", "settings.json"), "{}\n", "utf8");
+  });
+
+  afterEach(async () => {
+    await Utils.removeReviewWorktree(Utils.getTaskWorktreePath(taskKey));
+    process.chdir(originalCwd);
+
+    try {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true });
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("should get a worktree path per task", () => {
+    expect(Utils.getTaskWorktreePath("PROJ-1")).toBe("/tmp/claude-intern-worktrees/proj-1");
+    expect(Utils.getTaskWorktreePath("PROJ-2")).not.toBe(Utils.getTaskWorktreePath("PROJ-1"));
+  });
+
+  test("should create a detached worktree with project settings", async () => {
+    const result = await Utils.prepareTaskWorktree(taskKey, baseBranch);
+
+    expect(result.success).toBe(true);
+    expect(result.path).toBe(Utils.getTaskWorktreePath(taskKey));
+    expect(existsSync(join(result.path!, "README.md"))).toBe(true);
+    expect(existsSync(join(result.path!, ".claude-intern", "settings.json"))).toBe(true);
+
+    // The base branch stays free for other worktrees
+    const branch = await Utils.executeGitCommand(["branch", "--show-current"], {
+      cwd: result.path,
+    });
+    expect(branch.output).toBe("");
+  });
+
+  test("should keep the copied settings when the feature branch is created", async () => {
+    const result = await Utils.prepareTaskWorktree(taskKey, baseBranch);
+    process.chdir(result.path!);
+
+    const branch = await Utils.createFeatureBranch(taskKey, baseBranch);
+
+    expect(branch.success).toBe(true);
+    expect(existsSync(join(result.path!, ".claude-intern", "settings.json"))).toBe(true);
+  });
+
+  test("should replace a worktree left over from an earlier run", async () => {
+    const first = await Utils.prepareTaskWorktree(taskKey, baseBranch);
+    writeFileSync(join(first.path!, "leftover.txt"), "stale\n", "utf8");
+
+    const second = await Utils.prepareTaskWorktree(taskKey, baseBranch);
+
+    expect(second.success).toBe(true);
+    expect(existsSync(join(second.path!, "leftover.txt"))).toBe(false);
+  });
+});